@@ -1,23 +1,64 @@
 import { Module } from '@nestjs/common';
 import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
+import { aiServiceAuditLogger } from 'common';
 import { HealthController } from './health.controller';
 import { AIController } from './controllers/ai.controller';
+import { AnalysisController } from './controllers/analysis.controller';
 import { AIService } from './services/ai.service';
 import { OpenAIService } from './services/openai.service';
 import { CacheService } from './services/cache.service';
 import { WorkerClientService } from './services/worker-client.service';
+import { GatewayClientService } from './services/gateway-client.service';
 import { AuditLoggerInitializer } from './services/audit-logger-initializer';
+import { LLM_PROVIDERS, LLMProvider } from './providers/llm-provider.interface';
+import { LLMProviderRegistry } from './providers/llm-provider.registry';
+import { OpenAIProvider } from './providers/openai.provider';
+import { LocalLLMProvider } from './providers/local-llm.provider';
+import { MockLLMProvider } from './providers/mock-llm.provider';
+import { CHAT_TOOLS, CHAT_TOOL_AUDIT_LOGGER, ChatTool } from './tools/chat-tool.interface';
+import { ChatToolRegistry } from './tools/chat-tool.registry';
+import { CreateTaskTool, GetQueueStatsTool, ListFailedTasksTool, RetryTaskTool } from './tools/worker.tools';
+import { GetDashboardStatsTool, GetSecurityReportTool } from './tools/gateway.tools';
 import { ApiKeyGuard } from './guards/api-key.guard';
 import { AIAuditInterceptor } from './interceptors/ai-audit.interceptor';
 
+const LLM_PROVIDER_CLASSES = [OpenAIProvider, LocalLLMProvider, MockLLMProvider];
+const CHAT_TOOL_CLASSES = [
+  GetQueueStatsTool,
+  ListFailedTasksTool,
+  CreateTaskTool,
+  RetryTaskTool,
+  GetDashboardStatsTool,
+  GetSecurityReportTool,
+];
+
 @Module({
   imports: [],
-  controllers: [HealthController, AIController],
+  controllers: [HealthController, AIController, AnalysisController],
   providers: [
     AIService,
     OpenAIService,
+    ...LLM_PROVIDER_CLASSES,
+    {
+      provide: LLM_PROVIDERS,
+      useFactory: (...providers: LLMProvider[]) => providers,
+      inject: LLM_PROVIDER_CLASSES,
+    },
+    LLMProviderRegistry,
+    ...CHAT_TOOL_CLASSES,
+    {
+      provide: CHAT_TOOLS,
+      useFactory: (...tools: ChatTool[]) => tools,
+      inject: CHAT_TOOL_CLASSES,
+    },
+    {
+      provide: CHAT_TOOL_AUDIT_LOGGER,
+      useValue: aiServiceAuditLogger,
+    },
+    ChatToolRegistry,
     CacheService,
     WorkerClientService,
+    GatewayClientService,
     AuditLoggerInitializer,
     // Apply audit logging globally
     {
@@ -32,6 +73,7 @@ import { AIAuditInterceptor } from './interceptors/ai-audit.interceptor';
   exports: [
     AIService,
     OpenAIService,
+    LLMProviderRegistry,
     CacheService,
     WorkerClientService,
   ],
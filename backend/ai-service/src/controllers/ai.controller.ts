@@ -1,6 +1,16 @@
-import { Controller, Post, Get, Delete, Body, Param, HttpCode, HttpStatus, Logger } from '@nestjs/common';
+import { Controller, Post, Get, Delete, Body, Param, Res, Headers, HttpCode, HttpStatus, Logger } from '@nestjs/common';
+import { Response } from 'express';
 import { AIService } from '../services/ai.service';
-import { ChatMessageDto, ChatResponseDto, InsightsRequestDto, InsightsResponseDto } from '../dto/chat.dto';
+import { LLMProviderDescription } from '../providers/llm-provider.registry';
+import { ChatCaller } from '../tools/chat-tool.interface';
+import {
+  ChatMessageDto,
+  ChatResponseDto,
+  InsightsRequestDto,
+  InsightsResponseDto,
+  RecommendationsRequestDto,
+  RecommendationsResponseDto,
+} from '../dto/chat.dto';
 
 @Controller('ai')
 export class AIController {
@@ -10,13 +20,63 @@ export class AIController {
 
   /**
    * POST /ai/chat
-   * Send a message to the AI assistant and receive a response
+   * Send a message to the AI assistant and receive a response. The assistant may look up live
+   * dashboard data with the permissions of the user the API Gateway forwards.
    */
   @Post('chat')
   @HttpCode(HttpStatus.OK)
-  async chat(@Body() chatDto: ChatMessageDto): Promise<ChatResponseDto> {
+  async chat(
+    @Body() chatDto: ChatMessageDto,
+    @Headers() headers: Record<string, string | undefined> = {},
+  ): Promise<ChatResponseDto> {
     this.logger.log('Received chat request');
-    return await this.aiService.processChat(chatDto);
+    return await this.aiService.processChat(chatDto, this.getCaller(headers));
+  }
+
+  /**
+   * POST /ai/chat/stream
+   * Send a message to the AI assistant and receive the response as Server-Sent Events:
+   * `token` events while it is generated, then a `done` event, or an `error` event if it fails
+   */
+  @Post('chat/stream')
+  async chatStream(
+    @Body() chatDto: ChatMessageDto,
+    @Res() res: Response,
+    @Headers() headers: Record<string, string | undefined> = {},
+  ): Promise<void> {
+    this.logger.log('Received streaming chat request');
+
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    // Stop proxies such as nginx from buffering the stream
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+    });
+
+    try {
+      for await (const event of this.aiService.streamChat(chatDto, this.getCaller(headers))) {
+        // Leaving the loop ends the generator, which stops the completion
+        if (closed) {
+          this.logger.log('Client disconnected, stopping chat stream');
+          break;
+        }
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(`Chat stream failed: ${err.message}`, err.stack);
+      if (!closed) {
+        res.write(`event: error\ndata: ${JSON.stringify({ message: err.message })}\n\n`);
+      }
+    }
+
+    res.end();
   }
 
   /**
@@ -30,6 +90,27 @@ export class AIController {
     return await this.aiService.generateInsights(insightsDto);
   }
 
+  /**
+   * POST /ai/recommendations
+   * Recommend actions for a user based on their context
+   */
+  @Post('recommendations')
+  @HttpCode(HttpStatus.OK)
+  async getRecommendations(@Body() recommendationsDto: RecommendationsRequestDto): Promise<RecommendationsResponseDto> {
+    this.logger.log(`Received recommendations request for user: ${recommendationsDto.userId}`);
+    return await this.aiService.getRecommendations(recommendationsDto);
+  }
+
+  /**
+   * GET /ai/providers
+   * List the LLM providers a request can select, and the default one
+   */
+  @Get('providers')
+  getProviders(): LLMProviderDescription[] {
+    this.logger.log('Listing AI providers');
+    return this.aiService.listProviders();
+  }
+
   /**
    * GET /ai/conversation/:conversationId
    * Retrieve conversation history by ID
@@ -89,4 +170,15 @@ export class AIController {
       timestamp: new Date(),
     };
   }
+
+  // User info is set by the API Gateway, like for the audit interceptor
+  private getCaller(headers: Record<string, string | undefined>): ChatCaller {
+    return {
+      userId: headers['x-user-id'],
+      userEmail: headers['x-user-email'],
+      userRole: headers['x-user-role'],
+      ipAddress: headers['x-forwarded-for']?.split(',')[0],
+      authorization: headers['authorization'],
+    };
+  }
 }
@@ -0,0 +1,62 @@
+import { Controller, Post, Get, Body, Query, HttpCode, HttpStatus, Logger } from '@nestjs/common';
+import { AIService } from '../services/ai.service';
+import {
+  SummarizeRequestDto,
+  SummarizeResponseDto,
+  PredictRequestDto,
+  PredictResponseDto,
+  AnomaliesRequestDto,
+  AnomaliesResponseDto,
+  ConversationQueryDto,
+  ConversationMessagesResponseDto,
+} from '../dto/chat.dto';
+
+@Controller('api')
+export class AnalysisController {
+  private readonly logger = new Logger(AnalysisController.name);
+
+  constructor(private readonly aiService: AIService) {}
+
+  /**
+   * POST /api/summarize
+   * Summarize a text or describe a JSON object
+   */
+  @Post('summarize')
+  @HttpCode(HttpStatus.OK)
+  async summarize(@Body() summarizeDto: SummarizeRequestDto): Promise<SummarizeResponseDto> {
+    this.logger.log(`Received ${summarizeDto.type} summary request`);
+    return await this.aiService.summarize(summarizeDto);
+  }
+
+  /**
+   * POST /api/predict
+   * Forecast a metric from its history
+   */
+  @Post('predict')
+  @HttpCode(HttpStatus.OK)
+  async predict(@Body() predictDto: PredictRequestDto): Promise<PredictResponseDto> {
+    this.logger.log(`Received prediction request for metric: ${predictDto.metricName}`);
+    return await this.aiService.predictTrends(predictDto);
+  }
+
+  /**
+   * POST /api/anomalies
+   * Detect anomalous data points in a series
+   */
+  @Post('anomalies')
+  @HttpCode(HttpStatus.OK)
+  async detectAnomalies(@Body() anomaliesDto: AnomaliesRequestDto): Promise<AnomaliesResponseDto> {
+    this.logger.log(`Received anomaly detection request with ${anomaliesDto.dataPoints.length} data points`);
+    return await this.aiService.detectAnomalies(anomaliesDto);
+  }
+
+  /**
+   * GET /api/conversations?conversationId=...&limit=...&offset=...
+   * Page through the messages of a conversation
+   */
+  @Get('conversations')
+  async listConversationMessages(@Query() query: ConversationQueryDto): Promise<ConversationMessagesResponseDto> {
+    this.logger.log(`Listing conversation messages: ${query.conversationId}`);
+    return await this.aiService.listConversationMessages(query);
+  }
+}
@@ -1,4 +1,23 @@
-import { IsString, IsNotEmpty, IsOptional, IsArray, MaxLength } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsArray,
+  MaxLength,
+  IsObject,
+  IsInt,
+  Min,
+  Max,
+  IsIn,
+  IsNumber,
+  IsBoolean,
+  IsDateString,
+  ArrayNotEmpty,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { LLM_PROVIDER_NAMES } from '../providers/llm-provider.interface';
 
 export class ChatMessageDto {
   @IsString()
@@ -13,20 +32,77 @@ export class ChatMessageDto {
   @IsArray()
   @IsOptional()
   context?: string[];
+
+  /** LLM provider to use (default: see GET /ai/providers) */
+  @IsIn(LLM_PROVIDER_NAMES)
+  @IsOptional()
+  provider?: string;
+
+  /** Run the action the previous response proposed (its `pendingAction.id`) */
+  @IsString()
+  @IsOptional()
+  confirmActionId?: string;
+}
+
+/**
+ * A tool call that changes data, proposed by the assistant and waiting for the user to confirm it
+ */
+export class PendingActionDto {
+  id: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  description: string;
+}
+
+/**
+ * Token usage of a conversation, as of a response
+ */
+export class ConversationUsageDto {
+  /** Tokens used by all responses of the conversation, this one included */
+  tokensUsed: number;
+  /** Tokens of the prompt sent for this response: system prompt, summary and recent messages */
+  contextTokens: number;
+  /** Maximum tokens of summary and recent messages sent with a message */
+  tokenBudget: number;
+  /** Number of earlier messages replaced by the summary */
+  summarizedMessages: number;
 }
 
 export class ChatResponseDto {
   conversationId: string;
   response: string;
   timestamp: Date;
+  /** Send `confirmActionId` with the next message to run it; any other message discards it */
+  pendingAction?: PendingActionDto;
   metadata?: {
     model?: string;
     tokensUsed?: number;
     confidence?: number;
     cached?: boolean;
+    /** The LLM provider that generated the response */
+    provider?: string;
+    /** Tools the assistant ran to answer, in order */
+    toolCalls?: string[];
+    conversation?: ConversationUsageDto;
   };
 }
 
+/**
+ * An event of POST /ai/chat/stream
+ */
+export class ChatStreamEventDto {
+  type: 'token' | 'done';
+  conversationId: string;
+  /** Text to append to the response (token events) */
+  token?: string;
+  /** The complete response (done event) */
+  response?: string;
+  timestamp?: Date;
+  /** Action awaiting the user's confirmation (done event) */
+  pendingAction?: PendingActionDto;
+  metadata?: ChatResponseDto['metadata'];
+}
+
 export class InsightsRequestDto {
   @IsArray()
   @IsNotEmpty()
@@ -49,6 +125,10 @@ export class InsightsRequestDto {
 
   @IsOptional()
   async?: boolean;
+
+  @IsIn(LLM_PROVIDER_NAMES)
+  @IsOptional()
+  provider?: string;
 }
 
 export class InsightsResponseDto {
@@ -71,3 +151,170 @@ export class InsightsResponseDto {
     async?: boolean;
   };
 }
+
+export class RecommendationsRequestDto {
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+
+  @IsObject()
+  context: Record<string, unknown>;
+
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  @IsOptional()
+  count?: number;
+
+  @IsIn(LLM_PROVIDER_NAMES)
+  @IsOptional()
+  provider?: string;
+}
+
+export class RecommendationDto {
+  id: string;
+  title: string;
+  description: string;
+  priority: 'low' | 'medium' | 'high';
+  confidence: number;
+}
+
+export class RecommendationsResponseDto {
+  recommendations: RecommendationDto[];
+}
+
+export class SummarizeRequestDto {
+  // Either free text or a JSON object, validated in AIService.summarize
+  @IsNotEmpty()
+  content: string | Record<string, unknown>;
+
+  @IsIn(['text', 'data'])
+  type: 'text' | 'data';
+
+  @IsInt()
+  @Min(20)
+  @IsOptional()
+  maxLength?: number;
+
+  @IsIn(LLM_PROVIDER_NAMES)
+  @IsOptional()
+  provider?: string;
+}
+
+export class SummarizeResponseDto {
+  summary: string;
+  keyPoints: string[];
+  sentiment?: 'positive' | 'neutral' | 'negative';
+}
+
+export class TimeSeriesPointDto {
+  @IsDateString()
+  timestamp: string;
+
+  @IsNumber({ allowNaN: false, allowInfinity: false })
+  value: number;
+}
+
+export class PredictRequestDto {
+  @IsString()
+  @IsNotEmpty()
+  metricName: string;
+
+  @IsArray()
+  @ArrayMinSize(2)
+  @ValidateNested({ each: true })
+  @Type(() => TimeSeriesPointDto)
+  historicalData: TimeSeriesPointDto[];
+
+  /** Days to forecast, one prediction per day */
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  predictionHorizon: number;
+
+  @IsBoolean()
+  @IsOptional()
+  includeConfidenceInterval?: boolean;
+
+  @IsIn(LLM_PROVIDER_NAMES)
+  @IsOptional()
+  provider?: string;
+}
+
+export class PredictResponseDto {
+  predictions: {
+    timestamp: Date;
+    predictedValue: number;
+    confidenceInterval?: {
+      lower: number;
+      upper: number;
+    };
+  }[];
+  trendDirection: 'increasing' | 'decreasing' | 'stable';
+  /** Goodness of fit of the model on the historical data, 0 to 1 */
+  accuracy: number;
+}
+
+export class AnomalyDataPointDto extends TimeSeriesPointDto {
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>;
+}
+
+export class AnomaliesRequestDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => AnomalyDataPointDto)
+  dataPoints: AnomalyDataPointDto[];
+
+  @IsIn(['low', 'medium', 'high'])
+  @IsOptional()
+  sensitivity?: 'low' | 'medium' | 'high';
+
+  @IsIn(LLM_PROVIDER_NAMES)
+  @IsOptional()
+  provider?: string;
+}
+
+export class AnomaliesResponseDto {
+  anomalies: {
+    timestamp: string;
+    value: number;
+    severity: 'low' | 'medium' | 'high' | 'critical';
+    reason: string;
+    metadata?: Record<string, unknown>;
+  }[];
+  totalDataPoints: number;
+  /** Share of the data points that are anomalous, 0 to 1 */
+  anomalyRate: number;
+}
+
+export class ConversationQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  conversationId: string;
+
+  // Query parameters arrive as strings
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  @IsOptional()
+  limit?: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  offset?: number;
+}
+
+export class ConversationMessagesResponseDto {
+  messages: {
+    role: string;
+    content: string;
+    timestamp?: string;
+  }[];
+  total: number;
+}
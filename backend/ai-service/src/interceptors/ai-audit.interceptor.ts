@@ -24,7 +24,7 @@ export class AIAuditInterceptor implements NestInterceptor {
     // Map endpoint to audit action
     if (url.includes('/chat') && method === 'POST') {
       action = AuditAction.AI_CHAT_CREATE;
-    } else if (url.includes('/insights') && method === 'POST') {
+    } else if (/\/(insights|recommendations|summarize|predict|anomalies)/.test(url) && method === 'POST') {
       action = AuditAction.AI_ANALYSIS_REQUEST;
     } else if (url.includes('/conversation') && method === 'GET') {
       action = AuditAction.AI_CHAT_VIEW;
@@ -0,0 +1,103 @@
+/**
+ * Injection token for the registered LLMProviders
+ */
+export const LLM_PROVIDERS = 'LLM_PROVIDERS';
+
+/**
+ * Names of the built-in providers, accepted as the `provider` of a request and as AI_PROVIDER
+ */
+export const LLM_PROVIDER_NAMES = ['openai', 'local', 'mock'];
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Tools an assistant message asked to call */
+  toolCalls?: LLMToolCall[];
+  /** The call a tool message answers */
+  toolCallId?: string;
+}
+
+/**
+ * A function the model may ask to call
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema of the arguments object */
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LLMCompletionOptions {
+  /** Default: the provider's model */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Tools the model may call instead of answering (chat only) */
+  tools?: LLMToolDefinition[];
+}
+
+export interface LLMCompletion {
+  content: string;
+  tokensUsed: number;
+  /** The model that generated the completion */
+  model: string;
+  /** Tools the model asked to call; their results are expected in the next request */
+  toolCalls?: LLMToolCall[];
+}
+
+/**
+ * LLM Provider
+ * A backend that generates completions and embeddings. Methods throw when the backend fails;
+ * callers decide whether to fall back to an offline implementation.
+ */
+export interface LLMProvider {
+  /** Name used to select the provider, e.g. `openai` */
+  readonly name: string;
+  /** Model used when a request doesn't name one */
+  readonly model: string;
+
+  /**
+   * Whether the provider is configured and can be used
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Generate a chat completion
+   * @param messages - The conversation, oldest first
+   * @param options - Sampling options
+   */
+  chat(messages: LLMMessage[], options?: LLMCompletionOptions): Promise<LLMCompletion>;
+
+  /**
+   * Generate a chat completion chunk by chunk
+   * @param messages - The conversation, oldest first
+   * @param options - Sampling options
+   * @returns The text chunks, in order, then the tools the model asked to call as the generator's
+   * return value
+   */
+  stream(
+    messages: LLMMessage[],
+    options?: LLMCompletionOptions,
+  ): AsyncGenerator<string, LLMToolCall[] | undefined, unknown>;
+
+  /**
+   * Embed a text for semantic search or similarity
+   * @param text - The text to embed
+   */
+  embed(text: string): Promise<number[]>;
+
+  /**
+   * Ask for a JSON object
+   * @param systemPrompt - Instructions, including the expected shape of the object
+   * @param userPrompt - The input to answer
+   * @param options - Sampling options
+   * @returns The parsed object, or null if the answer contains no valid JSON object
+   */
+  structured<T>(systemPrompt: string, userPrompt: string, options?: LLMCompletionOptions): Promise<T | null>;
+}
@@ -0,0 +1,92 @@
+import { Injectable, Inject, Logger, BadRequestException } from '@nestjs/common';
+import { LLM_PROVIDERS, LLMProvider } from './llm-provider.interface';
+
+/**
+ * A provider as listed by GET /ai/providers
+ */
+export interface LLMProviderDescription {
+  name: string;
+  model: string;
+  available: boolean;
+  /** Whether requests that don't name a provider use this one */
+  default: boolean;
+}
+
+// Used in this order when AI_PROVIDER is not set; the mock provider is always available
+const DEFAULT_PREFERENCE = ['openai', 'local', 'mock'];
+
+/**
+ * LLM Provider Registry
+ * Resolves the provider a request should use: the one it names, otherwise AI_PROVIDER, otherwise
+ * the first available of OpenAI, the local server and the mock provider.
+ */
+@Injectable()
+export class LLMProviderRegistry {
+  private readonly logger = new Logger(LLMProviderRegistry.name);
+  private providers: Map<string, LLMProvider> = new Map();
+  private readonly configured?: string;
+
+  constructor(@Inject(LLM_PROVIDERS) providers: LLMProvider[]) {
+    providers.forEach((provider) => this.providers.set(provider.name, provider));
+    this.configured = process.env.AI_PROVIDER || undefined;
+
+    if (this.configured) {
+      const provider = this.providers.get(this.configured);
+
+      if (!provider) {
+        throw new Error(`Unsupported AI_PROVIDER: ${this.configured}`);
+      }
+      if (!provider.isAvailable()) {
+        throw new Error(`AI_PROVIDER is ${this.configured} but that provider is not configured`);
+      }
+    }
+
+    this.logger.log(`Default AI provider: ${this.getDefault().name}`);
+  }
+
+  /**
+   * Get the provider for a request
+   * @param name - The provider the request names, if any
+   * @throws BadRequestException if the named provider is unknown or not configured
+   */
+  resolve(name?: string): LLMProvider {
+    if (!name) {
+      return this.getDefault();
+    }
+
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new BadRequestException(`Unknown AI provider: ${name}`);
+    }
+    if (!provider.isAvailable()) {
+      throw new BadRequestException(`AI provider ${name} is not configured`);
+    }
+    return provider;
+  }
+
+  /**
+   * Describe the registered providers
+   */
+  list(): LLMProviderDescription[] {
+    const defaultProvider = this.getDefault();
+
+    return [...this.providers.values()].map((provider) => ({
+      name: provider.name,
+      model: provider.model,
+      available: provider.isAvailable(),
+      default: provider === defaultProvider,
+    }));
+  }
+
+  private getDefault(): LLMProvider {
+    if (this.configured) {
+      return this.providers.get(this.configured)!;
+    }
+
+    const provider = DEFAULT_PREFERENCE.map((name) => this.providers.get(name)).find((p) => p?.isAvailable());
+    if (!provider) {
+      throw new Error('No AI provider is available');
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,127 @@
+import { Injectable, Logger } from '@nestjs/common';
+import OpenAI from 'openai';
+import { LLMCompletion, LLMCompletionOptions, LLMMessage, LLMProvider, LLMToolCall } from './llm-provider.interface';
+import { STRUCTURED_OUTPUT_INSTRUCTION, parseJsonObject } from './structured-output';
+import { fromOpenAIToolCalls, mergeOpenAIToolCallDeltas, toOpenAIMessages, toOpenAITools } from './openai-format';
+
+/**
+ * Local LLM Provider
+ * Generates completions with a self-hosted server exposing the OpenAI API, such as Ollama or
+ * the llama.cpp server, so no request leaves the network.
+ *
+ * Configuration:
+ * - AI_LOCAL_BASE_URL: base URL of the API, e.g. `http://localhost:11434/v1` (required)
+ * - AI_LOCAL_MODEL: chat model (default: llama3.1)
+ * - AI_LOCAL_EMBEDDING_MODEL: embedding model (default: nomic-embed-text)
+ * - AI_LOCAL_API_KEY: sent as bearer token, for servers that require one
+ */
+@Injectable()
+export class LocalLLMProvider implements LLMProvider {
+  readonly name = 'local';
+  readonly model = process.env.AI_LOCAL_MODEL || 'llama3.1';
+
+  private readonly logger = new Logger(LocalLLMProvider.name);
+  private readonly embeddingModel = process.env.AI_LOCAL_EMBEDDING_MODEL || 'nomic-embed-text';
+  private readonly client: OpenAI | null = null;
+  private readonly defaultTemperature = 0.7;
+  private readonly defaultMaxTokens = 2000;
+
+  constructor() {
+    const baseURL = process.env.AI_LOCAL_BASE_URL;
+
+    if (baseURL) {
+      // The SDK requires a key even though local servers usually ignore it
+      this.client = new OpenAI({ baseURL, apiKey: process.env.AI_LOCAL_API_KEY || 'local' });
+      this.logger.log(`Local LLM provider using ${baseURL} (model: ${this.model})`);
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.client !== null;
+  }
+
+  async chat(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    try {
+      const completion = await this.getClient().chat.completions.create({
+        model: options.model || this.model,
+        messages: toOpenAIMessages(messages),
+        temperature: options.temperature ?? this.defaultTemperature,
+        max_tokens: options.maxTokens || this.defaultMaxTokens,
+        tools: toOpenAITools(options.tools),
+        stream: false,
+      });
+
+      return {
+        content: completion.choices[0]?.message?.content || '',
+        tokensUsed: completion.usage?.total_tokens || 0,
+        model: completion.model || options.model || this.model,
+        toolCalls: fromOpenAIToolCalls(completion.choices[0]?.message?.tool_calls),
+      };
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(`Local LLM error: ${err.message}`, err.stack);
+      throw new Error(`Failed to generate completion: ${err.message}`);
+    }
+  }
+
+  async *stream(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions = {},
+  ): AsyncGenerator<string, LLMToolCall[] | undefined, unknown> {
+    try {
+      const stream = await this.getClient().chat.completions.create({
+        model: options.model || this.model,
+        messages: toOpenAIMessages(messages),
+        temperature: options.temperature ?? this.defaultTemperature,
+        max_tokens: options.maxTokens || this.defaultMaxTokens,
+        tools: toOpenAITools(options.tools),
+        stream: true,
+      });
+
+      const toolCalls: OpenAI.Chat.ChatCompletionMessageFunctionToolCall[] = [];
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content || '';
+        if (content) {
+          yield content;
+        }
+        mergeOpenAIToolCallDeltas(toolCalls, chunk.choices[0]?.delta?.tool_calls);
+      }
+
+      return fromOpenAIToolCalls(toolCalls);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(`Local LLM streaming error: ${err.message}`, err.stack);
+      throw new Error(`Failed to stream completion: ${err.message}`);
+    }
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.getClient().embeddings.create({ model: this.embeddingModel, input: text });
+
+    return response.data[0].embedding;
+  }
+
+  async structured<T>(systemPrompt: string, userPrompt: string, options: LLMCompletionOptions = {}): Promise<T | null> {
+    const response = await this.chat(
+      [
+        { role: 'system', content: `${systemPrompt}\n${STRUCTURED_OUTPUT_INSTRUCTION}` },
+        { role: 'user', content: userPrompt },
+      ],
+      { temperature: 0.3, ...options },
+    );
+
+    const result = parseJsonObject<T>(response.content);
+    if (!result) {
+      this.logger.warn('Response did not contain a valid JSON object');
+    }
+
+    return result;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      throw new Error('Local LLM provider not configured. Please set AI_LOCAL_BASE_URL environment variable.');
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,167 @@
+import { Injectable } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { LLMCompletion, LLMCompletionOptions, LLMMessage, LLMProvider, LLMToolCall } from './llm-provider.interface';
+import { parseJsonObject } from './structured-output';
+import { countMessageTokens, countTokens } from './token-counter';
+
+const EMBEDDING_DIMENSIONS = 64;
+
+/**
+ * A scripted chat answer that calls tools instead of replying
+ */
+export interface MockToolCallReply {
+  toolCalls: Array<{ name: string; arguments?: Record<string, unknown> }>;
+}
+
+/**
+ * A scripted answer: text for chat and stream requests, an object for structured requests,
+ * tool calls for chat and stream requests, or an error to throw
+ */
+export type MockLLMReply = string | Record<string, unknown> | MockToolCallReply | Error;
+
+/**
+ * A request received by the mock provider
+ */
+export interface MockLLMCall {
+  method: 'chat' | 'stream' | 'embed' | 'structured';
+  messages: LLMMessage[];
+  options: LLMCompletionOptions;
+}
+
+/**
+ * Mock LLM Provider
+ * Answers without any network access, so the stack and its tests run offline. Scripted replies
+ * are returned first, in order; once they run out, chat answers are a fixed demo message built
+ * from the last user message (or a list of the tool results that follow it) and structured
+ * requests return null so callers use their offline implementation. Embeddings are derived from a hash of the text. Always available.
+ */
+@Injectable()
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model = 'mock-ai-model';
+  /** Every request received, oldest first */
+  readonly calls: MockLLMCall[] = [];
+
+  private replies: MockLLMReply[] = [];
+  private toolCallCount = 0;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  /**
+   * Queue replies for the next requests
+   * @param replies - One reply per request, in order
+   */
+  script(...replies: MockLLMReply[]): void {
+    this.replies.push(...replies);
+  }
+
+  /**
+   * Drop the remaining scripted replies and the recorded requests
+   */
+  reset(): void {
+    this.replies = [];
+    this.calls.length = 0;
+  }
+
+  async chat(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    this.calls.push({ method: 'chat', messages: [...messages], options });
+    const reply = this.replies.shift();
+
+    if (this.isToolCallReply(reply)) {
+      return {
+        content: '',
+        tokensUsed: countMessageTokens(messages, options.model || this.model),
+        model: options.model || this.model,
+        toolCalls: this.toToolCalls(reply),
+      };
+    }
+
+    const content = this.toText(reply, messages);
+    const model = options.model || this.model;
+
+    return {
+      content,
+      tokensUsed: countMessageTokens(messages, model) + countTokens(content, model),
+      model,
+    };
+  }
+
+  async *stream(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions = {},
+  ): AsyncGenerator<string, LLMToolCall[] | undefined, unknown> {
+    this.calls.push({ method: 'stream', messages: [...messages], options });
+    const reply = this.replies.shift();
+
+    if (this.isToolCallReply(reply)) {
+      return this.toToolCalls(reply);
+    }
+
+    // One word at a time, each with the whitespace before it
+    for (const token of this.toText(reply, messages).match(/\s*\S+/g) ?? []) {
+      yield token;
+    }
+  }
+
+  async embed(text: string): Promise<number[]> {
+    this.calls.push({ method: 'embed', messages: [{ role: 'user', content: text }], options: {} });
+
+    const hash = crypto.createHash('sha512').update(text).digest();
+    const vector = Array.from({ length: EMBEDDING_DIMENSIONS }, (_, i) => hash[i] / 255 - 0.5);
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+
+    return vector.map((value) => value / norm);
+  }
+
+  async structured<T>(systemPrompt: string, userPrompt: string, options: LLMCompletionOptions = {}): Promise<T | null> {
+    this.calls.push({
+      method: 'structured',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      options,
+    });
+    const reply = this.replies.shift();
+
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    if (typeof reply === 'string') {
+      return parseJsonObject<T>(reply);
+    }
+    return (reply as T | undefined) ?? null;
+  }
+
+  private toToolCalls(reply: MockToolCallReply): LLMToolCall[] {
+    return reply.toolCalls.map((call) => ({
+      id: `call_${++this.toolCallCount}`,
+      name: call.name,
+      arguments: call.arguments ?? {},
+    }));
+  }
+
+  private toText(reply: MockLLMReply | undefined, messages: LLMMessage[]): string {
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    if (reply !== undefined) {
+      return typeof reply === 'string' ? reply : JSON.stringify(reply);
+    }
+
+    const lastUser = messages.map((m) => m.role).lastIndexOf('user');
+    const toolResults = messages.slice(lastUser + 1).filter((m) => m.role === 'tool');
+    if (toolResults.length > 0) {
+      return `Here is what I found:\n${toolResults.map((m) => m.content).join('\n')}`;
+    }
+
+    const question = messages[lastUser]?.content ?? '';
+    return `I understand you're asking about: "${question}". I'm currently running in demo mode. Please configure the OPENAI_API_KEY or AI_LOCAL_BASE_URL to enable full AI capabilities.`;
+  }
+
+  private isToolCallReply(reply: MockLLMReply | undefined): reply is MockToolCallReply {
+    return typeof reply === 'object' && !(reply instanceof Error) && Array.isArray(reply.toolCalls);
+  }
+}
@@ -0,0 +1,77 @@
+import OpenAI from 'openai';
+import { LLMMessage, LLMToolCall, LLMToolDefinition } from './llm-provider.interface';
+
+/**
+ * Convert messages to the chat completions format of the OpenAI API
+ */
+export function toOpenAIMessages(messages: LLMMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map((message): OpenAI.Chat.ChatCompletionMessageParam => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId ?? '', content: message.content };
+    }
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+export function toOpenAITools(tools?: LLMToolDefinition[]): OpenAI.Chat.ChatCompletionTool[] | undefined {
+  if (!tools?.length) {
+    return undefined;
+  }
+
+  return tools.map((tool) => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+/**
+ * Read the tool calls of a completion. Arguments that are not a JSON object are passed on as
+ * an empty object, so the tool reports what is missing.
+ */
+export function fromOpenAIToolCalls(toolCalls?: OpenAI.Chat.ChatCompletionMessageToolCall[]): LLMToolCall[] | undefined {
+  const calls = toolCalls
+    ?.filter((call) => call.type === 'function')
+    .map((call) => {
+      let args: unknown;
+      try {
+        args = JSON.parse(call.function.arguments || '{}');
+      } catch {
+        args = {};
+      }
+
+      return {
+        id: call.id,
+        name: call.function.name,
+        arguments: args !== null && typeof args === 'object' && !Array.isArray(args) ? (args as Record<string, unknown>) : {},
+      };
+    });
+
+  return calls?.length ? calls : undefined;
+}
+
+/**
+ * Add the tool call fragments of a streamed completion chunk to the calls read so far. The first
+ * fragment of a call carries its id and name, later ones more of its arguments.
+ */
+export function mergeOpenAIToolCallDeltas(
+  calls: OpenAI.Chat.ChatCompletionMessageFunctionToolCall[],
+  deltas?: OpenAI.Chat.ChatCompletionChunk.Choice.Delta.ToolCall[],
+): void {
+  for (const delta of deltas ?? []) {
+    const call = (calls[delta.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } });
+    call.id ||= delta.id ?? '';
+    call.function.name += delta.function?.name ?? '';
+    call.function.arguments += delta.function?.arguments ?? '';
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { OpenAIService } from '../services/openai.service';
+import { LLMCompletion, LLMCompletionOptions, LLMMessage, LLMProvider, LLMToolCall } from './llm-provider.interface';
+
+/**
+ * OpenAI Provider
+ * Generates completions with the OpenAI API through OpenAIService. Available when
+ * OPENAI_API_KEY is set; OPENAI_MODEL selects the chat model (default: gpt-3.5-turbo).
+ */
+@Injectable()
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model = process.env.OPENAI_MODEL || 'gpt-3.5-turbo';
+
+  constructor(private readonly openaiService: OpenAIService) {}
+
+  isAvailable(): boolean {
+    return this.openaiService.isAvailable();
+  }
+
+  chat(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    return this.openaiService.createChatCompletion(messages, { ...options, model: options.model ?? this.model });
+  }
+
+  stream(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions = {},
+  ): AsyncGenerator<string, LLMToolCall[] | undefined, unknown> {
+    return this.openaiService.streamChatCompletion(messages, { ...options, model: options.model ?? this.model });
+  }
+
+  embed(text: string): Promise<number[]> {
+    return this.openaiService.createEmbedding(text);
+  }
+
+  structured<T>(systemPrompt: string, userPrompt: string, options: LLMCompletionOptions = {}): Promise<T | null> {
+    // Structured answers default to a newer model than chat (see OpenAIService.createJsonCompletion)
+    return this.openaiService.createJsonCompletion<T>(systemPrompt, userPrompt, options);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Appended to the system prompt of structured requests
+ */
+export const STRUCTURED_OUTPUT_INSTRUCTION = 'Respond with the JSON object only.';
+
+/**
+ * Parse the JSON object in a model's answer, ignoring any text around it
+ * @returns The object, or null if the answer contains no valid JSON object
+ */
+export function parseJsonObject<T>(content: string): T | null {
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(jsonMatch[0]) as T;
+  } catch {
+    return null;
+  }
+}
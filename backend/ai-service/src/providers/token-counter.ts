@@ -0,0 +1,107 @@
+import { LLMMessage } from './llm-provider.interface';
+
+/**
+ * Token counts for the models the providers use. The tokenizers themselves aren't bundled, so a
+ * text is split the way the model's tokenizer pre-splits it (words, number groups, punctuation
+ * and whitespace runs) and each piece is costed by its length. Counts are close to, but not
+ * exactly, what the provider bills; use them to budget prompts, not to bill.
+ */
+
+export interface TokenizerProfile {
+  /** The tokenizer family, e.g. `cl100k_base` */
+  encoding: 'o200k_base' | 'cl100k_base' | 'llama3' | 'sentencepiece';
+  /** Average letters per token in a word */
+  charsPerToken: number;
+  /** Tokens the model can attend to, prompt and completion together */
+  contextWindow: number;
+  /** Tokens the chat format adds around each message */
+  tokensPerMessage: number;
+}
+
+// Matched against the model name in order; the first match wins
+const PROFILES: Array<[RegExp, TokenizerProfile]> = [
+  [/^(gpt-4o|gpt-4\.1|gpt-5|o\d)/, { encoding: 'o200k_base', charsPerToken: 6.5, contextWindow: 128000, tokensPerMessage: 3 }],
+  [/^gpt-4-(turbo|\d{4}-preview)/, { encoding: 'cl100k_base', charsPerToken: 6, contextWindow: 128000, tokensPerMessage: 3 }],
+  [/^gpt-4-32k/, { encoding: 'cl100k_base', charsPerToken: 6, contextWindow: 32768, tokensPerMessage: 3 }],
+  [/^gpt-4/, { encoding: 'cl100k_base', charsPerToken: 6, contextWindow: 8192, tokensPerMessage: 3 }],
+  [/^gpt-3\.5-turbo/, { encoding: 'cl100k_base', charsPerToken: 6, contextWindow: 16385, tokensPerMessage: 3 }],
+  [/^llama-?3\.\d/, { encoding: 'llama3', charsPerToken: 6, contextWindow: 131072, tokensPerMessage: 4 }],
+  [/^llama-?3/, { encoding: 'llama3', charsPerToken: 6, contextWindow: 8192, tokensPerMessage: 4 }],
+  [/^(mistral|mixtral)/, { encoding: 'sentencepiece', charsPerToken: 5, contextWindow: 32768, tokensPerMessage: 4 }],
+  [/^(llama-?2|gemma|phi)/, { encoding: 'sentencepiece', charsPerToken: 5, contextWindow: 4096, tokensPerMessage: 4 }],
+];
+
+// Unknown models (including the mock provider's) are costed like GPT-4 with its small window
+const DEFAULT_PROFILE: TokenizerProfile = {
+  encoding: 'cl100k_base',
+  charsPerToken: 6,
+  contextWindow: 8192,
+  tokensPerMessage: 3,
+};
+
+// Tokens that prime the model's reply after the last message
+const REPLY_PRIMING_TOKENS = 3;
+
+// Pre-tokenization patterns: contractions, words, numbers, punctuation runs, whitespace runs.
+// tiktoken encodings group up to 3 digits per piece; SentencePiece models split every digit.
+const PIECES = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+/gu;
+const SENTENCEPIECE_PIECES = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+/**
+ * Get the tokenizer profile of a model
+ * @param model - The model name, e.g. `gpt-4o-mini` or `llama3.1`
+ */
+export function getTokenizerProfile(model: string): TokenizerProfile {
+  const name = model.toLowerCase().replace(/^.*\//, '');
+  return PROFILES.find(([pattern]) => pattern.test(name))?.[1] ?? DEFAULT_PROFILE;
+}
+
+/**
+ * Count the tokens of a text
+ * @param text - The text
+ * @param model - The model whose tokenizer to approximate
+ */
+export function countTokens(text: string, model: string): number {
+  const profile = getTokenizerProfile(model);
+  const pieces = text.match(profile.encoding === 'sentencepiece' ? SENTENCEPIECE_PIECES : PIECES) ?? [];
+
+  return pieces.reduce((total, piece) => total + countPieceTokens(piece, profile), 0);
+}
+
+/**
+ * Count the tokens of a chat prompt, including the chat format's per-message overhead
+ * @param messages - The messages sent to the model
+ * @param model - The model whose tokenizer to approximate
+ */
+export function countMessageTokens(messages: LLMMessage[], model: string): number {
+  const profile = getTokenizerProfile(model);
+
+  return messages.reduce((total, message) => {
+    const toolCalls = message.toolCalls?.length ? JSON.stringify(message.toolCalls) : '';
+    return total + profile.tokensPerMessage + countTokens(message.content + toolCalls, model);
+  }, REPLY_PRIMING_TOKENS);
+}
+
+function countPieceTokens(piece: string, profile: TokenizerProfile): number {
+  const text = piece.trimStart();
+
+  if (text === '') {
+    // A run of whitespace is usually a single token
+    return 1;
+  }
+  if (/^\p{L}+$/u.test(text)) {
+    // Latin words are merged into multi-letter tokens; other scripts use about a token per
+    // character (CJK) or per two characters
+    if (/^[a-z]+$/i.test(text)) {
+      return Math.max(1, Math.round(text.length / profile.charsPerToken));
+    }
+    return /\p{Script=Han}|\p{Script=Hiragana}|\p{Script=Katakana}|\p{Script=Hangul}/u.test(text)
+      ? text.length
+      : Math.ceil(text.length / 2);
+  }
+  if (/^\p{N}+$/u.test(text)) {
+    return 1;
+  }
+  // Punctuation merges into pairs, e.g. `."` or `},`
+  return Math.ceil(text.length / 2);
+}
@@ -1,43 +1,126 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { ChatMessageDto, ChatResponseDto, InsightsRequestDto, InsightsResponseDto } from '../dto/chat.dto';
-import { OpenAIService, ChatMessage } from './openai.service';
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  ChatMessageDto,
+  ChatResponseDto,
+  ChatStreamEventDto,
+  InsightsRequestDto,
+  InsightsResponseDto,
+  RecommendationsRequestDto,
+  RecommendationsResponseDto,
+  RecommendationDto,
+  SummarizeRequestDto,
+  SummarizeResponseDto,
+  PredictRequestDto,
+  PredictResponseDto,
+  AnomaliesRequestDto,
+  AnomaliesResponseDto,
+  ConversationQueryDto,
+  ConversationMessagesResponseDto,
+  ConversationUsageDto,
+  PendingActionDto,
+} from '../dto/chat.dto';
+import { LLMProviderRegistry, LLMProviderDescription } from '../providers/llm-provider.registry';
+import { LLMCompletionOptions, LLMMessage, LLMProvider, LLMToolCall } from '../providers/llm-provider.interface';
+import { countMessageTokens, countTokens, getTokenizerProfile } from '../providers/token-counter';
+import { ChatToolRegistry, ChatToolResult } from '../tools/chat-tool.registry';
+import { ChatCaller, ChatToolContext } from '../tools/chat-tool.interface';
 import { CacheService } from './cache.service';
 import { WorkerClientService } from './worker-client.service';
+import { detectAnomalies, predictLinearTrend, recommend, summarizeData, summarizeText } from './offline-analysis';
 import * as crypto from 'crypto';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Larger series are analysed offline rather than sent to the LLM provider point by point
+const MAX_OPENAI_DATA_POINTS = 1000;
+const PRIORITIES = ['low', 'medium', 'high'];
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+const SENTIMENTS = ['positive', 'neutral', 'negative'];
+// Completions that may call tools per chat message; the last one has to answer
+const MAX_TOOL_ROUNDS = 5;
+const CHAT_MAX_TOKENS = 2000;
+// Tokens of summary and recent messages sent with a chat message, unless AI_CHAT_HISTORY_TOKEN_BUDGET is set
+const DEFAULT_HISTORY_TOKEN_BUDGET = 4000;
+
+interface PendingAction extends PendingActionDto {
+  call: LLMToolCall;
+}
+
+type HistoryMessage = { role: string; content: string; timestamp?: string };
+
+/**
+ * The tools used while answering one chat message
+ */
+interface ToolActivity {
+  /** Names of the tools that ran, in order */
+  toolsRun: string[];
+  /** A tool that changes data, waiting for the user to confirm it */
+  proposedAction?: PendingAction;
+}
+
+/**
+ * What a conversation keeps besides its messages
+ */
+interface ConversationState {
+  /** Summary of the first `summarizedMessages` messages of the history */
+  summary?: string;
+  summarizedMessages: number;
+  /** Tokens used by the responses so far */
+  tokensUsed: number;
+}
+
 @Injectable()
 export class AIService {
   private readonly logger = new Logger(AIService.name);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private conversations = new Map<string, any[]>();
+  private pendingActions = new Map<string, PendingAction>();
+  private conversationStates = new Map<string, ConversationState>();
 
   constructor(
-    private readonly openaiService: OpenAIService,
+    private readonly providers: LLMProviderRegistry,
     private readonly cacheService: CacheService,
     private readonly workerClient: WorkerClientService,
+    private readonly tools: ChatToolRegistry,
   ) {}
 
-  async processChat(chatDto: ChatMessageDto): Promise<ChatResponseDto> {
+  /**
+   * Answer a chat message. The model may call tools to look up live data before answering;
+   * tools that change data are not run but returned as a pending action, which runs when the
+   * next message confirms it.
+   * @param caller - The user the message is sent for; tools act with their permissions
+   * @throws NotFoundException if `confirmActionId` doesn't match the pending action
+   */
+  async processChat(chatDto: ChatMessageDto, caller: ChatCaller = {}): Promise<ChatResponseDto> {
     this.logger.log(`Processing chat message: ${chatDto.message.substring(0, 50)}...`);
 
+    const provider = this.providers.resolve(chatDto.provider);
     const conversationId = chatDto.conversationId || this.generateConversationId();
     
     // Get conversation history from cache or memory
     const history = await this.getConversationHistory(conversationId);
-    history.push({ role: 'user', content: chatDto.message });
+    history.push({ role: 'user', content: chatDto.message, timestamp: new Date().toISOString() });
 
     try {
-      // Check cache for similar query
-      const cacheKey = this.generateCacheKey(chatDto.message, chatDto.context);
-      const cachedResponse = await this.cacheService.get<{
-        response: string;
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        metadata: any;
-      }>(cacheKey);
+      // Check cache for similar query; answers built from tool results are never cached
+      const cacheKey = this.generateCacheKey(chatDto.message, chatDto.context, provider.name);
+      const cachedResponse = chatDto.confirmActionId
+        ? null
+        : await this.cacheService.get<{
+            response: string;
+            metadata: ChatResponseDto['metadata'];
+          }>(cacheKey);
+
+      // A pending action only survives until the next message
+      const pendingAction = await this.takePendingAction(conversationId);
+      if (chatDto.confirmActionId && pendingAction?.id !== chatDto.confirmActionId) {
+        throw new NotFoundException(`Pending action ${chatDto.confirmActionId} not found`);
+      }
+
+      const state = await this.getConversationState(conversationId, history.length);
 
       if (cachedResponse) {
         this.logger.log('Returning cached response');
-        history.push({ role: 'assistant', content: cachedResponse.response });
+        history.push({ role: 'assistant', content: cachedResponse.response, timestamp: new Date().toISOString() });
         await this.saveConversationHistory(conversationId, history);
 
         return {
@@ -47,68 +130,75 @@ export class AIService {
           metadata: {
             ...cachedResponse.metadata,
             cached: true,
+            // Nothing was sent to the model
+            conversation: this.toConversationUsage(state, {
+              contextTokens: 0,
+              tokenBudget: this.getHistoryTokenBudget(provider.model, this.buildSystemPrompt(chatDto.context)),
+            }),
           },
         };
       }
 
-      // Process with OpenAI if available, otherwise fallback to mock
-      let response: string;
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let metadata: any;
+      const context: ChatToolContext = { ...caller, conversationId };
+      const prompt = await this.buildConversationPrompt(provider, history, chatDto.context, state);
+      const messages = prompt.messages;
+      const tools = this.tools.definitions();
+      const activity: ToolActivity = { toolsRun: [] };
 
-      if (this.openaiService.isAvailable()) {
-        const systemMessage: ChatMessage = {
-          role: 'system',
-          content: this.buildSystemPrompt(chatDto.context),
-        };
+      if (chatDto.confirmActionId) {
+        await this.runConfirmedAction(pendingAction!, messages, context, activity);
+      }
 
-        const messages: ChatMessage[] = [
-          systemMessage,
-          ...history.map(h => ({
-            role: h.role as 'user' | 'assistant',
-            content: h.content,
-          })),
-        ];
+      let completion = await provider.chat(messages, { temperature: 0.7, maxTokens: CHAT_MAX_TOKENS, tools });
+      let tokensUsed = completion.tokensUsed;
 
-        const completion = await this.openaiService.createChatCompletion(messages, {
+      for (let round = 1; completion.toolCalls?.length && round <= MAX_TOOL_ROUNDS; round++) {
+        await this.runToolCalls(completion.content, completion.toolCalls, messages, context, activity);
+
+        // Without tools on the last round the model has to answer
+        completion = await provider.chat(messages, {
           temperature: 0.7,
-          maxTokens: 2000,
+          maxTokens: CHAT_MAX_TOKENS,
+          tools: round < MAX_TOOL_ROUNDS ? tools : undefined,
         });
+        tokensUsed += completion.tokensUsed;
+      }
 
-        response = completion.content;
-        metadata = {
-          model: completion.model,
-          tokensUsed: completion.tokensUsed,
-          confidence: 0.85,
-          cached: false,
-        };
+      const response = completion.content;
+      const metadata: ChatResponseDto['metadata'] = {
+        model: completion.model,
+        tokensUsed,
+        confidence: 0.85,
+        cached: false,
+        provider: provider.name,
+        ...(activity.toolsRun.length > 0 ? { toolCalls: activity.toolsRun } : {}),
+      };
 
-        // Cache the response
+      // Cache the response unless it depends on live data
+      if (activity.toolsRun.length === 0 && !activity.proposedAction) {
         await this.cacheService.set(
           cacheKey,
           { response, metadata },
           this.cacheService.getChatCacheTTL(),
         );
-      } else {
-        // Fallback to mock response
-        this.logger.warn('OpenAI not available, using mock response');
-        response = await this.generateAIResponse(chatDto.message, history, chatDto.context);
-        metadata = {
-          model: 'mock-ai-model',
-          tokensUsed: this.estimateTokens(chatDto.message + response),
-          confidence: 0.85,
-          cached: false,
-        };
       }
 
-      history.push({ role: 'assistant', content: response });
+      if (activity.proposedAction) {
+        await this.savePendingAction(conversationId, activity.proposedAction);
+      }
+
+      history.push({ role: 'assistant', content: response, timestamp: new Date().toISOString() });
       await this.saveConversationHistory(conversationId, history);
 
+      const nextState = { ...prompt.state, tokensUsed: prompt.state.tokensUsed + tokensUsed };
+      await this.saveConversationState(conversationId, nextState);
+
       return {
         conversationId,
         response,
         timestamp: new Date(),
-        metadata,
+        ...(activity.proposedAction ? { pendingAction: this.toPendingActionDto(activity.proposedAction) } : {}),
+        metadata: { ...metadata, conversation: this.toConversationUsage(nextState, prompt) },
       };
     } catch (error) {
       const err = error as Error;
@@ -117,6 +207,121 @@ export class AIService {
     }
   }
 
+  /**
+   * Like processChat, but yields the response while it is generated: a `token` event per chunk,
+   * then a `done` event with the complete response and the proposed action, if any. The tool
+   * rounds run first; text the model writes alongside its tool calls is streamed too and is part
+   * of the response. The conversation history is saved once the response is complete, so an
+   * abandoned stream leaves it unchanged.
+   * @param caller - The user the message is sent for; tools act with their permissions
+   * @throws NotFoundException if `confirmActionId` doesn't match the pending action
+   */
+  async *streamChat(chatDto: ChatMessageDto, caller: ChatCaller = {}): AsyncGenerator<ChatStreamEventDto> {
+    this.logger.log(`Streaming chat message: ${chatDto.message.substring(0, 50)}...`);
+
+    const provider = this.providers.resolve(chatDto.provider);
+    const conversationId = chatDto.conversationId || this.generateConversationId();
+    const history = await this.getConversationHistory(conversationId);
+    history.push({ role: 'user', content: chatDto.message, timestamp: new Date().toISOString() });
+
+    const cacheKey = this.generateCacheKey(chatDto.message, chatDto.context, provider.name);
+    const cachedResponse = chatDto.confirmActionId
+      ? null
+      : await this.cacheService.get<{
+          response: string;
+          metadata: ChatResponseDto['metadata'];
+        }>(cacheKey);
+
+    // A pending action only survives until the next message
+    const pendingAction = await this.takePendingAction(conversationId);
+    if (chatDto.confirmActionId && pendingAction?.id !== chatDto.confirmActionId) {
+      throw new NotFoundException(`Pending action ${chatDto.confirmActionId} not found`);
+    }
+
+    const state = await this.getConversationState(conversationId, history.length);
+
+    let response = '';
+    let metadata: ChatResponseDto['metadata'];
+    let conversation: ConversationUsageDto;
+    let proposedAction: PendingAction | undefined;
+
+    if (cachedResponse) {
+      this.logger.log('Streaming cached response');
+      response = cachedResponse.response;
+      metadata = { ...cachedResponse.metadata, cached: true };
+      conversation = this.toConversationUsage(state, {
+        contextTokens: 0,
+        tokenBudget: this.getHistoryTokenBudget(provider.model, this.buildSystemPrompt(chatDto.context)),
+      });
+      yield { type: 'token', conversationId, token: response };
+    } else {
+      const context: ChatToolContext = { ...caller, conversationId };
+      const prompt = await this.buildConversationPrompt(provider, history, chatDto.context, state);
+      const messages = prompt.messages;
+      const tools = this.tools.definitions();
+      const activity: ToolActivity = { toolsRun: [] };
+      let tokensUsed = 0;
+
+      if (chatDto.confirmActionId) {
+        await this.runConfirmedAction(pendingAction!, messages, context, activity);
+      }
+
+      // Without tools on the last round the model has to answer
+      for (let round = 0; ; round++) {
+        // Streamed completions don't report usage
+        tokensUsed += countMessageTokens(messages, provider.model);
+
+        const completion = yield* this.streamCompletion(provider, messages, conversationId, {
+          temperature: 0.7,
+          maxTokens: CHAT_MAX_TOKENS,
+          tools: round < MAX_TOOL_ROUNDS ? tools : undefined,
+        });
+        response += completion.content;
+        tokensUsed += countTokens(completion.content, provider.model);
+
+        if (!completion.toolCalls?.length) {
+          break;
+        }
+        await this.runToolCalls(completion.content, completion.toolCalls, messages, context, activity);
+      }
+
+      proposedAction = activity.proposedAction;
+      metadata = {
+        model: provider.model,
+        tokensUsed,
+        confidence: 0.85,
+        cached: false,
+        provider: provider.name,
+        ...(activity.toolsRun.length > 0 ? { toolCalls: activity.toolsRun } : {}),
+      };
+
+      // Cache the response unless it depends on live data
+      if (activity.toolsRun.length === 0 && !proposedAction) {
+        await this.cacheService.set(cacheKey, { response, metadata }, this.cacheService.getChatCacheTTL());
+      }
+
+      if (proposedAction) {
+        await this.savePendingAction(conversationId, proposedAction);
+      }
+
+      const nextState = { ...prompt.state, tokensUsed: prompt.state.tokensUsed + tokensUsed };
+      await this.saveConversationState(conversationId, nextState);
+      conversation = this.toConversationUsage(nextState, prompt);
+    }
+
+    history.push({ role: 'assistant', content: response, timestamp: new Date().toISOString() });
+    await this.saveConversationHistory(conversationId, history);
+
+    yield {
+      type: 'done',
+      conversationId,
+      response,
+      timestamp: new Date(),
+      ...(proposedAction ? { pendingAction: this.toPendingActionDto(proposedAction) } : {}),
+      metadata: { ...metadata, conversation },
+    };
+  }
+
   async generateInsights(insightsDto: InsightsRequestDto): Promise<InsightsResponseDto> {
     this.logger.log(`Generating insights for type: ${insightsDto.insightType}`);
 
@@ -166,29 +371,37 @@ export class AIService {
         }
       }
 
-      // Process with OpenAI if available
+      const provider = this.providers.resolve(insightsDto.provider);
+      this.logger.log(`Generating insights with ${provider.name} provider`);
+
+      const aiInsights = await provider.structured<{
+        summary?: string;
+        keyFindings?: string[];
+        recommendations?: string[];
+        confidence?: number;
+      }>(
+        this.buildInsightsSystemPrompt(insightsDto.insightType),
+        this.buildInsightsUserPrompt(insightsDto.data, insightsDto.insightType, insightsDto.context),
+        {
+          temperature: 0.5, // Lower temperature for more consistent insights
+          maxTokens: 3000,
+        },
+      );
+
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       let insights: any;
 
-      if (this.openaiService.isAvailable()) {
-        this.logger.log('Generating insights with OpenAI');
-        
-        const aiInsights = await this.openaiService.generateDataInsights(
-          insightsDto.data,
-          insightsDto.insightType,
-          insightsDto.context,
-        );
-
+      if (aiInsights) {
         insights = {
-          summary: aiInsights.summary,
-          keyFindings: aiInsights.keyFindings,
-          recommendations: aiInsights.recommendations,
-          confidence: aiInsights.confidence,
+          summary: aiInsights.summary || 'No summary available',
+          keyFindings: Array.isArray(aiInsights.keyFindings) ? aiInsights.keyFindings : [],
+          recommendations: Array.isArray(aiInsights.recommendations) ? aiInsights.recommendations : [],
+          confidence: typeof aiInsights.confidence === 'number' ? aiInsights.confidence : 0.7,
           visualizations: this.generateVisualizations(insightsDto.data, insightsDto.insightType),
         };
       } else {
         // Fallback to mock insights
-        this.logger.warn('OpenAI not available, using mock insights');
+        this.logger.warn(`No insights from ${provider.name} provider, using mock insights`);
         insights = await this.analyzeData(insightsDto.data, insightsDto.insightType);
       }
 
@@ -218,20 +431,237 @@ export class AIService {
     }
   }
 
+  /**
+   * Recommend actions for a user from the metrics in their context
+   */
+  async getRecommendations(dto: RecommendationsRequestDto): Promise<RecommendationsResponseDto> {
+    this.logger.log(`Generating recommendations for user: ${dto.userId}`);
+    const count = dto.count ?? 3;
+
+    const answer = await this.askProvider<{ recommendations: Array<Omit<RecommendationDto, 'id'>> }>(
+      dto.provider,
+      'recommendations',
+      `You are an operations advisor for a microservices dashboard platform.
+Recommend the ${count} most useful actions for the user given their context, as JSON:
+{"recommendations": [{"title": "Short imperative title", "description": "One or two sentences", "priority": "low|medium|high", "confidence": 0.8}]}`,
+      `Context:\n${JSON.stringify(dto.context, null, 2)}`,
+      (result) =>
+        Array.isArray(result.recommendations) &&
+        result.recommendations.length > 0 &&
+        result.recommendations.every(
+          (r) => typeof r.title === 'string' && typeof r.description === 'string' && PRIORITIES.includes(r.priority),
+        ),
+    );
+
+    if (answer) {
+      return {
+        recommendations: answer.recommendations.slice(0, count).map((r) => ({
+          id: `rec_${crypto.createHash('md5').update(`${dto.userId}:${r.title}`).digest('hex').substring(0, 12)}`,
+          title: r.title,
+          description: r.description,
+          priority: r.priority,
+          confidence: this.toConfidence(r.confidence),
+        })),
+      };
+    }
+
+    return { recommendations: recommend(dto.userId, dto.context, count) };
+  }
+
+  /**
+   * Summarize a text, or describe a JSON object
+   * @throws BadRequestException if the content doesn't match the type
+   */
+  async summarize(dto: SummarizeRequestDto): Promise<SummarizeResponseDto> {
+    this.logger.log(`Summarizing ${dto.type} content`);
+    const maxLength = dto.maxLength ?? 500;
+    let content = dto.content;
+
+    if (dto.type === 'text' && typeof content !== 'string') {
+      throw new BadRequestException('content must be a string when type is text');
+    }
+    if (dto.type === 'data' && typeof content === 'string') {
+      try {
+        content = JSON.parse(content);
+      } catch {
+        throw new BadRequestException('content must be an object or a JSON string when type is data');
+      }
+    }
+    if (dto.type === 'data' && (content === null || typeof content !== 'object' || Array.isArray(content))) {
+      throw new BadRequestException('content must be an object when type is data');
+    }
+
+    const answer = await this.askProvider<SummarizeResponseDto>(
+      dto.provider,
+      'summarize',
+      `You summarize ${dto.type === 'text' ? 'texts' : 'JSON data'} for a microservices dashboard platform.
+Write a summary of at most ${maxLength} characters, list the key points and judge the overall sentiment, as JSON:
+{"summary": "...", "keyPoints": ["...", "..."], "sentiment": "positive|neutral|negative"}`,
+      typeof content === 'string' ? content : JSON.stringify(content, null, 2),
+      (result) =>
+        typeof result.summary === 'string' &&
+        Array.isArray(result.keyPoints) &&
+        result.keyPoints.every((point) => typeof point === 'string'),
+    );
+
+    if (answer) {
+      return {
+        summary: answer.summary.length > maxLength ? `${answer.summary.substring(0, maxLength - 3)}...` : answer.summary,
+        keyPoints: answer.keyPoints,
+        sentiment: SENTIMENTS.includes(answer.sentiment as string) ? answer.sentiment : undefined,
+      };
+    }
+
+    return typeof content === 'string'
+      ? summarizeText(content, maxLength)
+      : summarizeData(content as Record<string, unknown>, maxLength);
+  }
+
+  /**
+   * Forecast a metric one value per day over the prediction horizon
+   */
+  async predictTrends(dto: PredictRequestDto): Promise<PredictResponseDto> {
+    this.logger.log(`Predicting ${dto.predictionHorizon} day(s) of ${dto.metricName}`);
+
+    if (dto.historicalData.length <= MAX_OPENAI_DATA_POINTS) {
+      const answer = await this.askProvider<{
+        predictions: Array<{ predictedValue: number; lower?: number; upper?: number }>;
+        trendDirection: PredictResponseDto['trendDirection'];
+        accuracy: number;
+      }>(
+        dto.provider,
+        'predict',
+        `You are a forecasting expert. Given the daily history of a metric, forecast its value for each of the next ${dto.predictionHorizon} day(s)${
+          dto.includeConfidenceInterval ? ' with a 95% confidence interval' : ''
+        }, as JSON:
+{"predictions": [{"predictedValue": 0, "lower": 0, "upper": 0}], "trendDirection": "increasing|decreasing|stable", "accuracy": 0.8}
+Return exactly ${dto.predictionHorizon} prediction(s), in chronological order.`,
+        `Metric: ${dto.metricName}\nHistory:\n${JSON.stringify(dto.historicalData)}`,
+        (result) =>
+          Array.isArray(result.predictions) &&
+          result.predictions.length === dto.predictionHorizon &&
+          result.predictions.every((p) => typeof p.predictedValue === 'number') &&
+          ['increasing', 'decreasing', 'stable'].includes(result.trendDirection),
+      );
+
+      if (answer) {
+        const last = Math.max(...dto.historicalData.map((point) => Date.parse(point.timestamp)));
+
+        return {
+          predictions: answer.predictions.map((p, i) => ({
+            timestamp: new Date(last + (i + 1) * DAY_MS),
+            predictedValue: p.predictedValue,
+            ...(dto.includeConfidenceInterval && typeof p.lower === 'number' && typeof p.upper === 'number'
+              ? { confidenceInterval: { lower: p.lower, upper: p.upper } }
+              : {}),
+          })),
+          trendDirection: answer.trendDirection,
+          accuracy: this.toConfidence(answer.accuracy),
+        };
+      }
+    }
+
+    return predictLinearTrend(dto.historicalData, dto.predictionHorizon, dto.includeConfidenceInterval);
+  }
+
+  /**
+   * Find the data points that deviate from the rest of the series
+   */
+  async detectAnomalies(dto: AnomaliesRequestDto): Promise<AnomaliesResponseDto> {
+    this.logger.log(`Detecting anomalies in ${dto.dataPoints.length} data points`);
+    const sensitivity = dto.sensitivity ?? 'medium';
+
+    if (dto.dataPoints.length <= MAX_OPENAI_DATA_POINTS) {
+      // Anomalies are returned by index so the response can only reference points that were sent
+      const answer = await this.askProvider<{
+        anomalies: Array<{ index: number; severity: AnomaliesResponseDto['anomalies'][number]['severity']; reason: string }>;
+      }>(
+        dto.provider,
+        'anomalies',
+        `You are an anomaly detection expert. Find the anomalous points in the series with ${sensitivity} sensitivity, as JSON:
+{"anomalies": [{"index": 0, "severity": "low|medium|high|critical", "reason": "Why the point is anomalous"}]}
+Return an empty list if there are none.`,
+        JSON.stringify(dto.dataPoints.map((point, index) => ({ index, timestamp: point.timestamp, value: point.value }))),
+        (result) =>
+          Array.isArray(result.anomalies) &&
+          result.anomalies.every(
+            (a) => Number.isInteger(a.index) && a.index >= 0 && a.index < dto.dataPoints.length && SEVERITIES.includes(a.severity),
+          ),
+      );
+
+      if (answer) {
+        const indexes = new Set<number>();
+        const anomalies = answer.anomalies
+          .filter((a) => !indexes.has(a.index) && indexes.add(a.index))
+          .sort((a, b) => a.index - b.index)
+          .map((a) => {
+            const point = dto.dataPoints[a.index];
+            return {
+              timestamp: point.timestamp,
+              value: point.value,
+              severity: a.severity,
+              reason: typeof a.reason === 'string' ? a.reason : 'Flagged as anomalous',
+              ...(point.metadata ? { metadata: point.metadata } : {}),
+            };
+          });
+
+        return {
+          anomalies,
+          totalDataPoints: dto.dataPoints.length,
+          anomalyRate: Math.round((anomalies.length / dto.dataPoints.length) * 10000) / 10000,
+        };
+      }
+    }
+
+    return detectAnomalies(dto.dataPoints, sensitivity);
+  }
+
+  /**
+   * Page through the messages of a conversation
+   * @throws NotFoundException if the conversation has no messages
+   */
+  async listConversationMessages(query: ConversationQueryDto): Promise<ConversationMessagesResponseDto> {
+    const history = await this.getConversationHistory(query.conversationId);
+
+    if (history.length === 0) {
+      throw new NotFoundException(`Conversation ${query.conversationId} not found`);
+    }
+
+    // The global ValidationPipe doesn't transform, so query parameters are still strings here
+    const offset = query.offset !== undefined ? Number(query.offset) : 0;
+    const limit = query.limit !== undefined ? Number(query.limit) : 50;
+
+    return {
+      messages: history.slice(offset, offset + limit),
+      total: history.length,
+    };
+  }
+
+  /**
+   * Describe the LLM providers and which one requests use by default
+   */
+  listProviders(): LLMProviderDescription[] {
+    return this.providers.list();
+  }
+
   async clearConversation(conversationId: string): Promise<void> {
     this.logger.log(`Clearing conversation: ${conversationId}`);
     this.conversations.delete(conversationId);
+    this.pendingActions.delete(conversationId);
+    this.conversationStates.delete(conversationId);
     
     // Clear from cache as well
     await this.cacheService.delete(
       this.cacheService.getConversationCacheKey(conversationId),
     );
+    await this.cacheService.delete(this.getPendingActionCacheKey(conversationId));
+    await this.cacheService.delete(this.getConversationStateCacheKey(conversationId));
   }
 
-  async getConversationHistory(conversationId: string): Promise<Array<{ role: string; content: string }>> {
+  async getConversationHistory(conversationId: string): Promise<Array<{ role: string; content: string; timestamp?: string }>> {
     // Try cache first
     const cacheKey = this.cacheService.getConversationCacheKey(conversationId);
-    const cached = await this.cacheService.get<Array<{ role: string; content: string }>>(cacheKey);
+    const cached = await this.cacheService.get<Array<{ role: string; content: string; timestamp?: string }>>(cacheKey);
     
     if (cached) {
       return cached;
@@ -245,57 +675,275 @@ export class AIService {
   
   private async saveConversationHistory(
     conversationId: string,
-    history: Array<{ role: string; content: string }>,
+    history: Array<{ role: string; content: string; timestamp?: string }>,
   ): Promise<void> {
     // Save to memory
     this.conversations.set(conversationId, history);
     
     // Save to cache
     const cacheKey = this.cacheService.getConversationCacheKey(conversationId);
-    await this.cacheService.set(cacheKey, history, 3600); // 1 hour TTL
+    await this.cacheService.set(cacheKey, history, this.cacheService.getConversationTTL());
   }
-  private generateConversationId(): string {
-    return `conv_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  private async savePendingAction(conversationId: string, action: PendingAction): Promise<void> {
+    this.pendingActions.set(conversationId, action);
+    await this.cacheService.set(this.getPendingActionCacheKey(conversationId), action, this.cacheService.getConversationTTL());
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private async generateAIResponse(message: string, history: any[], context?: string[]): Promise<string> {
-    // Check if OpenAI is available before attempting to use it
-    if (!this.openaiService.isAvailable()) {
-      this.logger.warn('OpenAI not available, returning fallback response');
-      return `I understand you're asking about: "${message}". ${context ? `Considering the context provided, ` : ''}I'm currently running in demo mode. Please configure the OPENAI_API_KEY to enable full AI capabilities.`;
+  /**
+   * Get and remove the pending action of a conversation
+   */
+  private async takePendingAction(conversationId: string): Promise<PendingAction | undefined> {
+    const cacheKey = this.getPendingActionCacheKey(conversationId);
+    const action = (await this.cacheService.get<PendingAction>(cacheKey)) ?? this.pendingActions.get(conversationId);
+
+    if (action) {
+      this.pendingActions.delete(conversationId);
+      await this.cacheService.delete(cacheKey);
+    }
+    return action;
+  }
+
+  private getPendingActionCacheKey(conversationId: string): string {
+    return this.cacheService.getChatCacheKey(conversationId, 'pending-action');
+  }
+
+  /**
+   * Get the summary and token usage of a conversation
+   * @param historyLength - Number of messages in the history; a summary of more messages than
+   * that belongs to an expired history and is dropped
+   */
+  private async getConversationState(conversationId: string, historyLength: number): Promise<ConversationState> {
+    const state =
+      (await this.cacheService.get<ConversationState>(this.getConversationStateCacheKey(conversationId))) ??
+      this.conversationStates.get(conversationId);
+
+    if (!state || state.summarizedMessages > historyLength) {
+      return { summarizedMessages: 0, tokensUsed: state?.tokensUsed ?? 0 };
+    }
+    return state;
+  }
+
+  private async saveConversationState(conversationId: string, state: ConversationState): Promise<void> {
+    this.conversationStates.set(conversationId, state);
+    await this.cacheService.set(
+      this.getConversationStateCacheKey(conversationId),
+      state,
+      this.cacheService.getConversationTTL(),
+    );
+  }
+
+  private getConversationStateCacheKey(conversationId: string): string {
+    return this.cacheService.getChatCacheKey(conversationId, 'state');
+  }
+
+  /**
+   * Build the prompt for a chat message from the conversation summary and a sliding window of
+   * the newest messages. Once the messages that aren't summarized exceed the token budget, the
+   * older ones are folded into the summary until the rest fits in half the budget, so the
+   * summary isn't rebuilt on every message.
+   * @returns The prompt, and the conversation state to save with the response
+   */
+  private async buildConversationPrompt(
+    provider: LLMProvider,
+    history: HistoryMessage[],
+    context: string[] | undefined,
+    state: ConversationState,
+  ): Promise<{ messages: LLMMessage[]; state: ConversationState; contextTokens: number; tokenBudget: number }> {
+    const model = provider.model;
+    const tokenBudget = this.getHistoryTokenBudget(model, this.buildSystemPrompt(context));
+    let { summary, summarizedMessages } = state;
+
+    const windowTokens = (from: number) =>
+      countMessageTokens([...this.buildSummaryMessages(summary), ...this.toLLMMessages(history.slice(from))], model);
+
+    if (windowTokens(summarizedMessages) > tokenBudget) {
+      // Keep the newest messages that fit in half the budget, and at least the new message
+      let start = history.length - 1;
+      let recentTokens = countMessageTokens(this.toLLMMessages(history.slice(start)), model);
+
+      while (start > summarizedMessages) {
+        const tokens = recentTokens + countMessageTokens(this.toLLMMessages([history[start - 1]]), model);
+        if (tokens > tokenBudget / 2) {
+          break;
+        }
+        recentTokens = tokens;
+        start--;
+      }
+
+      if (start > summarizedMessages) {
+        this.logger.log(`Summarizing ${start - summarizedMessages} message(s) of the conversation`);
+        summary = await this.summarizeConversation(provider, summary, history.slice(summarizedMessages, start), tokenBudget / 4);
+        summarizedMessages = start;
+      }
     }
 
-    // Use OpenAI for actual AI integration
-    const systemMessage: ChatMessage = {
-      role: 'system',
-      content: this.buildSystemPrompt(context),
+    const messages = this.buildChatMessages(history.slice(summarizedMessages), context, summary);
+
+    return {
+      messages,
+      state: { ...state, summary, summarizedMessages },
+      contextTokens: countMessageTokens(messages, model),
+      tokenBudget,
     };
+  }
 
-    const messages: ChatMessage[] = [
-      systemMessage,
-      ...history.map(h => ({
-        role: h.role as 'user' | 'assistant',
-        content: h.content,
-      })),
-    ];
+  /**
+   * Fold messages into the running summary of a conversation. Falls back to an extractive
+   * summary when the provider has no answer (e.g. the mock provider) or fails.
+   * @param maxTokens - Length limit of the summary
+   */
+  private async summarizeConversation(
+    provider: LLMProvider,
+    previousSummary: string | undefined,
+    messages: HistoryMessage[],
+    maxTokens: number,
+  ): Promise<string> {
+    const transcript = [
+      ...(previousSummary ? [`Summary of the earlier conversation: ${previousSummary}`] : []),
+      ...messages.map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`),
+    ].join('\n');
+    // About 1.3 tokens per word, and at most 4 characters per token for the extractive summary
+    const maxWords = Math.max(Math.floor(maxTokens / 1.3), 20);
+    const maxLength = Math.max(Math.floor(maxTokens * 4), 100);
+
+    const answer = await this.askProvider<{ summary: string }>(
+      provider.name,
+      'conversation summary',
+      `You summarize conversations between a user and the assistant of a microservices dashboard platform.
+Summarize the conversation in at most ${maxWords} words, keeping the facts, figures, decisions and open questions needed to continue it, as JSON:
+{"summary": "..."}`,
+      transcript,
+      (result) => typeof result.summary === 'string' && result.summary.trim() !== '',
+    );
+
+    const summary = answer ? answer.summary.trim() : summarizeText(transcript, maxLength).summary;
+    return summary.length > maxLength ? `${summary.substring(0, maxLength - 3)}...` : summary;
+  }
+
+  /**
+   * Tokens of summary and recent messages sent with a chat message: AI_CHAT_HISTORY_TOKEN_BUDGET,
+   * capped by what the model's context window leaves after the system prompt and the response
+   */
+  private getHistoryTokenBudget(model: string, systemPrompt: string): number {
+    const configured = parseInt(process.env.AI_CHAT_HISTORY_TOKEN_BUDGET || '', 10);
+    const available = getTokenizerProfile(model).contextWindow - CHAT_MAX_TOKENS - countTokens(systemPrompt, model);
+
+    return Math.min(configured > 0 ? configured : DEFAULT_HISTORY_TOKEN_BUDGET, available);
+  }
+
+  private toConversationUsage(
+    state: ConversationState,
+    prompt: { contextTokens: number; tokenBudget: number },
+  ): ConversationUsageDto {
+    return {
+      tokensUsed: state.tokensUsed,
+      contextTokens: prompt.contextTokens,
+      tokenBudget: prompt.tokenBudget,
+      summarizedMessages: state.summarizedMessages,
+    };
+  }
+
+  /**
+   * Stream one completion as `token` events
+   * @returns The text of the completion and the tools the model asked to call
+   */
+  private async *streamCompletion(
+    provider: LLMProvider,
+    messages: LLMMessage[],
+    conversationId: string,
+    options: LLMCompletionOptions,
+  ): AsyncGenerator<ChatStreamEventDto, { content: string; toolCalls?: LLMToolCall[] }> {
+    const chunks = provider.stream(messages, options);
+    let content = '';
 
     try {
-      const completion = await this.openaiService.createChatCompletion(messages, {
-        temperature: 0.7,
-        maxTokens: 2000,
-      });
+      for (;;) {
+        const chunk = await chunks.next();
+        if (chunk.done) {
+          // The union of the results only narrows with strictNullChecks
+          return { content, toolCalls: chunk.value as LLMToolCall[] | undefined };
+        }
 
-      return completion.content;
-    } catch (error) {
-      const err = error as Error;
-      this.logger.error(`Error generating AI response: ${err.message}`, err.stack);
-      
-      // Fallback to a generic response if OpenAI fails
-      return `I understand you're asking about: "${message}". ${context ? `Considering the context provided, ` : ''}I'm having trouble processing this request right now. Please try again or rephrase your question.`;
+        const token = chunk.value as string;
+        content += token;
+        yield { type: 'token', conversationId, token };
+      }
+    } finally {
+      // Stops the completion if the consumer stopped early
+      await chunks.return(undefined);
+    }
+  }
+
+  /**
+   * Run the action the user confirmed, as if the model had just called it
+   */
+  private async runConfirmedAction(
+    action: PendingAction,
+    messages: LLMMessage[],
+    context: ChatToolContext,
+    activity: ToolActivity,
+  ): Promise<void> {
+    activity.toolsRun.push(action.call.name);
+    messages.push(
+      { role: 'assistant', content: '', toolCalls: [action.call] },
+      this.toToolMessage(action.call, await this.tools.execute(action.call, context)),
+    );
+  }
+
+  /**
+   * Answer the tool calls of a completion, adding it and the results to the messages. Tools that
+   * change data don't run: the first becomes the proposed action, the others are refused.
+   */
+  private async runToolCalls(
+    content: string,
+    calls: LLMToolCall[],
+    messages: LLMMessage[],
+    context: ChatToolContext,
+    activity: ToolActivity,
+  ): Promise<void> {
+    messages.push({ role: 'assistant', content, toolCalls: calls });
+
+    for (const call of calls) {
+      let result: ChatToolResult;
+
+      if (!this.tools.get(call.name)?.requiresConfirmation) {
+        activity.toolsRun.push(call.name);
+        result = await this.tools.execute(call, context);
+      } else if (activity.proposedAction) {
+        result = { error: 'Only one action can await confirmation at a time' };
+      } else {
+        activity.proposedAction = {
+          id: `action_${crypto.randomUUID()}`,
+          tool: call.name,
+          arguments: call.arguments,
+          description: `Run ${call.name} with ${JSON.stringify(call.arguments)}`,
+          call,
+        };
+        result = {
+          result: {
+            status: 'awaiting_confirmation',
+            message: 'The user has been asked to confirm this action; it has not run yet.',
+          },
+        };
+      }
+
+      messages.push(this.toToolMessage(call, result));
     }
   }
 
+  private toPendingActionDto({ id, tool, arguments: args, description }: PendingAction): PendingActionDto {
+    return { id, tool, arguments: args, description };
+  }
+
+  private toToolMessage(call: LLMToolCall, result: ChatToolResult): LLMMessage {
+    return { role: 'tool', toolCallId: call.id, content: JSON.stringify(result) };
+  }
+
+  private generateConversationId(): string {
+    return `conv_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private async analyzeData(data: any[], insightType: string): Promise<any> {
     // Mock insights generation - replace with actual AI analysis
@@ -402,16 +1050,46 @@ export class AIService {
     return insightTemplates[insightType] || insightTemplates.performance;
   }
 
-  private estimateTokens(text: string): number {
-    // Rough estimation: ~4 characters per token
-    return Math.ceil(text.length / 4);
+  /**
+   * Ask a provider for a JSON answer. Returns null, so the caller falls back to its offline
+   * implementation, when the provider has no answer (e.g. the mock provider), fails, or answers
+   * in an unexpected shape.
+   */
+  private async askProvider<T>(
+    providerName: string | undefined,
+    task: string,
+    systemPrompt: string,
+    userPrompt: string,
+    isValid: (result: T) => boolean,
+  ): Promise<T | null> {
+    const provider = this.providers.resolve(providerName);
+
+    try {
+      const result = await provider.structured<T>(systemPrompt, userPrompt);
+
+      if (result && isValid(result)) {
+        return result;
+      }
+      if (result) {
+        this.logger.warn(`${provider.name} provider returned an unexpected ${task} response, using offline ${task}`);
+      }
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(`${provider.name} provider ${task} failed, using offline ${task}: ${err.message}`, err.stack);
+    }
+
+    return null;
+  }
+
+  private toConfidence(value: unknown): number {
+    return typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, 0), 1) : 0.7;
   }
 
-  private generateCacheKey(message: string, context?: string[]): string {
+  private generateCacheKey(message: string, context: string[] | undefined, providerName: string): string {
     const contextStr = context ? context.join('|') : '';
     const hash = crypto
       .createHash('md5')
-      .update(`${message}:${contextStr}`)
+      .update(`${providerName}:${message}:${contextStr}`)
       .digest('hex');
     return this.cacheService.getChatCacheKey('message', hash);
   }
@@ -428,6 +1106,25 @@ export class AIService {
     return this.cacheService.getInsightsCacheKey(insightType, dataHash);
   }
 
+  private buildChatMessages(history: HistoryMessage[], context?: string[], summary?: string): LLMMessage[] {
+    return [
+      { role: 'system', content: this.buildSystemPrompt(context) },
+      ...this.buildSummaryMessages(summary),
+      ...this.toLLMMessages(history),
+    ];
+  }
+
+  private buildSummaryMessages(summary?: string): LLMMessage[] {
+    return summary ? [{ role: 'system', content: `Summary of the earlier conversation:\n${summary}` }] : [];
+  }
+
+  private toLLMMessages(history: HistoryMessage[]): LLMMessage[] {
+    return history.map(h => ({
+      role: h.role as 'user' | 'assistant',
+      content: h.content,
+    }));
+  }
+
   private buildSystemPrompt(context?: string[]): string {
     let prompt = `You are a helpful AI assistant for a microservices dashboard platform. 
 You help users understand their system metrics, analyze data, and provide actionable insights.
@@ -440,6 +1137,47 @@ Be concise, accurate, and helpful. Focus on practical recommendations.`;
     return prompt;
   }
 
+  private buildInsightsSystemPrompt(insightType: string): string {
+    const basePrompt = `You are an expert data analyst specialized in generating actionable insights from system metrics and user data.
+Your task is to analyze the provided data and generate insights in the following JSON format:
+{
+  "summary": "A concise 2-3 sentence overview of the key findings",
+  "keyFindings": ["Finding 1", "Finding 2", "Finding 3"],
+  "recommendations": ["Recommendation 1", "Recommendation 2", "Recommendation 3"],
+  "confidence": 0.85
+}`;
+
+    const typeSpecificPrompts: Record<string, string> = {
+      performance: `${basePrompt}\nFocus on system performance metrics, response times, throughput, and resource utilization. Identify bottlenecks and optimization opportunities.`,
+      usage: `${basePrompt}\nFocus on user engagement patterns, feature adoption, session metrics, and user behavior trends.`,
+      trends: `${basePrompt}\nFocus on identifying patterns over time, growth trajectories, seasonality, and predictive indicators.`,
+      anomalies: `${basePrompt}\nFocus on detecting unusual patterns, outliers, potential issues, and security concerns.`,
+      predictions: `${basePrompt}\nFocus on forecasting future trends, capacity planning, and resource projections.`,
+    };
+
+    return typeSpecificPrompts[insightType] || basePrompt;
+  }
+
+  private buildInsightsUserPrompt(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    data: any[],
+    insightType: string,
+    context?: string,
+  ): string {
+    const dataSnapshot = JSON.stringify(data.slice(0, 100), null, 2); // Limit data size
+    const dataSize = data.length;
+
+    let prompt = `Analyze the following data (${dataSize} data points, showing first 100):\n\n${dataSnapshot}\n\n`;
+    
+    if (context) {
+      prompt += `Additional context: ${context}\n\n`;
+    }
+
+    prompt += `Please provide insights of type "${insightType}" following the specified JSON format.`;
+
+    return prompt;
+  }
+
   private generateVisualizations(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     data: any[],
@@ -11,6 +11,7 @@ export class CacheService implements OnModuleDestroy {
   private readonly DEFAULT_TTL = 3600; // 1 hour
   private readonly CHAT_CACHE_TTL = 1800; // 30 minutes
   private readonly INSIGHTS_CACHE_TTL = 7200; // 2 hours
+  private readonly CONVERSATION_TTL = parseInt(process.env.AI_CONVERSATION_TTL || '', 10) || 3600; // 1 hour
 
   constructor() {
     this.initializeClient();
@@ -296,6 +297,11 @@ export class CacheService implements OnModuleDestroy {
     return this.INSIGHTS_CACHE_TTL;
   }
 
+  // Get TTL for conversation history, counted from the last message
+  getConversationTTL(): number {
+    return this.CONVERSATION_TTL;
+  }
+
   /**
    * Check if cache is available
    */
@@ -0,0 +1,85 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios, { AxiosInstance } from 'axios';
+
+export interface DashboardStat {
+  title: string;
+  value: number;
+  trend?: 'up' | 'down';
+  trendValue?: string;
+}
+
+/**
+ * Security report as returned by the gateway's GET /security/report
+ */
+export interface SecurityReport {
+  reportPeriod: { start: string; end: string; durationHours: number };
+  summary: {
+    totalEvents: number;
+    criticalEvents: number;
+    highSeverityEvents: number;
+    blockedRequests: number;
+    topAttackSources: { ip: string; requests: number }[];
+    mostTargetedEndpoints: { endpoint: string; requests: number }[];
+  };
+  threats: { wafBlocks: number; ddosBlocks: number; rateLimitHits: number; suspiciousActivity: number };
+  mitigation: { blacklistedIPs: number; suspiciousIPs: number; activeProtections: string[] };
+  recommendations: string[];
+  timeline: unknown[];
+}
+
+/**
+ * Client for the API Gateway, which owns the dashboard and security data. Requests carry the
+ * caller's Authorization header so the gateway applies the caller's permissions.
+ */
+@Injectable()
+export class GatewayClientService {
+  private readonly logger = new Logger(GatewayClientService.name);
+  private readonly client: AxiosInstance;
+
+  constructor() {
+    const baseURL = process.env.API_GATEWAY_URL || 'http://localhost:4000';
+
+    this.client = axios.create({
+      baseURL,
+      timeout: 10000,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    this.logger.log(`API Gateway client initialized: ${baseURL}`);
+  }
+
+  /**
+   * Get the stat cards shown on the dashboard
+   * @throws Error if the gateway rejects the query
+   */
+  async getDashboardStats(authorization?: string): Promise<DashboardStat[]> {
+    const response = await this.client.post(
+      '/graphql',
+      { query: '{ dashboardStats { title value trend trendValue } }' },
+      { headers: this.getHeaders(authorization) },
+    );
+
+    if (response.data.errors?.length) {
+      throw new Error(response.data.errors[0].message);
+    }
+    return response.data.data.dashboardStats;
+  }
+
+  /**
+   * Get the security report (admins only)
+   * @param hours - Period covered by the report
+   */
+  async getSecurityReport(hours: number, authorization?: string): Promise<SecurityReport> {
+    const response = await this.client.get('/security/report', {
+      params: { hours },
+      headers: this.getHeaders(authorization),
+    });
+    return response.data;
+  }
+
+  private getHeaders(authorization?: string): Record<string, string> {
+    return authorization ? { Authorization: authorization } : {};
+  }
+}
@@ -0,0 +1,452 @@
+import * as crypto from 'crypto';
+import {
+  AnomaliesResponseDto,
+  PredictResponseDto,
+  RecommendationDto,
+  SummarizeResponseDto,
+} from '../dto/chat.dto';
+
+/**
+ * Deterministic implementations of the analysis endpoints, used when OpenAI is not configured
+ * or its answer cannot be used. The same input always produces the same output.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Trend change over the observed span, relative to the mean, below which a series is stable
+const STABLE_TREND_THRESHOLD = 0.05;
+
+// Modified z-score above which a point is anomalous (Iglewicz and Hoaglin recommend 3.5)
+const ANOMALY_THRESHOLDS: Record<'low' | 'medium' | 'high', number> = {
+  low: 3.5,
+  medium: 3,
+  high: 2.5,
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from', 'has', 'have',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'were',
+  'which', 'will', 'with', 'we', 'our', 'you', 'your', 'they', 'there', 'than', 'then', 'also',
+]);
+
+const POSITIVE_WORDS = new Set([
+  'good', 'great', 'excellent', 'improved', 'improvement', 'increase', 'increased', 'success',
+  'successful', 'stable', 'fast', 'faster', 'healthy', 'positive', 'growth', 'resolved', 'efficient',
+  'reliable', 'better', 'best', 'gain', 'gains', 'up', 'happy', 'satisfied',
+]);
+
+const NEGATIVE_WORDS = new Set([
+  'bad', 'poor', 'error', 'errors', 'fail', 'failed', 'failure', 'failures', 'slow', 'slower',
+  'degraded', 'outage', 'down', 'decrease', 'decreased', 'loss', 'negative', 'issue', 'issues',
+  'problem', 'problems', 'critical', 'worse', 'worst', 'timeout', 'timeouts', 'unstable', 'crash',
+]);
+
+export interface TimeSeriesPoint {
+  timestamp: string;
+  value: number;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Forecast a series with an ordinary least squares line over time
+ * @param points - Historical values; at least two
+ * @param horizonDays - Days to forecast, one prediction per day after the last point
+ * @param includeConfidenceInterval - Add 95% prediction intervals
+ * @returns Predictions, the direction of the fitted line and its R² as accuracy
+ */
+export function predictLinearTrend(
+  points: TimeSeriesPoint[],
+  horizonDays: number,
+  includeConfidenceInterval = false,
+): PredictResponseDto {
+  const series = [...points].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const origin = Date.parse(series[0].timestamp);
+  const xs = series.map((point) => (Date.parse(point.timestamp) - origin) / DAY_MS);
+  const ys = series.map((point) => point.value);
+  const n = series.length;
+
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const sxy = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  const intercept = meanY - slope * meanX;
+
+  const residuals = ys.map((y, i) => y - (intercept + slope * xs[i]));
+  const sse = residuals.reduce((sum, r) => sum + r * r, 0);
+  const sst = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0);
+  const standardError = n > 2 ? Math.sqrt(sse / (n - 2)) : 0;
+  const accuracy = sst === 0 ? 1 : clamp(1 - sse / sst, 0, 1);
+
+  const lastX = xs[n - 1];
+  const lastTime = origin + lastX * DAY_MS;
+  const predictions = Array.from({ length: horizonDays }, (_, i) => {
+    const x = lastX + i + 1;
+    const predictedValue = round(intercept + slope * x);
+
+    if (!includeConfidenceInterval) {
+      return { timestamp: new Date(lastTime + (i + 1) * DAY_MS), predictedValue };
+    }
+
+    const margin = 1.96 * standardError * Math.sqrt(1 + 1 / n + (sxx === 0 ? 0 : (x - meanX) ** 2 / sxx));
+    return {
+      timestamp: new Date(lastTime + (i + 1) * DAY_MS),
+      predictedValue,
+      confidenceInterval: { lower: round(predictedValue - margin), upper: round(predictedValue + margin) },
+    };
+  });
+
+  const span = xs[n - 1] - xs[0];
+  const relativeChange = Math.abs(slope * span) / Math.max(Math.abs(meanY), Number.EPSILON);
+  const trendDirection =
+    relativeChange < STABLE_TREND_THRESHOLD ? 'stable' : slope > 0 ? 'increasing' : 'decreasing';
+
+  return { predictions, trendDirection, accuracy: round(accuracy) };
+}
+
+/**
+ * Flag outliers with the modified z-score (distance from the median in median absolute
+ * deviations), which a few large outliers cannot mask the way they mask a mean/standard deviation
+ * @param points - The series to check
+ * @param sensitivity - `high` flags smaller deviations (default: medium)
+ * @returns The anomalous points in input order
+ */
+export function detectAnomalies(
+  points: TimeSeriesPoint[],
+  sensitivity: 'low' | 'medium' | 'high' = 'medium',
+): AnomaliesResponseDto {
+  const threshold = ANOMALY_THRESHOLDS[sensitivity];
+  const values = points.map((point) => point.value);
+  const center = median(values);
+  const deviations = values.map((value) => Math.abs(value - center));
+  const mad = median(deviations);
+  // With more than half the points on the median the MAD is 0; scale by the mean absolute
+  // deviation instead so the remaining points can still be compared
+  const scale = mad > 0 ? mad / 0.6745 : mean(deviations) * 1.253314;
+
+  const anomalies =
+    scale === 0
+      ? []
+      : points.flatMap((point) => {
+          const score = (point.value - center) / scale;
+
+          if (Math.abs(score) < threshold) {
+            return [];
+          }
+
+          return [
+            {
+              timestamp: point.timestamp,
+              value: point.value,
+              severity: anomalySeverity(Math.abs(score) / threshold),
+              reason: `Value ${point.value} is ${Math.abs(score).toFixed(1)} deviations ${
+                score > 0 ? 'above' : 'below'
+              } the median (${round(center)})`,
+              ...(point.metadata ? { metadata: point.metadata } : {}),
+            },
+          ];
+        });
+
+  return {
+    anomalies,
+    totalDataPoints: points.length,
+    anomalyRate: points.length === 0 ? 0 : round(anomalies.length / points.length),
+  };
+}
+
+/**
+ * Extractive summary of a text: the sentences whose words are most frequent in the text, in
+ * their original order, up to `maxLength` characters
+ * @param text - The text to summarize
+ * @param maxLength - Maximum length of the summary in characters (default: 500)
+ */
+export function summarizeText(text: string, maxLength = 500): SummarizeResponseDto {
+  const sentences = splitSentences(text);
+  const frequencies = new Map<string, number>();
+
+  for (const word of words(text)) {
+    if (!STOP_WORDS.has(word)) {
+      frequencies.set(word, (frequencies.get(word) ?? 0) + 1);
+    }
+  }
+
+  const ranked = sentences
+    .map((sentence, index) => {
+      const sentenceWords = words(sentence).filter((word) => !STOP_WORDS.has(word));
+      const score =
+        sentenceWords.reduce((sum, word) => sum + (frequencies.get(word) ?? 0), 0) /
+        Math.max(sentenceWords.length, 1);
+      return { sentence, index, score };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const selected: typeof ranked = [];
+  let length = 0;
+
+  for (const candidate of ranked) {
+    if (length + candidate.sentence.length + 1 > maxLength) {
+      break;
+    }
+    selected.push(candidate);
+    length += candidate.sentence.length + 1;
+  }
+
+  const summary =
+    selected.length > 0
+      ? selected.sort((a, b) => a.index - b.index).map((s) => s.sentence).join(' ')
+      : truncate(text.trim(), maxLength);
+
+  return {
+    summary,
+    keyPoints: ranked.slice(0, 3).map((s) => truncate(s.sentence, 200)),
+    sentiment: sentimentOf(text),
+  };
+}
+
+/**
+ * Describe a JSON object field by field: numbers and strings as they are, arrays by size and
+ * numeric range, nested objects by their keys
+ * @param data - The object to summarize
+ * @param maxLength - Maximum length of the summary in characters (default: 500)
+ */
+export function summarizeData(data: Record<string, unknown>, maxLength = 500): SummarizeResponseDto {
+  const keyPoints = Object.entries(data).map(([key, value]) => `${key}: ${describeValue(value)}`);
+  const fields = Object.keys(data);
+
+  return {
+    summary: truncate(
+      `Data with ${fields.length} field(s)${fields.length > 0 ? `: ${keyPoints.join('; ')}` : ''}.`,
+      maxLength,
+    ),
+    keyPoints: keyPoints.slice(0, 10),
+    sentiment: 'neutral',
+  };
+}
+
+interface RecommendationRule {
+  key: string;
+  /** Context keys holding the metric, compared case-insensitively */
+  metrics: string[];
+  applies: (value: number) => boolean;
+  build: (value: number) => Omit<RecommendationDto, 'id'>;
+}
+
+const RECOMMENDATION_RULES: RecommendationRule[] = [
+  {
+    key: 'error-rate',
+    metrics: ['errorrate', 'failurerate'],
+    applies: (value) => value > 0.05,
+    build: (value) => ({
+      title: 'Investigate the elevated error rate',
+      description: `The error rate is ${percent(value)}. Review recent deployments and the failing endpoints' logs.`,
+      priority: value > 0.15 ? 'high' : 'medium',
+      confidence: 0.9,
+    }),
+  },
+  {
+    key: 'failed-tasks',
+    metrics: ['failedtasks', 'failedjobs', 'failed'],
+    applies: (value) => value > 0,
+    build: (value) => ({
+      title: 'Retry or clean up failed tasks',
+      description: `${value} task(s) have failed. Inspect their errors and retry the ones caused by transient issues.`,
+      priority: value > 10 ? 'high' : 'medium',
+      confidence: 0.85,
+    }),
+  },
+  {
+    key: 'queue-backlog',
+    metrics: ['queuedepth', 'queuelength', 'pendingtasks', 'pending', 'backlog'],
+    applies: (value) => value > 100,
+    build: (value) => ({
+      title: 'Scale out workers to drain the queue',
+      description: `${value} tasks are waiting. Add worker instances or raise their concurrency.`,
+      priority: value > 1000 ? 'high' : 'medium',
+      confidence: 0.8,
+    }),
+  },
+  {
+    key: 'cpu',
+    metrics: ['cpu', 'cpuusage', 'cpupercent'],
+    applies: (value) => normalizePercent(value) > 0.8,
+    build: (value) => ({
+      title: 'Reduce CPU pressure',
+      description: `CPU usage is ${percent(normalizePercent(value))}. Profile hot paths or add capacity.`,
+      priority: normalizePercent(value) > 0.9 ? 'high' : 'medium',
+      confidence: 0.8,
+    }),
+  },
+  {
+    key: 'memory',
+    metrics: ['memory', 'memoryusage', 'memorypercent'],
+    applies: (value) => normalizePercent(value) > 0.85,
+    build: (value) => ({
+      title: 'Check for memory pressure',
+      description: `Memory usage is ${percent(normalizePercent(value))}. Look for leaks or raise the memory limit.`,
+      priority: normalizePercent(value) > 0.95 ? 'high' : 'medium',
+      confidence: 0.75,
+    }),
+  },
+  {
+    key: 'latency',
+    metrics: ['responsetime', 'latency', 'avgresponsetime', 'p95latency'],
+    applies: (value) => value > 500,
+    build: (value) => ({
+      title: 'Improve response times',
+      description: `Responses take ${value}ms. Cache frequently read data and check slow database queries.`,
+      priority: value > 2000 ? 'high' : 'medium',
+      confidence: 0.75,
+    }),
+  },
+  {
+    key: 'cache-hit-rate',
+    metrics: ['cachehitrate', 'hitrate'],
+    applies: (value) => normalizePercent(value) < 0.6,
+    build: (value) => ({
+      title: 'Raise the cache hit rate',
+      description: `Only ${percent(normalizePercent(value))} of reads hit the cache. Review cache keys and TTLs.`,
+      priority: 'low',
+      confidence: 0.7,
+    }),
+  },
+];
+
+const GENERAL_RECOMMENDATIONS: Array<Omit<RecommendationDto, 'id'> & { key: string }> = [
+  {
+    key: 'alerts',
+    title: 'Set up alerts for key metrics',
+    description: 'Alert on error rate, queue depth and response time so regressions are caught early.',
+    priority: 'low',
+    confidence: 0.6,
+  },
+  {
+    key: 'dashboards',
+    title: 'Review the dashboard weekly',
+    description: 'A regular look at trends surfaces slow degradations before they become incidents.',
+    priority: 'low',
+    confidence: 0.55,
+  },
+  {
+    key: 'retention',
+    title: 'Check data retention settings',
+    description: 'Keeping only the data you need keeps queries fast and storage costs down.',
+    priority: 'low',
+    confidence: 0.5,
+  },
+];
+
+/**
+ * Recommendations from rules over the metrics found in the context (e.g. `errorRate`,
+ * `failedTasks`, `cpu`), padded with general advice. Ids are stable for the same user and rule.
+ * @param userId - The user the recommendations are for
+ * @param context - Free-form context; numeric values are read from the top level and one level down
+ * @param count - Number of recommendations (default: 3)
+ */
+export function recommend(userId: string, context: Record<string, unknown>, count = 3): RecommendationDto[] {
+  const metrics = flattenNumbers(context);
+  const priorityOrder = { high: 0, medium: 1, low: 2 };
+
+  const triggered = RECOMMENDATION_RULES.flatMap((rule) => {
+    const value = rule.metrics.map((name) => metrics.get(name)).find((v) => v !== undefined);
+    return value !== undefined && rule.applies(value) ? [{ key: rule.key, ...rule.build(value) }] : [];
+  }).sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority] || b.confidence - a.confidence);
+
+  return [...triggered, ...GENERAL_RECOMMENDATIONS].slice(0, count).map(({ key, ...recommendation }) => ({
+    id: `rec_${crypto.createHash('md5').update(`${userId}:${key}`).digest('hex').substring(0, 12)}`,
+    ...recommendation,
+  }));
+}
+
+// Helpers
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function anomalySeverity(ratio: number): 'low' | 'medium' | 'high' | 'critical' {
+  if (ratio >= 2) return 'critical';
+  if (ratio >= 1.5) return 'high';
+  if (ratio >= 1.2) return 'medium';
+  return 'low';
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.substring(0, maxLength - 3).trimEnd()}...`;
+}
+
+function sentimentOf(text: string): 'positive' | 'neutral' | 'negative' {
+  const score = words(text).reduce(
+    (sum, word) => sum + (POSITIVE_WORDS.has(word) ? 1 : NEGATIVE_WORDS.has(word) ? -1 : 0),
+    0,
+  );
+  return score > 0 ? 'positive' : score < 0 ? 'negative' : 'neutral';
+}
+
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    const numbers = value.filter((item): item is number => typeof item === 'number');
+    return numbers.length > 0 && numbers.length === value.length
+      ? `${value.length} values from ${Math.min(...numbers)} to ${Math.max(...numbers)} (mean ${round(mean(numbers), 2)})`
+      : `${value.length} item(s)`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `object with ${Object.keys(value).join(', ') || 'no fields'}`;
+  }
+  return String(value);
+}
+
+function flattenNumbers(context: Record<string, unknown>): Map<string, number> {
+  const numbers = new Map<string, number>();
+
+  for (const [key, value] of Object.entries(context)) {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      numbers.set(key.toLowerCase(), value);
+    } else if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [nestedKey, nestedValue] of Object.entries(value)) {
+        if (typeof nestedValue === 'number' && Number.isFinite(nestedValue) && !numbers.has(nestedKey.toLowerCase())) {
+          numbers.set(nestedKey.toLowerCase(), nestedValue);
+        }
+      }
+    }
+  }
+
+  return numbers;
+}
+
+/** Accept both ratios (0.85) and percentages (85) */
+function normalizePercent(value: number): number {
+  return value > 1 ? value / 100 : value;
+}
+
+function percent(ratio: number): string {
+  return `${Math.round(ratio * 1000) / 10}%`;
+}
@@ -1,4 +1,4 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
 import axios, { AxiosInstance } from 'axios';
 
 export interface WorkerJob {
@@ -10,8 +10,10 @@ export interface WorkerJob {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   result?: any;
   error?: string;
+  attempts?: number;
   createdAt: Date;
   updatedAt: Date;
+  failedAt?: Date;
 }
 
 export interface CreateJobDto {
@@ -22,6 +24,19 @@ export interface CreateJobDto {
   retries?: number;
 }
 
+export interface WorkerTaskStats {
+  total: number;
+  queued: number;
+  byStatus: Record<string, number>;
+  byPriority: Record<string, number>;
+  byQueue: Record<string, number>;
+}
+
+export interface WorkerTaskList {
+  tasks: WorkerJob[];
+  total: number;
+}
+
 @Injectable()
 export class WorkerClientService {
   private readonly logger = new Logger(WorkerClientService.name);
@@ -41,11 +56,14 @@ export class WorkerClientService {
     }
 
     try {
+      const apiKey = process.env.WORKER_SERVICE_API_KEY;
+
       this.client = axios.create({
         baseURL: this.workerServiceUrl,
         timeout: 10000,
         headers: {
           'Content-Type': 'application/json',
+          ...(apiKey ? { 'X-API-Key': apiKey } : {}),
         },
       });
 
@@ -220,6 +238,44 @@ export class WorkerClientService {
     }
   }
 
+  /**
+   * Get task counts by status, priority and queue
+   * @throws ServiceUnavailableException if the Worker Service client is not available
+   */
+  async getTaskStats(): Promise<WorkerTaskStats> {
+    const response = await this.requireClient().get('/api/tasks/stats');
+    return response.data;
+  }
+
+  /**
+   * List tasks with optional filtering, newest first
+   * @throws ServiceUnavailableException if the Worker Service client is not available
+   */
+  async listTasks(filters: { type?: string; status?: string; limit?: number } = {}): Promise<WorkerTaskList> {
+    const response = await this.requireClient().get('/api/tasks', { params: filters });
+    return { tasks: response.data.tasks, total: response.data.total };
+  }
+
+  /**
+   * Create a task; unlike createJob, a rejected task (e.g. an invalid payload) throws
+   * @throws ServiceUnavailableException if the Worker Service client is not available
+   */
+  async submitTask(task: { type: string; payload: Record<string, unknown>; priority?: string }): Promise<WorkerJob> {
+    const response = await this.requireClient().post('/api/tasks', task);
+    this.logger.log(`Created worker task: ${response.data.id}`);
+    return response.data;
+  }
+
+  /**
+   * Retry a failed or cancelled task
+   * @throws ServiceUnavailableException if the Worker Service client is not available
+   */
+  async retryTask(taskId: string, resetAttempts = false): Promise<WorkerJob> {
+    const response = await this.requireClient().post(`/api/tasks/${encodeURIComponent(taskId)}/retry`, { resetAttempts });
+    this.logger.log(`Retried worker task: ${taskId}`);
+    return response.data;
+  }
+
   /**
    * Helper method to create an AI processing job
    */
@@ -308,6 +364,13 @@ export class WorkerClientService {
     }
   }
 
+  private requireClient(): AxiosInstance {
+    if (!this.client) {
+      throw new ServiceUnavailableException('Worker Service is not available');
+    }
+    return this.client;
+  }
+
   /**
    * Check if Worker Service is available
    */
@@ -0,0 +1,51 @@
+import type { AuditLogger } from '../../../common/src/logging/audit-logger';
+import { LLMToolDefinition } from '../providers/llm-provider.interface';
+
+/**
+ * Injection token for the registered ChatTools
+ */
+export const CHAT_TOOLS = 'CHAT_TOOLS';
+
+/**
+ * Injection token for the audit logger that records tool invocations
+ */
+export const CHAT_TOOL_AUDIT_LOGGER = 'CHAT_TOOL_AUDIT_LOGGER';
+
+export type ChatToolAuditLogger = Pick<AuditLogger, 'logSuccess' | 'logError'>;
+
+/**
+ * The user a chat request is made for, as forwarded by the API Gateway
+ */
+export interface ChatCaller {
+  userId?: string;
+  userEmail?: string;
+  userRole?: string;
+  ipAddress?: string;
+  /** The caller's Authorization header, passed on to the API Gateway */
+  authorization?: string;
+}
+
+export interface ChatToolContext extends ChatCaller {
+  conversationId: string;
+}
+
+/**
+ * Chat Tool
+ * A function the assistant may call to read or change live dashboard data. Its result is
+ * sent back to the model as JSON.
+ */
+export interface ChatTool extends LLMToolDefinition {
+  /**
+   * Whether the tool changes data. The assistant then only proposes the call, and it runs once
+   * the user confirms it.
+   */
+  readonly requiresConfirmation?: boolean;
+
+  /**
+   * Run the tool
+   * @param args - The arguments the model passed, matching `parameters`
+   * @param context - The conversation and the user it belongs to
+   * @throws BadRequestException if the arguments are invalid
+   */
+  execute(args: Record<string, unknown>, context: ChatToolContext): Promise<unknown>;
+}
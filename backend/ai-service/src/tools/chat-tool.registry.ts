@@ -0,0 +1,92 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { isAxiosError } from 'axios';
+import { AuditAction } from '../../../common/src/logging/audit.types';
+import { LLMToolCall, LLMToolDefinition } from '../providers/llm-provider.interface';
+import { CHAT_TOOLS, CHAT_TOOL_AUDIT_LOGGER, ChatTool, ChatToolAuditLogger, ChatToolContext } from './chat-tool.interface';
+
+/**
+ * The outcome of a tool call, as sent back to the model
+ */
+export interface ChatToolResult {
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Chat Tool Registry
+ * Describes the registered tools to the model and runs the calls it makes. Every call is
+ * audit-logged as an AI analysis request on behalf of the user of the conversation.
+ */
+@Injectable()
+export class ChatToolRegistry {
+  private readonly logger = new Logger(ChatToolRegistry.name);
+  private tools: Map<string, ChatTool> = new Map();
+
+  constructor(
+    @Inject(CHAT_TOOLS) tools: ChatTool[],
+    @Inject(CHAT_TOOL_AUDIT_LOGGER) private readonly auditLogger: ChatToolAuditLogger,
+  ) {
+    tools.forEach((tool) => this.tools.set(tool.name, tool));
+  }
+
+  /**
+   * Describe the tools for a completion request
+   */
+  definitions(): LLMToolDefinition[] {
+    return [...this.tools.values()].map(({ name, description, parameters }) => ({ name, description, parameters }));
+  }
+
+  get(name: string): ChatTool | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Run a tool call. Failures, including unknown tools and invalid arguments, are returned as
+   * an error for the model rather than thrown.
+   */
+  async execute(call: LLMToolCall, context: ChatToolContext): Promise<ChatToolResult> {
+    const startTime = Date.now();
+    const audit = {
+      userEmail: context.userEmail,
+      userRole: context.userRole,
+      ipAddress: context.ipAddress,
+      resource: 'ai-service',
+      resourceId: context.conversationId,
+      metadata: { tool: call.name, arguments: call.arguments, conversationId: context.conversationId },
+    };
+
+    try {
+      const tool = this.tools.get(call.name);
+      if (!tool) {
+        throw new Error(`Unknown tool: ${call.name}`);
+      }
+
+      this.logger.log(`Running tool ${call.name} for conversation ${context.conversationId}`);
+      const result = await tool.execute(call.arguments, context);
+
+      await this.auditLogger.logSuccess(AuditAction.AI_ANALYSIS_REQUEST, context.userId, {
+        ...audit,
+        duration: Date.now() - startTime,
+      });
+      return { result };
+    } catch (error) {
+      const message = this.describeError(error);
+      this.logger.warn(`Tool ${call.name} failed: ${message}`);
+
+      await this.auditLogger.logError(AuditAction.AI_ANALYSIS_REQUEST, context.userId, message, {
+        ...audit,
+        duration: Date.now() - startTime,
+      });
+      return { error: message };
+    }
+  }
+
+  private describeError(error: unknown): string {
+    // Prefer the reason the Worker Service or API Gateway gave, e.g. a payload validation error
+    if (isAxiosError(error) && error.response?.data?.message) {
+      const message = error.response.data.message;
+      return Array.isArray(message) ? message.join('; ') : String(message);
+    }
+    return (error as Error).message;
+  }
+}
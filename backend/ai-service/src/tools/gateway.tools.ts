@@ -0,0 +1,47 @@
+import { Injectable, ForbiddenException } from '@nestjs/common';
+import { isAxiosError } from 'axios';
+import { DashboardStat, GatewayClientService } from '../services/gateway-client.service';
+import { ChatTool, ChatToolContext } from './chat-tool.interface';
+import { optionalInteger } from './tool-arguments';
+
+@Injectable()
+export class GetDashboardStatsTool implements ChatTool {
+  readonly name = 'get_dashboard_stats';
+  readonly description = 'Get the headline statistics shown on the dashboard, with their trends.';
+  readonly parameters = { type: 'object', properties: {}, additionalProperties: false };
+
+  constructor(private readonly gatewayClient: GatewayClientService) {}
+
+  async execute(_args: Record<string, unknown>, context: ChatToolContext): Promise<DashboardStat[]> {
+    return this.gatewayClient.getDashboardStats(context.authorization);
+  }
+}
+
+@Injectable()
+export class GetSecurityReportTool implements ChatTool {
+  readonly name = 'get_security_report';
+  readonly description =
+    'Get the security report: failed logins, blocked requests and other security events. Only available to administrators.';
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      hours: { type: 'integer', minimum: 1, maximum: 168, description: 'Period covered by the report (default: 24)' },
+    },
+    additionalProperties: false,
+  };
+
+  constructor(private readonly gatewayClient: GatewayClientService) {}
+
+  async execute(args: Record<string, unknown>, context: ChatToolContext) {
+    const hours = optionalInteger(args, 'hours', 1, 168, 24);
+
+    try {
+      return await this.gatewayClient.getSecurityReport(hours, context.authorization);
+    } catch (error) {
+      if (isAxiosError(error) && (error.response?.status === 401 || error.response?.status === 403)) {
+        throw new ForbiddenException('The security report is only available to administrators');
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { BadRequestException } from '@nestjs/common';
+
+// Models sometimes send arguments that don't match the declared schema, so tools check them
+// before use and report mistakes back to the model as errors.
+
+export function requiredString(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new BadRequestException(`${name} must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+export function optionalString(args: Record<string, unknown>, name: string, allowed?: string[]): string | undefined {
+  if (args[name] === undefined || args[name] === null) {
+    return undefined;
+  }
+
+  const value = requiredString(args, name);
+  if (allowed && !allowed.includes(value)) {
+    throw new BadRequestException(`${name} must be one of: ${allowed.join(', ')}`);
+  }
+  return value;
+}
+
+export function optionalInteger(
+  args: Record<string, unknown>,
+  name: string,
+  min: number,
+  max: number,
+  defaultValue: number,
+): number {
+  const value = args[name];
+
+  if (value === undefined || value === null) {
+    return defaultValue;
+  }
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    throw new BadRequestException(`${name} must be an integer between ${min} and ${max}`);
+  }
+  return value as number;
+}
+
+export function requiredObject(args: Record<string, unknown>, name: string): Record<string, unknown> {
+  const value = args[name];
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new BadRequestException(`${name} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
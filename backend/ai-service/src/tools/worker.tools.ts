@@ -0,0 +1,108 @@
+import { Injectable } from '@nestjs/common';
+import { WorkerClientService, WorkerTaskStats } from '../services/worker-client.service';
+import { ChatTool } from './chat-tool.interface';
+import { optionalInteger, optionalString, requiredObject, requiredString } from './tool-arguments';
+
+const TASK_PRIORITIES = ['low', 'normal', 'high', 'critical'];
+
+@Injectable()
+export class GetQueueStatsTool implements ChatTool {
+  readonly name = 'get_queue_stats';
+  readonly description = 'Get the number of worker tasks by status, priority and queue, and how many are waiting to run.';
+  readonly parameters = { type: 'object', properties: {}, additionalProperties: false };
+
+  constructor(private readonly workerClient: WorkerClientService) {}
+
+  async execute(): Promise<WorkerTaskStats> {
+    return this.workerClient.getTaskStats();
+  }
+}
+
+@Injectable()
+export class ListFailedTasksTool implements ChatTool {
+  readonly name = 'list_failed_tasks';
+  readonly description = 'List the most recent failed worker tasks with their error messages.';
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      type: { type: 'string', description: 'Only list tasks of this type, e.g. "email"' },
+      limit: { type: 'integer', minimum: 1, maximum: 50, description: 'Maximum number of tasks (default: 10)' },
+    },
+    additionalProperties: false,
+  };
+
+  constructor(private readonly workerClient: WorkerClientService) {}
+
+  async execute(args: Record<string, unknown>) {
+    const { tasks, total } = await this.workerClient.listTasks({
+      status: 'failed',
+      type: optionalString(args, 'type'),
+      limit: optionalInteger(args, 'limit', 1, 50, 10),
+    });
+
+    // Payloads and results can be large and are rarely needed to explain a failure
+    return {
+      total,
+      tasks: tasks.map((task) => ({
+        id: task.id,
+        type: task.type,
+        error: task.error,
+        attempts: task.attempts,
+        failedAt: task.failedAt,
+      })),
+    };
+  }
+}
+
+@Injectable()
+export class CreateTaskTool implements ChatTool {
+  readonly name = 'create_task';
+  readonly description = 'Queue a new worker task. The user is asked to confirm before the task is created.';
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      type: { type: 'string', description: 'Task type, e.g. "email" or "report"' },
+      payload: { type: 'object', description: 'Task payload; it must match the schema of the task type' },
+      priority: { type: 'string', enum: TASK_PRIORITIES, description: 'Default: normal' },
+    },
+    required: ['type', 'payload'],
+    additionalProperties: false,
+  };
+  readonly requiresConfirmation = true;
+
+  constructor(private readonly workerClient: WorkerClientService) {}
+
+  async execute(args: Record<string, unknown>) {
+    const task = await this.workerClient.submitTask({
+      type: requiredString(args, 'type'),
+      payload: requiredObject(args, 'payload'),
+      priority: optionalString(args, 'priority', TASK_PRIORITIES),
+    });
+
+    return { id: task.id, type: task.type, status: task.status };
+  }
+}
+
+@Injectable()
+export class RetryTaskTool implements ChatTool {
+  readonly name = 'retry_task';
+  readonly description = 'Queue a failed or cancelled worker task again. The user is asked to confirm before the task is retried.';
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      taskId: { type: 'string', description: 'ID of the task to retry' },
+      resetAttempts: { type: 'boolean', description: 'Start counting attempts from zero again (default: false)' },
+    },
+    required: ['taskId'],
+    additionalProperties: false,
+  };
+  readonly requiresConfirmation = true;
+
+  constructor(private readonly workerClient: WorkerClientService) {}
+
+  async execute(args: Record<string, unknown>) {
+    const task = await this.workerClient.retryTask(requiredString(args, 'taskId'), args.resetAttempts === true);
+
+    return { id: task.id, type: task.type, status: task.status };
+  }
+}
@@ -2,6 +2,12 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { AIController } from '../src/controllers/ai.controller';
 import { AIService } from '../src/services/ai.service';
 import { OpenAIService } from '../src/services/openai.service';
+import { LLM_PROVIDERS, LLMProvider } from '../src/providers/llm-provider.interface';
+import { LLMProviderRegistry } from '../src/providers/llm-provider.registry';
+import { OpenAIProvider } from '../src/providers/openai.provider';
+import { MockLLMProvider } from '../src/providers/mock-llm.provider';
+import { CHAT_TOOLS, CHAT_TOOL_AUDIT_LOGGER } from '../src/tools/chat-tool.interface';
+import { ChatToolRegistry } from '../src/tools/chat-tool.registry';
 import { CacheService } from '../src/services/cache.service';
 import { WorkerClientService } from '../src/services/worker-client.service';
 import { ChatMessageDto, InsightsRequestDto } from '../src/dto/chat.dto';
@@ -13,7 +19,7 @@ describe('AIController', () => {
   const mockOpenAIService = {
     isAvailable: jest.fn().mockReturnValue(false), // Use mock mode
     createChatCompletion: jest.fn(),
-    generateDataInsights: jest.fn(),
+    createJsonCompletion: jest.fn(),
   };
 
   const mockCacheService = {
@@ -23,6 +29,7 @@ describe('AIController', () => {
     delete: jest.fn().mockResolvedValue(undefined),
     getChatCacheTTL: jest.fn().mockReturnValue(3600),
     getInsightsCacheTTL: jest.fn().mockReturnValue(7200),
+    getConversationTTL: jest.fn().mockReturnValue(3600),
     getChatCacheKey: jest.fn((conversationId: string, messageHash: string) => 
       `chat:${conversationId}:${messageHash}`),
     getInsightsCacheKey: jest.fn((insightType: string, dataHash: string) => 
@@ -45,6 +52,20 @@ describe('AIController', () => {
           provide: OpenAIService,
           useValue: mockOpenAIService,
         },
+        OpenAIProvider,
+        MockLLMProvider,
+        {
+          provide: LLM_PROVIDERS,
+          useFactory: (...providers: LLMProvider[]) => providers,
+          inject: [OpenAIProvider, MockLLMProvider],
+        },
+        LLMProviderRegistry,
+        { provide: CHAT_TOOLS, useValue: [] },
+        {
+          provide: CHAT_TOOL_AUDIT_LOGGER,
+          useValue: { logSuccess: jest.fn(), logError: jest.fn() },
+        },
+        ChatToolRegistry,
         {
           provide: CacheService,
           useValue: mockCacheService,
@@ -151,6 +172,64 @@ describe('AIController', () => {
     });
   });
 
+  describe('chatStream', () => {
+    const createResponse = () => {
+      const listeners: Record<string, () => void> = {};
+      return {
+        written: [] as string[],
+        listeners,
+        status: jest.fn(),
+        setHeader: jest.fn(),
+        flushHeaders: jest.fn(),
+        on: jest.fn((event: string, listener: () => void) => {
+          listeners[event] = listener;
+        }),
+        write: jest.fn(function (this: { written: string[] }, chunk: string) {
+          this.written.push(chunk);
+        }),
+        end: jest.fn(),
+      };
+    };
+
+    it('should write tokens and the final response as server-sent events', async () => {
+      const res = createResponse();
+
+      await controller.chatStream({ message: 'Hello' }, res as never);
+
+      expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+      expect(res.written[0]).toMatch(/^event: token\ndata: \{.*"token":"I"/);
+      expect(res.written[res.written.length - 1]).toMatch(/^event: done\ndata: \{.*"response":"I understand/);
+      expect(res.written.every((chunk) => chunk.endsWith('\n\n'))).toBe(true);
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should send an error event when the stream fails', async () => {
+      const res = createResponse();
+      jest.spyOn(aiService, 'streamChat').mockImplementationOnce(async function* () {
+        yield { type: 'token' as const, conversationId: 'conv-1', token: 'Partial' };
+        throw new Error('Upstream closed');
+      });
+
+      await controller.chatStream({ message: 'Hello' }, res as never);
+
+      expect(res.written[1]).toBe('event: error\ndata: {"message":"Upstream closed"}\n\n');
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should stop writing once the client disconnects', async () => {
+      const res = createResponse();
+      res.write.mockImplementationOnce(function (this: { written: string[] }, chunk: string) {
+        this.written.push(chunk);
+        res.listeners.close();
+      });
+
+      await controller.chatStream({ message: 'Hello' }, res as never);
+
+      expect(res.written).toHaveLength(1);
+      expect(res.end).toHaveBeenCalled();
+    });
+  });
+
   describe('generateInsights', () => {
     it('should generate insights for performance data', async () => {
       const insightsDto: InsightsRequestDto = {
@@ -415,6 +494,29 @@ describe('AIController', () => {
     });
   });
 
+  describe('getRecommendations', () => {
+    it('should recommend actions from the context', async () => {
+      const result = await controller.getRecommendations({
+        userId: 'user-1',
+        context: { failedTasks: 12, pendingTasks: 40 },
+        count: 2,
+      });
+
+      expect(result.recommendations).toHaveLength(2);
+      expect(result.recommendations[0]).toMatchObject({
+        title: 'Retry or clean up failed tasks',
+        priority: 'high',
+      });
+      expect(result.recommendations[0].id).toMatch(/^rec_/);
+    });
+
+    it('should default to three recommendations', async () => {
+      const result = await controller.getRecommendations({ userId: 'user-1', context: {} });
+
+      expect(result.recommendations).toHaveLength(3);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle service errors gracefully', async () => {
       jest.spyOn(aiService, 'processChat').mockRejectedValueOnce(new Error('Service unavailable'));
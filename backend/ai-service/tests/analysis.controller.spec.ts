@@ -0,0 +1,303 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { AnalysisController } from '../src/controllers/analysis.controller';
+import { AIService } from '../src/services/ai.service';
+import { OpenAIService } from '../src/services/openai.service';
+import { LLM_PROVIDERS, LLMProvider } from '../src/providers/llm-provider.interface';
+import { LLMProviderRegistry } from '../src/providers/llm-provider.registry';
+import { OpenAIProvider } from '../src/providers/openai.provider';
+import { MockLLMProvider } from '../src/providers/mock-llm.provider';
+import { CHAT_TOOLS, CHAT_TOOL_AUDIT_LOGGER } from '../src/tools/chat-tool.interface';
+import { ChatToolRegistry } from '../src/tools/chat-tool.registry';
+import { CacheService } from '../src/services/cache.service';
+import { WorkerClientService } from '../src/services/worker-client.service';
+import { AnomaliesRequestDto, ConversationQueryDto, PredictRequestDto } from '../src/dto/chat.dto';
+
+describe('AnalysisController', () => {
+  let controller: AnalysisController;
+  let aiService: AIService;
+
+  const mockOpenAIService = {
+    isAvailable: jest.fn().mockReturnValue(false),
+    createChatCompletion: jest.fn(),
+    createJsonCompletion: jest.fn(),
+  };
+
+  const mockCacheService = {
+    get: jest.fn().mockResolvedValue(null),
+    set: jest.fn().mockResolvedValue(undefined),
+    delete: jest.fn().mockResolvedValue(undefined),
+    getChatCacheTTL: jest.fn().mockReturnValue(3600),
+    getConversationTTL: jest.fn().mockReturnValue(3600),
+    getChatCacheKey: jest.fn((conversationId: string, messageHash: string) =>
+      `chat:${conversationId}:${messageHash}`),
+    getConversationCacheKey: jest.fn((conversationId: string) =>
+      `conversation:${conversationId}`),
+  };
+
+  const mockWorkerClientService = {
+    isWorkerAvailable: jest.fn().mockReturnValue(false),
+    createAIProcessingJob: jest.fn(),
+  };
+
+  const day = (n: number) => new Date(Date.UTC(2024, 0, 1 + n)).toISOString();
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AnalysisController],
+      providers: [
+        AIService,
+        {
+          provide: OpenAIService,
+          useValue: mockOpenAIService,
+        },
+        OpenAIProvider,
+        MockLLMProvider,
+        {
+          provide: LLM_PROVIDERS,
+          useFactory: (...providers: LLMProvider[]) => providers,
+          inject: [OpenAIProvider, MockLLMProvider],
+        },
+        LLMProviderRegistry,
+        { provide: CHAT_TOOLS, useValue: [] },
+        {
+          provide: CHAT_TOOL_AUDIT_LOGGER,
+          useValue: { logSuccess: jest.fn(), logError: jest.fn() },
+        },
+        ChatToolRegistry,
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
+        {
+          provide: WorkerClientService,
+          useValue: mockWorkerClientService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<AnalysisController>(AnalysisController);
+    aiService = module.get<AIService>(AIService);
+
+    jest.clearAllMocks();
+    mockOpenAIService.isAvailable.mockReturnValue(false);
+    mockCacheService.get.mockResolvedValue(null);
+  });
+
+  describe('summarize', () => {
+    it('should summarize text offline', async () => {
+      const result = await controller.summarize({
+        content: 'Errors spiked after the release. The release was rolled back. Errors returned to normal.',
+        type: 'text',
+        maxLength: 100,
+      });
+
+      expect(result.summary.length).toBeLessThanOrEqual(100);
+      expect(result.keyPoints.length).toBeGreaterThan(0);
+      expect(result.sentiment).toBe('negative');
+      expect(mockOpenAIService.createJsonCompletion).not.toHaveBeenCalled();
+    });
+
+    it('should describe data sent as a JSON string', async () => {
+      const result = await controller.summarize({ content: '{"requests":1200,"errors":3}', type: 'data' });
+
+      expect(result.keyPoints).toEqual(['requests: 1200', 'errors: 3']);
+    });
+
+    it('should reject content that does not match the type', async () => {
+      await expect(controller.summarize({ content: { a: 1 }, type: 'text' })).rejects.toThrow(BadRequestException);
+      await expect(controller.summarize({ content: 'not json', type: 'data' })).rejects.toThrow(BadRequestException);
+    });
+
+    it('should use OpenAI when available', async () => {
+      mockOpenAIService.isAvailable.mockReturnValue(true);
+      mockOpenAIService.createJsonCompletion.mockResolvedValue({
+        summary: 'The release caused errors and was rolled back.',
+        keyPoints: ['Errors spiked', 'Rollback fixed it'],
+        sentiment: 'negative',
+      });
+
+      const result = await controller.summarize({ content: 'Errors spiked after the release.', type: 'text' });
+
+      expect(result).toEqual({
+        summary: 'The release caused errors and was rolled back.',
+        keyPoints: ['Errors spiked', 'Rollback fixed it'],
+        sentiment: 'negative',
+      });
+    });
+
+    it('should fall back offline when OpenAI answers in an unexpected shape', async () => {
+      mockOpenAIService.isAvailable.mockReturnValue(true);
+      mockOpenAIService.createJsonCompletion.mockResolvedValue({ text: 'no summary field' });
+
+      const result = await controller.summarize({ content: 'The service is healthy.', type: 'text' });
+
+      expect(result.summary).toBe('The service is healthy.');
+    });
+  });
+
+  describe('predict', () => {
+    const request: PredictRequestDto = {
+      metricName: 'requests',
+      historicalData: Array.from({ length: 7 }, (_, i) => ({ timestamp: day(i), value: 100 + 5 * i })),
+      predictionHorizon: 2,
+      includeConfidenceInterval: true,
+    };
+
+    it('should forecast offline with a linear trend', async () => {
+      const result = await controller.predict(request);
+
+      expect(result.predictions.map((p) => p.predictedValue)).toEqual([135, 140]);
+      expect(result.predictions[0].confidenceInterval).toEqual({ lower: 135, upper: 135 });
+      expect(result.trendDirection).toBe('increasing');
+    });
+
+    it('should use OpenAI predictions and compute their timestamps', async () => {
+      mockOpenAIService.isAvailable.mockReturnValue(true);
+      mockOpenAIService.createJsonCompletion.mockResolvedValue({
+        predictions: [
+          { predictedValue: 136, lower: 130, upper: 142 },
+          { predictedValue: 141, lower: 133, upper: 149 },
+        ],
+        trendDirection: 'increasing',
+        accuracy: 1.4,
+      });
+
+      const result = await controller.predict(request);
+
+      expect(result.predictions[1]).toEqual({
+        timestamp: new Date(day(8)),
+        predictedValue: 141,
+        confidenceInterval: { lower: 133, upper: 149 },
+      });
+      expect(result.accuracy).toBe(1);
+    });
+
+    it('should fall back offline when OpenAI returns the wrong number of predictions', async () => {
+      mockOpenAIService.isAvailable.mockReturnValue(true);
+      mockOpenAIService.createJsonCompletion.mockResolvedValue({
+        predictions: [{ predictedValue: 1 }],
+        trendDirection: 'stable',
+        accuracy: 0.5,
+      });
+
+      const result = await controller.predict(request);
+
+      expect(result.predictions.map((p) => p.predictedValue)).toEqual([135, 140]);
+    });
+
+    it('should fall back offline when OpenAI fails', async () => {
+      mockOpenAIService.isAvailable.mockReturnValue(true);
+      mockOpenAIService.createJsonCompletion.mockRejectedValue(new Error('rate limited'));
+
+      const result = await controller.predict(request);
+
+      expect(result.predictions).toHaveLength(2);
+    });
+  });
+
+  describe('detectAnomalies', () => {
+    const dataPoints = [10, 11, 12, 10, 11, 80, 12, 11].map((value, i) => ({ timestamp: day(i), value }));
+
+    it('should detect anomalies offline', async () => {
+      const result = await controller.detectAnomalies({ dataPoints, sensitivity: 'medium' });
+
+      expect(result.anomalies.map((a) => a.value)).toEqual([80]);
+      expect(result.totalDataPoints).toBe(8);
+      expect(result.anomalyRate).toBe(0.125);
+    });
+
+    it('should map OpenAI anomalies back to the submitted points', async () => {
+      mockOpenAIService.isAvailable.mockReturnValue(true);
+      mockOpenAIService.createJsonCompletion.mockResolvedValue({
+        anomalies: [
+          { index: 5, severity: 'critical', reason: 'Sevenfold spike' },
+          { index: 5, severity: 'high', reason: 'Duplicate' },
+        ],
+      });
+
+      const result = await controller.detectAnomalies({ dataPoints });
+
+      expect(result.anomalies).toEqual([
+        { timestamp: day(5), value: 80, severity: 'critical', reason: 'Sevenfold spike' },
+      ]);
+    });
+
+    it('should ignore OpenAI answers referencing unknown points', async () => {
+      mockOpenAIService.isAvailable.mockReturnValue(true);
+      mockOpenAIService.createJsonCompletion.mockResolvedValue({
+        anomalies: [{ index: 42, severity: 'high', reason: 'Made up' }],
+      });
+
+      const result = await controller.detectAnomalies({ dataPoints });
+
+      expect(result.anomalies.map((a) => a.value)).toEqual([80]);
+    });
+  });
+
+  describe('listConversationMessages', () => {
+    it('should page through a conversation', async () => {
+      const { conversationId } = await aiService.processChat({ message: 'Hello' });
+      await aiService.processChat({ message: 'Show me the queue', conversationId });
+
+      const result = await controller.listConversationMessages({ conversationId, limit: 2, offset: 1 });
+
+      expect(result.total).toBe(4);
+      expect(result.messages).toHaveLength(2);
+      expect(result.messages[1]).toMatchObject({ role: 'user', content: 'Show me the queue' });
+      expect(result.messages[1].timestamp).toBeDefined();
+    });
+
+    it('should accept limit and offset as query strings', async () => {
+      const { conversationId } = await aiService.processChat({ message: 'Hello' });
+      const query = { conversationId, limit: '1', offset: '1' } as unknown as ConversationQueryDto;
+
+      const result = await controller.listConversationMessages(query);
+
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0].role).toBe('assistant');
+    });
+
+    it('should throw NotFoundException for an unknown conversation', async () => {
+      await expect(controller.listConversationMessages({ conversationId: 'missing' })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject invalid prediction requests', async () => {
+      const dto = plainToInstance(PredictRequestDto, {
+        metricName: 'requests',
+        historicalData: [{ timestamp: 'yesterday', value: 1 }],
+        predictionHorizon: 0,
+      });
+
+      const errors = await validate(dto);
+
+      expect(errors.map((e) => e.property).sort()).toEqual(['historicalData', 'predictionHorizon']);
+    });
+
+    it('should validate nested data points', async () => {
+      const dto = plainToInstance(AnomaliesRequestDto, {
+        dataPoints: [{ timestamp: day(0), value: 'high' }],
+        sensitivity: 'extreme',
+      });
+
+      const errors = await validate(dto);
+
+      expect(errors.map((e) => e.property).sort()).toEqual(['dataPoints', 'sensitivity']);
+      expect(errors.find((e) => e.property === 'dataPoints')!.children![0].children![0].property).toBe('value');
+    });
+
+    it('should convert query parameters before validating them', async () => {
+      const dto = plainToInstance(ConversationQueryDto, { conversationId: 'conv_1', limit: '10', offset: '-1' });
+
+      const errors = await validate(dto);
+
+      expect(errors.map((e) => e.property)).toEqual(['offset']);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { BadRequestException } from '@nestjs/common';
+import { LLMCompletion, LLMProvider } from '../../src/providers/llm-provider.interface';
+import { LLMProviderRegistry } from '../../src/providers/llm-provider.registry';
+import { MockLLMProvider } from '../../src/providers/mock-llm.provider';
+
+describe('LLM providers', () => {
+  const fakeProvider = (name: string, available: boolean): LLMProvider => ({
+    name,
+    model: `${name}-model`,
+    isAvailable: () => available,
+    chat: async (): Promise<LLMCompletion> => ({ content: name, tokensUsed: 1, model: `${name}-model` }),
+    stream: async function* () {
+      yield name;
+    },
+    embed: async () => [],
+    structured: async () => null,
+  });
+
+  describe('LLMProviderRegistry', () => {
+    const originalProvider = process.env.AI_PROVIDER;
+
+    afterEach(() => {
+      if (originalProvider === undefined) {
+        delete process.env.AI_PROVIDER;
+      } else {
+        process.env.AI_PROVIDER = originalProvider;
+      }
+    });
+
+    it('should default to the first available of openai, local and mock', () => {
+      delete process.env.AI_PROVIDER;
+      const registry = new LLMProviderRegistry([
+        fakeProvider('openai', false),
+        fakeProvider('local', true),
+        new MockLLMProvider(),
+      ]);
+
+      expect(registry.resolve().name).toBe('local');
+      expect(registry.list()).toEqual([
+        { name: 'openai', model: 'openai-model', available: false, default: false },
+        { name: 'local', model: 'local-model', available: true, default: true },
+        { name: 'mock', model: 'mock-ai-model', available: true, default: false },
+      ]);
+    });
+
+    it('should use AI_PROVIDER as the default', () => {
+      process.env.AI_PROVIDER = 'mock';
+      const registry = new LLMProviderRegistry([fakeProvider('openai', true), new MockLLMProvider()]);
+
+      expect(registry.resolve().name).toBe('mock');
+    });
+
+    it('should reject an unknown or unconfigured AI_PROVIDER at startup', () => {
+      process.env.AI_PROVIDER = 'anthropic';
+      expect(() => new LLMProviderRegistry([new MockLLMProvider()])).toThrow('Unsupported AI_PROVIDER: anthropic');
+
+      process.env.AI_PROVIDER = 'openai';
+      expect(() => new LLMProviderRegistry([fakeProvider('openai', false), new MockLLMProvider()])).toThrow(
+        'not configured',
+      );
+    });
+
+    it('should resolve the provider a request names', () => {
+      delete process.env.AI_PROVIDER;
+      const registry = new LLMProviderRegistry([fakeProvider('openai', true), fakeProvider('local', false), new MockLLMProvider()]);
+
+      expect(registry.resolve('mock').name).toBe('mock');
+      expect(() => registry.resolve('local')).toThrow(BadRequestException);
+      expect(() => registry.resolve('unknown')).toThrow('Unknown AI provider: unknown');
+    });
+  });
+
+  describe('MockLLMProvider', () => {
+    let provider: MockLLMProvider;
+
+    beforeEach(() => {
+      provider = new MockLLMProvider();
+    });
+
+    it('should return scripted replies in order, then the demo reply', async () => {
+      provider.script('First', { answer: 42 });
+
+      expect((await provider.chat([{ role: 'user', content: 'One' }])).content).toBe('First');
+      expect((await provider.chat([{ role: 'user', content: 'Two' }])).content).toBe('{"answer":42}');
+
+      const fallback = await provider.chat([{ role: 'user', content: 'How is the queue?' }]);
+      expect(fallback.content).toContain('How is the queue?');
+      expect(fallback.model).toBe('mock-ai-model');
+      expect(provider.calls.map((call) => call.method)).toEqual(['chat', 'chat', 'chat']);
+    });
+
+    it('should stream a reply word by word', async () => {
+      provider.script('Queue is healthy');
+      const tokens: string[] = [];
+
+      for await (const token of provider.stream([{ role: 'user', content: 'Status?' }])) {
+        tokens.push(token);
+      }
+
+      expect(tokens).toEqual(['Queue', ' is', ' healthy']);
+    });
+
+    it('should return scripted objects for structured requests and null once they run out', async () => {
+      provider.script({ summary: 'All good' }, 'Answer: {"summary": "Parsed"}');
+
+      expect(await provider.structured('system', 'user')).toEqual({ summary: 'All good' });
+      expect(await provider.structured('system', 'user')).toEqual({ summary: 'Parsed' });
+      expect(await provider.structured('system', 'user')).toBeNull();
+    });
+
+    it('should throw scripted errors', async () => {
+      provider.script(new Error('rate limited'));
+
+      await expect(provider.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow('rate limited');
+    });
+
+    it('should derive normalized embeddings from the text', async () => {
+      const first = await provider.embed('queue depth');
+      const norm = Math.sqrt(first.reduce((sum, value) => sum + value * value, 0));
+
+      expect(first).toHaveLength(64);
+      expect(norm).toBeCloseTo(1);
+      expect(await provider.embed('queue depth')).toEqual(first);
+      expect(await provider.embed('error rate')).not.toEqual(first);
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import OpenAI from 'openai';
+import { fromOpenAIToolCalls, mergeOpenAIToolCallDeltas } from '../../src/providers/openai-format';
+
+describe('OpenAI format', () => {
+  it('should assemble streamed tool calls from their fragments', () => {
+    const calls: OpenAI.Chat.ChatCompletionMessageFunctionToolCall[] = [];
+
+    mergeOpenAIToolCallDeltas(calls, [{ index: 0, id: 'call_1', type: 'function', function: { name: 'retry_task', arguments: '' } }]);
+    mergeOpenAIToolCallDeltas(calls, [{ index: 0, function: { arguments: '{"taskId":' } }]);
+    mergeOpenAIToolCallDeltas(calls, [
+      { index: 0, function: { arguments: '"task-9"}' } },
+      { index: 1, id: 'call_2', type: 'function', function: { name: 'get_queue_stats', arguments: '{}' } },
+    ]);
+    mergeOpenAIToolCallDeltas(calls, undefined);
+
+    expect(fromOpenAIToolCalls(calls)).toEqual([
+      { id: 'call_1', name: 'retry_task', arguments: { taskId: 'task-9' } },
+      { id: 'call_2', name: 'get_queue_stats', arguments: {} },
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+import { countMessageTokens, countTokens, getTokenizerProfile } from '../../src/providers/token-counter';
+
+describe('token counter', () => {
+  it('should pick the tokenizer profile of the model family', () => {
+    expect(getTokenizerProfile('gpt-4o-mini')).toEqual(expect.objectContaining({ encoding: 'o200k_base', contextWindow: 128000 }));
+    expect(getTokenizerProfile('gpt-3.5-turbo')).toEqual(expect.objectContaining({ encoding: 'cl100k_base', contextWindow: 16385 }));
+    expect(getTokenizerProfile('llama3.1:8b')).toEqual(expect.objectContaining({ encoding: 'llama3', contextWindow: 131072 }));
+    expect(getTokenizerProfile('mistralai/Mistral-7B-Instruct')).toEqual(expect.objectContaining({ encoding: 'sentencepiece' }));
+  });
+
+  it('should cost unknown models like GPT-4', () => {
+    expect(getTokenizerProfile('mock-ai-model')).toEqual(expect.objectContaining({ encoding: 'cl100k_base', contextWindow: 8192 }));
+  });
+
+  it('should count short words as one token each', () => {
+    expect(countTokens('How is the queue doing', 'gpt-3.5-turbo')).toBe(5);
+  });
+
+  it('should split long words and numbers the way the model does', () => {
+    // Up to 3 digits per token for tiktoken encodings, one per digit for SentencePiece
+    expect(countTokens('1234567', 'gpt-4')).toBe(3);
+    expect(countTokens('1234567', 'mistral')).toBe(7);
+    expect(countTokens('internationalization', 'gpt-4')).toBeGreaterThan(1);
+  });
+
+  it('should count CJK text about one token per character', () => {
+    expect(countTokens('队列状态', 'gpt-4')).toBe(4);
+  });
+
+  it('should add the chat format overhead to a prompt', () => {
+    const messages = [
+      { role: 'system' as const, content: 'Be brief.' },
+      { role: 'user' as const, content: 'Hello' },
+    ];
+
+    expect(countMessageTokens(messages, 'gpt-4')).toBe(3 + (3 + 3) + (3 + 1));
+    expect(countMessageTokens([], 'gpt-4')).toBe(3);
+  });
+});
@@ -1,17 +1,28 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
 import { AIService } from '../../src/services/ai.service';
 import { OpenAIService } from '../../src/services/openai.service';
+import { LLM_PROVIDERS, LLMProvider } from '../../src/providers/llm-provider.interface';
+import { LLMProviderRegistry } from '../../src/providers/llm-provider.registry';
+import { OpenAIProvider } from '../../src/providers/openai.provider';
+import { MockLLMProvider } from '../../src/providers/mock-llm.provider';
+import { CHAT_TOOLS, CHAT_TOOL_AUDIT_LOGGER, ChatTool } from '../../src/tools/chat-tool.interface';
+import { ChatToolRegistry } from '../../src/tools/chat-tool.registry';
+import { GetQueueStatsTool, ListFailedTasksTool, RetryTaskTool } from '../../src/tools/worker.tools';
+import { AuditAction } from '../../../common/src/logging/audit.types';
 import { CacheService } from '../../src/services/cache.service';
 import { WorkerClientService } from '../../src/services/worker-client.service';
-import { ChatMessageDto, InsightsRequestDto } from '../../src/dto/chat.dto';
+import { ChatMessageDto, ChatStreamEventDto, InsightsRequestDto } from '../../src/dto/chat.dto';
 
 describe('AIService (AI Module)', () => {
   let service: AIService;
+  let mockProvider: MockLLMProvider;
 
   const mockOpenAIService = {
     isAvailable: jest.fn().mockReturnValue(false),
     createChatCompletion: jest.fn(),
-    generateDataInsights: jest.fn(),
+    streamChatCompletion: jest.fn(),
+    createJsonCompletion: jest.fn(),
   };
 
   const mockCacheService = {
@@ -21,6 +32,7 @@ describe('AIService (AI Module)', () => {
     delete: jest.fn().mockResolvedValue(undefined),
     getChatCacheTTL: jest.fn().mockReturnValue(3600),
     getInsightsCacheTTL: jest.fn().mockReturnValue(7200),
+    getConversationTTL: jest.fn().mockReturnValue(3600),
     getChatCacheKey: jest.fn((conversationId: string, messageHash: string) => 
       `chat:${conversationId}:${messageHash}`),
     getInsightsCacheKey: jest.fn((insightType: string, dataHash: string) => 
@@ -32,6 +44,14 @@ describe('AIService (AI Module)', () => {
   const mockWorkerClientService = {
     isWorkerAvailable: jest.fn().mockReturnValue(false),
     createAIProcessingJob: jest.fn(),
+    getTaskStats: jest.fn(),
+    listTasks: jest.fn(),
+    retryTask: jest.fn(),
+  };
+
+  const mockAuditLogger = {
+    logSuccess: jest.fn().mockResolvedValue(undefined),
+    logError: jest.fn().mockResolvedValue(undefined),
   };
 
   beforeEach(async () => {
@@ -42,6 +62,27 @@ describe('AIService (AI Module)', () => {
           provide: OpenAIService,
           useValue: mockOpenAIService,
         },
+        OpenAIProvider,
+        MockLLMProvider,
+        {
+          provide: LLM_PROVIDERS,
+          useFactory: (...providers: LLMProvider[]) => providers,
+          inject: [OpenAIProvider, MockLLMProvider],
+        },
+        LLMProviderRegistry,
+        GetQueueStatsTool,
+        ListFailedTasksTool,
+        RetryTaskTool,
+        {
+          provide: CHAT_TOOLS,
+          useFactory: (...tools: ChatTool[]) => tools,
+          inject: [GetQueueStatsTool, ListFailedTasksTool, RetryTaskTool],
+        },
+        {
+          provide: CHAT_TOOL_AUDIT_LOGGER,
+          useValue: mockAuditLogger,
+        },
+        ChatToolRegistry,
         {
           provide: CacheService,
           useValue: mockCacheService,
@@ -54,6 +95,7 @@ describe('AIService (AI Module)', () => {
     }).compile();
 
     service = module.get<AIService>(AIService);
+    mockProvider = module.get<MockLLMProvider>(MockLLMProvider);
 
     // Reset mocks
     jest.clearAllMocks();
@@ -242,6 +284,300 @@ describe('AIService (AI Module)', () => {
 
       expect(result.metadata?.tokensUsed).toBeGreaterThan(0);
     });
+
+    it('should use the provider the request names', async () => {
+      mockOpenAIService.isAvailable.mockReturnValue(true);
+      mockProvider.script('Scripted answer');
+
+      const result = await service.processChat({ message: 'Status?', provider: 'mock' });
+
+      expect(mockOpenAIService.createChatCompletion).not.toHaveBeenCalled();
+      expect(result.response).toBe('Scripted answer');
+      expect(result.metadata?.provider).toBe('mock');
+      expect(mockProvider.calls[0].messages.map(m => m.role)).toEqual(['system', 'user']);
+    });
+
+    it('should reject a provider that is not configured', async () => {
+      await expect(service.processChat({ message: 'Status?', provider: 'openai' })).rejects.toThrow(
+        'AI provider openai is not configured',
+      );
+    });
+  });
+
+  describe('tool calling', () => {
+    const stats = { total: 12, queued: 3, byStatus: { failed: 2 }, byPriority: {}, byQueue: {} };
+    const caller = { userId: 'user-1', userEmail: 'ops@example.com', userRole: 'admin' };
+
+    it('should offer the tools to the model', async () => {
+      await service.processChat({ message: 'Hello' });
+
+      expect(mockProvider.calls[0].options?.tools?.map(t => t.name)).toEqual([
+        'get_queue_stats',
+        'list_failed_tasks',
+        'retry_task',
+      ]);
+    });
+
+    it('should run the tools the model calls and answer from their results', async () => {
+      mockWorkerClientService.getTaskStats.mockResolvedValue(stats);
+      mockProvider.script({ toolCalls: [{ name: 'get_queue_stats' }] }, 'There are 3 queued tasks.');
+
+      const result = await service.processChat({ message: 'How busy is the queue?' }, caller);
+
+      expect(result.response).toBe('There are 3 queued tasks.');
+      expect(result.metadata?.toolCalls).toEqual(['get_queue_stats']);
+      expect(mockProvider.calls).toHaveLength(2);
+
+      const [assistant, tool] = mockProvider.calls[1].messages.slice(-2);
+      expect(assistant.toolCalls?.[0].name).toBe('get_queue_stats');
+      expect(tool).toEqual({ role: 'tool', toolCallId: assistant.toolCalls?.[0].id, content: JSON.stringify({ result: stats }) });
+    });
+
+    it('should audit-log each tool invocation', async () => {
+      mockWorkerClientService.getTaskStats.mockResolvedValue(stats);
+      mockProvider.script({ toolCalls: [{ name: 'get_queue_stats' }] });
+
+      const { conversationId } = await service.processChat({ message: 'How busy is the queue?' }, caller);
+
+      expect(mockAuditLogger.logSuccess).toHaveBeenCalledWith(
+        AuditAction.AI_ANALYSIS_REQUEST,
+        'user-1',
+        expect.objectContaining({
+          userEmail: 'ops@example.com',
+          resource: 'ai-service',
+          metadata: { tool: 'get_queue_stats', arguments: {}, conversationId },
+        }),
+      );
+    });
+
+    it('should send tool errors back to the model and audit-log them', async () => {
+      mockProvider.script({ toolCalls: [{ name: 'list_failed_tasks', arguments: { limit: 500 } }] });
+
+      const result = await service.processChat({ message: 'What failed?' }, caller);
+
+      expect(mockWorkerClientService.listTasks).not.toHaveBeenCalled();
+      expect(result.response).toContain('limit must be an integer between 1 and 50');
+      expect(mockAuditLogger.logError).toHaveBeenCalledWith(
+        AuditAction.AI_ANALYSIS_REQUEST,
+        'user-1',
+        'limit must be an integer between 1 and 50',
+        expect.objectContaining({ metadata: expect.objectContaining({ tool: 'list_failed_tasks' }) }),
+      );
+    });
+
+    it('should not cache answers built from tool results', async () => {
+      mockWorkerClientService.getTaskStats.mockResolvedValue(stats);
+      mockProvider.script({ toolCalls: [{ name: 'get_queue_stats' }] });
+
+      await service.processChat({ message: 'How busy is the queue?' });
+
+      expect(mockCacheService.set).not.toHaveBeenCalledWith(
+        expect.stringMatching(/^chat:message:/),
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it('should stop offering tools after the last round', async () => {
+      mockWorkerClientService.getTaskStats.mockResolvedValue(stats);
+      mockProvider.script(...Array(6).fill({ toolCalls: [{ name: 'get_queue_stats' }] }), 'Done');
+
+      const result = await service.processChat({ message: 'Loop' });
+
+      expect(mockProvider.calls).toHaveLength(6);
+      expect(mockProvider.calls[5].options?.tools).toBeUndefined();
+      expect(result.metadata?.toolCalls).toHaveLength(5);
+    });
+
+    it('should propose tools that change data and run them once confirmed', async () => {
+      mockWorkerClientService.retryTask.mockResolvedValue({ id: 'task-9', type: 'email', status: 'pending' });
+      mockProvider.script(
+        { toolCalls: [{ name: 'retry_task', arguments: { taskId: 'task-9' } }] },
+        'Shall I retry task-9?',
+        'Task task-9 is queued again.',
+      );
+
+      const proposal = await service.processChat({ message: 'Retry task-9' }, caller);
+
+      expect(proposal.response).toBe('Shall I retry task-9?');
+      expect(proposal.pendingAction).toEqual({
+        id: expect.stringMatching(/^action_/),
+        tool: 'retry_task',
+        arguments: { taskId: 'task-9' },
+        description: 'Run retry_task with {"taskId":"task-9"}',
+      });
+      expect(mockWorkerClientService.retryTask).not.toHaveBeenCalled();
+      expect(mockAuditLogger.logSuccess).not.toHaveBeenCalled();
+
+      const result = await service.processChat(
+        { message: 'Yes', conversationId: proposal.conversationId, confirmActionId: proposal.pendingAction!.id },
+        caller,
+      );
+
+      expect(mockWorkerClientService.retryTask).toHaveBeenCalledWith('task-9', false);
+      expect(result.response).toBe('Task task-9 is queued again.');
+      expect(result.pendingAction).toBeUndefined();
+      expect(result.metadata?.toolCalls).toEqual(['retry_task']);
+      expect(mockAuditLogger.logSuccess).toHaveBeenCalledWith(
+        AuditAction.AI_ANALYSIS_REQUEST,
+        'user-1',
+        expect.objectContaining({ metadata: expect.objectContaining({ tool: 'retry_task' }) }),
+      );
+    });
+
+    it('should discard a pending action when the next message does not confirm it', async () => {
+      mockProvider.script({ toolCalls: [{ name: 'retry_task', arguments: { taskId: 'task-9' } }] });
+
+      const proposal = await service.processChat({ message: 'Retry task-9' });
+      await service.processChat({ message: 'Never mind', conversationId: proposal.conversationId });
+
+      await expect(
+        service.processChat({
+          message: 'Yes',
+          conversationId: proposal.conversationId,
+          confirmActionId: proposal.pendingAction!.id,
+        }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockWorkerClientService.retryTask).not.toHaveBeenCalled();
+    });
+
+    it('should keep only the messages in the conversation history', async () => {
+      mockWorkerClientService.getTaskStats.mockResolvedValue(stats);
+      mockProvider.script({ toolCalls: [{ name: 'get_queue_stats' }] }, 'There are 3 queued tasks.');
+
+      const { conversationId } = await service.processChat({ message: 'How busy is the queue?' });
+      const history = await service.getConversationHistory(conversationId);
+
+      expect(history.map(h => [h.role, h.content])).toEqual([
+        ['user', 'How busy is the queue?'],
+        ['assistant', 'There are 3 queued tasks.'],
+      ]);
+    });
+  });
+
+  describe('streamChat', () => {
+    const collect = async (chatDto: ChatMessageDto) => {
+      const events: ChatStreamEventDto[] = [];
+      for await (const event of service.streamChat(chatDto)) {
+        events.push(event);
+      }
+      return events;
+    };
+
+    it('should stream OpenAI tokens and finish with the complete response', async () => {
+      mockOpenAIService.isAvailable.mockReturnValue(true);
+      mockOpenAIService.streamChatCompletion.mockImplementation(async function* () {
+        yield 'Queue ';
+        yield 'is ';
+        yield 'healthy';
+      });
+
+      const events = await collect({ message: 'How is the queue?', conversationId: 'conv-stream' });
+
+      expect(events.filter(e => e.type === 'token').map(e => e.token)).toEqual(['Queue ', 'is ', 'healthy']);
+      expect(events[events.length - 1]).toMatchObject({
+        type: 'done',
+        conversationId: 'conv-stream',
+        response: 'Queue is healthy',
+        metadata: { cached: false },
+      });
+      expect(mockCacheService.set).toHaveBeenCalledWith(
+        expect.stringContaining('chat:'),
+        expect.objectContaining({ response: 'Queue is healthy' }),
+        3600,
+      );
+
+      const history = await service.getConversationHistory('conv-stream');
+      expect(history.map(h => h.content)).toEqual(['How is the queue?', 'Queue is healthy']);
+    });
+
+    it('should stream the mock response word by word when OpenAI is unavailable', async () => {
+      const events = await collect({ message: 'Hello' });
+      const done = events[events.length - 1];
+
+      expect(events.length).toBeGreaterThan(2);
+      expect(events.slice(0, -1).map(e => e.token).join('')).toBe(done.response);
+      expect(done.metadata?.model).toBe('mock-ai-model');
+    });
+
+    it('should stream a cached response as a single token', async () => {
+      mockCacheService.get
+        .mockResolvedValueOnce(null) // conversation history
+        .mockResolvedValueOnce({ response: 'Cached answer', metadata: { model: 'gpt-4' } });
+
+      const events = await collect({ message: 'What is performance?' });
+
+      expect(events.map(e => e.type)).toEqual(['token', 'done']);
+      expect(events[1].metadata).toEqual({
+        model: 'gpt-4',
+        cached: true,
+        conversation: expect.objectContaining({ tokensUsed: 0, contextTokens: 0 }),
+      });
+    });
+
+    it('should run the tools the model calls before streaming the answer', async () => {
+      mockWorkerClientService.getTaskStats.mockResolvedValue({ total: 12, queued: 3, byStatus: {}, byPriority: {}, byQueue: {} });
+      mockProvider.script({ toolCalls: [{ name: 'get_queue_stats' }] }, 'There are 3 queued tasks.');
+
+      const events = await collect({ message: 'How busy is the queue?' });
+      const done = events[events.length - 1];
+
+      expect(events.slice(0, -1).map(e => e.token).join('')).toBe('There are 3 queued tasks.');
+      expect(done).toMatchObject({ response: 'There are 3 queued tasks.', metadata: { toolCalls: ['get_queue_stats'] } });
+      expect(mockProvider.calls.map(c => c.method)).toEqual(['stream', 'stream']);
+      expect(mockProvider.calls[1].messages[mockProvider.calls[1].messages.length - 1].role).toBe('tool');
+      expect(mockCacheService.set).not.toHaveBeenCalledWith(
+        expect.stringMatching(/^chat:message:/),
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it('should send a proposed action with the response and run it once confirmed', async () => {
+      mockWorkerClientService.retryTask.mockResolvedValue({ id: 'task-9', type: 'email', status: 'pending' });
+      mockProvider.script(
+        { toolCalls: [{ name: 'retry_task', arguments: { taskId: 'task-9' } }] },
+        'Shall I retry task-9?',
+        'Task task-9 is queued again.',
+      );
+
+      const proposal = (await collect({ message: 'Retry task-9' })).pop()!;
+
+      expect(proposal.response).toBe('Shall I retry task-9?');
+      expect(proposal.pendingAction).toMatchObject({ tool: 'retry_task', arguments: { taskId: 'task-9' } });
+      expect(mockWorkerClientService.retryTask).not.toHaveBeenCalled();
+
+      const result = (
+        await collect({ message: 'Yes', conversationId: proposal.conversationId, confirmActionId: proposal.pendingAction!.id })
+      ).pop()!;
+
+      expect(mockWorkerClientService.retryTask).toHaveBeenCalledWith('task-9', false);
+      expect(result.response).toBe('Task task-9 is queued again.');
+      expect(result.pendingAction).toBeUndefined();
+      expect(result.metadata?.toolCalls).toEqual(['retry_task']);
+    });
+
+    it('should reject a confirmation that does not match the pending action', async () => {
+      await expect(collect({ message: 'Yes', conversationId: 'conv-1', confirmActionId: 'action_unknown' })).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockProvider.calls).toHaveLength(0);
+    });
+
+    it('should not save the conversation when the stream is abandoned', async () => {
+      mockOpenAIService.isAvailable.mockReturnValue(true);
+      mockOpenAIService.streamChatCompletion.mockImplementation(async function* () {
+        yield 'First';
+        yield 'Second';
+      });
+
+      for await (const event of service.streamChat({ message: 'Hi', conversationId: 'conv-abandoned' })) {
+        expect(event.token).toBe('First');
+        break;
+      }
+
+      expect(await service.getConversationHistory('conv-abandoned')).toEqual([]);
+    });
   });
 
   describe('generateInsights', () => {
@@ -396,7 +732,7 @@ describe('AIService (AI Module)', () => {
 
     it('should use OpenAI for insights when available', async () => {
       mockOpenAIService.isAvailable.mockReturnValue(true);
-      mockOpenAIService.generateDataInsights.mockResolvedValue({
+      mockOpenAIService.createJsonCompletion.mockResolvedValue({
         summary: 'AI-generated summary',
         keyFindings: ['AI finding 1', 'AI finding 2'],
         recommendations: ['AI recommendation'],
@@ -410,7 +746,7 @@ describe('AIService (AI Module)', () => {
 
       const result = await service.generateInsights(insightsDto);
 
-      expect(mockOpenAIService.generateDataInsights).toHaveBeenCalled();
+      expect(mockOpenAIService.createJsonCompletion).toHaveBeenCalled();
       expect(result.insights.summary).toBe('AI-generated summary');
       expect(result.insights.confidence).toBe(0.95);
     });
@@ -462,6 +798,107 @@ describe('AIService (AI Module)', () => {
     });
   });
 
+  describe('conversation token budget', () => {
+    const originalBudget = process.env.AI_CHAT_HISTORY_TOKEN_BUDGET;
+
+    // 10 messages of about 35 tokens each
+    const longHistory = Array.from({ length: 10 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: `Message ${i}: ${'queue '.repeat(30)}`,
+    }));
+
+    beforeEach(() => {
+      process.env.AI_CHAT_HISTORY_TOKEN_BUDGET = '200';
+    });
+
+    afterEach(() => {
+      if (originalBudget === undefined) {
+        delete process.env.AI_CHAT_HISTORY_TOKEN_BUDGET;
+      } else {
+        process.env.AI_CHAT_HISTORY_TOKEN_BUDGET = originalBudget;
+      }
+    });
+
+    it('should send the whole history while it fits in the budget', async () => {
+      const { conversationId } = await service.processChat({ message: 'First' });
+      const result = await service.processChat({ message: 'Second', conversationId });
+
+      expect(mockProvider.calls.map(c => c.method)).toEqual(['chat', 'chat']);
+      expect(mockProvider.calls[1].messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+      expect(result.metadata?.conversation).toEqual(
+        expect.objectContaining({ tokenBudget: 200, summarizedMessages: 0 }),
+      );
+    });
+
+    it('should report the tokens the conversation has used', async () => {
+      const first = await service.processChat({ message: 'First' });
+      const second = await service.processChat({ message: 'Second', conversationId: first.conversationId });
+
+      expect(first.metadata?.conversation?.tokensUsed).toBe(first.metadata?.tokensUsed);
+      expect(second.metadata?.conversation?.tokensUsed).toBe(
+        first.metadata!.tokensUsed! + second.metadata!.tokensUsed!,
+      );
+      expect(second.metadata?.conversation?.contextTokens).toBeGreaterThan(first.metadata!.conversation!.contextTokens);
+    });
+
+    it('should summarize older messages once the history exceeds the budget', async () => {
+      mockCacheService.get.mockResolvedValueOnce([...longHistory]); // conversation history
+      mockProvider.script({ summary: 'The user asked about the queue ten times.' }, 'Answer');
+
+      const result = await service.processChat({ message: 'And now?', conversationId: 'long-conv' });
+
+      const [summarize, chat] = mockProvider.calls;
+      expect(summarize.method).toBe('structured');
+      expect(summarize.messages[1].content).toContain('User: Message 0:');
+      expect(chat.messages[1]).toEqual({
+        role: 'system',
+        content: 'Summary of the earlier conversation:\nThe user asked about the queue ten times.',
+      });
+      expect(chat.messages[chat.messages.length - 1].content).toBe('And now?');
+
+      const summarized = result.metadata!.conversation!.summarizedMessages;
+      expect(summarized).toBeGreaterThan(0);
+      expect(chat.messages).toHaveLength(2 + 11 - summarized);
+    });
+
+    it('should keep the summary for the following messages', async () => {
+      mockCacheService.get.mockResolvedValueOnce([...longHistory]);
+
+      await service.processChat({ message: 'And now?', conversationId: 'long-conv' });
+      const result = await service.processChat({ message: 'Thanks', conversationId: 'long-conv' });
+
+      expect(mockProvider.calls.filter(c => c.method === 'structured')).toHaveLength(1);
+      expect(mockProvider.calls[2].messages[1].content).toMatch(/^Summary of the earlier conversation:/);
+      expect(result.metadata?.conversation?.summarizedMessages).toBeGreaterThan(0);
+    });
+
+    it('should summarize offline when the provider has no summary', async () => {
+      mockCacheService.get.mockResolvedValueOnce([...longHistory]);
+
+      await service.processChat({ message: 'And now?', conversationId: 'long-conv' });
+
+      const chat = mockProvider.calls.find(c => c.method === 'chat')!;
+      expect(chat.messages[1].content).toMatch(/^Summary of the earlier conversation:\n.*queue/);
+    });
+
+    it('should keep the full history for the conversation endpoints', async () => {
+      mockCacheService.get.mockResolvedValueOnce([...longHistory]);
+
+      await service.processChat({ message: 'And now?', conversationId: 'long-conv' });
+
+      expect(await service.getConversationHistory('long-conv')).toHaveLength(12);
+    });
+
+    it('should save the history with the configured TTL', async () => {
+      mockCacheService.getConversationTTL.mockReturnValue(600);
+
+      await service.processChat({ message: 'Hello' });
+
+      expect(mockCacheService.set).toHaveBeenCalledWith(expect.stringContaining('conversation:'), expect.any(Array), 600);
+      mockCacheService.getConversationTTL.mockReturnValue(3600);
+    });
+  });
+
   describe('conversation management', () => {
     it('should retrieve conversation history', async () => {
       const chatDto: ChatMessageDto = {
@@ -586,7 +1023,7 @@ describe('AIService (AI Module)', () => {
       mockCacheService.get.mockResolvedValue(null);
       
       mockOpenAIService.isAvailable.mockReturnValue(true);
-      mockOpenAIService.generateDataInsights.mockRejectedValue(
+      mockOpenAIService.createJsonCompletion.mockRejectedValue(
         new Error('Insights generation failed'),
       );
 
@@ -0,0 +1,171 @@
+import {
+  detectAnomalies,
+  predictLinearTrend,
+  recommend,
+  summarizeData,
+  summarizeText,
+} from '../../src/services/offline-analysis';
+
+const day = (n: number) => new Date(Date.UTC(2024, 0, 1 + n)).toISOString();
+
+describe('offline analysis', () => {
+  describe('predictLinearTrend', () => {
+    it('should extrapolate a linear series one value per day', () => {
+      const history = Array.from({ length: 10 }, (_, i) => ({ timestamp: day(i), value: 100 + 10 * i }));
+
+      const result = predictLinearTrend(history, 3);
+
+      expect(result.predictions.map((p) => p.predictedValue)).toEqual([200, 210, 220]);
+      expect(result.predictions[0].timestamp.toISOString()).toBe(day(10));
+      expect(result.trendDirection).toBe('increasing');
+      expect(result.accuracy).toBe(1);
+    });
+
+    it('should sort the history by timestamp', () => {
+      const history = [
+        { timestamp: day(2), value: 30 },
+        { timestamp: day(0), value: 50 },
+        { timestamp: day(1), value: 40 },
+      ];
+
+      const result = predictLinearTrend(history, 1);
+
+      expect(result.trendDirection).toBe('decreasing');
+      expect(result.predictions[0].predictedValue).toBe(20);
+    });
+
+    it('should report flat series as stable', () => {
+      const history = Array.from({ length: 10 }, (_, i) => ({ timestamp: day(i), value: 50 + (i % 2) }));
+
+      expect(predictLinearTrend(history, 1).trendDirection).toBe('stable');
+    });
+
+    it('should widen the confidence interval with noise and distance', () => {
+      const history = Array.from({ length: 20 }, (_, i) => ({ timestamp: day(i), value: i + (i % 3) - 1 }));
+
+      const result = predictLinearTrend(history, 5, true);
+      const widths = result.predictions.map((p) => p.confidenceInterval!.upper - p.confidenceInterval!.lower);
+
+      expect(widths[0]).toBeGreaterThan(0);
+      expect(widths[4]).toBeGreaterThan(widths[0]);
+      result.predictions.forEach((p) => {
+        expect(p.confidenceInterval!.lower).toBeLessThanOrEqual(p.predictedValue);
+        expect(p.confidenceInterval!.upper).toBeGreaterThanOrEqual(p.predictedValue);
+      });
+      expect(result.accuracy).toBeGreaterThan(0.5);
+      expect(result.accuracy).toBeLessThan(1);
+    });
+  });
+
+  describe('detectAnomalies', () => {
+    const series = [10, 12, 11, 13, 12, 11, 95, 12, 10, 11, 13, -60].map((value, i) => ({ timestamp: day(i), value }));
+
+    it('should flag spikes and drops in input order', () => {
+      const result = detectAnomalies(series);
+
+      expect(result.anomalies.map((a) => a.value)).toEqual([95, -60]);
+      expect(result.anomalies[0].reason).toContain('above the median');
+      expect(result.anomalies[1].reason).toContain('below the median');
+      expect(result.anomalies[0].severity).toBe('critical');
+      expect(result.totalDataPoints).toBe(12);
+      expect(result.anomalyRate).toBeCloseTo(2 / 12, 4);
+    });
+
+    it('should flag more points with higher sensitivity', () => {
+      const mild = [10, 11, 10, 12, 11, 10, 15, 11, 10, 12].map((value, i) => ({ timestamp: day(i), value }));
+
+      expect(detectAnomalies(mild, 'low').anomalies).toHaveLength(0);
+      expect(detectAnomalies(mild, 'high').anomalies.map((a) => a.value)).toEqual([15]);
+    });
+
+    it('should handle series where most points are equal', () => {
+      const points = [10, 10, 10, 10, 10, 50].map((value, i) => ({ timestamp: day(i), value, metadata: { i } }));
+
+      const result = detectAnomalies(points);
+
+      expect(result.anomalies).toHaveLength(1);
+      expect(result.anomalies[0].metadata).toEqual({ i: 5 });
+    });
+
+    it('should find nothing in a constant series', () => {
+      const points = [5, 5, 5].map((value, i) => ({ timestamp: day(i), value }));
+
+      expect(detectAnomalies(points)).toEqual({ anomalies: [], totalDataPoints: 3, anomalyRate: 0 });
+    });
+  });
+
+  describe('summarizeText', () => {
+    const text =
+      'The deployment failed twice because the database migration timed out. ' +
+      'Lunch was served at noon. ' +
+      'After the database migration was split in two, the deployment succeeded. ' +
+      'The database migration now runs in under a minute.';
+
+    it('should keep the most representative sentences in their original order', () => {
+      const result = summarizeText(text, 150);
+
+      expect(result.summary.length).toBeLessThanOrEqual(150);
+      expect(result.summary).not.toContain('Lunch');
+      expect(result.keyPoints.length).toBeGreaterThan(0);
+      expect(result.keyPoints.length).toBeLessThanOrEqual(3);
+    });
+
+    it('should be deterministic', () => {
+      expect(summarizeText(text, 150)).toEqual(summarizeText(text, 150));
+    });
+
+    it('should judge sentiment from the wording', () => {
+      expect(summarizeText('Errors and timeouts caused an outage.').sentiment).toBe('negative');
+      expect(summarizeText('Performance improved and the system is stable.').sentiment).toBe('positive');
+      expect(summarizeText('The report lists the services.').sentiment).toBe('neutral');
+    });
+
+    it('should truncate a single long sentence', () => {
+      const result = summarizeText('word '.repeat(100), 50);
+
+      expect(result.summary.length).toBeLessThanOrEqual(50);
+      expect(result.summary.endsWith('...')).toBe(true);
+    });
+  });
+
+  describe('summarizeData', () => {
+    it('should describe each field', () => {
+      const result = summarizeData({ service: 'api', latencies: [100, 300, 200], owner: { team: 'core' } });
+
+      expect(result.keyPoints).toEqual([
+        'service: api',
+        'latencies: 3 values from 100 to 300 (mean 200)',
+        'owner: object with team',
+      ]);
+      expect(result.summary).toContain('Data with 3 field(s)');
+    });
+  });
+
+  describe('recommend', () => {
+    it('should prioritise recommendations triggered by the context', () => {
+      const result = recommend('user-1', { errorRate: 0.2, metrics: { cpu: 85 } }, 3);
+
+      expect(result.map((r) => r.title)).toEqual([
+        'Investigate the elevated error rate',
+        'Reduce CPU pressure',
+        'Set up alerts for key metrics',
+      ]);
+      expect(result[0].priority).toBe('high');
+      expect(result[1].description).toContain('85%');
+    });
+
+    it('should fall back to general recommendations', () => {
+      const result = recommend('user-1', {}, 2);
+
+      expect(result).toHaveLength(2);
+      result.forEach((r) => expect(r.priority).toBe('low'));
+    });
+
+    it('should give stable ids per user', () => {
+      const first = recommend('user-1', { failedTasks: 3 });
+
+      expect(recommend('user-1', { failedTasks: 5 })[0].id).toBe(first[0].id);
+      expect(recommend('user-2', { failedTasks: 3 })[0].id).not.toBe(first[0].id);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { ChatToolRegistry } from '../../src/tools/chat-tool.registry';
+import { CreateTaskTool } from '../../src/tools/worker.tools';
+import { GetSecurityReportTool } from '../../src/tools/gateway.tools';
+import { GatewayClientService } from '../../src/services/gateway-client.service';
+import { WorkerClientService } from '../../src/services/worker-client.service';
+
+describe('ChatToolRegistry', () => {
+  const context = { conversationId: 'conv-1', userId: 'user-1', authorization: 'Bearer token' };
+
+  const workerClient = { submitTask: jest.fn() };
+  const gatewayClient = { getSecurityReport: jest.fn() };
+  const auditLogger = { logSuccess: jest.fn(), logError: jest.fn() };
+
+  const httpError = (status: number, data: unknown) =>
+    new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_REQUEST', undefined, undefined, {
+      status,
+      statusText: '',
+      data,
+      headers: {},
+      config: { headers: new AxiosHeaders() },
+    });
+
+  let registry: ChatToolRegistry;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    registry = new ChatToolRegistry(
+      [
+        new CreateTaskTool(workerClient as unknown as WorkerClientService),
+        new GetSecurityReportTool(gatewayClient as unknown as GatewayClientService),
+      ],
+      auditLogger,
+    );
+  });
+
+  it('should describe the tools without their implementation', () => {
+    expect(registry.definitions()).toEqual([
+      expect.objectContaining({ name: 'create_task', parameters: expect.objectContaining({ required: ['type', 'payload'] }) }),
+      expect.objectContaining({ name: 'get_security_report' }),
+    ]);
+    expect(registry.definitions()[0]).not.toHaveProperty('requiresConfirmation');
+  });
+
+  it('should report an unknown tool as an error', async () => {
+    const result = await registry.execute({ id: 'call_1', name: 'drop_database', arguments: {} }, context);
+
+    expect(result).toEqual({ error: 'Unknown tool: drop_database' });
+    expect(auditLogger.logError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report the reason the Worker Service rejected a task', async () => {
+    workerClient.submitTask.mockRejectedValue(httpError(400, { message: 'payload.to must be an email address' }));
+
+    const result = await registry.execute(
+      { id: 'call_1', name: 'create_task', arguments: { type: 'email', payload: { to: 'nobody' } } },
+      context,
+    );
+
+    expect(result).toEqual({ error: 'payload.to must be an email address' });
+  });
+
+  it('should pass the caller authorization to the API Gateway and explain a refusal', async () => {
+    gatewayClient.getSecurityReport.mockRejectedValue(httpError(403, { message: 'Forbidden resource' }));
+
+    const result = await registry.execute({ id: 'call_1', name: 'get_security_report', arguments: { hours: 12 } }, context);
+
+    expect(gatewayClient.getSecurityReport).toHaveBeenCalledWith(12, 'Bearer token');
+    expect(result).toEqual({ error: 'The security report is only available to administrators' });
+  });
+});
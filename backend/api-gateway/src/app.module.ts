@@ -5,6 +5,7 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { ThrottlerModule } from '@nestjs/throttler';
 import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { join } from 'path';
+import { IncomingMessage } from 'http';
 
 import { AuthModule } from './modules/auth/auth.module';
 import { UserModule } from './modules/user/user.module';
@@ -50,7 +51,32 @@ import { GraphQLCacheInterceptor } from './interceptors/graphql-cache.intercepto
       playground: process.env.NODE_ENV === 'development',
       introspection: process.env.NODE_ENV === 'development',
       sortSchema: true,
-      context: ({ req, res }: { req: Request; res: Response }) => ({ req, res }),
+      // Subscriptions (the chatStream token stream) use the graphql-ws protocol on the same path
+      subscriptions: {
+        'graphql-ws': true,
+      },
+      // Over a WebSocket there is no req/res; expose the upgrade request as req, with the JWT the
+      // client sent in its connection params as the Authorization header
+      context: ({
+        req,
+        res,
+        connectionParams,
+        extra,
+      }: {
+        req?: Request;
+        res?: Response;
+        connectionParams?: { Authorization?: string };
+        extra?: { request: IncomingMessage };
+      }) => {
+        if (req) {
+          return { req, res };
+        }
+        const request = extra?.request;
+        if (request && connectionParams?.Authorization) {
+          request.headers.authorization = connectionParams.Authorization;
+        }
+        return { req: request };
+      },
       
       // Format errors to prevent information disclosure
       formatError: (error) => {
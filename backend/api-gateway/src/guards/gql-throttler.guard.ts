@@ -17,7 +17,8 @@ export class GqlThrottlerGuard extends ThrottlerGuard {
     
     // For GraphQL requests
     if (ctx && ctx.req) {
-      return { req: ctx.req, res: ctx.res };
+      // Subscriptions run over a WebSocket, which has no response to set rate limit headers on
+      return { req: ctx.req, res: ctx.res ?? { header: () => undefined } };
     }
     
     // Fallback to HTTP context (for REST endpoints like health checks)
@@ -68,6 +68,21 @@ export class ChatMessage {
   timestamp?: Date;
 }
 
+@ObjectType()
+export class PendingAction {
+  @Field()
+  id: string;
+
+  @Field({ description: 'The tool the assistant wants to run, e.g. retry_task' })
+  tool: string;
+
+  @Field(() => GraphQLJSON)
+  arguments: Record<string, unknown>;
+
+  @Field()
+  description: string;
+}
+
 @ObjectType()
 export class ChatResponse {
   @Field()
@@ -87,6 +102,45 @@ export class ChatResponse {
 
   @Field()
   timestamp: Date;
+
+  @Field(() => PendingAction, {
+    nullable: true,
+    description: 'An action that changes data and runs only if the next message confirms it',
+  })
+  pendingAction?: PendingAction;
+}
+
+@ObjectType()
+export class ChatStreamEvent {
+  @Field()
+  conversationId: string;
+
+  @Field({ nullable: true, description: 'Text to append to the response' })
+  token?: string;
+
+  @Field({ description: 'Whether this is the last event, which carries the complete message' })
+  done: boolean;
+
+  @Field({ nullable: true })
+  message?: string;
+
+  @Field(() => ID, { nullable: true, description: 'ID of the message saved to the chat history' })
+  messageId?: string;
+
+  @Field(() => Int, { nullable: true })
+  tokensUsed?: number;
+
+  @Field({ nullable: true })
+  model?: string;
+
+  @Field({ nullable: true })
+  timestamp?: Date;
+
+  @Field(() => PendingAction, {
+    nullable: true,
+    description: 'An action that changes data and runs only if the next message confirms it',
+  })
+  pendingAction?: PendingAction;
 }
 
 @ObjectType()
@@ -196,6 +250,9 @@ export class ChatOptionsInput {
 
   @Field({ nullable: true })
   model?: string;
+
+  @Field({ nullable: true, description: 'LLM provider of the AI service: openai, local or mock' })
+  provider?: string;
 }
 
 @InputType()
@@ -211,6 +268,9 @@ export class ChatRequestInput {
 
   @Field(() => ChatOptionsInput, { nullable: true })
   options?: ChatOptionsInput;
+
+  @Field({ nullable: true, description: 'Run the pending action of the previous response' })
+  confirmActionId?: string;
 }
 
 @InputType()
@@ -1,9 +1,11 @@
-import { Resolver, Query, Mutation, Args } from '@nestjs/graphql';
+import { Resolver, Query, Mutation, Subscription, Args, Context } from '@nestjs/graphql';
 import { Throttle } from '@nestjs/throttler';
+import type { Request } from 'express';
 import { AIService } from './ai.service';
 import {
   ChatResponse,
   ChatRequestInput,
+  ChatStreamEvent,
   Insight,
   InsightRequestInput,
   AnalysisResponse,
@@ -24,8 +26,36 @@ export class AIResolver {
   @Mutation(() => ChatResponse, { description: 'Send a chat message and get AI response' })
   async chat(
     @Args('input') input: ChatRequestInput,
+    @Context('req') req: Request,
   ): Promise<ChatResponse> {
-    return this.aiService.chat(input);
+    return this.aiService.chat(input, req?.headers.authorization);
+  }
+
+  @Throttle(RateLimits.AI_CHAT)
+  @Subscription(() => ChatStreamEvent, {
+    description: 'Send a chat message and receive the response token by token',
+    // Events are the field's value rather than a { chatStream } payload
+    resolve: (event: ChatStreamEvent) => event,
+  })
+  chatStream(
+    @Args('input') input: ChatRequestInput,
+    @Context('req') req: Request,
+  ): AsyncIterableIterator<ChatStreamEvent> {
+    const controller = new AbortController();
+    const events = this.aiService.streamChat(input, req?.headers.authorization, controller.signal);
+
+    // A generator waiting for the AI service only runs return() once that wait is over, so abort
+    // the request as soon as the client unsubscribes instead
+    return {
+      next: () => events.next(),
+      return: (value?: unknown) => {
+        controller.abort();
+        return events.return(value);
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
   }
 
   @Query(() => [ChatMessage], { description: 'Get chat history for a user' })
@@ -5,6 +5,7 @@ import { AIClient } from '../../services/ai.client';
 import {
   ChatResponse,
   ChatRequestInput,
+  ChatStreamEvent,
   Insight,
   InsightRequestInput,
   AnalysisResponse,
@@ -26,7 +27,12 @@ export class AIService {
     private readonly chatMessageRepository: Repository<ChatMessage>,
   ) {}
 
-  async chat(input: ChatRequestInput): Promise<ChatResponse> {
+  /**
+   * Send a chat message to the AI service
+   * @param authorization - The caller's Authorization header, so the assistant's tools act with
+   * the caller's permissions
+   */
+  async chat(input: ChatRequestInput, authorization?: string): Promise<ChatResponse> {
     // Save user message to database
     if (input.userId) {
       await this.chatMessageRepository.save({
@@ -37,20 +43,7 @@ export class AIService {
       });
     }
 
-    const response = await this.aiClient.chat({
-      messages: input.messages.map(msg => ({
-        role: msg.role,
-        content: msg.content,
-        timestamp: msg.timestamp,
-      })),
-      userId: input.userId,
-      context: input.context,
-      options: input.options ? {
-        temperature: input.options.temperature,
-        maxTokens: input.options.maxTokens,
-        model: input.options.model,
-      } : undefined,
-    });
+    const response = await this.aiClient.chat(this.toChatRequest(input), authorization);
 
     // Save assistant response to database
     if (input.userId && response.conversationId) {
@@ -68,6 +61,55 @@ export class AIService {
     };
   }
 
+  /**
+   * Stream the response to a chat message token by token. The user message and the complete
+   * response are saved once the stream completes, so both get the conversation id the AI service
+   * assigned to a new conversation, and an abandoned stream saves nothing.
+   * @param authorization - The caller's Authorization header, so the assistant's tools act with
+   * the caller's permissions
+   * @param signal - Aborted when the subscriber goes away, which closes the stream from the AI service
+   */
+  async *streamChat(
+    input: ChatRequestInput,
+    authorization?: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<ChatStreamEvent> {
+    for await (const event of this.aiClient.streamChat(this.toChatRequest(input), authorization, signal)) {
+      if (event.type === 'token') {
+        yield { conversationId: event.conversationId, token: event.token, done: false };
+        continue;
+      }
+
+      let messageId: string | undefined;
+      if (input.userId) {
+        await this.chatMessageRepository.save({
+          conversationId: event.conversationId,
+          role: MessageRole.USER,
+          content: input.messages[input.messages.length - 1].content,
+          userId: input.userId,
+        });
+        const saved = await this.chatMessageRepository.save({
+          conversationId: event.conversationId,
+          role: MessageRole.ASSISTANT,
+          content: event.response ?? '',
+          userId: input.userId,
+        });
+        messageId = saved.id;
+      }
+
+      yield {
+        conversationId: event.conversationId,
+        done: true,
+        message: event.response,
+        messageId,
+        tokensUsed: event.metadata?.tokensUsed,
+        model: event.metadata?.model,
+        timestamp: event.timestamp ? new Date(event.timestamp) : new Date(),
+        pendingAction: event.pendingAction,
+      };
+    }
+  }
+
   async getChatHistory(userId: string, conversationId?: string): Promise<ChatMessage[]> {
     const query = this.chatMessageRepository
       .createQueryBuilder('message')
@@ -128,4 +170,23 @@ export class AIService {
       wordCount: input.text.split(/\s+/).length,
     };
   }
+
+  private toChatRequest(input: ChatRequestInput) {
+    return {
+      messages: input.messages.map(msg => ({
+        role: msg.role,
+        content: msg.content,
+        timestamp: msg.timestamp,
+      })),
+      userId: input.userId,
+      context: input.context,
+      options: input.options ? {
+        temperature: input.options.temperature,
+        maxTokens: input.options.maxTokens,
+        model: input.options.model,
+        provider: input.options.provider,
+      } : undefined,
+      confirmActionId: input.confirmActionId,
+    };
+  }
 }
@@ -0,0 +1,20 @@
+import { Resolver, ResolveField, Parent, Args, Int } from '@nestjs/graphql';
+import { TasksService } from './tasks.service';
+import { Job, JobRun } from './tasks.model';
+
+/**
+ * Resolves fields of scheduled jobs that need another request to the Worker Service,
+ * so they are only fetched when a query selects them
+ */
+@Resolver(() => Job)
+export class JobsResolver {
+  constructor(private readonly tasksService: TasksService) {}
+
+  @ResolveField(() => [JobRun], { description: 'Runs of the job, newest first' })
+  async runs(
+    @Parent() job: Job,
+    @Args('limit', { type: () => Int, nullable: true }) limit?: number,
+  ): Promise<JobRun[]> {
+    return this.tasksService.getJobRuns(job.id, limit);
+  }
+}
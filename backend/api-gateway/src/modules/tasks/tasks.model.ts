@@ -1,4 +1,4 @@
-import { ObjectType, Field, ID, registerEnumType, InputType, Int } from '@nestjs/graphql';
+import { ObjectType, Field, ID, registerEnumType, InputType, Int, Float } from '@nestjs/graphql';
 import { GraphQLJSON } from 'graphql-type-json';
 
 // Enums
@@ -21,6 +21,12 @@ export enum JobStatus {
   FAILED = 'failed',
 }
 
+export enum RetryStrategy {
+  FIXED = 'fixed',
+  LINEAR = 'linear',
+  EXPONENTIAL = 'exponential',
+}
+
 registerEnumType(TaskStatus, {
   name: 'TaskStatus',
 });
@@ -33,7 +39,94 @@ registerEnumType(JobStatus, {
   name: 'JobStatus',
 });
 
+export enum JobRunStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+  QUEUED = 'queued',
+  SKIPPED = 'skipped',
+}
+
+export enum MisfirePolicy {
+  SKIP = 'skip',
+  RUN_ONCE = 'run-once',
+  RUN_ALL_MISSED = 'run-all-missed',
+}
+
+export enum OverlapPolicy {
+  ALLOW = 'allow',
+  SKIP_IF_RUNNING = 'skip-if-running',
+  QUEUE = 'queue',
+}
+
+registerEnumType(JobRunStatus, {
+  name: 'JobRunStatus',
+});
+
+registerEnumType(MisfirePolicy, {
+  name: 'MisfirePolicy',
+  description: 'What happens to runs missed while the scheduler was down: skip them, run once, or run every missed run',
+});
+
+registerEnumType(OverlapPolicy, {
+  name: 'OverlapPolicy',
+  description: 'What happens when a run is due while the previous run is unfinished',
+});
+
+export enum CancellationState {
+  CANCELLED = 'cancelled',
+  CANCELLING = 'cancelling',
+}
+
+export enum WorkflowStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export enum WorkflowFailureMode {
+  PROPAGATE = 'propagate',
+  TOLERATE = 'tolerate',
+}
+
+registerEnumType(RetryStrategy, {
+  name: 'RetryStrategy',
+});
+
+registerEnumType(CancellationState, {
+  name: 'CancellationState',
+  description: 'CANCELLING while a running task is still stopping',
+});
+
+registerEnumType(WorkflowStatus, {
+  name: 'WorkflowStatus',
+});
+
+registerEnumType(WorkflowFailureMode, {
+  name: 'WorkflowFailureMode',
+  description: 'What happens to a node when a parent fails: propagate cancels it, tolerate runs it anyway',
+});
+
 // Object Types
+@ObjectType({ description: 'Progress reported by a running task' })
+export class TaskProgress {
+  @Field(() => Float, { description: 'Completion percentage, 0-100' })
+  percent: number;
+
+  @Field({ nullable: true, description: 'Name of the current step' })
+  step?: string;
+
+  @Field({ nullable: true })
+  message?: string;
+
+  @Field()
+  updatedAt: Date;
+}
+
 @ObjectType()
 export class Task {
   @Field(() => ID)
@@ -54,6 +147,15 @@ export class Task {
   @Field({ nullable: true })
   error?: string;
 
+  @Field(() => TaskProgress, { nullable: true })
+  progress?: TaskProgress;
+
+  @Field(() => GraphQLJSON, { nullable: true, description: 'Latest checkpoint saved while the task runs' })
+  partialResult?: unknown;
+
+  @Field({ nullable: true, description: 'Named queue the task waits in, e.g. "ai" or "email"' })
+  queue?: string;
+
   @Field()
   createdAt: Date;
 
@@ -72,6 +174,9 @@ export class Job {
   @Field({ nullable: true })
   schedule?: string;
 
+  @Field({ nullable: true, description: 'IANA timezone the schedule is evaluated in' })
+  timezone?: string;
+
   @Field(() => JobStatus)
   status: JobStatus;
 
@@ -80,6 +185,60 @@ export class Job {
 
   @Field({ nullable: true })
   nextRun?: Date;
+
+  @Field(() => MisfirePolicy, { nullable: true })
+  misfirePolicy?: MisfirePolicy;
+
+  @Field(() => OverlapPolicy, { nullable: true })
+  overlapPolicy?: OverlapPolicy;
+
+  @Field(() => Int, { nullable: true, description: 'Failed runs since the last completed run' })
+  consecutiveFailures?: number;
+}
+
+@ObjectType({ description: 'One firing of a scheduled job and the outcome of the task it enqueued' })
+export class JobRun {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  jobId: string;
+
+  @Field({ nullable: true, description: 'Task enqueued by the run; missing if it could not be enqueued' })
+  taskId?: string;
+
+  @Field(() => JobRunStatus)
+  status: JobRunStatus;
+
+  @Field()
+  scheduledAt: Date;
+
+  @Field({ nullable: true })
+  startedAt?: Date;
+
+  @Field({ nullable: true })
+  finishedAt?: Date;
+
+  @Field(() => Int, { nullable: true })
+  durationMs?: number;
+
+  @Field({ nullable: true })
+  error?: string;
+
+  @Field({ nullable: true, description: 'Why the run was skipped or queued' })
+  reason?: string;
+}
+
+@ObjectType()
+export class TaskCancellationResult {
+  @Field(() => ID)
+  taskId: string;
+
+  @Field({ description: 'True if the task is cancelled; false while its running handler is still stopping' })
+  cancelled: boolean;
+
+  @Field(() => CancellationState)
+  state: CancellationState;
 }
 
 @ObjectType()
@@ -91,7 +250,202 @@ export class TasksResponse {
   total: number;
 }
 
+@ObjectType()
+export class TaskAttempt {
+  @Field(() => Int)
+  attempt: number;
+
+  @Field({ nullable: true })
+  startedAt?: Date;
+
+  @Field()
+  failedAt: Date;
+
+  @Field()
+  error: string;
+}
+
+@ObjectType({ description: 'A task that failed permanently and is parked in the dead-letter queue' })
+export class DeadLetterEntry {
+  @Field(() => ID)
+  taskId: string;
+
+  @Field()
+  type: string;
+
+  @Field(() => GraphQLJSON)
+  payload: Record<string, unknown>;
+
+  @Field(() => TaskPriority)
+  priority: TaskPriority;
+
+  @Field({ description: 'Error of the final attempt' })
+  error: string;
+
+  @Field(() => Int)
+  attempts: number;
+
+  @Field(() => Int)
+  maxAttempts: number;
+
+  @Field(() => [TaskAttempt])
+  history: TaskAttempt[];
+
+  @Field()
+  createdAt: Date;
+
+  @Field()
+  deadLetteredAt: Date;
+}
+
+@ObjectType()
+export class DeadLetterResponse {
+  @Field(() => [DeadLetterEntry])
+  entries: DeadLetterEntry[];
+
+  @Field(() => Int)
+  total: number;
+
+  @Field(() => GraphQLJSON, { description: 'Number of matching entries per task type' })
+  byType: Record<string, number>;
+}
+
+@ObjectType()
+export class DeadLetterOperationResult {
+  @Field(() => Int)
+  count: number;
+
+  @Field(() => [String])
+  taskIds: string[];
+}
+
+@ObjectType()
+export class WorkflowNode {
+  @Field({ description: 'Name of the node, unique within the workflow' })
+  key: string;
+
+  @Field(() => ID)
+  taskId: string;
+
+  @Field()
+  type: string;
+
+  @Field(() => WorkflowStatus)
+  status: WorkflowStatus;
+
+  @Field({ description: 'True while the node is waiting for its parents' })
+  blocked: boolean;
+
+  @Field(() => [String], { description: 'Keys of the parent nodes' })
+  dependsOn: string[];
+
+  @Field(() => WorkflowFailureMode)
+  failureMode: WorkflowFailureMode;
+
+  @Field(() => Int)
+  attempts: number;
+
+  @Field({ nullable: true })
+  error?: string;
+
+  @Field(() => GraphQLJSON, { nullable: true })
+  result?: unknown;
+
+  @Field({ nullable: true })
+  startedAt?: Date;
+
+  @Field({ nullable: true })
+  completedAt?: Date;
+}
+
+@ObjectType()
+export class WorkflowProgress {
+  @Field(() => Int)
+  total: number;
+
+  @Field(() => Int)
+  pending: number;
+
+  @Field(() => Int)
+  running: number;
+
+  @Field(() => Int)
+  completed: number;
+
+  @Field(() => Int)
+  failed: number;
+
+  @Field(() => Int)
+  cancelled: number;
+
+  @Field(() => Int, { description: 'Share of nodes that have finished, 0-100' })
+  percent: number;
+}
+
+@ObjectType({ description: 'A DAG of tasks where each node runs once its parents have finished' })
+export class Workflow {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  name: string;
+
+  @Field(() => WorkflowStatus)
+  status: WorkflowStatus;
+
+  @Field(() => WorkflowFailureMode)
+  failureMode: WorkflowFailureMode;
+
+  @Field(() => WorkflowProgress)
+  progress: WorkflowProgress;
+
+  @Field(() => [WorkflowNode])
+  nodes: WorkflowNode[];
+
+  @Field()
+  createdAt: Date;
+
+  @Field({ nullable: true })
+  completedAt?: Date;
+}
+
+@ObjectType({ description: 'A task type the Worker Service can execute' })
+export class TaskType {
+  @Field()
+  type: string;
+
+  @Field({ description: 'Worker handler class that executes the type' })
+  handler: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field(() => GraphQLJSON, { nullable: true, description: 'JSON Schema that payloads are validated against' })
+  payloadSchema?: Record<string, unknown>;
+
+  @Field(() => GraphQLJSON, { nullable: true, description: 'JSON Schema of the task result' })
+  resultSchema?: Record<string, unknown>;
+}
+
 // Input Types
+@InputType()
+export class RetryPolicyInput {
+  @Field(() => RetryStrategy)
+  strategy: RetryStrategy;
+
+  @Field(() => Int, { description: 'Delay before the first retry in milliseconds' })
+  initialDelayMs: number;
+
+  @Field(() => Int, { nullable: true, description: 'Upper bound for a single retry delay in milliseconds' })
+  maxDelayMs?: number;
+
+  @Field(() => Float, { nullable: true, description: 'Growth factor for exponential backoff (default: 2)' })
+  multiplier?: number;
+
+  @Field(() => Float, { nullable: true, description: 'Fraction (0-1) of each delay that is randomised' })
+  jitter?: number;
+}
+
 @InputType()
 export class CreateTaskInput {
   @Field()
@@ -102,6 +456,69 @@ export class CreateTaskInput {
 
   @Field(() => TaskPriority, { nullable: true })
   priority?: TaskPriority;
+
+  @Field(() => Int, { nullable: true, description: 'Total attempts before the task fails (default: 3)' })
+  maxAttempts?: number;
+
+  @Field(() => RetryPolicyInput, { nullable: true, description: 'Backoff between automatic retries' })
+  retryPolicy?: RetryPolicyInput;
+
+  @Field(() => Int, { nullable: true, description: 'Run time limit of one attempt in milliseconds' })
+  timeoutMs?: number;
+
+  @Field({ nullable: true, description: 'Queue to use instead of the one the task type is routed to' })
+  queue?: string;
+
+  @Field({ nullable: true, description: 'Repeated requests with the same key return the task it created' })
+  idempotencyKey?: string;
+}
+
+@InputType()
+export class WorkflowNodeInput {
+  @Field({ description: 'Name of the node, unique within the workflow' })
+  key: string;
+
+  @Field()
+  type: string;
+
+  @Field(() => GraphQLJSON, { nullable: true })
+  payload?: Record<string, unknown>;
+
+  @Field(() => [String], { nullable: true, description: 'Keys of the nodes that must finish first' })
+  dependsOn?: string[];
+
+  @Field(() => GraphQLJSON, {
+    nullable: true,
+    description: 'Payload fields taken from parent results, e.g. { "records": "import.records" }',
+  })
+  inputs?: Record<string, string>;
+
+  @Field(() => WorkflowFailureMode, { nullable: true, description: 'Overrides the workflow failure mode' })
+  failureMode?: WorkflowFailureMode;
+
+  @Field(() => TaskPriority, { nullable: true })
+  priority?: TaskPriority;
+
+  @Field(() => Int, { nullable: true })
+  maxAttempts?: number;
+
+  @Field(() => RetryPolicyInput, { nullable: true })
+  retryPolicy?: RetryPolicyInput;
+
+  @Field(() => Int, { nullable: true })
+  timeoutMs?: number;
+}
+
+@InputType()
+export class CreateWorkflowInput {
+  @Field()
+  name: string;
+
+  @Field(() => WorkflowFailureMode, { nullable: true, description: 'Default: PROPAGATE' })
+  failureMode?: WorkflowFailureMode;
+
+  @Field(() => [WorkflowNodeInput])
+  nodes: WorkflowNodeInput[];
 }
 
 @InputType()
@@ -112,11 +529,50 @@ export class CreateJobInput {
   @Field()
   type: string;
 
-  @Field()
+  @Field({ description: '5-field cron expression or alias such as @hourly / @daily' })
   schedule: string;
 
   @Field(() => GraphQLJSON)
   payload: Record<string, unknown>;
+
+  @Field({ nullable: true, description: 'IANA timezone for the schedule (defaults to the worker timezone)' })
+  timezone?: string;
+
+  @Field(() => MisfirePolicy, { nullable: true, description: 'Defaults to RUN_ONCE' })
+  misfirePolicy?: MisfirePolicy;
+
+  @Field(() => OverlapPolicy, { nullable: true, description: 'Defaults to ALLOW' })
+  overlapPolicy?: OverlapPolicy;
+}
+
+@InputType()
+export class DeadLetterFiltersInput {
+  @Field({ nullable: true })
+  type?: string;
+
+  @Field({ nullable: true, description: 'Case-insensitive match against the final error' })
+  errorContains?: string;
+
+  @Field(() => Int, { nullable: true })
+  limit?: number;
+
+  @Field(() => Int, { nullable: true })
+  offset?: number;
+}
+
+@InputType({ description: 'Selects dead-letter entries; at least one criterion or all: true is required' })
+export class DeadLetterSelectionInput {
+  @Field(() => [String], { nullable: true })
+  taskIds?: string[];
+
+  @Field({ nullable: true })
+  type?: string;
+
+  @Field({ nullable: true })
+  errorContains?: string;
+
+  @Field({ nullable: true })
+  all?: boolean;
 }
 
 @InputType()
@@ -127,6 +583,9 @@ export class TaskFiltersInput {
   @Field({ nullable: true })
   type?: string;
 
+  @Field({ nullable: true })
+  queue?: string;
+
   @Field(() => Int, { nullable: true })
   limit?: number;
 
@@ -1,7 +1,24 @@
 import { Resolver, Query, Mutation, Args } from '@nestjs/graphql';
 import { CacheInvalidate } from '../../decorators/cache.decorators';
 import { TasksService } from './tasks.service';
-import { Task, Job, TasksResponse, CreateTaskInput, CreateJobInput, TaskFiltersInput } from './tasks.model';
+import {
+  Task,
+  Job,
+  TasksResponse,
+  CreateTaskInput,
+  CreateJobInput,
+  TaskFiltersInput,
+  DeadLetterEntry,
+  DeadLetterResponse,
+  DeadLetterFiltersInput,
+  DeadLetterSelectionInput,
+  DeadLetterOperationResult,
+  Workflow,
+  WorkflowStatus,
+  CreateWorkflowInput,
+  TaskCancellationResult,
+  TaskType,
+} from './tasks.model';
 
 @Resolver(() => Task)
 export class TasksResolver {
@@ -29,14 +46,16 @@ export class TasksResolver {
     return this.tasksService.getTasks(filters);
   }
 
-  @Mutation(() => Boolean, { description: 'Cancel a task' })
+  @Mutation(() => TaskCancellationResult, {
+    description: 'Cancel a task. A running task is signalled and stays CANCELLING until its handler stops.',
+  })
   @CacheInvalidate({ 
     keys: ['worker:task:{{0}}'], 
     patterns: ['worker:tasks:*', 'gql:task:*', 'gql:tasks:*'] 
   })
   async cancelTask(
     @Args('taskId') taskId: string,
-  ): Promise<boolean> {
+  ): Promise<TaskCancellationResult> {
     return this.tasksService.cancelTask(taskId);
   }
 
@@ -52,6 +71,66 @@ export class TasksResolver {
     return this.tasksService.retryTask(taskId, resetAttempts);
   }
 
+  @Query(() => DeadLetterResponse, { description: 'List tasks in the dead-letter queue' })
+  async deadLetters(
+    @Args('filters', { nullable: true }) filters?: DeadLetterFiltersInput,
+  ): Promise<DeadLetterResponse> {
+    return this.tasksService.getDeadLetters(filters);
+  }
+
+  @Query(() => DeadLetterEntry, { description: 'Inspect a dead-lettered task' })
+  async deadLetter(
+    @Args('taskId') taskId: string,
+  ): Promise<DeadLetterEntry> {
+    return this.tasksService.getDeadLetter(taskId);
+  }
+
+  @Mutation(() => DeadLetterOperationResult, { description: 'Re-queue dead-lettered tasks with their attempts reset' })
+  @CacheInvalidate({ patterns: ['worker:dlq:*', 'worker:task:*', 'worker:tasks:*', 'gql:task:*', 'gql:tasks:*'] })
+  async replayDeadLetters(
+    @Args('selection') selection: DeadLetterSelectionInput,
+  ): Promise<DeadLetterOperationResult> {
+    return this.tasksService.replayDeadLetters(selection);
+  }
+
+  @Mutation(() => DeadLetterOperationResult, { description: 'Remove tasks from the dead-letter queue' })
+  @CacheInvalidate({ patterns: ['worker:dlq:*'] })
+  async purgeDeadLetters(
+    @Args('selection') selection: DeadLetterSelectionInput,
+  ): Promise<DeadLetterOperationResult> {
+    return this.tasksService.purgeDeadLetters(selection);
+  }
+
+  @Mutation(() => Workflow, { description: 'Create a workflow of dependent tasks' })
+  @CacheInvalidate({ patterns: ['worker:workflows:*', 'worker:tasks:*', 'gql:tasks:*'] })
+  async createWorkflow(
+    @Args('input') input: CreateWorkflowInput,
+  ): Promise<Workflow> {
+    return this.tasksService.createWorkflow(input);
+  }
+
+  @Query(() => [Workflow], { description: 'Get all workflows, newest first' })
+  async workflows(
+    @Args('status', { type: () => WorkflowStatus, nullable: true }) status?: WorkflowStatus,
+  ): Promise<Workflow[]> {
+    return this.tasksService.getWorkflows(status);
+  }
+
+  @Query(() => Workflow, { description: 'Get a workflow with the state of each node' })
+  async workflow(
+    @Args('workflowId') workflowId: string,
+  ): Promise<Workflow> {
+    return this.tasksService.getWorkflow(workflowId);
+  }
+
+  @Mutation(() => Workflow, { description: 'Cancel every unfinished node of a workflow' })
+  @CacheInvalidate({ patterns: ['worker:workflows:*', 'worker:task:*', 'worker:tasks:*', 'gql:task:*', 'gql:tasks:*'] })
+  async cancelWorkflow(
+    @Args('workflowId') workflowId: string,
+  ): Promise<Workflow> {
+    return this.tasksService.cancelWorkflow(workflowId);
+  }
+
   @Mutation(() => Job, { description: 'Create a new scheduled job' })
   @CacheInvalidate({ patterns: ['worker:jobs:*', 'gql:job:*', 'gql:jobs:*'] })
   async createJob(
@@ -60,6 +139,11 @@ export class TasksResolver {
     return this.tasksService.createJob(input);
   }
 
+  @Query(() => [TaskType], { description: 'Get the task types the Worker Service can execute, with their payload schemas' })
+  async taskTypes(): Promise<TaskType[]> {
+    return this.tasksService.getTaskTypes();
+  }
+
   @Query(() => [Job], { description: 'Get all scheduled jobs' })
   async jobs(): Promise<Job[]> {
     return this.tasksService.getJobs();
@@ -2,7 +2,31 @@ import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { WorkerClient } from '../../services/worker.client';
-import { TasksResponse, CreateTaskInput, CreateJobInput, TaskFiltersInput, TaskStatus, JobStatus, TaskPriority } from './tasks.model';
+import {
+  TasksResponse,
+  CreateTaskInput,
+  CreateJobInput,
+  TaskFiltersInput,
+  TaskStatus,
+  JobStatus,
+  JobRun,
+  JobRunStatus,
+  TaskType,
+  MisfirePolicy,
+  OverlapPolicy,
+  TaskPriority,
+  DeadLetterEntry,
+  DeadLetterResponse,
+  DeadLetterFiltersInput,
+  DeadLetterSelectionInput,
+  DeadLetterOperationResult,
+  Workflow,
+  WorkflowStatus,
+  WorkflowFailureMode,
+  CreateWorkflowInput,
+  TaskCancellationResult,
+  CancellationState,
+} from './tasks.model';
 import { Task } from './entities/task.entity';
 import { Job } from './entities/job.entity';
 
@@ -40,6 +64,11 @@ export class TasksService {
       type: input.type,
       payload: input.payload,
       priority,
+      maxAttempts: input.maxAttempts,
+      retryPolicy: input.retryPolicy,
+      timeoutMs: input.timeoutMs,
+      queue: input.queue,
+      idempotencyKey: input.idempotencyKey,
     });
 
     // Convert worker task to GraphQL format
@@ -104,9 +133,15 @@ export class TasksService {
     };
   }
 
-  async cancelTask(taskId: string): Promise<boolean> {
-    await this.workerClient.cancelTask(taskId);
-    return true;
+  async cancelTask(taskId: string): Promise<TaskCancellationResult> {
+    const task = await this.workerClient.cancelTask(taskId);
+    const cancelled = task.status === 'cancelled';
+
+    return {
+      taskId: task.id,
+      cancelled,
+      state: cancelled ? CancellationState.CANCELLED : CancellationState.CANCELLING,
+    };
   }
 
   async retryTask(taskId: string, resetAttempts?: boolean): Promise<Task> {
@@ -114,12 +149,72 @@ export class TasksService {
     return this.mapWorkerTaskToGraphQL(task);
   }
 
+  async getDeadLetters(filters?: DeadLetterFiltersInput): Promise<DeadLetterResponse> {
+    const result = await this.workerClient.getDeadLetters(filters);
+
+    return {
+      entries: result.entries.map(entry => this.mapDeadLetterToGraphQL(entry)),
+      total: result.total,
+      byType: result.byType,
+    };
+  }
+
+  async getDeadLetter(taskId: string): Promise<DeadLetterEntry> {
+    const entry = await this.workerClient.getDeadLetter(taskId);
+    return this.mapDeadLetterToGraphQL(entry);
+  }
+
+  async replayDeadLetters(selection: DeadLetterSelectionInput): Promise<DeadLetterOperationResult> {
+    return this.workerClient.replayDeadLetters(selection);
+  }
+
+  async purgeDeadLetters(selection: DeadLetterSelectionInput): Promise<DeadLetterOperationResult> {
+    return this.workerClient.purgeDeadLetters(selection);
+  }
+
+  async createWorkflow(input: CreateWorkflowInput): Promise<Workflow> {
+    const priorityMap: Record<string, number> = {
+      'low': 1,
+      'normal': 5,
+      'high': 10,
+    };
+
+    const workflow = await this.workerClient.createWorkflow({
+      name: input.name,
+      failureMode: input.failureMode,
+      nodes: input.nodes.map(node => ({
+        ...node,
+        priority: node.priority ? priorityMap[node.priority] : undefined,
+      })),
+    });
+
+    return this.mapWorkflowToGraphQL(workflow);
+  }
+
+  async getWorkflows(status?: WorkflowStatus): Promise<Workflow[]> {
+    const workflows = await this.workerClient.getWorkflows(status);
+    return workflows.map(workflow => this.mapWorkflowToGraphQL(workflow));
+  }
+
+  async getWorkflow(workflowId: string): Promise<Workflow> {
+    const workflow = await this.workerClient.getWorkflow(workflowId);
+    return this.mapWorkflowToGraphQL(workflow);
+  }
+
+  async cancelWorkflow(workflowId: string): Promise<Workflow> {
+    const workflow = await this.workerClient.cancelWorkflow(workflowId);
+    return this.mapWorkflowToGraphQL(workflow);
+  }
+
   async createJob(input: CreateJobInput): Promise<Job> {
     const workerJob = await this.workerClient.createJob({
       name: input.name,
       type: input.type,
       schedule: input.schedule,
       payload: input.payload,
+      timezone: input.timezone,
+      misfirePolicy: input.misfirePolicy,
+      overlapPolicy: input.overlapPolicy,
     });
     
     const job = this.mapWorkerJobToGraphQL(workerJob);
@@ -147,6 +242,27 @@ export class TasksService {
     return job;
   }
 
+  async getTaskTypes(): Promise<TaskType[]> {
+    return this.workerClient.getTaskTypes();
+  }
+
+  async getJobRuns(jobId: string, limit?: number): Promise<JobRun[]> {
+    const runs = await this.workerClient.getJobRuns(jobId, limit);
+
+    return runs.map(run => ({
+      id: run.id,
+      jobId: run.jobId,
+      taskId: run.taskId,
+      status: run.status as JobRunStatus,
+      scheduledAt: new Date(run.scheduledAt),
+      startedAt: run.startedAt ? new Date(run.startedAt) : undefined,
+      finishedAt: run.finishedAt ? new Date(run.finishedAt) : undefined,
+      durationMs: run.durationMs,
+      error: run.error,
+      reason: run.reason,
+    }));
+  }
+
   async pauseJob(jobId: string): Promise<boolean> {
     await this.workerClient.pauseJob(jobId);
     return true;
@@ -173,6 +289,9 @@ export class TasksService {
     payload: Record<string, unknown>;
     result?: unknown;
     error?: string;
+    progress?: { percent: number; step?: string; message?: string; updatedAt: Date | string };
+    partialResult?: unknown;
+    queue?: string;
     attempts?: number;
     maxAttempts?: number;
     createdAt: Date | string;
@@ -185,6 +304,7 @@ export class TasksService {
       'pending': TaskStatus.PENDING,
       'processing': TaskStatus.IN_PROGRESS,
       'retrying': TaskStatus.IN_PROGRESS,
+      'cancelling': TaskStatus.IN_PROGRESS,
       'completed': TaskStatus.COMPLETED,
       'failed': TaskStatus.FAILED,
       'cancelled': TaskStatus.FAILED,
@@ -204,11 +324,103 @@ export class TasksService {
       payload: workerTask.payload,
       result: workerTask.result,
       error: workerTask.error,
+      progress: workerTask.progress
+        ? { ...workerTask.progress, updatedAt: new Date(workerTask.progress.updatedAt) }
+        : undefined,
+      partialResult: workerTask.partialResult,
+      queue: workerTask.queue,
       createdAt: new Date(workerTask.createdAt),
       updatedAt: new Date(workerTask.updatedAt || workerTask.createdAt),
     } as Task;
   }
 
+  /**
+   * Map Worker Service dead-letter entry to GraphQL DeadLetterEntry
+   */
+  private mapDeadLetterToGraphQL(entry: {
+    taskId: string;
+    type: string;
+    payload: Record<string, unknown>;
+    priority: number;
+    error: string;
+    attempts: number;
+    maxAttempts: number;
+    history: { attempt: number; startedAt?: Date | string; failedAt: Date | string; error: string }[];
+    createdAt: Date | string;
+    deadLetteredAt: Date | string;
+  }): DeadLetterEntry {
+    const priorityMap: Record<number, TaskPriority> = {
+      1: TaskPriority.LOW,
+      5: TaskPriority.NORMAL,
+      10: TaskPriority.HIGH,
+    };
+
+    return {
+      ...entry,
+      priority: priorityMap[entry.priority] || TaskPriority.NORMAL,
+      history: entry.history.map(attempt => ({
+        ...attempt,
+        startedAt: attempt.startedAt ? new Date(attempt.startedAt) : undefined,
+        failedAt: new Date(attempt.failedAt),
+      })),
+      createdAt: new Date(entry.createdAt),
+      deadLetteredAt: new Date(entry.deadLetteredAt),
+    };
+  }
+
+  /**
+   * Map Worker Service workflow to GraphQL Workflow. Node task statuses are reported
+   * in workflow terms (processing and retrying nodes are running).
+   */
+  private mapWorkflowToGraphQL(workflow: {
+    id: string;
+    name: string;
+    status: string;
+    failureMode: string;
+    progress: Workflow['progress'];
+    nodes: {
+      key: string;
+      taskId: string;
+      type: string;
+      status: string;
+      blocked: boolean;
+      dependsOn: string[];
+      failureMode: string;
+      attempts: number;
+      error?: string;
+      result?: unknown;
+      startedAt?: Date | string;
+      completedAt?: Date | string;
+    }[];
+    createdAt: Date | string;
+    completedAt?: Date | string;
+  }): Workflow {
+    const nodeStatusMap: Record<string, WorkflowStatus> = {
+      'pending': WorkflowStatus.PENDING,
+      'processing': WorkflowStatus.RUNNING,
+      'retrying': WorkflowStatus.RUNNING,
+      'cancelling': WorkflowStatus.RUNNING,
+      'completed': WorkflowStatus.COMPLETED,
+      'failed': WorkflowStatus.FAILED,
+      'cancelled': WorkflowStatus.CANCELLED,
+    };
+
+    return {
+      ...workflow,
+      status: workflow.status as WorkflowStatus,
+      failureMode: workflow.failureMode as WorkflowFailureMode,
+      nodes: workflow.nodes.map(node => ({
+        ...node,
+        status: nodeStatusMap[node.status] || WorkflowStatus.PENDING,
+        failureMode: node.failureMode as WorkflowFailureMode,
+        startedAt: node.startedAt ? new Date(node.startedAt) : undefined,
+        completedAt: node.completedAt ? new Date(node.completedAt) : undefined,
+      })),
+      createdAt: new Date(workflow.createdAt),
+      completedAt: workflow.completedAt ? new Date(workflow.completedAt) : undefined,
+    };
+  }
+
   /**
    * Map Worker Service job to GraphQL Job
    */
@@ -217,10 +429,14 @@ export class TasksService {
     name: string;
     type?: string;
     schedule?: string;
+    timezone?: string;
     status: string;
     payload?: Record<string, unknown>;
     lastRun?: Date | string;
     nextRun?: Date | string;
+    misfirePolicy?: string;
+    overlapPolicy?: string;
+    consecutiveFailures?: number;
     createdAt?: Date | string;
     updatedAt?: Date | string;
   }): Job {
@@ -234,9 +450,13 @@ export class TasksService {
       id: workerJob.id,
       name: workerJob.name,
       schedule: workerJob.schedule,
+      timezone: workerJob.timezone,
       status: statusMap[workerJob.status] || JobStatus.ACTIVE,
       lastRun: workerJob.lastRun ? new Date(workerJob.lastRun) : undefined,
       nextRun: workerJob.nextRun ? new Date(workerJob.nextRun) : undefined,
+      misfirePolicy: workerJob.misfirePolicy as MisfirePolicy | undefined,
+      overlapPolicy: workerJob.overlapPolicy as OverlapPolicy | undefined,
+      consecutiveFailures: workerJob.consecutiveFailures,
       createdAt: workerJob.createdAt ? new Date(workerJob.createdAt) : new Date(),
       updatedAt: workerJob.updatedAt ? new Date(workerJob.updatedAt) : new Date(),
     } as Job;
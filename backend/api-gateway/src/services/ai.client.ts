@@ -16,7 +16,16 @@ interface ChatRequest {
     temperature?: number;
     maxTokens?: number;
     model?: string;
+    provider?: string;
   };
+  confirmActionId?: string;
+}
+
+interface PendingAction {
+  id: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  description: string;
 }
 
 interface ChatResponse {
@@ -26,6 +35,21 @@ interface ChatResponse {
   tokensUsed?: number;
   model?: string;
   timestamp: Date;
+  pendingAction?: PendingAction;
+}
+
+interface ChatStreamEvent {
+  type: 'token' | 'done';
+  conversationId: string;
+  token?: string;
+  response?: string;
+  timestamp?: string;
+  pendingAction?: PendingAction;
+  metadata?: {
+    model?: string;
+    tokensUsed?: number;
+    cached?: boolean;
+  };
 }
 
 interface InsightRequest {
@@ -81,11 +105,13 @@ function getErrorStack(error: unknown): string | undefined {
 export class AIClient {
   private readonly aiServiceUrl: string;
   private readonly apiKey: string;
+  private readonly streamConnectTimeoutMs: number;
   private readonly logger = new Logger('AIClient');
 
   constructor(private readonly cacheService: CacheService) {
     this.aiServiceUrl = process.env.AI_SERVICE_URL || 'http://ai-service:5000';
     this.apiKey = process.env.AI_SERVICE_API_KEY || '';
+    this.streamConnectTimeoutMs = parseInt(process.env.AI_STREAM_CONNECT_TIMEOUT_MS || '10000', 10);
     if (!this.apiKey) {
       this.logger.warn('AI_SERVICE_API_KEY not configured - inter-service authentication disabled');
     } else {
@@ -105,24 +131,23 @@ export class AIClient {
 
   /**
    * Send a chat message and get AI response
+   * @param authorization - The caller's Authorization header; tools the assistant calls act with
+   * the caller's permissions
    */
-  async chat(request: ChatRequest): Promise<ChatResponse> {
+  async chat(request: ChatRequest, authorization?: string): Promise<ChatResponse> {
     try {
       this.logger.log('Sending chat request to AI service');
       
-      // Transform the request to match AI service's expected format
-      const lastMessage = request.messages[request.messages.length - 1];
-      const aiServiceRequest = {
-        message: lastMessage.content,
-        conversationId: request.context?.conversationId as string | undefined,
-        context: request.context ? Object.keys(request.context).map(key => `${key}: ${request.context![key]}`) : undefined,
-      };
+      const aiServiceRequest = this.toAIServiceChatRequest(request);
       
       this.logger.log(`Request payload: ${JSON.stringify(aiServiceRequest)}`);
       
       const response = await fetch(`${this.aiServiceUrl}/ai/chat`, {
         method: 'POST',
-        headers: this.getHeaders(),
+        headers: this.getHeaders({
+          ...(authorization ? { Authorization: authorization } : {}),
+          ...(request.userId ? { 'X-User-Id': request.userId } : {}),
+        }),
         body: JSON.stringify(aiServiceRequest),
       });
 
@@ -152,6 +177,7 @@ export class AIClient {
         tokensUsed: aiServiceResponse.metadata?.tokensUsed,
         model: aiServiceResponse.metadata?.model,
         timestamp: new Date(aiServiceResponse.timestamp),
+        pendingAction: aiServiceResponse.pendingAction,
       };
     } catch (error) {
       this.logger.error(`Chat request failed: ${getErrorMessage(error)}`, getErrorStack(error));
@@ -165,6 +191,117 @@ export class AIClient {
     }
   }
 
+  /**
+   * Send a chat message and stream the response, parsing the AI service's Server-Sent Events.
+   * Stopping the iteration early or aborting `signal` closes the connection, which stops the
+   * completion in the AI service.
+   * @param authorization - The caller's Authorization header; tools the assistant calls act with
+   * the caller's permissions
+   * @param signal - Aborted when the consumer goes away; the stream then ends without an error
+   * @throws HttpException if the AI service rejects the request, doesn't respond within the connect
+   * timeout or reports an error mid-stream
+   */
+  async *streamChat(
+    request: ChatRequest,
+    authorization?: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<ChatStreamEvent> {
+    this.logger.log('Sending streaming chat request to AI service');
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    // Only bounds the wait for the response headers; tokens may take as long as the completion does
+    const connectTimeout = setTimeout(abort, this.streamConnectTimeoutMs);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${this.aiServiceUrl}/ai/chat/stream`, {
+          method: 'POST',
+          headers: this.getHeaders({
+            Accept: 'text/event-stream',
+            ...(authorization ? { Authorization: authorization } : {}),
+          }),
+          body: JSON.stringify(this.toAIServiceChatRequest(request)),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (signal?.aborted) {
+          return;
+        }
+        if (controller.signal.aborted) {
+          this.logger.error(`Streaming chat request got no response within ${this.streamConnectTimeoutMs}ms`);
+          throw new HttpException('AI Service did not respond in time', HttpStatus.GATEWAY_TIMEOUT);
+        }
+        this.logger.error(`Streaming chat request failed: ${getErrorMessage(error)}`, getErrorStack(error));
+        throw new HttpException(
+          'AI Service is unavailable',
+          HttpStatus.SERVICE_UNAVAILABLE,
+        );
+      } finally {
+        clearTimeout(connectTimeout);
+      }
+
+      if (!response.ok || !response.body) {
+        const error = await response.json().catch(() => ({}));
+        throw new HttpException(
+          error.message || 'Failed to stream chat response',
+          response.ok ? HttpStatus.BAD_GATEWAY : response.status,
+        );
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      for (;;) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          if (signal?.aborted) {
+            return;
+          }
+          throw error;
+        }
+        if (chunk.done) {
+          return;
+        }
+
+        buffer += decoder.decode(chunk.value, { stream: true });
+
+        // Events are separated by a blank line
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const frame = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+
+          const event = frame.match(/^event: (.*)$/m)?.[1];
+          const data = frame
+            .split('\n')
+            .filter(line => line.startsWith('data: '))
+            .map(line => line.slice('data: '.length))
+            .join('\n');
+
+          if (!data) {
+            continue;
+          }
+          if (event === 'error') {
+            const error = JSON.parse(data);
+            throw new HttpException(error.message || 'Chat stream failed', HttpStatus.BAD_GATEWAY);
+          }
+
+          yield JSON.parse(data) as ChatStreamEvent;
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', abort);
+      // Closes the connection if the consumer stopped early
+      controller.abort();
+    }
+  }
+
   /**
    * Get AI-powered insights based on data
    */
@@ -528,4 +665,25 @@ export class AIClient {
       );
     }
   }
+
+  /**
+   * Transform a chat request to the AI service's format: the last message, plus the context as
+   * `key: value` strings
+   */
+  private toAIServiceChatRequest(request: ChatRequest): {
+    message: string;
+    conversationId?: string;
+    context?: string[];
+    provider?: string;
+    confirmActionId?: string;
+  } {
+    const lastMessage = request.messages[request.messages.length - 1];
+    return {
+      message: lastMessage.content,
+      conversationId: request.context?.conversationId as string | undefined,
+      context: request.context ? Object.keys(request.context).map(key => `${key}: ${request.context![key]}`) : undefined,
+      provider: request.options?.provider,
+      confirmActionId: request.confirmActionId,
+    };
+  }
 }
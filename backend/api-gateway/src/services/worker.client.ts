@@ -5,11 +5,14 @@ import { CacheService } from './cache.service';
 interface Task {
   id: string;
   type: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'retrying';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'cancelling' | 'retrying';
   priority: number;
   payload: Record<string, unknown>;
   result?: unknown;
   error?: string;
+  progress?: { percent: number; step?: string; message?: string; updatedAt: Date };
+  partialResult?: unknown;
+  queue?: string;
   attempts: number;
   maxAttempts: number;
   createdAt: Date;
@@ -24,18 +27,114 @@ interface Job {
   name: string;
   type?: string;
   schedule?: string;
+  timezone?: string;
   status: 'active' | 'paused' | 'failed';
   payload?: Record<string, unknown>;
   lastRun?: Date;
   nextRun?: Date;
+  misfirePolicy?: 'skip' | 'run-once' | 'run-all-missed';
+  overlapPolicy?: 'allow' | 'skip-if-running' | 'queue';
+  consecutiveFailures?: number;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+interface JobRun {
+  id: string;
+  jobId: string;
+  taskId?: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'queued' | 'skipped';
+  scheduledAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  error?: string;
+  reason?: string;
+}
+
+interface DeadLetterEntry {
+  taskId: string;
+  type: string;
+  payload: Record<string, unknown>;
+  priority: number;
+  error: string;
+  attempts: number;
+  maxAttempts: number;
+  history: { attempt: number; startedAt?: Date; failedAt: Date; error: string }[];
+  createdAt: Date;
+  deadLetteredAt: Date;
+}
+
+interface DeadLetterSelection {
+  taskIds?: string[];
+  type?: string;
+  errorContains?: string;
+  all?: boolean;
+}
+
+interface RetryPolicy {
+  strategy: 'fixed' | 'linear' | 'exponential';
+  initialDelayMs: number;
+  maxDelayMs?: number;
+  multiplier?: number;
+  jitter?: number;
+}
+
 interface CreateTaskDto {
   type: string;
   payload: Record<string, unknown>;
   priority?: 'low' | 'normal' | 'high' | number;
+  maxAttempts?: number;
+  retryPolicy?: RetryPolicy;
+  timeoutMs?: number;
+  queue?: string;
+  idempotencyKey?: string;
+}
+
+interface WorkflowNode {
+  key: string;
+  taskId: string;
+  type: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'cancelling' | 'retrying';
+  blocked: boolean;
+  dependsOn: string[];
+  failureMode: 'propagate' | 'tolerate';
+  attempts: number;
+  error?: string;
+  result?: unknown;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+interface Workflow {
+  id: string;
+  name: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  failureMode: 'propagate' | 'tolerate';
+  progress: {
+    total: number;
+    pending: number;
+    running: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+    percent: number;
+  };
+  nodes: WorkflowNode[];
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+interface CreateWorkflowDto {
+  name: string;
+  failureMode?: 'propagate' | 'tolerate';
+  nodes: (Omit<CreateTaskDto, 'payload'> & {
+    key: string;
+    payload?: Record<string, unknown>;
+    dependsOn?: string[];
+    inputs?: Record<string, string>;
+    failureMode?: 'propagate' | 'tolerate';
+  })[];
 }
 
 interface CreateJobDto {
@@ -43,6 +142,24 @@ interface CreateJobDto {
   type: string;
   schedule: string;
   payload: Record<string, unknown>;
+  timezone?: string;
+  misfirePolicy?: 'skip' | 'run-once' | 'run-all-missed';
+  overlapPolicy?: 'allow' | 'skip-if-running' | 'queue';
+}
+
+interface ValidationErrorDetail {
+  field: string;
+  message: string;
+  constraint?: string;
+  value?: unknown;
+}
+
+interface TaskType {
+  type: string;
+  handler: string;
+  description?: string;
+  payloadSchema?: Record<string, unknown>;
+  resultSchema?: Record<string, unknown>;
 }
 
 function getErrorMessage(error: unknown): string {
@@ -96,11 +213,10 @@ export class WorkerClient {
       });
 
       if (!response.ok) {
-        const error = await response.json().catch(() => ({}));
-        throw new HttpException(
-          error.message || 'Failed to create task',
-          response.status,
-        );
+        const error: { message?: string; errors?: ValidationErrorDetail[] } = await response.json().catch(() => ({}));
+        const message = error.message || 'Failed to create task';
+        // Field-level payload errors are passed on so clients can show them next to the fields
+        throw new HttpException(error.errors ? { message, errors: error.errors } : message, response.status);
       }
 
       const task = await response.json();
@@ -163,6 +279,7 @@ export class WorkerClient {
   async getTasks(filters?: {
     status?: string;
     type?: string;
+    queue?: string;
     limit?: number;
     offset?: number;
   }): Promise<{ tasks: Task[]; total: number }> {
@@ -170,6 +287,7 @@ export class WorkerClient {
       const queryParams = new URLSearchParams();
       if (filters?.status) queryParams.append('status', filters.status);
       if (filters?.type) queryParams.append('type', filters.type);
+      if (filters?.queue) queryParams.append('queue', filters.queue);
       if (filters?.limit) queryParams.append('limit', filters.limit.toString());
       if (filters?.offset) queryParams.append('offset', filters.offset.toString());
 
@@ -207,7 +325,7 @@ export class WorkerClient {
     keys: ['worker:task:{{0}}'], 
     patterns: ['worker:tasks:*'] 
   })
-  async cancelTask(taskId: string): Promise<void> {
+  async cancelTask(taskId: string): Promise<Task> {
     try {
       this.logger.log(`Cancelling task: ${taskId}`);
       
@@ -226,7 +344,9 @@ export class WorkerClient {
         );
       }
 
-      this.logger.log(`Task cancelled successfully: ${taskId}`);
+      const task = await response.json();
+      this.logger.log(`Task ${taskId} ${task.status === 'cancelled' ? 'cancelled successfully' : 'is being cancelled'}`);
+      return task;
     } catch (error) {
       this.logger.error(`Failed to cancel task: ${getErrorMessage(error)}`, getErrorStack(error));
       if (error instanceof HttpException) {
@@ -282,6 +402,280 @@ export class WorkerClient {
     }
   }
 
+  /**
+   * List dead-lettered tasks with optional filtering
+   */
+  @Cacheable({
+    key: (filters) => `worker:dlq:${JSON.stringify(filters || {})}`,
+    ttl: 30,
+  })
+  async getDeadLetters(filters?: {
+    type?: string;
+    errorContains?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ entries: DeadLetterEntry[]; total: number; byType: Record<string, number> }> {
+    try {
+      const queryParams = new URLSearchParams();
+      if (filters?.type) queryParams.append('type', filters.type);
+      if (filters?.errorContains) queryParams.append('errorContains', filters.errorContains);
+      if (filters?.limit) queryParams.append('limit', filters.limit.toString());
+      if (filters?.offset) queryParams.append('offset', filters.offset.toString());
+
+      this.logger.log(`Fetching dead-letter queue with filters: ${queryParams.toString()}`);
+
+      const response = await fetch(`${this.workerServiceUrl}/api/dlq?${queryParams.toString()}`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new HttpException(
+          'Failed to fetch dead-letter queue',
+          response.status,
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      this.logger.error(`Failed to fetch dead-letter queue: ${getErrorMessage(error)}`, getErrorStack(error));
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Worker Service is unavailable',
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+  }
+
+  /**
+   * Get the dead-letter entry of a task
+   */
+  @Cacheable({ key: 'worker:dlq:entry:{{0}}', ttl: 30 })
+  async getDeadLetter(taskId: string): Promise<DeadLetterEntry> {
+    try {
+      this.logger.log(`Fetching dead-letter entry: ${taskId}`);
+
+      const response = await fetch(`${this.workerServiceUrl}/api/dlq/${taskId}`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new HttpException('Dead-letter entry not found', HttpStatus.NOT_FOUND);
+        }
+        throw new HttpException(
+          'Failed to fetch dead-letter entry',
+          response.status,
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      this.logger.error(`Failed to fetch dead-letter entry: ${getErrorMessage(error)}`, getErrorStack(error));
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Worker Service is unavailable',
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+  }
+
+  /**
+   * Re-queue dead-lettered tasks
+   */
+  @CacheInvalidate({ patterns: ['worker:dlq:*', 'worker:task:*', 'worker:tasks:*'] })
+  async replayDeadLetters(selection: DeadLetterSelection): Promise<{ count: number; taskIds: string[] }> {
+    return this.postDeadLetterOperation('replay', selection);
+  }
+
+  /**
+   * Remove tasks from the dead-letter queue
+   */
+  @CacheInvalidate({ patterns: ['worker:dlq:*'] })
+  async purgeDeadLetters(selection: DeadLetterSelection): Promise<{ count: number; taskIds: string[] }> {
+    return this.postDeadLetterOperation('purge', selection);
+  }
+
+  private async postDeadLetterOperation(
+    operation: 'replay' | 'purge',
+    selection: DeadLetterSelection,
+  ): Promise<{ count: number; taskIds: string[] }> {
+    try {
+      this.logger.log(`Dead-letter ${operation}: ${JSON.stringify(selection)}`);
+
+      const response = await fetch(`${this.workerServiceUrl}/api/dlq/${operation}`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(selection),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new HttpException(
+          error.message || `Failed to ${operation} dead-letter entries`,
+          response.status,
+        );
+      }
+
+      const result = await response.json();
+      this.logger.log(`Dead-letter ${operation} affected ${result.count} task(s)`);
+      return result;
+    } catch (error) {
+      this.logger.error(`Failed to ${operation} dead-letter entries: ${getErrorMessage(error)}`, getErrorStack(error));
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Worker Service is unavailable',
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+  }
+
+  /**
+   * Create a workflow and queue its root nodes
+   */
+  @CacheInvalidate({ patterns: ['worker:workflows:*', 'worker:tasks:*', 'worker:stats:*'] })
+  async createWorkflow(workflowDto: CreateWorkflowDto): Promise<Workflow> {
+    try {
+      this.logger.log(`Creating workflow: ${workflowDto.name}`);
+
+      const response = await fetch(`${this.workerServiceUrl}/api/workflows`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(workflowDto),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new HttpException(
+          error.message || 'Failed to create workflow',
+          response.status,
+        );
+      }
+
+      const workflow = await response.json();
+      this.logger.log(`Workflow created successfully: ${workflow.id}`);
+      return workflow;
+    } catch (error) {
+      this.logger.error(`Failed to create workflow: ${getErrorMessage(error)}`, getErrorStack(error));
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Worker Service is unavailable',
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+  }
+
+  /**
+   * Get all workflows
+   */
+  @Cacheable({ key: 'worker:workflows:list:{{0}}', ttl: 10 })
+  async getWorkflows(status?: string): Promise<Workflow[]> {
+    try {
+      const queryParams = new URLSearchParams();
+      if (status) queryParams.append('status', status);
+
+      this.logger.log(`Fetching workflows with filters: ${queryParams.toString()}`);
+
+      const response = await fetch(`${this.workerServiceUrl}/api/workflows?${queryParams.toString()}`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new HttpException(
+          'Failed to fetch workflows',
+          response.status,
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      this.logger.error(`Failed to fetch workflows: ${getErrorMessage(error)}`, getErrorStack(error));
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Worker Service is unavailable',
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+  }
+
+  /**
+   * Get a workflow with the state of each node
+   */
+  @Cacheable({ key: 'worker:workflows:entry:{{0}}', ttl: 10 })
+  async getWorkflow(workflowId: string): Promise<Workflow> {
+    try {
+      this.logger.log(`Fetching workflow: ${workflowId}`);
+
+      const response = await fetch(`${this.workerServiceUrl}/api/workflows/${workflowId}`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new HttpException('Workflow not found', HttpStatus.NOT_FOUND);
+        }
+        throw new HttpException(
+          'Failed to fetch workflow',
+          response.status,
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      this.logger.error(`Failed to fetch workflow: ${getErrorMessage(error)}`, getErrorStack(error));
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Worker Service is unavailable',
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+  }
+
+  /**
+   * Cancel every unfinished node of a workflow
+   */
+  @CacheInvalidate({ patterns: ['worker:workflows:*', 'worker:task:*', 'worker:tasks:*'] })
+  async cancelWorkflow(workflowId: string): Promise<Workflow> {
+    try {
+      this.logger.log(`Cancelling workflow: ${workflowId}`);
+
+      const response = await fetch(`${this.workerServiceUrl}/api/workflows/${workflowId}/cancel`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new HttpException(
+          error.message || 'Failed to cancel workflow',
+          response.status,
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      this.logger.error(`Failed to cancel workflow: ${getErrorMessage(error)}`, getErrorStack(error));
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Worker Service is unavailable',
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+  }
+
   /**
    * Create a scheduled job
    */
@@ -383,6 +777,73 @@ export class WorkerClient {
     }
   }
 
+  /**
+   * Get the run history of a job, newest first
+   */
+  async getJobRuns(jobId: string, limit?: number): Promise<JobRun[]> {
+    try {
+      this.logger.log(`Fetching runs of job: ${jobId}`);
+
+      const queryParams = new URLSearchParams();
+      if (limit) queryParams.append('limit', limit.toString());
+
+      const response = await fetch(`${this.workerServiceUrl}/api/jobs/${jobId}/runs?${queryParams.toString()}`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new HttpException('Job not found', HttpStatus.NOT_FOUND);
+        }
+        throw new HttpException(
+          'Failed to fetch job runs',
+          response.status,
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      this.logger.error(`Failed to fetch job runs: ${getErrorMessage(error)}`, getErrorStack(error));
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Worker Service is unavailable',
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+  }
+
+  /**
+   * Get the task types the Worker Service can execute, with their payload and result schemas
+   */
+  @Cacheable({ key: 'worker:task-types', ttl: 300 })
+  async getTaskTypes(): Promise<TaskType[]> {
+    try {
+      const response = await fetch(`${this.workerServiceUrl}/api/task-types`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new HttpException(
+          'Failed to fetch task types',
+          response.status,
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      this.logger.error(`Failed to fetch task types: ${getErrorMessage(error)}`, getErrorStack(error));
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Worker Service is unavailable',
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+  }
+
   /**
    * Pause a job
    */
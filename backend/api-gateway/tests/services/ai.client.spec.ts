@@ -0,0 +1,152 @@
+import { HttpException } from '@nestjs/common';
+import { AIClient } from '../../src/services/ai.client';
+import { CacheService } from '../../src/services/cache.service';
+
+describe('AIClient', () => {
+  let client: AIClient;
+  const fetchMock = jest.fn();
+  const originalFetch = global.fetch;
+
+  // A response whose body delivers the given chunks one read at a time
+  const sseResponse = (chunks: string[]) => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    });
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+  };
+
+  const collect = async <T>(events: AsyncGenerator<T>) => {
+    const result: T[] = [];
+    for await (const event of events) {
+      result.push(event);
+    }
+    return result;
+  };
+
+  const request = {
+    messages: [{ role: 'user' as const, content: 'How is the queue?' }],
+    context: { conversationId: 'conv-1' },
+  };
+
+  beforeEach(() => {
+    global.fetch = fetchMock;
+    fetchMock.mockReset();
+    client = new AIClient({} as CacheService);
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('streamChat', () => {
+    it('should parse events split across chunks', async () => {
+      fetchMock.mockResolvedValue(
+        sseResponse([
+          'event: token\ndata: {"type":"token","conversationId":"conv-1","token":"Queue "}\n\nevent: tok',
+          'en\ndata: {"type":"token","conversationId":"conv-1","token":"is healthy"}\n',
+          '\nevent: done\ndata: {"type":"done","conversationId":"conv-1","response":"Queue is healthy"}\n\n',
+        ]),
+      );
+
+      const events = await collect(client.streamChat(request));
+
+      expect(events.map((e) => e.token ?? e.response)).toEqual(['Queue ', 'is healthy', 'Queue is healthy']);
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.stringMatching(/\/ai\/chat\/stream$/),
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ message: 'How is the queue?', conversationId: 'conv-1', context: ['conversationId: conv-1'] }),
+        }),
+      );
+    });
+
+    it('should forward the caller\'s Authorization header', async () => {
+      fetchMock.mockResolvedValue(
+        sseResponse(['event: done\ndata: {"type":"done","conversationId":"conv-1","response":"ok"}\n\n']),
+      );
+
+      await collect(client.streamChat(request, 'Bearer token'));
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer token' }) }),
+      );
+    });
+
+    it('should throw when the AI service reports an error mid-stream', async () => {
+      fetchMock.mockResolvedValue(
+        sseResponse([
+          'event: token\ndata: {"type":"token","conversationId":"conv-1","token":"Par"}\n\n',
+          'event: error\ndata: {"message":"Upstream closed"}\n\n',
+        ]),
+      );
+
+      const events = client.streamChat(request);
+
+      await expect(events.next()).resolves.toMatchObject({ value: { token: 'Par' } });
+      await expect(events.next()).rejects.toThrow('Upstream closed');
+    });
+
+    it('should forward the status of a rejected request', async () => {
+      fetchMock.mockResolvedValue(
+        new Response(JSON.stringify({ message: ['message should not be empty'] }), { status: 400 }),
+      );
+
+      await expect(collect(client.streamChat(request))).rejects.toMatchObject({ status: 400 });
+    });
+
+    // A fetch that never responds, failing like fetch does once its request is aborted
+    const pendingFetch = (_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      });
+
+    it('should close the connection when the consumer stops early', async () => {
+      fetchMock.mockResolvedValue(
+        sseResponse(['event: token\ndata: {"type":"token","conversationId":"conv-1","token":"Par"}\n\n']),
+      );
+
+      const events = client.streamChat(request);
+      await events.next();
+      await events.return(undefined);
+
+      expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true);
+    });
+
+    it('should end the stream without an error when the consumer aborts it', async () => {
+      fetchMock.mockImplementation(pendingFetch);
+      const controller = new AbortController();
+
+      const events = collect(client.streamChat(request, undefined, controller.signal));
+      controller.abort();
+
+      await expect(events).resolves.toEqual([]);
+      expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true);
+    });
+
+    it('should give up when the AI service does not respond within the connect timeout', async () => {
+      process.env.AI_STREAM_CONNECT_TIMEOUT_MS = '10';
+      client = new AIClient({} as CacheService);
+      delete process.env.AI_STREAM_CONNECT_TIMEOUT_MS;
+      fetchMock.mockImplementation(pendingFetch);
+
+      const error = await collect(client.streamChat(request)).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect(error.getStatus()).toBe(504);
+    });
+
+    it('should report the AI service as unavailable when it cannot be reached', async () => {
+      fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+      const error = await collect(client.streamChat(request)).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect(error.getStatus()).toBe(503);
+    });
+  });
+});
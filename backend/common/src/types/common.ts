@@ -268,6 +268,8 @@ export enum JobStatus {
   Completed = "completed",
   Failed = "failed",
   Cancelled = "cancelled",
+  /** Cancellation requested while the task was running; the handler is winding down */
+  Cancelling = "cancelling",
   Retrying = "retrying",
 }
 
@@ -281,9 +283,41 @@ export enum JobPriority {
   Critical = 20,
 }
 
+/**
+ * Backoff strategy used between automatic retries
+ */
+export type RetryStrategy = "fixed" | "linear" | "exponential";
+
+/**
+ * Retry policy for background jobs
+ */
+export interface RetryPolicy {
+  strategy: RetryStrategy;
+  /** Delay before the first retry in milliseconds */
+  initialDelayMs: number;
+  /** Upper bound for a single retry delay in milliseconds */
+  maxDelayMs?: number;
+  /** Growth factor for exponential backoff (default: 2) */
+  multiplier?: number;
+  /** Fraction (0-1) of each delay that is randomised to spread out retries */
+  jitter?: number;
+}
+
 /**
  * Background job interface
  */
+/**
+ * Progress reported by a running task
+ */
+export interface TaskProgress {
+  /** Completion percentage, 0-100 */
+  percent: number;
+  /** Name of the current step */
+  step?: string;
+  message?: string;
+  updatedAt: Date;
+}
+
 export interface Job {
   id: string;
   type: string;
@@ -298,6 +332,28 @@ export interface Job {
   failedAt?: Date;
   error?: string;
   result?: unknown;
+  retryPolicy?: RetryPolicy;
+  nextRetryAt?: Date;
+  /** When the task last became available in its queue; waiting time and priority aging count from it */
+  queuedAt?: Date;
+  /** Maximum run time of one attempt in milliseconds */
+  timeoutMs?: number;
+  /** Named queue the task waits in, e.g. "ai" or "email" */
+  queue?: string;
+  /** Client-supplied key that makes repeated create requests return this task */
+  idempotencyKey?: string;
+  /** Last time the worker running this task reported it alive */
+  heartbeatAt?: Date;
+  /** Workflow this task is a node of */
+  workflowId?: string;
+  /** Scheduled job whose run enqueued this task */
+  scheduledJobId?: string;
+  jobRunId?: string;
+  /** IDs of tasks that must finish before this task is queued */
+  dependsOn?: string[];
+  progress?: TaskProgress;
+  /** Latest checkpoint saved by the handler, kept across automatic retries */
+  partialResult?: unknown;
 }
 
 // ============================================================================
@@ -1,10 +1,13 @@
 module.exports = {
   verbose: true,
   testEnvironment: "node",
-  testMatch: ["<rootDir>/__tests__/**/*.js"], // Only match JS tests for now
-  moduleFileExtensions: ["js", "json"],
+  transform: {
+    "^.+\\.ts$": ["ts-jest", { tsconfig: "<rootDir>/tsconfig.json" }],
+  },
+  testMatch: ["<rootDir>/src/**/*.spec.ts", "<rootDir>/tests/**/*.spec.ts"],
+  moduleFileExtensions: ["ts", "js", "json"],
   collectCoverageFrom: [
-    "**/src/**/*.{js}",
+    "**/src/**/*.{ts,js}",
     "!**/node_modules/**",
     "!**/dist/**",
     "!**/build/**",
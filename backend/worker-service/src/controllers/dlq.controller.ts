@@ -0,0 +1,61 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Body,
+} from '@nestjs/common';
+import {
+  DeadLetterService,
+  DeadLetterEntry,
+  DeadLetterListResponse,
+  DeadLetterOperationResult,
+} from '../services/dead-letter.service';
+import type { DeadLetterFilters } from '../services/dead-letter.service';
+import { DeadLetterSelectionDto } from '../dto/dead-letter.dto';
+
+/**
+ * Dead-Letter Queue Controller
+ * Handles REST endpoints for triaging tasks that failed permanently
+ */
+@Controller('dlq')
+export class DlqController {
+  constructor(private readonly deadLetterService: DeadLetterService) {}
+
+  /**
+   * GET /dlq
+   * List dead-lettered tasks, optionally filtered by type or error text
+   */
+  @Get()
+  async getEntries(@Query() query: DeadLetterFilters): Promise<DeadLetterListResponse> {
+    return this.deadLetterService.list(query);
+  }
+
+  /**
+   * GET /dlq/:taskId
+   * Inspect the payload, final error and attempt history of a dead-lettered task
+   */
+  @Get(':taskId')
+  async getEntry(@Param('taskId') taskId: string): Promise<DeadLetterEntry> {
+    return this.deadLetterService.getEntry(taskId);
+  }
+
+  /**
+   * POST /dlq/replay
+   * Re-queue the selected tasks with their attempts reset
+   */
+  @Post('replay')
+  async replay(@Body() selection: DeadLetterSelectionDto): Promise<DeadLetterOperationResult> {
+    return this.deadLetterService.replay(selection);
+  }
+
+  /**
+   * POST /dlq/purge
+   * Remove the selected tasks from the dead-letter queue
+   */
+  @Post('purge')
+  async purge(@Body() selection: DeadLetterSelectionDto): Promise<DeadLetterOperationResult> {
+    return this.deadLetterService.purge(selection);
+  }
+}
@@ -5,45 +5,16 @@ import {
   Delete,
   Param,
   Body,
-  HttpStatus,
-  HttpException,
-  BadRequestException,
+  Query,
+  DefaultValuePipe,
+  ParseIntPipe,
 } from '@nestjs/common';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { ScheduledJob, JobRun } from '../scheduler/scheduled-job.interface';
+import { CreateJobDto } from '../dto/job.dto';
 
-/**
- * Job status enum
- */
-export enum JobScheduleStatus {
-  Active = 'active',
-  Paused = 'paused',
-  Failed = 'failed',
-}
-
-/**
- * Scheduled job interface
- */
-export interface ScheduledJob {
-  id: string;
-  name: string;
-  type: string;
-  schedule: string;
-  payload: Record<string, unknown>;
-  status: JobScheduleStatus;
-  lastRun?: Date;
-  nextRun?: Date;
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-/**
- * Create job request body
- */
-interface CreateJobDto {
-  name: string;
-  type: string;
-  schedule: string;
-  payload: Record<string, unknown>;
-}
+export { JobScheduleStatus, JobRunStatus } from '../scheduler/scheduled-job.interface';
+export type { ScheduledJob, JobRun } from '../scheduler/scheduled-job.interface';
 
 /**
  * Jobs Controller
@@ -51,37 +22,15 @@ interface CreateJobDto {
  */
 @Controller('jobs')
 export class JobsController {
-  // In-memory job storage (replace with actual database/scheduler integration)
-  private jobs: Map<string, ScheduledJob> = new Map();
-
-  constructor() {
-    // Initialize with some sample data for demonstration
-    this.initializeSampleJobs();
-  }
+  constructor(private readonly schedulerService: SchedulerService) {}
 
   /**
    * POST /jobs
-   * Create a new scheduled job
+   * Create a new scheduled job; the payload must match the schema of its task type
    */
   @Post()
   async createJob(@Body() createJobDto: CreateJobDto): Promise<ScheduledJob> {
-    const jobId = (this.jobs.size + 1).toString();
-    
-    const newJob: ScheduledJob = {
-      id: jobId,
-      name: createJobDto.name,
-      type: createJobDto.type,
-      schedule: createJobDto.schedule,
-      payload: createJobDto.payload,
-      status: JobScheduleStatus.Active,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      nextRun: this.calculateNextRun(),
-    };
-
-    this.jobs.set(jobId, newJob);
-
-    return newJob;
+    return this.schedulerService.createJob(createJobDto);
   }
 
   /**
@@ -90,7 +39,7 @@ export class JobsController {
    */
   @Get()
   async getJobs(): Promise<ScheduledJob[]> {
-    return Array.from(this.jobs.values());
+    return this.schedulerService.getJobs();
   }
 
   /**
@@ -99,16 +48,19 @@ export class JobsController {
    */
   @Get(':id')
   async getJobById(@Param('id') id: string): Promise<ScheduledJob> {
-    const job = this.jobs.get(id);
-
-    if (!job) {
-      throw new HttpException(
-        `Job with ID ${id} not found`,
-        HttpStatus.NOT_FOUND,
-      );
-    }
+    return this.schedulerService.getJob(id);
+  }
 
-    return job;
+  /**
+   * GET /jobs/:id/runs
+   * Fetch the run history of a job, newest first
+   */
+  @Get(':id/runs')
+  async getJobRuns(
+    @Param('id') id: string,
+    @Query('limit', new DefaultValuePipe(100), ParseIntPipe) limit: number = 100,
+  ): Promise<JobRun[]> {
+    return this.schedulerService.getJobRuns(id, limit);
   }
 
   /**
@@ -117,59 +69,16 @@ export class JobsController {
    */
   @Post(':id/pause')
   async pauseJob(@Param('id') id: string): Promise<ScheduledJob> {
-    const job = this.jobs.get(id);
-
-    if (!job) {
-      throw new HttpException(
-        `Job with ID ${id} not found`,
-        HttpStatus.NOT_FOUND,
-      );
-    }
-
-    if (job.status === JobScheduleStatus.Paused) {
-      throw new BadRequestException('Job is already paused');
-    }
-
-    const updatedJob: ScheduledJob = {
-      ...job,
-      status: JobScheduleStatus.Paused,
-      updatedAt: new Date(),
-    };
-
-    this.jobs.set(id, updatedJob);
-
-    return updatedJob;
+    return this.schedulerService.pauseJob(id);
   }
 
   /**
    * POST /jobs/:id/resume
-   * Resume a paused job
+   * Resume a paused or failed job
    */
   @Post(':id/resume')
   async resumeJob(@Param('id') id: string): Promise<ScheduledJob> {
-    const job = this.jobs.get(id);
-
-    if (!job) {
-      throw new HttpException(
-        `Job with ID ${id} not found`,
-        HttpStatus.NOT_FOUND,
-      );
-    }
-
-    if (job.status !== JobScheduleStatus.Paused) {
-      throw new BadRequestException('Job is not paused');
-    }
-
-    const updatedJob: ScheduledJob = {
-      ...job,
-      status: JobScheduleStatus.Active,
-      updatedAt: new Date(),
-      nextRun: this.calculateNextRun(),
-    };
-
-    this.jobs.set(id, updatedJob);
-
-    return updatedJob;
+    return this.schedulerService.resumeJob(id);
   }
 
   /**
@@ -178,75 +87,8 @@ export class JobsController {
    */
   @Delete(':id')
   async deleteJob(@Param('id') id: string): Promise<{ message: string }> {
-    const job = this.jobs.get(id);
-
-    if (!job) {
-      throw new HttpException(
-        `Job with ID ${id} not found`,
-        HttpStatus.NOT_FOUND,
-      );
-    }
-
-    this.jobs.delete(id);
+    await this.schedulerService.deleteJob(id);
 
     return { message: `Job ${id} deleted successfully` };
   }
-
-  /**
-   * Helper method to calculate next run time based on schedule
-   * This is a simple implementation - in production, use a proper cron parser
-   */
-  private calculateNextRun(): Date {
-    // Simple implementation: default to 1 hour from now
-    const now = new Date();
-    now.setMinutes(now.getMinutes() + 60);
-    return now;
-  }
-
-  /**
-   * Initialize sample jobs for demonstration
-   */
-  private initializeSampleJobs(): void {
-    const sampleJobs: ScheduledJob[] = [
-      {
-        id: '1',
-        name: 'Daily Backup',
-        type: 'backup',
-        schedule: '0 0 * * *',
-        payload: { target: 'database' },
-        status: JobScheduleStatus.Active,
-        lastRun: new Date(Date.now() - 86400000),
-        nextRun: new Date(Date.now() + 86400000),
-        createdAt: new Date(Date.now() - 604800000),
-        updatedAt: new Date(Date.now() - 86400000),
-      },
-      {
-        id: '2',
-        name: 'Hourly Cleanup',
-        type: 'cleanup',
-        schedule: '0 * * * *',
-        payload: { target: 'temp-files' },
-        status: JobScheduleStatus.Active,
-        lastRun: new Date(Date.now() - 3600000),
-        nextRun: new Date(Date.now() + 1800000),
-        createdAt: new Date(Date.now() - 2592000000),
-        updatedAt: new Date(Date.now() - 3600000),
-      },
-      {
-        id: '3',
-        name: 'Weekly Report',
-        type: 'report',
-        schedule: '0 0 * * 1',
-        payload: { recipients: ['admin@example.com'] },
-        status: JobScheduleStatus.Paused,
-        lastRun: new Date(Date.now() - 604800000),
-        createdAt: new Date(Date.now() - 2592000000),
-        updatedAt: new Date(Date.now() - 86400000),
-      },
-    ];
-
-    sampleJobs.forEach((job) => {
-      this.jobs.set(job.id, job);
-    });
-  }
 }
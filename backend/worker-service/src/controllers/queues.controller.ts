@@ -0,0 +1,89 @@
+import { Controller, Get, Post, Put, Delete, Param, Body } from '@nestjs/common';
+import { TaskThrottleService, TaskTypeLimitsStatus } from '../processors/task-throttle.service';
+import { QueueService, QueueSummary } from '../services/queue.service';
+import { TaskTypeLimitsDto } from '../dto/queue.dto';
+
+/**
+ * Queues Controller
+ * Handles REST endpoints for pausing, resuming and draining named queues and for runtime
+ * throttling of task types
+ */
+@Controller('queues')
+export class QueuesController {
+  constructor(
+    private readonly queueService: QueueService,
+    private readonly throttle: TaskThrottleService,
+  ) {}
+
+  /**
+   * GET /queues
+   * List all named queues with their state and load
+   */
+  @Get()
+  async getQueues(): Promise<QueueSummary[]> {
+    return this.queueService.getQueues();
+  }
+
+  /**
+   * GET /queues/:name
+   * Get the state and load of a named queue
+   */
+  @Get(':name')
+  async getQueue(@Param('name') name: string): Promise<QueueSummary> {
+    return this.queueService.getQueue(name);
+  }
+
+  /**
+   * POST /queues/:name/pause
+   * Stop starting tasks from a queue; new tasks are still accepted
+   */
+  @Post(':name/pause')
+  async pauseQueue(@Param('name') name: string): Promise<QueueSummary> {
+    return this.queueService.pauseQueue(name);
+  }
+
+  /**
+   * POST /queues/:name/resume
+   * Return a paused or draining queue to normal operation
+   */
+  @Post(':name/resume')
+  async resumeQueue(@Param('name') name: string): Promise<QueueSummary> {
+    return this.queueService.resumeQueue(name);
+  }
+
+  /**
+   * POST /queues/:name/drain
+   * Stop accepting new tasks in a queue and finish the ones it holds
+   */
+  @Post(':name/drain')
+  async drainQueue(@Param('name') name: string): Promise<QueueSummary> {
+    return this.queueService.drainQueue(name);
+  }
+
+  /**
+   * GET /queues/:type/limits
+   * Get the concurrency cap and rate limit of a task type with its running and queued counts
+   */
+  @Get(':type/limits')
+  async getLimits(@Param('type') type: string): Promise<TaskTypeLimitsStatus> {
+    return this.throttle.getStatus(type);
+  }
+
+  /**
+   * PUT /queues/:type/limits
+   * Replace the limits of a task type; omitted fields are unlimited
+   */
+  @Put(':type/limits')
+  async setLimits(@Param('type') type: string, @Body() limits: TaskTypeLimitsDto): Promise<TaskTypeLimitsStatus> {
+    return this.throttle.setLimits(type, limits);
+  }
+
+  /**
+   * DELETE /queues/:type/limits
+   * Remove the runtime limits of a task type, restoring the configured ones
+   */
+  @Delete(':type/limits')
+  async resetLimits(@Param('type') type: string): Promise<TaskTypeLimitsStatus> {
+    return this.throttle.resetLimits(type);
+  }
+}
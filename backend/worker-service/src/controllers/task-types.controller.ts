@@ -0,0 +1,37 @@
+import { Controller, Get, Param, NotFoundException } from '@nestjs/common';
+import { TaskHandlerRegistry } from '../processors/task-handler.registry';
+import type { TaskTypeDescription } from '../processors/task-handler.registry';
+
+/**
+ * Task Types Controller
+ * Lists the task types this worker can execute with their payload and result schemas, so
+ * clients can build create-task forms
+ */
+@Controller('task-types')
+export class TaskTypesController {
+  constructor(private readonly registry: TaskHandlerRegistry) {}
+
+  /**
+   * GET /task-types
+   * List all task types that have a handler
+   */
+  @Get()
+  getTaskTypes(): TaskTypeDescription[] {
+    return this.registry.describeTypes();
+  }
+
+  /**
+   * GET /task-types/:type
+   * Get one task type with its schemas
+   */
+  @Get(':type')
+  getTaskType(@Param('type') type: string): TaskTypeDescription {
+    const description = this.registry.describeTypes().find((entry) => entry.type === type);
+
+    if (!description) {
+      throw new NotFoundException(`Task type ${type} not found`);
+    }
+
+    return description;
+  }
+}
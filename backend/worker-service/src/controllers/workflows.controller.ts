@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  Query,
+} from '@nestjs/common';
+import { WorkflowService } from '../workflows/workflow.service';
+import { Workflow, WorkflowStatus } from '../workflows/workflow.interface';
+import { CreateWorkflowDto } from '../dto/workflow.dto';
+
+export { WorkflowStatus } from '../workflows/workflow.interface';
+export type { Workflow, WorkflowNodeState, WorkflowProgress } from '../workflows/workflow.interface';
+
+/**
+ * Workflows Controller
+ * Handles REST endpoints for multi-step workflows (DAGs of tasks)
+ */
+@Controller('workflows')
+export class WorkflowsController {
+  constructor(private readonly workflowService: WorkflowService) {}
+
+  /**
+   * POST /workflows
+   * Create a workflow and queue its root nodes
+   */
+  @Post()
+  async createWorkflow(@Body() createWorkflowDto: CreateWorkflowDto): Promise<Workflow> {
+    return this.workflowService.createWorkflow(createWorkflowDto);
+  }
+
+  /**
+   * GET /workflows
+   * Fetch all workflows, optionally filtered by status
+   */
+  @Get()
+  async getWorkflows(@Query('status') status?: WorkflowStatus): Promise<Workflow[]> {
+    return this.workflowService.listWorkflows({ status });
+  }
+
+  /**
+   * GET /workflows/:id
+   * Fetch a workflow with the state of each node
+   */
+  @Get(':id')
+  async getWorkflowById(@Param('id') id: string): Promise<Workflow> {
+    return this.workflowService.getWorkflow(id);
+  }
+
+  /**
+   * POST /workflows/:id/cancel
+   * Cancel every unfinished node of a workflow
+   */
+  @Post(':id/cancel')
+  async cancelWorkflow(@Param('id') id: string): Promise<Workflow> {
+    return this.workflowService.cancelWorkflow(id);
+  }
+}
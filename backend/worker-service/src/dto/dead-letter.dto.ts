@@ -0,0 +1,25 @@
+import { IsOptional, IsArray, IsString, IsBoolean, IsNotEmpty } from 'class-validator';
+
+/**
+ * Selects dead-letter entries for replay or purge
+ */
+export class DeadLetterSelectionDto {
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  taskIds?: string[];
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  type?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  errorContains?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  all?: boolean;
+}
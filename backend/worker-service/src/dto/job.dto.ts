@@ -0,0 +1,35 @@
+import { IsString, IsNotEmpty, IsOptional, IsObject, IsIn } from 'class-validator';
+import { MisfirePolicy, OverlapPolicy } from '../scheduler/scheduled-job.interface';
+
+/**
+ * Create scheduled job request body
+ */
+export class CreateJobDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  type: string;
+
+  @IsString()
+  @IsNotEmpty()
+  schedule: string;
+
+  @IsOptional()
+  @IsObject()
+  payload?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @IsOptional()
+  @IsIn(Object.values(MisfirePolicy))
+  misfirePolicy?: MisfirePolicy;
+
+  @IsOptional()
+  @IsIn(Object.values(OverlapPolicy))
+  overlapPolicy?: OverlapPolicy;
+}
@@ -0,0 +1,31 @@
+import { IsInt, IsOptional, Min, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { RateLimit, TaskTypeLimits } from '../storage/task-store.interface';
+
+/**
+ * Token-bucket rate limit of a task type
+ */
+export class RateLimitDto implements RateLimit {
+  @IsInt()
+  @Min(1)
+  limit: number;
+
+  @IsInt()
+  @Min(1)
+  intervalMs: number;
+}
+
+/**
+ * Limits set at runtime for a task type. Omitted fields are unlimited.
+ */
+export class TaskTypeLimitsDto implements TaskTypeLimits {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxConcurrency?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RateLimitDto)
+  rateLimit?: RateLimitDto;
+}
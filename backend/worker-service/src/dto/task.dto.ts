@@ -0,0 +1,114 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsObject,
+  IsIn,
+  IsInt,
+  IsBoolean,
+  IsNumber,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { JobPriority, RetryPolicy } from '../../../common/src/types/common';
+import type { RetryStrategy } from '../../../common/src/types/common';
+import { QUEUE_NAME_PATTERN } from '../services/queue-routing';
+
+/**
+ * Priority names accepted in addition to the numeric JobPriority values
+ */
+export const PRIORITY_NAMES: Record<string, JobPriority> = {
+  low: JobPriority.Low,
+  normal: JobPriority.Normal,
+  high: JobPriority.High,
+  critical: JobPriority.Critical,
+};
+
+export const PRIORITY_VALUES = [
+  ...Object.values(PRIORITY_NAMES),
+  ...Object.keys(PRIORITY_NAMES),
+];
+
+/**
+ * Retry policy supplied when creating a task
+ */
+export class RetryPolicyDto implements RetryPolicy {
+  @IsIn(['fixed', 'linear', 'exponential'])
+  strategy: RetryStrategy;
+
+  @IsInt()
+  @Min(0)
+  initialDelayMs: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxDelayMs?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  multiplier?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  jitter?: number;
+}
+
+/**
+ * Create task request body
+ */
+export class CreateTaskDto {
+  @IsString()
+  @IsNotEmpty()
+  type: string;
+
+  @IsObject()
+  payload: Record<string, unknown>;
+
+  @IsOptional()
+  @IsIn(PRIORITY_VALUES)
+  priority?: JobPriority | string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  maxAttempts?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RetryPolicyDto)
+  retryPolicy?: RetryPolicyDto;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  timeoutMs?: number;
+
+  @IsOptional()
+  @IsString()
+  @Matches(QUEUE_NAME_PATTERN, { message: 'queue may only contain letters, digits, "_" and "-"' })
+  queue?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  idempotencyKey?: string;
+}
+
+/**
+ * Retry task request body
+ */
+export class RetryTaskDto {
+  @IsOptional()
+  @IsBoolean()
+  resetAttempts?: boolean;
+}
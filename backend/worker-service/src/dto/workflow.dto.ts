@@ -0,0 +1,89 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsObject,
+  IsIn,
+  IsInt,
+  IsArray,
+  ArrayNotEmpty,
+  Matches,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { JobPriority } from '../../../common/src/types/common';
+import type { WorkflowFailureMode } from '../storage/task-store.interface';
+import { PRIORITY_VALUES, RetryPolicyDto } from './task.dto';
+
+const FAILURE_MODES: WorkflowFailureMode[] = ['propagate', 'tolerate'];
+
+/**
+ * One node of a create workflow request
+ */
+export class WorkflowNodeDto {
+  @IsString()
+  @Matches(/^[\w-]+$/, { message: 'key may only contain letters, digits, "_" and "-"' })
+  key: string;
+
+  @IsString()
+  @IsNotEmpty()
+  type: string;
+
+  @IsOptional()
+  @IsObject()
+  payload?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  dependsOn?: string[];
+
+  @IsOptional()
+  @IsObject()
+  inputs?: Record<string, string>;
+
+  @IsOptional()
+  @IsIn(FAILURE_MODES)
+  failureMode?: WorkflowFailureMode;
+
+  @IsOptional()
+  @IsIn(PRIORITY_VALUES)
+  priority?: JobPriority | string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  maxAttempts?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RetryPolicyDto)
+  retryPolicy?: RetryPolicyDto;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  timeoutMs?: number;
+}
+
+/**
+ * Create workflow request body
+ */
+export class CreateWorkflowDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsIn(FAILURE_MODES)
+  failureMode?: WorkflowFailureMode;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => WorkflowNodeDto)
+  nodes: WorkflowNodeDto[];
+}
@@ -0,0 +1,77 @@
+/**
+ * Subject and bodies of a templated email. `{{name}}` and `{{nested.name}}` are replaced with
+ * the request's variables; values are HTML-escaped in `html`.
+ */
+export interface EmailTemplate {
+  subject: string;
+  text?: string;
+  html?: string;
+}
+
+/**
+ * Built-in templates, selected by the `template` field of an email task
+ */
+export const EMAIL_TEMPLATES: Record<string, EmailTemplate> = {
+  'task-report': {
+    subject: 'Task report: {{totalTasks}} task(s) in the last {{periodDays}} day(s)',
+    text: [
+      'Task report for the last {{periodDays}} day(s), generated {{generatedAt}}',
+      '',
+      'Tasks created since {{since}}: {{totalTasks}} ({{completed}} completed, {{failed}} failed)',
+      '',
+      'By type:',
+      '{{summary}}',
+      '',
+      'Currently queued: {{queued}}',
+      '',
+      'The full report is attached.',
+    ].join('\n'),
+    html: [
+      '<h2>Task report for the last {{periodDays}} day(s)</h2>',
+      '<p>Generated {{generatedAt}}</p>',
+      '<p>Tasks created since {{since}}: <strong>{{totalTasks}}</strong>',
+      '({{completed}} completed, {{failed}} failed)</p>',
+      '<h3>By type</h3>',
+      '<pre>{{summary}}</pre>',
+      '<p>Currently queued: {{queued}}</p>',
+      '<p>The full report is attached.</p>',
+    ].join('\n'),
+  },
+};
+
+/**
+ * Replace the `{{variables}}` of a template. Missing variables render as an empty string,
+ * dates as ISO strings and objects as JSON.
+ * @param template - The template text
+ * @param variables - The values to substitute
+ * @param escape - Applied to each substituted value, e.g. escapeHtml
+ */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, unknown>,
+  escape: (value: string) => string = (value) => value,
+): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, name: string) => {
+    const value = name
+      .split('.')
+      .reduce<unknown>((scope, key) => (scope && typeof scope === 'object' ? (scope as Record<string, unknown>)[key] : undefined), variables);
+
+    if (value === undefined || value === null) {
+      return '';
+    }
+    if (value instanceof Date) {
+      return escape(value.toISOString());
+    }
+
+    return escape(typeof value === 'object' ? JSON.stringify(value) : String(value));
+  });
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,55 @@
+import { Logger } from '@nestjs/common';
+import * as os from 'os';
+import * as path from 'path';
+import { EmailTransport } from './email-transport.interface';
+import { SmtpEmailTransport } from './smtp-email.transport';
+import { FileEmailTransport } from './file-email.transport';
+import { InMemoryEmailTransport } from './in-memory-email.transport';
+
+const logger = new Logger('EmailTransportFactory');
+
+/**
+ * Select the email transport from WORKER_EMAIL_TRANSPORT (`smtp`, `file` or `memory`).
+ * Defaults to SMTP when WORKER_SMTP_HOST is set; otherwise messages are written to
+ * WORKER_EMAIL_DIR (default: ./emails) instead of being sent.
+ */
+export function createEmailTransport(): EmailTransport {
+  const transport = process.env.WORKER_EMAIL_TRANSPORT || (process.env.WORKER_SMTP_HOST ? 'smtp' : 'file');
+
+  switch (transport) {
+    case 'smtp': {
+      const host = process.env.WORKER_SMTP_HOST;
+      const secure = process.env.WORKER_SMTP_SECURE === 'true';
+
+      if (!host) {
+        throw new Error('WORKER_SMTP_HOST is required for the smtp email transport');
+      }
+
+      logger.log(`Sending email through SMTP server ${host}`);
+      return new SmtpEmailTransport({
+        host,
+        port: parseInt(process.env.WORKER_SMTP_PORT || (secure ? '465' : '587'), 10),
+        secure,
+        requireTls: process.env.WORKER_SMTP_REQUIRE_TLS === 'true',
+        user: process.env.WORKER_SMTP_USER,
+        password: process.env.WORKER_SMTP_PASSWORD,
+        clientName: process.env.WORKER_SMTP_CLIENT_NAME || os.hostname(),
+        timeoutMs: parseInt(process.env.WORKER_SMTP_TIMEOUT_MS || '30000', 10),
+      });
+    }
+
+    case 'file': {
+      const directory = process.env.WORKER_EMAIL_DIR || path.join(process.cwd(), 'emails');
+
+      logger.warn(`WORKER_SMTP_HOST not configured. Emails will be written to ${directory} instead of being sent.`);
+      return new FileEmailTransport(directory);
+    }
+
+    case 'memory':
+      logger.warn('Emails are kept in memory and not sent.');
+      return new InMemoryEmailTransport();
+
+    default:
+      throw new Error(`Unsupported WORKER_EMAIL_TRANSPORT: ${transport}`);
+  }
+}
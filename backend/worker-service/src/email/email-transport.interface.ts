@@ -0,0 +1,67 @@
+/**
+ * Injection token for the configured EmailTransport
+ */
+export const EMAIL_TRANSPORT = 'EMAIL_TRANSPORT';
+
+/**
+ * File attached to an email
+ */
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  /** How `content` is encoded (default: utf8) */
+  encoding?: 'utf8' | 'base64';
+  /** Default: application/octet-stream */
+  contentType?: string;
+}
+
+/**
+ * A rendered email, ready to be delivered
+ */
+export interface EmailMessage {
+  /** Message-ID without angle brackets */
+  messageId: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  replyTo?: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  attachments: EmailAttachment[];
+}
+
+/**
+ * Outcome of a delivery for one recipient:
+ * - `delivered`: accepted by the mail server
+ * - `bounced`: rejected permanently (5xx reply or invalid address)
+ * - `deferred`: rejected temporarily (4xx reply); delivery should be retried later
+ */
+export type RecipientStatus = 'delivered' | 'bounced' | 'deferred';
+
+export interface RecipientDelivery {
+  recipient: string;
+  status: RecipientStatus;
+  /** Reply of the mail server, e.g. `550 5.1.1 Mailbox unavailable` */
+  response?: string;
+}
+
+/**
+ * Email Transport
+ * Delivers rendered messages. Implementations report the outcome per recipient and only throw
+ * when nothing could be attempted (e.g. the mail server is unreachable).
+ */
+export interface EmailTransport {
+  /** Name reported in delivery results, e.g. `smtp` */
+  readonly name: string;
+
+  /**
+   * Deliver a message
+   * @param message - The message; its To and Cc headers list every recipient
+   * @param recipients - The envelope recipients to deliver to on this attempt
+   * @param signal - Aborts the delivery
+   * @returns One delivery per recipient, in the order given
+   */
+  send(message: EmailMessage, recipients: string[], signal?: AbortSignal): Promise<RecipientDelivery[]>;
+}
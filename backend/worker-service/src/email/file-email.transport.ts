@@ -0,0 +1,30 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { EmailMessage, EmailTransport, RecipientDelivery } from './email-transport.interface';
+import { buildMimeMessage } from './mime-message';
+
+/**
+ * File Email Transport
+ * Writes each message as an `.eml` file instead of sending it, for development and tests.
+ * Every recipient counts as delivered.
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: EmailMessage, recipients: string[]): Promise<RecipientDelivery[]> {
+    const now = new Date();
+    const file = path.join(
+      this.directory,
+      `${now.toISOString().replace(/[:.]/g, '-')}-${message.messageId.replace(/[^\w.-]/g, '_')}.eml`,
+    );
+    // The envelope isn't part of the message, so Bcc recipients are recorded in a header
+    const envelope = `X-Envelope-To: ${recipients.join(', ')}\r\n`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(file, envelope + buildMimeMessage(message, now), 'utf8');
+
+    return recipients.map((recipient) => ({ recipient, status: 'delivered', response: `Written to ${file}` }));
+  }
+}
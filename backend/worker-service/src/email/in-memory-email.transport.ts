@@ -0,0 +1,50 @@
+import { EmailMessage, EmailTransport, RecipientDelivery, RecipientStatus } from './email-transport.interface';
+import { buildMimeMessage } from './mime-message';
+
+export interface SentEmail {
+  message: EmailMessage;
+  /** Recipients the message was delivered to */
+  recipients: string[];
+  /** The message source */
+  source: string;
+}
+
+/**
+ * In-Memory Email Transport
+ * Keeps sent messages in memory, for tests. Recipients deliver successfully unless they were
+ * set up to bounce or be deferred.
+ */
+export class InMemoryEmailTransport implements EmailTransport {
+  readonly name = 'memory';
+  readonly sent: SentEmail[] = [];
+  private outcomes: Map<string, { status: RecipientStatus; response: string }> = new Map();
+
+  /**
+   * Set how deliveries to a recipient turn out
+   * @param recipient - The recipient address
+   * @param status - The outcome of later deliveries
+   * @param response - The simulated server reply
+   */
+  setOutcome(recipient: string, status: RecipientStatus, response = status === 'delivered' ? '250 OK' : '550 Rejected'): void {
+    this.outcomes.set(recipient.toLowerCase(), { status, response });
+  }
+
+  async send(message: EmailMessage, recipients: string[]): Promise<RecipientDelivery[]> {
+    const deliveries = recipients.map((recipient): RecipientDelivery => {
+      const outcome = this.outcomes.get(recipient.toLowerCase());
+
+      return { recipient, status: outcome?.status ?? 'delivered', response: outcome?.response ?? '250 OK' };
+    });
+    const delivered = deliveries.filter((delivery) => delivery.status === 'delivered');
+
+    if (delivered.length > 0) {
+      this.sent.push({
+        message,
+        recipients: delivered.map((delivery) => delivery.recipient),
+        source: buildMimeMessage(message),
+      });
+    }
+
+    return deliveries;
+  }
+}
@@ -0,0 +1,109 @@
+import { randomBytes } from 'crypto';
+import { EmailAttachment, EmailMessage } from './email-transport.interface';
+
+interface MimePart {
+  headers: string[];
+  content: string;
+}
+
+/**
+ * Build the RFC 5322 source of a message with base64-encoded parts. Bcc recipients are left out.
+ * @param message - The message
+ * @param date - Value of the Date header
+ */
+export function buildMimeMessage(message: EmailMessage, date: Date = new Date()): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    ...(message.cc.length > 0 ? [`Cc: ${message.cc.join(', ')}`] : []),
+    ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${message.messageId}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  const alternatives: MimePart[] = [];
+  if (message.text !== undefined || message.html === undefined) {
+    alternatives.push(textPart('text/plain', message.text ?? ''));
+  }
+  if (message.html !== undefined) {
+    alternatives.push(textPart('text/html', message.html));
+  }
+
+  let body = alternatives.length === 1 ? alternatives[0] : multipart('alternative', alternatives);
+
+  if (message.attachments.length > 0) {
+    body = multipart('mixed', [body, ...message.attachments.map(attachmentPart)]);
+  }
+
+  return [...headers, ...body.headers, '', body.content].join('\r\n');
+}
+
+/**
+ * Bare address of a mailbox such as `Reports <reports@example.com>`
+ */
+export function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]*)>/);
+
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Whether a mailbox has a plausible address and no characters that could inject headers
+ */
+export function isValidMailbox(mailbox: string): boolean {
+  return !/[\r\n]/.test(mailbox) && /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(addressOf(mailbox));
+}
+
+/**
+ * Size in bytes of an attachment's decoded content
+ */
+export function attachmentSize(attachment: EmailAttachment): number {
+  return Buffer.from(attachment.content, attachment.encoding === 'base64' ? 'base64' : 'utf8').length;
+}
+
+function encodeHeader(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, ' ');
+
+  return /^[\x20-\x7e]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+}
+
+function textPart(contentType: string, content: string): MimePart {
+  return {
+    headers: [`Content-Type: ${contentType}; charset=utf-8`, 'Content-Transfer-Encoding: base64'],
+    content: wrapBase64(Buffer.from(content, 'utf8')),
+  };
+}
+
+function attachmentPart(attachment: EmailAttachment): MimePart {
+  const filename = encodeHeader(attachment.filename.replace(/["\\]/g, '_'));
+  const content = Buffer.from(attachment.content, attachment.encoding === 'base64' ? 'base64' : 'utf8');
+
+  return {
+    headers: [
+      `Content-Type: ${attachment.contentType || 'application/octet-stream'}; name="${filename}"`,
+      `Content-Disposition: attachment; filename="${filename}"`,
+      'Content-Transfer-Encoding: base64',
+    ],
+    content: wrapBase64(content),
+  };
+}
+
+function multipart(subtype: string, parts: MimePart[]): MimePart {
+  const boundary = `=_Part_${randomBytes(12).toString('hex')}`;
+  const content = parts
+    .map((part) => [`--${boundary}`, ...part.headers, '', part.content].join('\r\n'))
+    .join('\r\n');
+
+  return {
+    headers: [`Content-Type: multipart/${subtype}; boundary="${boundary}"`],
+    content: `${content}\r\n--${boundary}--`,
+  };
+}
+
+function wrapBase64(content: Buffer): string {
+  return (content.toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
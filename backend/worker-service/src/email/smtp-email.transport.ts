@@ -0,0 +1,261 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import { EmailMessage, EmailTransport, RecipientDelivery } from './email-transport.interface';
+import { addressOf, buildMimeMessage } from './mime-message';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Use TLS from the start (usually port 465); otherwise STARTTLS is used when offered */
+  secure: boolean;
+  /** Refuse to send over a connection that could not be upgraded to TLS */
+  requireTls: boolean;
+  user?: string;
+  password?: string;
+  /** Name sent in EHLO */
+  clientName: string;
+  /** Idle time after which the connection is dropped */
+  timeoutMs: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+  /** Text of each reply line without the code, e.g. the EHLO extensions */
+  lines: string[];
+}
+
+/**
+ * SMTP Email Transport
+ * Delivers each message over its own SMTP connection (RFC 5321) with STARTTLS and AUTH PLAIN.
+ * Each RCPT TO reply decides whether a recipient is accepted, bounced (5xx) or deferred (4xx);
+ * accepted recipients take the outcome of the DATA reply.
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(message: EmailMessage, recipients: string[], signal?: AbortSignal): Promise<RecipientDelivery[]> {
+    const connection = await SmtpConnection.open(this.options, signal);
+
+    try {
+      expectReply(await connection.read(), 220, 'Greeting');
+
+      let extensions = await this.hello(connection);
+
+      if (!this.options.secure && extensions.includes('STARTTLS')) {
+        expectReply(await connection.command('STARTTLS'), 220, 'STARTTLS');
+        await connection.upgrade(this.options.host);
+        extensions = await this.hello(connection);
+      } else if (!this.options.secure && this.options.requireTls) {
+        throw new Error(`SMTP server ${this.options.host} does not offer STARTTLS`);
+      }
+
+      if (this.options.user) {
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.password ?? ''}`).toString('base64');
+        expectReply(await connection.command(`AUTH PLAIN ${credentials}`), 235, 'Authentication');
+      }
+
+      expectReply(await connection.command(`MAIL FROM:<${addressOf(message.from)}>`), 250, 'MAIL FROM');
+
+      const deliveries = new Map<string, RecipientDelivery>();
+      const accepted: string[] = [];
+
+      for (const recipient of recipients) {
+        const reply = await connection.command(`RCPT TO:<${addressOf(recipient)}>`);
+
+        if (reply.code >= 200 && reply.code < 300) {
+          accepted.push(recipient);
+        } else {
+          deliveries.set(recipient, { recipient, status: replyStatus(reply), response: reply.text });
+        }
+      }
+
+      if (accepted.length > 0) {
+        expectReply(await connection.command('DATA'), 354, 'DATA');
+
+        // Lines starting with a dot are escaped so they don't end the message early
+        const data = buildMimeMessage(message).replace(/^\./gm, '..');
+        const reply = await connection.command(`${data}\r\n.`);
+
+        for (const recipient of accepted) {
+          deliveries.set(recipient, { recipient, status: replyStatus(reply), response: reply.text });
+        }
+      }
+
+      try {
+        await connection.command('QUIT');
+      } catch {
+        // The outcome is settled at this point; a failed QUIT doesn't change it
+      }
+
+      return recipients.map((recipient) => deliveries.get(recipient) as RecipientDelivery);
+    } finally {
+      connection.close();
+    }
+  }
+
+  /**
+   * Greet the server with EHLO, falling back to HELO
+   * @returns The extensions the server advertised
+   */
+  private async hello(connection: SmtpConnection): Promise<string[]> {
+    const reply = await connection.command(`EHLO ${this.options.clientName}`);
+
+    if (reply.code === 250) {
+      return reply.lines.slice(1).map((line) => line.split(' ')[0].toUpperCase());
+    }
+
+    expectReply(await connection.command(`HELO ${this.options.clientName}`), 250, 'HELO');
+    return [];
+  }
+}
+
+/**
+ * One SMTP connection that sends a command at a time and reads its (possibly multi-line) reply
+ */
+class SmtpConnection {
+  private buffer = '';
+  private pendingLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiters: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  private error?: Error;
+  private readonly onAbort = () => this.socket.destroy(new Error('SMTP delivery aborted'));
+
+  private constructor(
+    private socket: net.Socket,
+    private readonly timeoutMs: number,
+    private readonly signal?: AbortSignal,
+  ) {
+    this.attach(socket);
+    signal?.addEventListener('abort', this.onAbort);
+  }
+
+  static async open(options: SmtpOptions, signal?: AbortSignal): Promise<SmtpConnection> {
+    signal?.throwIfAborted();
+
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+    const connection = new SmtpConnection(socket, options.timeoutMs, signal);
+
+    try {
+      await connection.connected(options.secure ? 'secureConnect' : 'connect');
+    } catch (error) {
+      connection.close();
+      throw error;
+    }
+
+    return connection;
+  }
+
+  /**
+   * Read the next reply from the server
+   */
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  /**
+   * Send a command and read its reply
+   */
+  command(line: string): Promise<SmtpReply> {
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+
+    this.socket.write(`${line}\r\n`);
+    return this.read();
+  }
+
+  /**
+   * Switch the connection to TLS after a successful STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners();
+    this.socket = tls.connect({ socket: this.socket, servername: host });
+    this.attach(this.socket);
+
+    await this.connected('secureConnect');
+  }
+
+  close(): void {
+    this.signal?.removeEventListener('abort', this.onAbort);
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(new Error(`SMTP connection timed out after ${this.timeoutMs}ms`)),
+    );
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private connected(event: 'connect' | 'secureConnect'): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.once(event, () => resolve());
+      this.socket.once('error', reject);
+      this.socket.once('close', () => reject(this.error ?? new Error('SMTP connection closed')));
+    });
+  }
+
+  private receive(data: string): void {
+    this.buffer += data;
+
+    let end: number;
+    while ((end = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(end + 1);
+      this.pendingLines.push(line);
+
+      // `250-...` continues a reply, `250 ...` ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const code = line.slice(0, 3);
+        const lines = this.pendingLines.map((pending) => pending.slice(4));
+        const reply: SmtpReply = { code: parseInt(code, 10), text: `${code} ${lines.join(' ')}`.trim(), lines };
+        this.pendingLines = [];
+
+        const waiter = this.waiters.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.error = this.error ?? error;
+
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(this.error);
+    }
+  }
+}
+
+function expectReply(reply: SmtpReply, code: number, step: string): void {
+  if (reply.code !== code) {
+    throw new Error(`SMTP ${step} failed: ${reply.text}`);
+  }
+}
+
+function replyStatus(reply: SmtpReply): RecipientDelivery['status'] {
+  if (reply.code >= 200 && reply.code < 300) {
+    return 'delivered';
+  }
+
+  return reply.code >= 500 ? 'bounced' : 'deferred';
+}
@@ -0,0 +1,185 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Job, RetryPolicy } from '../../../common/src/types/common';
+import { TaskHandler, TaskExecutionContext, TaskTypeSchema } from '../processors/task-handler.interface';
+import { JsonSchema } from '../processors/json-schema';
+
+/**
+ * Largest dataset sent per insights request. The AI service hands bigger datasets
+ * back to the worker asynchronously, so chunks must stay at or below this size.
+ */
+const MAX_INSIGHTS_CHUNK = 1000;
+
+interface InsightsDataset {
+  type: string;
+  data: unknown[];
+}
+
+const INSIGHT_TYPE: JsonSchema = {
+  type: 'string',
+  title: 'Insight type',
+  minLength: 1,
+  examples: ['performance', 'usage', 'trends', 'anomalies', 'predictions'],
+};
+
+const AI_SCHEMAS: Record<string, TaskTypeSchema> = {
+  ai_chat: {
+    description: 'Answer a chat message with the AI service',
+    payload: {
+      type: 'object',
+      required: ['message'],
+      properties: {
+        message: { type: 'string', title: 'Message', minLength: 1, maxLength: 5000 },
+        conversationId: { type: 'string' },
+        context: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  },
+  ai_insights: {
+    description: 'Generate insights for a dataset with the AI service',
+    payload: {
+      type: 'object',
+      required: ['insightType', 'data'],
+      properties: {
+        insightType: INSIGHT_TYPE,
+        data: { type: 'array', title: 'Data' },
+      },
+    },
+    result: { type: 'array', items: { type: 'object' } },
+  },
+  ai_bulk_insights: {
+    description: 'Generate insights for several datasets with the AI service',
+    payload: {
+      type: 'object',
+      required: ['datasets'],
+      properties: {
+        datasets: {
+          type: 'array',
+          title: 'Datasets',
+          items: {
+            type: 'object',
+            required: ['type', 'data'],
+            properties: { type: INSIGHT_TYPE, data: { type: 'array' } },
+          },
+        },
+      },
+    },
+    result: {
+      type: 'array',
+      items: { type: 'object', properties: { type: { type: 'string' }, insights: { type: 'array' } } },
+    },
+  },
+};
+
+/**
+ * AI Processing Job
+ * Handles the jobs submitted by the AI service's WorkerClientService
+ * (`ai_chat`, `ai_insights`, `ai_bulk_insights`) by calling back into the AI service synchronously.
+ */
+@Injectable()
+export class AIProcessingJob implements TaskHandler {
+  readonly types = ['ai_chat', 'ai_insights', 'ai_bulk_insights'];
+  readonly schemas = AI_SCHEMAS;
+  // OpenAI rate limits clear slowly, so back off further than the default
+  readonly retryPolicy: RetryPolicy = {
+    strategy: 'exponential',
+    initialDelayMs: 5000,
+    maxDelayMs: 2 * 60 * 1000,
+    jitter: 0.3,
+  };
+  private readonly logger = new Logger(AIProcessingJob.name);
+  private readonly aiServiceUrl: string;
+  private readonly apiKey: string;
+
+  constructor() {
+    this.aiServiceUrl = process.env.AI_SERVICE_URL || 'http://ai-service:5000';
+    this.apiKey = process.env.AI_SERVICE_API_KEY || '';
+  }
+
+  async handle(task: Job, context: TaskExecutionContext): Promise<unknown> {
+    switch (task.type) {
+      case 'ai_chat':
+        return this.post('/ai/chat', task.payload, context.signal);
+
+      case 'ai_insights': {
+        const { insightType, data } = task.payload as { insightType: string; data: unknown[] };
+        // A retry picks up after the last chunk checkpointed by the previous attempt
+        const completed = Array.isArray(task.partialResult) ? task.partialResult : [];
+
+        return this.generateInsights({ type: insightType, data }, context, completed, async (results, processed) => {
+          await context.checkpoint(results);
+          await context.reportProgress({
+            percent: (processed / data.length) * 100,
+            step: insightType,
+            message: `${processed} of ${data.length} records`,
+          });
+        });
+      }
+
+      case 'ai_bulk_insights': {
+        const { datasets = [] } = task.payload as { datasets?: InsightsDataset[] };
+        const results = Array.isArray(task.partialResult) ? [...task.partialResult] : [];
+
+        for (const dataset of datasets.slice(results.length)) {
+          await context.reportProgress({
+            percent: (results.length / datasets.length) * 100,
+            step: dataset.type,
+            message: `Dataset ${results.length + 1} of ${datasets.length}`,
+          });
+          results.push({ type: dataset.type, insights: await this.generateInsights(dataset, context) });
+          await context.checkpoint(results);
+        }
+        return results;
+      }
+
+      default:
+        throw new Error(`Unsupported AI task type: ${task.type}`);
+    }
+  }
+
+  /**
+   * Generate insights chunk by chunk, skipping the chunks already in `completed`
+   */
+  private async generateInsights(
+    dataset: InsightsDataset,
+    context: TaskExecutionContext,
+    completed: unknown[] = [],
+    onChunk?: (results: unknown[], processed: number) => Promise<void>,
+  ): Promise<unknown[]> {
+    if (!Array.isArray(dataset.data)) {
+      throw new Error('AI insights payload requires a "data" array');
+    }
+
+    const results: unknown[] = [...completed];
+
+    for (let offset = completed.length * MAX_INSIGHTS_CHUNK; offset < dataset.data.length; offset += MAX_INSIGHTS_CHUNK) {
+      const chunk = dataset.data.slice(offset, offset + MAX_INSIGHTS_CHUNK);
+      results.push(
+        await this.post('/ai/insights', { insightType: dataset.type, data: chunk, async: false }, context.signal),
+      );
+      await context.log('debug', `Generated ${dataset.type} insights for records ${offset}-${offset + chunk.length}`);
+      await onChunk?.(results, offset + chunk.length);
+    }
+
+    return results;
+  }
+
+  private async post(endpoint: string, body: unknown, signal?: AbortSignal): Promise<unknown> {
+    const response = await fetch(`${this.aiServiceUrl}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': this.apiKey,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      this.logger.error(`AI service request ${endpoint} failed with status ${response.status}`);
+      throw new Error(error.message || `AI service request failed with status ${response.status}`);
+    }
+
+    return response.json();
+  }
+}
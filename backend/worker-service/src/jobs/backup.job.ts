@@ -0,0 +1,111 @@
+import { Injectable } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Pool } from 'pg';
+import { Job } from '../../../common/src/types/common';
+import { QueueService } from '../services/queue.service';
+import { TaskHandler, TaskExecutionContext, TaskTypeSchema } from '../processors/task-handler.interface';
+
+const BACKUP_SCHEMA: TaskTypeSchema = {
+  description: 'Write a JSON snapshot of the tasks or the database',
+  payload: {
+    type: 'object',
+    properties: {
+      target: { type: 'string', title: 'Target', enum: ['tasks', 'database'], default: 'tasks' },
+      tables: { type: 'array', title: 'Tables', description: 'Default: all', items: { type: 'string', minLength: 1 } },
+    },
+  },
+  result: {
+    type: 'object',
+    properties: {
+      target: { type: 'string' },
+      file: { type: 'string' },
+      bytes: { type: 'integer' },
+      rowCounts: { type: 'object', additionalProperties: { type: 'integer' } },
+    },
+  },
+};
+
+/**
+ * Backup Job
+ * Handles `backup` tasks by writing a JSON snapshot to WORKER_BACKUP_DIR (default: ./backups).
+ *
+ * Targets:
+ * - `tasks`: every task stored in the queue
+ * - `database`: rows of `tables` (default: all tables in the public schema) from DATABASE_URL
+ */
+@Injectable()
+export class BackupJob implements TaskHandler {
+  readonly types = ['backup'];
+  readonly schemas = { backup: BACKUP_SCHEMA };
+
+  constructor(private readonly queueService: QueueService) {}
+
+  async handle(task: Job, context: TaskExecutionContext): Promise<unknown> {
+    const { target = 'tasks', tables } = task.payload as { target?: string; tables?: string[] };
+
+    let snapshot: Record<string, unknown[]>;
+
+    switch (target) {
+      case 'tasks':
+        snapshot = { tasks: await this.queueService.getAllTasks() };
+        break;
+      case 'database':
+        snapshot = await this.snapshotDatabase(tables, context.signal);
+        break;
+      default:
+        throw new Error(`Unsupported backup target: ${target}`);
+    }
+
+    const backupDir = process.env.WORKER_BACKUP_DIR || path.join(process.cwd(), 'backups');
+    const file = path.join(backupDir, `${target}-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+    const content = JSON.stringify(snapshot);
+
+    await fs.mkdir(backupDir, { recursive: true });
+    await fs.writeFile(file, content, 'utf8');
+
+    const rowCounts = Object.fromEntries(
+      Object.entries(snapshot).map(([name, rows]) => [name, rows.length]),
+    );
+
+    await context.log('info', `Backup of ${target} written to ${file}`, { rowCounts });
+
+    return {
+      target,
+      file,
+      bytes: Buffer.byteLength(content),
+      rowCounts,
+    };
+  }
+
+  private async snapshotDatabase(tables: string[] | undefined, signal: AbortSignal): Promise<Record<string, unknown[]>> {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not configured');
+    }
+
+    const pool = new Pool({ connectionString: process.env.DATABASE_URL, max: 1 });
+
+    try {
+      const tableNames =
+        tables && tables.length > 0
+          ? tables
+          : (
+              await pool.query<{ table_name: string }>(
+                `SELECT table_name FROM information_schema.tables
+                 WHERE table_schema = 'public' AND table_type = 'BASE TABLE'`,
+              )
+            ).rows.map((row) => row.table_name);
+
+      const snapshot: Record<string, unknown[]> = {};
+      for (const table of tableNames) {
+        signal.throwIfAborted();
+        const escaped = table.replace(/"/g, '""');
+        snapshot[table] = (await pool.query(`SELECT * FROM "${escaped}"`)).rows;
+      }
+
+      return snapshot;
+    } finally {
+      await pool.end();
+    }
+  }
+}
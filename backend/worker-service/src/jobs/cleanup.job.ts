@@ -0,0 +1,343 @@
+import { Injectable } from '@nestjs/common';
+import { Pool } from 'pg';
+import { setTimeout as sleep } from 'timers/promises';
+import { Job } from '../../../common/src/types/common';
+import { QueueService } from '../services/queue.service';
+import { TaskHandler, TaskExecutionContext, TaskTypeSchema } from '../processors/task-handler.interface';
+import {
+  DEFAULT_RETENTION_POLICIES,
+  RETAINED_TASK_STATUSES,
+  RetentionPolicy,
+  parseRetentionPolicies,
+} from './retention-policies';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CleanupPayload {
+  /** Data classes to clean (default: all); `target` selects a single one */
+  targets?: string[];
+  target?: string;
+  /** Overrides the retention of every selected target */
+  olderThanDays?: number;
+  /** Report what would be deleted without deleting anything */
+  dryRun?: boolean;
+  /** Records deleted per statement (default: WORKER_CLEANUP_BATCH_SIZE) */
+  batchSize?: number;
+}
+
+const TARGETS = DEFAULT_RETENTION_POLICIES.map((policy) => policy.target);
+
+const CLEANUP_SCHEMA: TaskTypeSchema = {
+  description: 'Delete tasks, logs and stored records past their retention',
+  payload: {
+    type: 'object',
+    properties: {
+      targets: { type: 'array', title: 'Targets', description: 'Default: all', items: { type: 'string', enum: TARGETS } },
+      target: { type: 'string', enum: TARGETS },
+      olderThanDays: { type: 'integer', title: 'Older than (days)', minimum: 0 },
+      dryRun: { type: 'boolean', title: 'Dry run', default: false },
+      batchSize: { type: 'integer', title: 'Batch size', minimum: 1 },
+    },
+  },
+  result: {
+    type: 'object',
+    properties: {
+      dryRun: { type: 'boolean' },
+      matched: { type: 'integer' },
+      deleted: { type: 'integer' },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            target: { type: 'string' },
+            olderThanDays: { type: 'integer' },
+            cutoff: { type: 'string', format: 'date-time' },
+            matched: { type: 'integer' },
+            deleted: { type: 'integer' },
+            batches: { type: 'integer' },
+            skipped: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Outcome of one retention policy
+ */
+export interface CleanupTargetResult {
+  target: string;
+  olderThanDays: number;
+  cutoff?: Date;
+  /** Records past their retention */
+  matched: number;
+  /** Records deleted; always 0 in a dry run */
+  deleted: number;
+  batches: number;
+  /** Why the target was not cleaned */
+  skipped?: string;
+}
+
+/**
+ * Cleanup Job
+ * Handles `cleanup` tasks by applying the retention policies (see retention-policies.ts):
+ * finished tasks, task log entries, and the `chat_messages`, `dashboard_insights` and `audit_logs`
+ * tables in DATABASE_URL. Records are deleted in batches with a pause in between so no statement
+ * holds its locks for long. Finished targets are checkpointed and skipped on retry.
+ *
+ * Configuration:
+ * - WORKER_RETENTION_DAYS: JSON map of target to days kept, e.g. `{"audit_logs":730}` (`0` keeps forever)
+ * - WORKER_CLEANUP_BATCH_SIZE: records deleted per batch (default: 1000)
+ * - WORKER_CLEANUP_BATCH_DELAY_MS: pause between batches (default: 100)
+ */
+@Injectable()
+export class CleanupJob implements TaskHandler {
+  readonly types = ['cleanup'];
+  readonly schemas = { cleanup: CLEANUP_SCHEMA };
+
+  private readonly policies: RetentionPolicy[];
+  private readonly batchSize: number;
+  private readonly batchDelayMs: number;
+
+  constructor(private readonly queueService: QueueService) {
+    this.policies = parseRetentionPolicies(process.env.WORKER_RETENTION_DAYS);
+    this.batchSize = parseInt(process.env.WORKER_CLEANUP_BATCH_SIZE || '1000', 10);
+    this.batchDelayMs = parseInt(process.env.WORKER_CLEANUP_BATCH_DELAY_MS || '100', 10);
+  }
+
+  async handle(task: Job, context: TaskExecutionContext): Promise<unknown> {
+    const payload = task.payload as CleanupPayload;
+    const dryRun = payload.dryRun === true;
+    const batchSize = payload.batchSize ?? this.batchSize;
+    const policies = this.selectPolicies(payload);
+
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new Error(`Invalid cleanup batch size: ${batchSize}`);
+    }
+
+    const results = Array.isArray(task.partialResult) ? [...(task.partialResult as CleanupTargetResult[])] : [];
+    // Tasks a dry run would delete, so their logs aren't counted again
+    const expiredTaskIds = new Set<string>();
+    let pool: Pool | undefined;
+
+    try {
+      for (const [index, policy] of policies.entries()) {
+        if (results.some((result) => result.target === policy.target)) {
+          continue;
+        }
+
+        context.signal.throwIfAborted();
+        await context.reportProgress({
+          percent: (index / policies.length) * 100,
+          step: policy.target,
+          message: dryRun ? 'Counting expired records' : 'Deleting expired records',
+        });
+
+        let result: CleanupTargetResult;
+
+        if (policy.olderThanDays === 0) {
+          result = this.skip(policy, 'Retention is disabled');
+        } else if (policy.table && !process.env.DATABASE_URL) {
+          result = this.skip(policy, 'DATABASE_URL is not configured');
+        } else {
+          const cutoff = new Date(Date.now() - policy.olderThanDays * DAY_MS);
+
+          if (policy.table) {
+            pool = pool ?? new Pool({ connectionString: process.env.DATABASE_URL, max: 1 });
+            result = await this.cleanTable(pool, policy, cutoff, dryRun, batchSize, context.signal);
+          } else if (policy.target === 'tasks') {
+            result = await this.cleanTasks(task.id, policy, cutoff, dryRun, batchSize, expiredTaskIds, context.signal);
+          } else {
+            result = await this.cleanLogs(policy, cutoff, dryRun, expiredTaskIds, context.signal);
+          }
+        }
+
+        await context.log(
+          result.skipped ? 'warn' : 'info',
+          result.skipped
+            ? `Skipped ${policy.target}: ${result.skipped}`
+            : `${dryRun ? 'Would delete' : 'Deleted'} ${result.matched} ${policy.target} record(s) older than ${policy.olderThanDays} day(s)`,
+          { ...result },
+        );
+
+        results.push(result);
+        await context.checkpoint(results);
+      }
+    } finally {
+      await pool?.end();
+    }
+
+    return {
+      dryRun,
+      matched: results.reduce((sum, result) => sum + result.matched, 0),
+      deleted: results.reduce((sum, result) => sum + result.deleted, 0),
+      results,
+    };
+  }
+
+  /**
+   * The policies a payload selects, with its retention override applied
+   * @throws Error for unknown targets or an invalid retention
+   */
+  private selectPolicies(payload: CleanupPayload): RetentionPolicy[] {
+    const targets = payload.targets ?? (payload.target ? [payload.target] : undefined);
+
+    for (const target of targets ?? []) {
+      if (!this.policies.some((policy) => policy.target === target)) {
+        throw new Error(`Unsupported cleanup target: ${target}`);
+      }
+    }
+    if (payload.olderThanDays !== undefined && (!Number.isInteger(payload.olderThanDays) || payload.olderThanDays < 0)) {
+      throw new Error(`Invalid cleanup retention: ${payload.olderThanDays}`);
+    }
+
+    return this.policies
+      .filter((policy) => !targets || targets.includes(policy.target))
+      .map((policy) => ({ ...policy, olderThanDays: payload.olderThanDays ?? policy.olderThanDays }));
+  }
+
+  /**
+   * Delete finished tasks (other than this one) that finished before the cutoff
+   */
+  private async cleanTasks(
+    currentTaskId: string,
+    policy: RetentionPolicy,
+    cutoff: Date,
+    dryRun: boolean,
+    batchSize: number,
+    expiredTaskIds: Set<string>,
+    signal: AbortSignal,
+  ): Promise<CleanupTargetResult> {
+    const expired = (await this.queueService.getAllTasks()).filter(
+      (t) =>
+        t.id !== currentTaskId &&
+        RETAINED_TASK_STATUSES.includes(t.status) &&
+        (t.completedAt ?? t.failedAt ?? t.createdAt) < cutoff,
+    );
+    const result = this.emptyResult(policy, cutoff, expired.length);
+
+    expired.forEach((t) => expiredTaskIds.add(t.id));
+
+    if (dryRun) {
+      return result;
+    }
+
+    for (let start = 0; start < expired.length; start += batchSize) {
+      await this.pauseBetweenBatches(result, signal);
+
+      for (const expiredTask of expired.slice(start, start + batchSize)) {
+        await this.queueService.deleteTask(expiredTask.id);
+        result.deleted++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete the log entries of the remaining tasks that were written before the cutoff
+   */
+  private async cleanLogs(
+    policy: RetentionPolicy,
+    cutoff: Date,
+    dryRun: boolean,
+    expiredTaskIds: Set<string>,
+    signal: AbortSignal,
+  ): Promise<CleanupTargetResult> {
+    const result = this.emptyResult(policy, cutoff, 0);
+
+    for (const t of await this.queueService.getAllTasks()) {
+      if (expiredTaskIds.has(t.id)) {
+        continue;
+      }
+
+      signal.throwIfAborted();
+      const count = await this.queueService.pruneLogs(t.id, cutoff, dryRun);
+
+      result.matched += count;
+      if (!dryRun && count > 0) {
+        result.deleted += count;
+        result.batches++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete the rows of a table whose timestamp column is before the cutoff, `batchSize` rows per
+   * statement. A missing table is skipped so the other targets still run.
+   */
+  private async cleanTable(
+    pool: Pool,
+    policy: RetentionPolicy,
+    cutoff: Date,
+    dryRun: boolean,
+    batchSize: number,
+    signal: AbortSignal,
+  ): Promise<CleanupTargetResult> {
+    const table = `"${policy.table!.replace(/"/g, '""')}"`;
+    const column = `"${policy.column!.replace(/"/g, '""')}"`;
+    const result = this.emptyResult(policy, cutoff, 0);
+
+    try {
+      if (dryRun) {
+        const { rows } = await pool.query<{ count: string }>(
+          `SELECT COUNT(*) AS count FROM ${table} WHERE ${column} < $1`,
+          [cutoff],
+        );
+        result.matched = parseInt(rows[0].count, 10);
+        return result;
+      }
+
+      let deleted: number;
+      do {
+        await this.pauseBetweenBatches(result, signal);
+
+        deleted =
+          (
+            await pool.query(
+              `DELETE FROM ${table} WHERE id IN (
+                 SELECT id FROM ${table} WHERE ${column} < $1 ORDER BY ${column} LIMIT $2
+               )`,
+              [cutoff, batchSize],
+            )
+          ).rowCount ?? 0;
+
+        result.matched += deleted;
+        result.deleted += deleted;
+      } while (deleted === batchSize);
+    } catch (error) {
+      // 42P01: undefined_table, e.g. the service owning it was never migrated
+      if ((error as { code?: string }).code === '42P01') {
+        return this.skip(policy, `Table ${policy.table} does not exist`);
+      }
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Count a new batch, waiting WORKER_CLEANUP_BATCH_DELAY_MS after the previous one
+   */
+  private async pauseBetweenBatches(result: CleanupTargetResult, signal: AbortSignal): Promise<void> {
+    signal.throwIfAborted();
+
+    if (result.batches > 0 && this.batchDelayMs > 0) {
+      await sleep(this.batchDelayMs, undefined, { signal });
+    }
+
+    result.batches++;
+  }
+
+  private emptyResult(policy: RetentionPolicy, cutoff: Date, matched: number): CleanupTargetResult {
+    return { target: policy.target, olderThanDays: policy.olderThanDays, cutoff, matched, deleted: 0, batches: 0 };
+  }
+
+  private skip(policy: RetentionPolicy, reason: string): CleanupTargetResult {
+    return { target: policy.target, olderThanDays: policy.olderThanDays, matched: 0, deleted: 0, batches: 0, skipped: reason };
+  }
+}
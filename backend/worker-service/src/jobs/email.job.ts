@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common';
+import { Job } from '../../../common/src/types/common';
+import { TaskHandler, TaskExecutionContext, TaskTypeSchema } from '../processors/task-handler.interface';
+import { JsonSchema } from '../processors/json-schema';
+import { EmailService, SendEmailRequest, EmailDeliveryReport } from '../services/email.service';
+import { EMAIL_TEMPLATES } from '../email/email-templates';
+
+const MAILBOX: JsonSchema = { type: 'string', minLength: 3, examples: ['Alice <alice@example.com>'] };
+const MAILBOXES: JsonSchema = { anyOf: [MAILBOX, { type: 'array', items: MAILBOX }] };
+
+const EMAIL_SCHEMA: TaskTypeSchema = {
+  description: 'Send an email, optionally rendered from a template, with attachments',
+  payload: {
+    type: 'object',
+    required: ['to'],
+    properties: {
+      to: { ...MAILBOXES, title: 'To' },
+      cc: { ...MAILBOXES, title: 'Cc' },
+      bcc: { ...MAILBOXES, title: 'Bcc' },
+      from: { ...MAILBOX, title: 'From', description: 'Default: WORKER_EMAIL_FROM' },
+      replyTo: { ...MAILBOX, title: 'Reply-To' },
+      template: { type: 'string', title: 'Template', enum: Object.keys(EMAIL_TEMPLATES) },
+      variables: { type: 'object', title: 'Template variables' },
+      subject: { type: 'string', title: 'Subject', maxLength: 998 },
+      text: { type: 'string', title: 'Plain-text body' },
+      body: { type: 'string', title: 'Plain-text body', description: 'Same as text' },
+      html: { type: 'string', title: 'HTML body' },
+      attachments: {
+        type: 'array',
+        title: 'Attachments',
+        items: {
+          type: 'object',
+          required: ['filename', 'content'],
+          properties: {
+            filename: { type: 'string', minLength: 1 },
+            content: { type: 'string' },
+            encoding: { type: 'string', enum: ['utf8', 'base64'], default: 'utf8' },
+            contentType: { type: 'string', pattern: '^[\\w.+-]+/[\\w.+-]+$', default: 'application/octet-stream' },
+          },
+        },
+      },
+    },
+  },
+  result: {
+    type: 'object',
+    properties: {
+      messageId: { type: 'string' },
+      transport: { type: 'string' },
+      subject: { type: 'string' },
+      recipients: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            recipient: { type: 'string' },
+            status: { type: 'string', enum: ['delivered', 'bounced', 'deferred'] },
+            response: { type: 'string' },
+          },
+        },
+      },
+      delivered: { type: 'integer' },
+      bounced: { type: 'integer' },
+      deferred: { type: 'integer' },
+    },
+  },
+};
+
+/**
+ * Email Job
+ * Handles `email` tasks by rendering the payload (see SendEmailRequest) and delivering it through
+ * EmailService. The result reports the outcome per recipient; bounced recipients don't fail the
+ * task. Deferred recipients do, and each retry only sends to the recipients that are still
+ * deferred, so nobody receives the message twice.
+ */
+@Injectable()
+export class EmailJob implements TaskHandler {
+  readonly types = ['email'];
+  readonly schemas = { email: EMAIL_SCHEMA };
+
+  constructor(private readonly emailService: EmailService) {}
+
+  async handle(task: Job, context: TaskExecutionContext): Promise<unknown> {
+    const request = task.payload as unknown as SendEmailRequest;
+    const message = this.emailService.compose(request, task.id);
+    const previous = (task.partialResult as EmailDeliveryReport | undefined)?.recipients ?? [];
+    const settled = previous.filter((delivery) => delivery.status !== 'deferred');
+    const recipients = this.emailService.recipientsOf(request);
+    const pending = recipients.filter((recipient) => !settled.some((delivery) => delivery.recipient === recipient));
+
+    const deliveries = pending.length > 0 ? await this.emailService.deliver(message, pending, context.signal) : [];
+
+    for (const delivery of deliveries.filter((d) => d.status === 'bounced')) {
+      await context.log('warn', `Email to ${delivery.recipient} bounced: ${delivery.response}`, { ...delivery });
+    }
+
+    const report = this.emailService.summarize(
+      message,
+      recipients.map(
+        (recipient) =>
+          deliveries.find((delivery) => delivery.recipient === recipient) ??
+          settled.find((delivery) => delivery.recipient === recipient)!,
+      ),
+    );
+
+    await context.checkpoint(report);
+
+    if (report.deferred > 0) {
+      const deferred = report.recipients.filter((delivery) => delivery.status === 'deferred');
+
+      throw new Error(
+        `Email delivery deferred for ${deferred.length} recipient(s): ` +
+          deferred.map((delivery) => `${delivery.recipient} (${delivery.response})`).join(', '),
+      );
+    }
+
+    await context.log(
+      'info',
+      `Email "${message.subject}" delivered to ${report.delivered} of ${recipients.length} recipient(s)`,
+      { messageId: report.messageId, transport: report.transport, bounced: report.bounced },
+    );
+
+    return report;
+  }
+}
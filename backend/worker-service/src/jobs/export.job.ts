@@ -0,0 +1,104 @@
+import { Injectable } from '@nestjs/common';
+import { Job } from '../../../common/src/types/common';
+import { QueueService } from '../services/queue.service';
+import { TaskHandler, TaskExecutionContext, TaskTypeSchema } from '../processors/task-handler.interface';
+
+const EXPORT_SCHEMA: TaskTypeSchema = {
+  description: 'Serialise records or the task list to JSON or CSV',
+  payload: {
+    type: 'object',
+    anyOf: [{ required: ['records'] }, { required: ['source'] }],
+    properties: {
+      format: { type: 'string', title: 'Format', enum: ['json', 'csv'], default: 'json' },
+      records: { type: 'array', items: { type: 'object' } },
+      source: { type: 'string', title: 'Source', enum: ['tasks'] },
+    },
+  },
+  result: {
+    type: 'object',
+    properties: {
+      format: { type: 'string' },
+      count: { type: 'integer' },
+      content: { type: 'string' },
+    },
+  },
+};
+
+/**
+ * Export Job
+ * Handles `export` tasks by serialising `records` (or, with `source: "tasks"`, the task list)
+ * to JSON or CSV. The serialised content is stored in the task result.
+ */
+@Injectable()
+export class ExportJob implements TaskHandler {
+  readonly types = ['export'];
+  readonly schemas = { export: EXPORT_SCHEMA };
+
+  constructor(private readonly queueService: QueueService) {}
+
+  async handle(task: Job, context: TaskExecutionContext): Promise<unknown> {
+    const { format = 'json', records, source } = task.payload as {
+      format?: 'json' | 'csv';
+      records?: Record<string, unknown>[];
+      source?: string;
+    };
+
+    let rows: Record<string, unknown>[];
+
+    if (Array.isArray(records)) {
+      rows = records;
+    } else if (source === 'tasks') {
+      rows = (await this.queueService.getAllTasks()).map((t) => ({
+        id: t.id,
+        type: t.type,
+        status: t.status,
+        priority: t.priority,
+        attempts: t.attempts,
+        createdAt: t.createdAt,
+        completedAt: t.completedAt,
+        failedAt: t.failedAt,
+        error: t.error,
+      }));
+    } else {
+      throw new Error('Export task payload requires "records" or source "tasks"');
+    }
+
+    const content = format === 'csv' ? this.toCsv(rows) : JSON.stringify(rows);
+
+    await context.log('info', `Exported ${rows.length} record(s) as ${format}`);
+
+    return {
+      format,
+      count: rows.length,
+      content,
+    };
+  }
+
+  private toCsv(rows: Record<string, unknown>[]): string {
+    const headers = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+    const lines = [headers.map((h) => this.escapeCsv(h)).join(',')];
+
+    for (const row of rows) {
+      lines.push(headers.map((h) => this.escapeCsv(row[h])).join(','));
+    }
+
+    return lines.join('\n');
+  }
+
+  private escapeCsv(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+
+    let text: string;
+    if (value instanceof Date) {
+      text = value.toISOString();
+    } else if (typeof value === 'object') {
+      text = JSON.stringify(value);
+    } else {
+      text = String(value);
+    }
+
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
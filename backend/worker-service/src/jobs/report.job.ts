@@ -0,0 +1,133 @@
+import { Injectable } from '@nestjs/common';
+import { Job, JobStatus } from '../../../common/src/types/common';
+import { QueueService } from '../services/queue.service';
+import { TaskHandler, TaskExecutionContext, TaskTypeSchema } from '../processors/task-handler.interface';
+
+interface TypeSummary {
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+interface TaskReport {
+  generatedAt: Date;
+  since: Date;
+  totalTasks: number;
+  byType: Record<string, TypeSummary>;
+  queue: Awaited<ReturnType<QueueService['getQueueStats']>>;
+}
+
+const REPORT_SCHEMA: TaskTypeSchema = {
+  description: 'Summarise queue activity, optionally emailing the report',
+  payload: {
+    type: 'object',
+    properties: {
+      periodDays: { type: 'integer', title: 'Period (days)', minimum: 1, default: 7 },
+      recipients: { type: 'array', title: 'Email to', items: { type: 'string', minLength: 3 } },
+    },
+  },
+  result: {
+    type: 'object',
+    properties: {
+      generatedAt: { type: 'string', format: 'date-time' },
+      since: { type: 'string', format: 'date-time' },
+      totalTasks: { type: 'integer' },
+      byType: { type: 'object' },
+      queue: { type: 'object' },
+      emailTaskId: { type: 'string' },
+    },
+  },
+};
+
+/**
+ * Report Job
+ * Handles `report` tasks by summarising queue activity over the last `periodDays` (default: 7).
+ * When `recipients` are given the report is sent to them by an `email` task using the
+ * `task-report` template, with the full report attached as JSON.
+ */
+@Injectable()
+export class ReportJob implements TaskHandler {
+  readonly types = ['report', 'report-generation'];
+  readonly schemas = { report: REPORT_SCHEMA, 'report-generation': REPORT_SCHEMA };
+
+  constructor(private readonly queueService: QueueService) {}
+
+  async handle(task: Job, context: TaskExecutionContext): Promise<unknown> {
+    const { periodDays = 7, recipients = [] } = task.payload as { periodDays?: number; recipients?: string[] };
+    const since = new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000);
+
+    const tasks = (await this.queueService.getAllTasks()).filter((t) => t.createdAt >= since);
+    const byType: Record<string, TypeSummary> = {};
+
+    for (const t of tasks) {
+      const entry = byType[t.type] || { total: 0, completed: 0, failed: 0 };
+      entry.total += 1;
+      if (t.status === JobStatus.Completed) entry.completed += 1;
+      if (t.status === JobStatus.Failed) entry.failed += 1;
+      byType[t.type] = entry;
+    }
+
+    await context.log('info', `Report generated for ${tasks.length} task(s) since ${since.toISOString()}`);
+
+    const report: TaskReport = {
+      generatedAt: new Date(),
+      since,
+      totalTasks: tasks.length,
+      byType,
+      queue: await this.queueService.getQueueStats(),
+    };
+
+    if (recipients.length === 0) {
+      return report;
+    }
+
+    return { ...report, emailTaskId: await this.sendReport(task, report, periodDays, recipients, context) };
+  }
+
+  /**
+   * Enqueue the email that delivers a report
+   * @returns The ID of the email task
+   */
+  private async sendReport(
+    task: Job,
+    report: TaskReport,
+    periodDays: number,
+    recipients: string[],
+    context: TaskExecutionContext,
+  ): Promise<string> {
+    const types = Object.entries(report.byType);
+    const emailTask = await this.queueService.createTask({
+      type: 'email',
+      payload: {
+        to: recipients,
+        template: 'task-report',
+        variables: {
+          periodDays,
+          generatedAt: report.generatedAt,
+          since: report.since,
+          totalTasks: report.totalTasks,
+          completed: types.reduce((sum, [, entry]) => sum + entry.completed, 0),
+          failed: types.reduce((sum, [, entry]) => sum + entry.failed, 0),
+          queued: report.queue.queued,
+          summary:
+            types
+              .map(([type, entry]) => `${type}: ${entry.total} total, ${entry.completed} completed, ${entry.failed} failed`)
+              .join('\n') || 'No tasks',
+        },
+        attachments: [
+          {
+            filename: `task-report-${report.generatedAt.toISOString().slice(0, 10)}.json`,
+            content: JSON.stringify(report, null, 2),
+            contentType: 'application/json',
+          },
+        ],
+      },
+      // A retried report task doesn't send the report twice
+      idempotencyKey: `report-email:${task.id}`,
+    });
+
+    await context.log('info', `Report email queued as task ${emailTask.id}`, { recipients });
+
+    return emailTask.id;
+  }
+}
@@ -0,0 +1,57 @@
+import { JobStatus } from '../../../common/src/types/common';
+
+/**
+ * How long one class of data is kept and where it is stored
+ */
+export interface RetentionPolicy {
+  /** Name of the data class, used in `cleanup` payloads and results */
+  target: string;
+  /** Records older than this are deleted; `0` keeps them forever */
+  olderThanDays: number;
+  /** Database table holding the records; tasks and task logs live in the TaskStore instead */
+  table?: string;
+  /** Timestamp column of `table` compared with the cutoff */
+  column?: string;
+}
+
+/**
+ * Task statuses the `tasks` policy deletes. Failed tasks stay replayable from the dead-letter queue.
+ */
+export const RETAINED_TASK_STATUSES = [JobStatus.Completed, JobStatus.Failed, JobStatus.Cancelled];
+
+/**
+ * Built-in retention policies, applied in this order. Tasks are removed before logs so logs of
+ * deleted tasks are not counted twice.
+ */
+export const DEFAULT_RETENTION_POLICIES: RetentionPolicy[] = [
+  { target: 'tasks', olderThanDays: 7 },
+  { target: 'logs', olderThanDays: 7 },
+  { target: 'chat_messages', olderThanDays: 90, table: 'chat_messages', column: 'timestamp' },
+  { target: 'dashboard_insights', olderThanDays: 30, table: 'dashboard_insights', column: 'createdAt' },
+  { target: 'audit_logs', olderThanDays: 365, table: 'audit_logs', column: 'timestamp' },
+];
+
+/**
+ * Apply per-target retention from a JSON object keyed by target,
+ * e.g. `{"audit_logs":730,"chat_messages":30}`
+ * @param json - The raw configuration value
+ * @returns The built-in policies with the configured retention
+ * @throws Error if the configuration is not valid
+ */
+export function parseRetentionPolicies(json: string | undefined): RetentionPolicy[] {
+  const days = json ? (JSON.parse(json) as Record<string, number>) : {};
+
+  for (const [target, olderThanDays] of Object.entries(days)) {
+    if (!DEFAULT_RETENTION_POLICIES.some((policy) => policy.target === target)) {
+      throw new Error(`Unknown retention target "${target}"`);
+    }
+    if (!Number.isInteger(olderThanDays) || olderThanDays < 0) {
+      throw new Error(`Invalid retention for target "${target}"`);
+    }
+  }
+
+  return DEFAULT_RETENTION_POLICIES.map((policy) => ({
+    ...policy,
+    olderThanDays: days[policy.target] ?? policy.olderThanDays,
+  }));
+}
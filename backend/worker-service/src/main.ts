@@ -4,6 +4,10 @@ import { WorkerModule } from './worler.module';
 
 async function bootstrap() {
   const app = await NestFactory.create(WorkerModule);
+
+  // Drain running tasks, release their leases and hand over scheduler leadership on SIGTERM
+  // (e.g. a rollout) instead of leaving them to expire
+  app.enableShutdownHooks();
   
   app.enableCors();
   app.setGlobalPrefix('api');
@@ -0,0 +1,165 @@
+import { ValidationError } from '../../../common/src/types/common';
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The subset of JSON Schema (draft 2020-12) used to describe task payloads and results.
+ * Annotations (`title`, `description`, `default`, `examples`) are not validated but let
+ * clients build forms from a schema.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  examples?: unknown[];
+  enum?: unknown[];
+  /** The value must match at least one of these schemas */
+  anyOf?: JsonSchema[];
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  /** Only `email` and `date-time` are checked */
+  format?: string;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** `false` rejects properties not listed in `properties`; a schema validates them (default: allowed) */
+  additionalProperties?: boolean | JsonSchema;
+}
+
+/**
+ * Validate a value against a schema
+ * @param schema - The schema
+ * @param value - The value to validate
+ * @param field - Path of the value, used as prefix of each error's `field` (e.g. `payload`)
+ * @returns One error per violated keyword, with `constraint` set to the keyword; empty if valid
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, field = ''): ValidationError[] {
+  const error = (constraint: string, message: string, at = field, actual = value): ValidationError => ({
+    field: at,
+    message: `${at || 'value'} ${message}`,
+    constraint,
+    value: actual,
+  });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+    if (!types.some((type) => matchesType(type, value))) {
+      return [error('type', `must be of type ${types.join(' or ')}`)];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((allowed) => allowed === value)) {
+    return [error('enum', `must be one of: ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(', ')}`)];
+  }
+
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map((branch) => validateJsonSchema(branch, value, field));
+
+    if (!branches.some((errors) => errors.length === 0)) {
+      // Report the branch that got furthest: one whose type matched, then the one with the fewest errors
+      const typeMismatch = (errors: ValidationError[]) => errors.some((e) => e.field === field && e.constraint === 'type');
+      const worse = (a: ValidationError[], b: ValidationError[]) =>
+        typeMismatch(a) !== typeMismatch(b) ? typeMismatch(a) : a.length > b.length;
+
+      return branches.reduce((best, errors) => (worse(best, errors) ? errors : best));
+    }
+  }
+
+  const errors: ValidationError[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(error('minLength', `must be at least ${schema.minLength} character(s) long`));
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(error('maxLength', `must be at most ${schema.maxLength} character(s) long`));
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push(error('pattern', `must match ${schema.pattern}`));
+    }
+    if (schema.format === 'email' && !/^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(value)) {
+      errors.push(error('format', 'must be an email address'));
+    }
+    if (schema.format === 'date-time' && (!/^\d{4}-\d{2}-\d{2}T/.test(value) || isNaN(Date.parse(value)))) {
+      errors.push(error('format', 'must be an ISO 8601 date-time'));
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(error('minimum', `must be at least ${schema.minimum}`));
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(error('maximum', `must be at most ${schema.maximum}`));
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(error('minItems', `must have at least ${schema.minItems} item(s)`));
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(error('maxItems', `must have at most ${schema.maxItems} item(s)`));
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(schema.items!, item, `${field}[${index}]`)));
+    }
+  }
+
+  if (matchesType('object', value)) {
+    const object = value as Record<string, unknown>;
+    const path = (key: string) => (field ? `${field}.${key}` : key);
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        errors.push(error('required', 'is required', path(key), undefined));
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+
+      if (propertySchema) {
+        if (propertyValue !== undefined) {
+          errors.push(...validateJsonSchema(propertySchema, propertyValue, path(key)));
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push(error('additionalProperties', 'is not allowed', path(key), propertyValue));
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(schema.additionalProperties, propertyValue, path(key)));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+  }
+}
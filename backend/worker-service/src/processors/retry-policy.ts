@@ -0,0 +1,80 @@
+import { RetryPolicy } from '../../../common/src/types/common';
+
+export type { RetryPolicy, RetryStrategy } from '../../../common/src/types/common';
+
+/**
+ * Policy used when neither the task, the configuration nor the handler defines one
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  strategy: 'exponential',
+  initialDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+/**
+ * Calculate the delay before the next automatic retry
+ * @param policy - The retry policy to apply
+ * @param attempt - The attempt that just failed (1 for the first run)
+ * @param random - Random source in [0, 1), injectable for tests
+ * @returns Delay in milliseconds
+ */
+export function calculateRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const retryNumber = Math.max(1, attempt);
+  let delay: number;
+
+  switch (policy.strategy) {
+    case 'fixed':
+      delay = policy.initialDelayMs;
+      break;
+    case 'linear':
+      delay = policy.initialDelayMs * retryNumber;
+      break;
+    case 'exponential':
+      delay = policy.initialDelayMs * Math.pow(policy.multiplier ?? 2, retryNumber - 1);
+      break;
+    default:
+      throw new Error(`Unknown retry strategy: ${(policy as RetryPolicy).strategy}`);
+  }
+
+  if (policy.maxDelayMs !== undefined) {
+    delay = Math.min(delay, policy.maxDelayMs);
+  }
+
+  // Jitter only shortens the delay so maxDelayMs stays a hard upper bound
+  const jitter = Math.min(Math.max(policy.jitter ?? 0, 0), 1);
+  delay -= delay * jitter * random();
+
+  return Math.round(delay);
+}
+
+/**
+ * Parse per-type retry policies from a JSON object keyed by task type,
+ * e.g. `{"email":{"strategy":"fixed","initialDelayMs":30000}}`
+ * @param json - The raw configuration value
+ * @returns Map of task type to policy
+ * @throws Error if the configuration is not valid
+ */
+export function parseRetryPolicies(json: string | undefined): Map<string, RetryPolicy> {
+  const policies = new Map<string, RetryPolicy>();
+
+  if (!json) {
+    return policies;
+  }
+
+  const parsed = JSON.parse(json) as Record<string, RetryPolicy>;
+
+  for (const [type, policy] of Object.entries(parsed)) {
+    if (!['fixed', 'linear', 'exponential'].includes(policy?.strategy) || !(policy.initialDelayMs >= 0)) {
+      throw new Error(`Invalid retry policy for task type "${type}"`);
+    }
+    policies.set(type, policy);
+  }
+
+  return policies;
+}
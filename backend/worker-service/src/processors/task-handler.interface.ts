@@ -0,0 +1,76 @@
+import { Job, RetryPolicy } from '../../../common/src/types/common';
+import { LogEntry } from '../storage/task-store.interface';
+import { TaskProgressUpdate } from '../services/queue.service';
+import { JsonSchema } from './json-schema';
+
+/**
+ * Injection token for the list of registered task handlers
+ */
+export const TASK_HANDLERS = 'TASK_HANDLERS';
+
+/**
+ * Execution context passed to a handler for the duration of one attempt
+ */
+export interface TaskExecutionContext {
+  /**
+   * Aborted when the task is cancelled. Handlers should stop promptly (e.g. pass it to fetch,
+   * or call `signal.throwIfAborted()` between steps); after the grace period they are abandoned.
+   */
+  readonly signal: AbortSignal;
+
+  /**
+   * Append an entry to the task's log history
+   */
+  log(level: LogEntry['level'], message: string, metadata?: Record<string, unknown>): Promise<void>;
+
+  /**
+   * Report how far the attempt has got, e.g. `{ percent: 40, step: 'parsing' }`
+   */
+  reportProgress(progress: TaskProgressUpdate): Promise<void>;
+
+  /**
+   * Save the data produced so far. It is available as `task.partialResult` on the next attempt.
+   */
+  checkpoint(partialResult: unknown): Promise<void>;
+}
+
+/**
+ * Schemas a handler declares for one of its task types
+ */
+export interface TaskTypeSchema {
+  /** What tasks of the type do, shown to users choosing a type */
+  description: string;
+  /** Payloads are validated against it before a task is queued and when a job is created */
+  payload: JsonSchema;
+  /** Shape of the stored result, listed for callers only; results are not validated against it */
+  result?: JsonSchema;
+}
+
+/**
+ * Task Handler
+ * Executes tasks of one or more types. The resolved value is stored as the task result;
+ * a thrown error fails the attempt.
+ */
+export interface TaskHandler {
+  /**
+   * Task types this handler is responsible for
+   */
+  readonly types: string[];
+
+  /**
+   * Default retry policy for these types, used when the task and configuration don't set one
+   */
+  readonly retryPolicy?: RetryPolicy;
+
+  /**
+   * Default attempt timeout in milliseconds for these types, used when the task and configuration don't set one
+   */
+  readonly timeoutMs?: number;
+
+  /**
+   * Payload and result schemas keyed by task type. Payloads of types without a schema are not validated.
+   */
+  readonly schemas?: Record<string, TaskTypeSchema>;
+
+  handle(task: Job, context: TaskExecutionContext): Promise<unknown>;
+}
@@ -0,0 +1,113 @@
+import { Injectable, Inject, Logger, BadRequestException, Optional } from '@nestjs/common';
+import { TASK_HANDLERS, TaskHandler } from './task-handler.interface';
+import { QueueService } from '../services/queue.service';
+import { JsonSchema, validateJsonSchema } from './json-schema';
+
+/**
+ * A task type as listed by GET /task-types
+ */
+export interface TaskTypeDescription {
+  type: string;
+  /** Class name of the handler */
+  handler: string;
+  description?: string;
+  payloadSchema?: JsonSchema;
+  resultSchema?: JsonSchema;
+}
+
+/**
+ * Task Handler Registry
+ * Resolves the handler responsible for a task type and validates payloads against the
+ * schemas handlers declare. It registers itself as the payload validator of QueueService, so
+ * every task is checked however it is created: through the API, by a workflow or a scheduled job,
+ * or by another handler.
+ */
+@Injectable()
+export class TaskHandlerRegistry {
+  private readonly logger = new Logger(TaskHandlerRegistry.name);
+  private handlers: Map<string, TaskHandler> = new Map();
+
+  constructor(
+    @Inject(TASK_HANDLERS) handlers: TaskHandler[],
+    @Optional() queueService?: QueueService,
+  ) {
+    handlers.forEach((handler) => this.register(handler));
+    queueService?.setPayloadValidator((type, payload) => this.validatePayload(type, payload));
+  }
+
+  /**
+   * Register a handler for all of its task types
+   * @param handler - The handler to register
+   * @throws Error if another handler already owns one of the types
+   */
+  register(handler: TaskHandler): void {
+    for (const type of handler.types) {
+      const existing = this.handlers.get(type);
+      if (existing && existing !== handler) {
+        throw new Error(`A handler is already registered for task type: ${type}`);
+      }
+      this.handlers.set(type, handler);
+    }
+
+    this.logger.log(`Registered ${handler.constructor.name} for types: ${handler.types.join(', ')}`);
+  }
+
+  /**
+   * Get the handler for a task type
+   * @param type - The task type
+   * @returns The handler if one is registered
+   */
+  get(type: string): TaskHandler | undefined {
+    return this.handlers.get(type);
+  }
+
+  /**
+   * Get all task types that have a handler
+   */
+  getRegisteredTypes(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  /**
+   * Describe every task type that has a handler, in registration order
+   */
+  describeTypes(): TaskTypeDescription[] {
+    return Array.from(this.handlers.entries()).map(([type, handler]) => {
+      const schema = handler.schemas?.[type];
+
+      return {
+        type,
+        handler: handler.constructor.name,
+        description: schema?.description,
+        payloadSchema: schema?.payload,
+        resultSchema: schema?.result,
+      };
+    });
+  }
+
+  /**
+   * Check a payload against the schema of its task type. Types without a handler or schema are
+   * not checked; they fail when executed.
+   * @param type - The task type
+   * @param payload - The payload to check
+   * @throws BadRequestException listing a ValidationError per invalid field
+   */
+  validatePayload(type: string, payload: unknown): void {
+    const schema = this.handlers.get(type)?.schemas?.[type];
+
+    if (!schema) {
+      return;
+    }
+
+    const errors = validateJsonSchema(schema.payload, payload ?? {});
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `Invalid payload for task type ${type}: ${errors.map((error) => error.message).join('; ')}`,
+        errors,
+      });
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { TaskTypeLimits } from '../storage/task-store.interface';
+
+/**
+ * Parse per-type throttling limits from a JSON object keyed by task type,
+ * e.g. `{"ai_insights":{"maxConcurrency":2,"rateLimit":{"limit":60,"intervalMs":60000}}}`
+ * @param json - The raw configuration value
+ * @returns Map of task type to limits
+ * @throws Error if the configuration is not valid
+ */
+export function parseTaskTypeLimits(json: string | undefined): Map<string, TaskTypeLimits> {
+  const limits = new Map<string, TaskTypeLimits>();
+
+  if (!json) {
+    return limits;
+  }
+
+  const parsed = JSON.parse(json) as Record<string, TaskTypeLimits>;
+
+  for (const [type, typeLimits] of Object.entries(parsed)) {
+    const { maxConcurrency, rateLimit } = typeLimits ?? {};
+    const validConcurrency = maxConcurrency === undefined || (Number.isInteger(maxConcurrency) && maxConcurrency > 0);
+    const validRate =
+      rateLimit === undefined ||
+      (Number.isInteger(rateLimit.limit) && rateLimit.limit > 0 && Number.isInteger(rateLimit.intervalMs) && rateLimit.intervalMs > 0);
+
+    if (!validConcurrency || !validRate) {
+      throw new Error(`Invalid limits for task type "${type}"`);
+    }
+    limits.set(type, typeLimits);
+  }
+
+  return limits;
+}
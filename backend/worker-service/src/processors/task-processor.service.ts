@@ -0,0 +1,514 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Job, JobStatus } from '../../../common/src/types/common';
+import { QueueService } from '../services/queue.service';
+import { DeadLetterService } from '../services/dead-letter.service';
+import { LeaseService } from '../services/lease.service';
+import { TaskHandlerRegistry } from './task-handler.registry';
+import { TaskHandler, TaskExecutionContext } from './task-handler.interface';
+import { RetryPolicy, DEFAULT_RETRY_POLICY, calculateRetryDelay, parseRetryPolicies } from './retry-policy';
+import { DEFAULT_TASK_TIMEOUT_MS, parseTaskTimeouts } from './task-timeouts';
+import { TaskThrottleService } from './task-throttle.service';
+
+/**
+ * Rejection used when a cancelled or timed out handler outlives the grace period
+ */
+const TERMINATED = Symbol('terminated');
+
+/**
+ * An attempt executing on this worker
+ */
+interface RunningAttempt {
+  controller: AbortController;
+  attempts: number;
+  timedOut: boolean;
+}
+
+/**
+ * Task Processor
+ * Pulls pending tasks from the queue and runs them through their registered handlers.
+ *
+ * Configuration:
+ * - WORKER_CONCURRENCY: maximum number of tasks executed at once (default: 5)
+ * - WORKER_POLL_INTERVAL_MS: delay between polls when the queue is empty (default: 1000)
+ * - WORKER_PROCESSOR_ENABLED: set to "false" to disable the loop (API-only instance)
+ * - WORKER_RETRY_POLICIES: JSON map of task type to retry policy
+ * - WORKER_CANCEL_GRACE_MS: how long a cancelled or timed out handler may keep running before it
+ *   is terminated (default: 10000)
+ * - WORKER_TASK_TIMEOUT_MS: default run time limit of one attempt (default: 1800000)
+ * - WORKER_TASK_TIMEOUTS: JSON map of task type to attempt timeout in milliseconds
+ * - WORKER_HEARTBEAT_INTERVAL_MS: how often running tasks are marked alive (default: 5000)
+ *
+ * Failed attempts are retried with backoff until the task's maxAttempts is reached, then the task
+ * is moved to the dead-letter queue. The retry policy is taken from the task, then
+ * WORKER_RETRY_POLICIES, then the handler, then the default.
+ *
+ * Cancellation is cooperative: each poll aborts the signal of running tasks that were moved to
+ * `cancelling`. A handler that stops within the grace period, or is abandoned after it, leaves
+ * the task `cancelled` whatever its outcome.
+ *
+ * An attempt that runs longer than its timeout (task, then WORKER_TASK_TIMEOUTS, then the handler,
+ * then WORKER_TASK_TIMEOUT_MS) has its signal aborted the same way and fails through the retry
+ * policy.
+ *
+ * Several replicas can share one queue: a worker takes a lease on each task it claims and renews
+ * it, along with the task's heartbeat, while the task runs. Queue entries leased by another worker
+ * are put back. An attempt whose lease was taken over, or that the reaper has already failed or
+ * requeued, is abandoned and its outcome discarded.
+ *
+ * Task types may be capped in concurrency and rate (see TaskThrottleService). A throttled task is
+ * put back in the queue, still pending, until a slot or token is expected to be free, and the poll
+ * moves on to the next task so other types keep running.
+ */
+@Injectable()
+export class TaskProcessorService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TaskProcessorService.name);
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly retryPolicies: Map<string, RetryPolicy>;
+  private readonly cancelGraceMs: number;
+  private readonly defaultTimeoutMs: number;
+  private readonly taskTimeouts: Map<string, number>;
+  private readonly heartbeatIntervalMs: number;
+
+  private running = false;
+  private polling = false;
+  private pollTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private activeTasks: Map<string, Promise<void>> = new Map();
+  private runningAttempts: Map<string, RunningAttempt> = new Map();
+
+  constructor(
+    private readonly queueService: QueueService,
+    private readonly registry: TaskHandlerRegistry,
+    private readonly deadLetterService: DeadLetterService,
+    private readonly leaseService: LeaseService,
+    private readonly throttle: TaskThrottleService,
+  ) {
+    this.concurrency = Math.max(1, parseInt(process.env.WORKER_CONCURRENCY || '5', 10));
+    this.pollIntervalMs = parseInt(process.env.WORKER_POLL_INTERVAL_MS || '1000', 10);
+    this.retryPolicies = parseRetryPolicies(process.env.WORKER_RETRY_POLICIES);
+    this.cancelGraceMs = parseInt(process.env.WORKER_CANCEL_GRACE_MS || '10000', 10);
+    this.defaultTimeoutMs = parseInt(process.env.WORKER_TASK_TIMEOUT_MS || String(DEFAULT_TASK_TIMEOUT_MS), 10);
+    this.taskTimeouts = parseTaskTimeouts(process.env.WORKER_TASK_TIMEOUTS);
+    this.heartbeatIntervalMs = parseInt(process.env.WORKER_HEARTBEAT_INTERVAL_MS || '5000', 10);
+  }
+
+  onModuleInit(): void {
+    if (process.env.WORKER_PROCESSOR_ENABLED === 'false') {
+      this.logger.warn('Task processor disabled by WORKER_PROCESSOR_ENABLED=false');
+      return;
+    }
+
+    this.start();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.stop();
+  }
+
+  /**
+   * Start the polling loop
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.logger.log(`Task processor started with concurrency ${this.concurrency}`);
+    this.schedulePoll(0);
+
+    this.heartbeatTimer = setInterval(() => {
+      this.sendHeartbeat().catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Failed to record task heartbeat: ${message}`);
+      });
+    }, this.heartbeatIntervalMs);
+  }
+
+  /**
+   * Stop the polling loop and wait for in-flight tasks to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+
+    await this.onIdle();
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+
+    this.logger.log('Task processor stopped');
+  }
+
+  /**
+   * Signal running tasks that are being cancelled or were reclaimed, then fill all free execution
+   * slots with pending tasks
+   * @returns The tasks that were started
+   */
+  async tick(): Promise<Job[]> {
+    const started: Job[] = [];
+
+    // A poll already in progress will fill the free slots
+    if (this.polling) {
+      return started;
+    }
+
+    this.polling = true;
+
+    try {
+      await this.signalAborts();
+
+      while (this.activeTasks.size < this.concurrency) {
+        const task = await this.queueService.getNextTask();
+        if (!task) {
+          break;
+        }
+
+        if (!(await this.claim(task)) || !(await this.admit(task))) {
+          continue;
+        }
+
+        const execution = this.execute(task)
+          .finally(() => this.releaseClaim(task.id))
+          .catch((error) => {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.error(`Failed to record outcome of task ${task.id}: ${message}`);
+          })
+          .finally(() => {
+            this.activeTasks.delete(task.id);
+            this.schedulePoll(0);
+          });
+
+        this.activeTasks.set(task.id, execution);
+        started.push(task);
+      }
+    } finally {
+      this.polling = false;
+    }
+
+    return started;
+  }
+
+  /**
+   * Wait until every in-flight task has settled
+   */
+  async onIdle(): Promise<void> {
+    while (this.activeTasks.size > 0) {
+      await Promise.allSettled(Array.from(this.activeTasks.values()));
+    }
+  }
+
+  /**
+   * Number of tasks currently executing
+   */
+  getActiveCount(): number {
+    return this.activeTasks.size;
+  }
+
+  /**
+   * Whether an attempt of the task is executing on this worker
+   * @param taskId - The unique identifier of the task
+   */
+  isRunning(taskId: string): boolean {
+    return this.runningAttempts.has(taskId);
+  }
+
+  /**
+   * Resolve the attempt timeout for a task
+   * @param task - The task to run
+   * @param handler - The handler that runs it
+   * @returns The timeout in milliseconds from the task, configuration, handler or default (in that order)
+   */
+  getTimeout(task: Job, handler: TaskHandler | undefined = this.registry.get(task.type)): number {
+    return task.timeoutMs ?? this.taskTimeouts.get(task.type) ?? handler?.timeoutMs ?? this.defaultTimeoutMs;
+  }
+
+  /**
+   * Resolve the retry policy for a task
+   * @param task - The task that failed
+   * @param handler - The handler that ran it
+   * @returns The policy from the task, configuration, handler or default (in that order)
+   */
+  getRetryPolicy(task: Job, handler?: TaskHandler): RetryPolicy {
+    return task.retryPolicy ?? this.retryPolicies.get(task.type) ?? handler?.retryPolicy ?? DEFAULT_RETRY_POLICY;
+  }
+
+  /**
+   * Run one attempt of a task and record its outcome
+   * @param task - The task to execute
+   */
+  private async execute(task: Job): Promise<void> {
+    const handler = this.registry.get(task.type);
+
+    if (!handler) {
+      await this.deadLetterService.deadLetter(task.id, `No handler registered for task type: ${task.type}`);
+      return;
+    }
+
+    const processingTask = await this.queueService.updateTaskStatus(task.id, JobStatus.Processing);
+    const timeoutMs = this.getTimeout(processingTask, handler);
+    const attempt: RunningAttempt = {
+      controller: new AbortController(),
+      attempts: processingTask.attempts,
+      timedOut: false,
+    };
+    const context = this.createContext(task.id, attempt.controller.signal);
+    this.runningAttempts.set(task.id, attempt);
+
+    const timeoutTimer = setTimeout(() => {
+      attempt.timedOut = true;
+      this.logger.warn(`Task ${task.id} (${task.type}) exceeded its ${timeoutMs}ms timeout, aborting`);
+      attempt.controller.abort(new Error(`Task timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    try {
+      const result = await this.runHandler(handler, processingTask, context);
+
+      if (!(await this.finishCancellation(task.id)) && (await this.isCurrentAttempt(processingTask))) {
+        await this.queueService.updateTaskStatus(task.id, JobStatus.Completed, undefined, result);
+      }
+    } catch (error) {
+      if (await this.finishCancellation(task.id, error === TERMINATED)) {
+        return;
+      }
+
+      if (!(await this.isCurrentAttempt(processingTask))) {
+        return;
+      }
+
+      const message = attempt.timedOut
+        ? `Task timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+
+      if (attempt.timedOut) {
+        await this.queueService.addLog(task.id, {
+          timestamp: new Date(),
+          level: 'warn',
+          message: error === TERMINATED ? 'Attempt timed out, handler terminated' : 'Attempt timed out',
+          metadata: { attempts: processingTask.attempts, timeoutMs },
+        });
+      }
+
+      this.logger.error(`Task ${task.id} (${task.type}) failed: ${message}`);
+      await this.failAttempt(processingTask, message);
+    } finally {
+      clearTimeout(timeoutTimer);
+      this.runningAttempts.delete(task.id);
+    }
+  }
+
+  /**
+   * Run the handler. Once the task's signal is aborted, the handler has the grace period to
+   * settle before it is abandoned (rejecting with TERMINATED); JavaScript can't stop it outright.
+   */
+  private runHandler(handler: TaskHandler, task: Job, context: TaskExecutionContext): Promise<unknown> {
+    let graceTimer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const terminated = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        graceTimer = setTimeout(() => reject(TERMINATED), this.cancelGraceMs);
+      };
+      context.signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    return Promise.race([handler.handle(task, context), terminated]).finally(() => {
+      clearTimeout(graceTimer);
+      context.signal.removeEventListener('abort', onAbort as () => void);
+    });
+  }
+
+  /**
+   * Cancel the task if cancellation was requested while its handler ran
+   * @returns True if the task was cancelled
+   */
+  private async finishCancellation(taskId: string, forced = false): Promise<boolean> {
+    const task = await this.queueService.getTask(taskId);
+
+    if (task?.status !== JobStatus.Cancelling) {
+      return false;
+    }
+
+    if (forced) {
+      this.logger.warn(`Task ${taskId} did not stop within ${this.cancelGraceMs}ms of cancellation, terminated`);
+    }
+
+    await this.queueService.confirmCancellation(taskId, forced);
+    return true;
+  }
+
+  /**
+   * Take the lease on a task taken from the queue
+   * @returns False if another worker holds the lease or already started the task
+   */
+  private async claim(task: Job): Promise<boolean> {
+    if (!(await this.leaseService.acquireTaskLease(task.id))) {
+      this.logger.warn(`Task ${task.id} is leased by another worker, requeueing`);
+      await this.queueService.requeueTask(task.id, this.pollIntervalMs);
+      return false;
+    }
+
+    const current = await this.queueService.getTask(task.id);
+
+    if (current?.status !== JobStatus.Pending && current?.status !== JobStatus.Retrying) {
+      await this.leaseService.releaseTaskLease(task.id);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Apply the task type's limits to a claimed task
+   * @returns False if the task was throttled and put back in the queue
+   */
+  private async admit(task: Job): Promise<boolean> {
+    const decision = await this.throttle.acquire(task);
+
+    if (decision.allowed) {
+      return true;
+    }
+
+    const delayMs = Math.max(decision.retryAfterMs ?? 0, this.pollIntervalMs);
+    this.logger.debug(`Task ${task.id} (${task.type}) throttled by ${decision.reason} limit, retrying in ${delayMs}ms`);
+
+    await this.leaseService.releaseTaskLease(task.id);
+    await this.queueService.requeueTask(task.id, delayMs);
+    return false;
+  }
+
+  /**
+   * Give up the lease and concurrency slot of a task that stopped running on this worker
+   */
+  private async releaseClaim(taskId: string): Promise<void> {
+    await this.throttle.release(taskId);
+    await this.leaseService.releaseTaskLease(taskId);
+  }
+
+  /**
+   * Whether the stored task still belongs to this attempt, i.e. this worker still holds its lease
+   * and the reaper has not failed or requeued it in the meantime
+   */
+  private async isCurrentAttempt(task: Job): Promise<boolean> {
+    const stored = (await this.holdLease(task.id)) ? await this.queueService.getTask(task.id) : undefined;
+
+    if (stored?.status === JobStatus.Processing && stored.attempts === task.attempts) {
+      return true;
+    }
+
+    this.logger.warn(`Task ${task.id} attempt ${task.attempts} was reclaimed, discarding its outcome`);
+    return false;
+  }
+
+  /**
+   * Abort the signal of every running task that has been moved to `cancelling`, or that the
+   * reaper took away from this worker
+   */
+  private async signalAborts(): Promise<void> {
+    for (const [taskId, attempt] of this.runningAttempts) {
+      if (attempt.controller.signal.aborted) {
+        continue;
+      }
+
+      const task = await this.queueService.getTask(taskId);
+
+      if (task?.status === JobStatus.Cancelling) {
+        this.logger.log(`Signalling cancellation to task ${taskId}`);
+        attempt.controller.abort(new Error(task.error ? `Task cancelled: ${task.error}` : 'Task cancelled'));
+      } else if (task?.status !== JobStatus.Processing || task.attempts !== attempt.attempts) {
+        this.logger.warn(`Task ${taskId} was reclaimed, aborting its attempt`);
+        attempt.controller.abort(new Error('Task was reclaimed by the reaper'));
+      }
+    }
+  }
+
+  /**
+   * Renew the leases of the tasks running on this worker and mark them alive. Attempts whose lease
+   * was taken over by another worker are aborted.
+   */
+  private async sendHeartbeat(): Promise<void> {
+    const alive: string[] = [];
+
+    for (const [taskId, attempt] of this.runningAttempts) {
+      if (await this.holdLease(taskId)) {
+        await this.throttle.renew(taskId);
+        alive.push(taskId);
+      } else if (!attempt.controller.signal.aborted) {
+        this.logger.warn(`Lease on task ${taskId} was taken over by another worker, aborting its attempt`);
+        attempt.controller.abort(new Error('Task lease lost'));
+      }
+    }
+
+    if (alive.length > 0) {
+      await this.queueService.heartbeat(alive);
+    }
+  }
+
+  /**
+   * Renew this worker's lease on a task, taking it again if it lapsed without anyone claiming it
+   */
+  private async holdLease(taskId: string): Promise<boolean> {
+    return (await this.leaseService.renewTaskLease(taskId)) || this.leaseService.acquireTaskLease(taskId);
+  }
+
+  /**
+   * Schedule a retry for a failed attempt, or dead-letter the task once it is out of attempts
+   * @param task - The task in the state of the failed attempt
+   * @param message - Why the attempt failed
+   */
+  async failAttempt(task: Job, message: string): Promise<void> {
+    if (task.attempts >= task.maxAttempts) {
+      await this.deadLetterService.deadLetter(task.id, message);
+      return;
+    }
+
+    const delayMs = calculateRetryDelay(this.getRetryPolicy(task, this.registry.get(task.type)), task.attempts);
+    await this.queueService.scheduleRetry(task.id, message, delayMs);
+  }
+
+  private createContext(taskId: string, signal: AbortSignal): TaskExecutionContext {
+    return {
+      signal,
+      log: (level, message, metadata) =>
+        this.queueService.addLog(taskId, {
+          timestamp: new Date(),
+          level,
+          message,
+          metadata,
+        }),
+      reportProgress: async (progress) => {
+        await this.queueService.updateProgress(taskId, progress);
+      },
+      checkpoint: async (partialResult) => {
+        await this.queueService.saveCheckpoint(taskId, partialResult);
+      },
+    };
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+    }
+
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = undefined;
+      this.tick()
+        .catch((error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          this.logger.error(`Failed to poll task queue: ${message}`);
+        })
+        .finally(() => this.schedulePoll(this.pollIntervalMs));
+    }, delayMs);
+  }
+}
@@ -0,0 +1,272 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Job, JobStatus } from '../../../common/src/types/common';
+import { QueueService } from '../services/queue.service';
+import { LeaseService } from '../services/lease.service';
+import { TaskProcessorService } from './task-processor.service';
+
+/**
+ * Why the reaper reclaimed a task
+ */
+export type ReapReason = 'heartbeat_lost' | 'timed_out' | 'lost_from_queue';
+
+/**
+ * A task reclaimed by the reaper
+ */
+export interface ReapedTask {
+  taskId: string;
+  reason: ReapReason;
+  /** Status the task was found in */
+  status: JobStatus;
+}
+
+/**
+ * Task Reaper
+ * Finds tasks left in `processing` or `cancelling` by a worker that died or hung, and hands them
+ * back to the queue. Tasks running on this instance are left to the processor, which enforces
+ * their timeout itself.
+ *
+ * A task is stuck when its heartbeat (or start time) is older than WORKER_HEARTBEAT_TIMEOUT_MS,
+ * or when it has been running for longer than its attempt timeout plus that margin, and its lease
+ * has expired. The reaper takes the lease before reclaiming, so a task whose worker is still alive
+ * is left alone and concurrent reapers on other replicas reclaim each task only once. Stuck
+ * `processing` tasks fail their attempt and are retried or dead-lettered by the retry policy;
+ * stuck `cancelling` tasks are cancelled.
+ *
+ * Workers take a task from the queue before leasing it, so a worker that dies in between leaves
+ * the task `pending` (or `retrying`) in no queue. A waiting task found in no queue on passes at
+ * least WORKER_HEARTBEAT_TIMEOUT_MS apart is put back in its queue, also under its lease.
+ *
+ * Configuration:
+ * - WORKER_REAPER_INTERVAL_MS: how often running tasks are checked (default: 30000)
+ * - WORKER_HEARTBEAT_TIMEOUT_MS: how long a heartbeat may be missing before the task is reclaimed
+ *   (default: 60000)
+ * - WORKER_REAPER_ENABLED: set to "false" to stop reaping on this instance
+ */
+@Injectable()
+export class TaskReaperService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TaskReaperService.name);
+  private readonly intervalMs: number;
+  private readonly heartbeatTimeoutMs: number;
+
+  private reapTimer?: NodeJS.Timeout;
+  private reaping = false;
+  /** Waiting tasks found in no queue by the last pass, with the time they were first found so */
+  private unqueuedSince = new Map<string, number>();
+
+  constructor(
+    private readonly queueService: QueueService,
+    private readonly processor: TaskProcessorService,
+    private readonly leaseService: LeaseService,
+  ) {
+    this.intervalMs = parseInt(process.env.WORKER_REAPER_INTERVAL_MS || '30000', 10);
+    this.heartbeatTimeoutMs = parseInt(process.env.WORKER_HEARTBEAT_TIMEOUT_MS || '60000', 10);
+  }
+
+  onModuleInit(): void {
+    if (process.env.WORKER_REAPER_ENABLED === 'false') {
+      this.logger.warn('Task reaper disabled by WORKER_REAPER_ENABLED=false');
+      return;
+    }
+
+    this.start();
+  }
+
+  onModuleDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Start checking for stuck tasks
+   */
+  start(): void {
+    if (this.reapTimer) {
+      return;
+    }
+
+    this.reapTimer = setInterval(() => {
+      this.reap().catch((error) => this.logger.error(`Task reaper failed: ${error.message}`));
+    }, this.intervalMs);
+
+    this.logger.log(`Task reaper started, checking every ${this.intervalMs}ms`);
+  }
+
+  /**
+   * Stop checking for stuck tasks
+   */
+  stop(): void {
+    if (this.reapTimer) {
+      clearInterval(this.reapTimer);
+      this.reapTimer = undefined;
+      this.logger.log('Task reaper stopped');
+    }
+  }
+
+  /**
+   * Reclaim every stuck task and requeue waiting tasks lost from the queues
+   * @param now - The current time
+   * @returns The tasks that were reclaimed or requeued
+   */
+  async reap(now: Date = new Date()): Promise<ReapedTask[]> {
+    if (this.reaping) {
+      return [];
+    }
+
+    this.reaping = true;
+    const reaped: ReapedTask[] = [];
+
+    try {
+      const tasks = await this.queueService.getAllTasks();
+      const unqueued = new Map<string, number>();
+
+      for (const task of tasks) {
+        if (task.status === JobStatus.Pending || task.status === JobStatus.Retrying) {
+          if (await this.requeueIfLost(task, now, unqueued)) {
+            reaped.push({ taskId: task.id, reason: 'lost_from_queue', status: task.status });
+          }
+          continue;
+        }
+
+        if (task.status !== JobStatus.Processing && task.status !== JobStatus.Cancelling) {
+          continue;
+        }
+
+        if (this.processor.isRunning(task.id)) {
+          continue;
+        }
+
+        const reason = this.getStuckReason(task, now);
+
+        if (reason && (await this.reclaimLeased(task, reason, now))) {
+          reaped.push({ taskId: task.id, reason, status: task.status });
+        }
+      }
+
+      this.unqueuedSince = unqueued;
+    } finally {
+      this.reaping = false;
+    }
+
+    if (reaped.length > 0) {
+      this.logger.warn(`Reclaimed ${reaped.length} stuck task(s)`);
+    }
+
+    return reaped;
+  }
+
+  private getStuckReason(task: Job, now: Date): ReapReason | undefined {
+    const startedAt = task.startedAt ?? task.createdAt;
+    const lastSeen = task.heartbeatAt ?? startedAt;
+
+    if (now.getTime() - lastSeen.getTime() > this.heartbeatTimeoutMs) {
+      return 'heartbeat_lost';
+    }
+
+    if (now.getTime() - startedAt.getTime() > this.processor.getTimeout(task) + this.heartbeatTimeoutMs) {
+      return 'timed_out';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Reclaim the task under its lease
+   * @returns False if its worker still holds the lease or the task moved on in the meantime
+   */
+  private async reclaimLeased(task: Job, reason: ReapReason, now: Date): Promise<boolean> {
+    if (!(await this.leaseService.acquireTaskLease(task.id))) {
+      return false;
+    }
+
+    try {
+      const current = await this.queueService.getTask(task.id);
+
+      if (current?.status !== task.status || current.attempts !== task.attempts) {
+        return false;
+      }
+
+      await this.reclaim(current, reason, now);
+      return true;
+    } finally {
+      await this.leaseService.releaseTaskLease(task.id);
+    }
+  }
+
+  /**
+   * Put a waiting task back in its queue if it has been missing from every queue since a pass at
+   * least WORKER_HEARTBEAT_TIMEOUT_MS ago. A worker leases the task right after taking it from the
+   * queue, so only a task whose worker died in between stays missing that long.
+   * @param unqueued - Collects the waiting tasks this pass found in no queue
+   * @returns True if the task was requeued
+   */
+  private async requeueIfLost(task: Job, now: Date, unqueued: Map<string, number>): Promise<boolean> {
+    // Workflow nodes wait outside the queues until their dependencies finish
+    if ((task.dependsOn?.length && !task.queuedAt) || (await this.queueService.isQueued(task.id))) {
+      return false;
+    }
+
+    const since = this.unqueuedSince.get(task.id) ?? now.getTime();
+    if (now.getTime() - since < this.heartbeatTimeoutMs) {
+      unqueued.set(task.id, since);
+      return false;
+    }
+
+    if (!(await this.leaseService.acquireTaskLease(task.id))) {
+      unqueued.set(task.id, since);
+      return false;
+    }
+
+    try {
+      const current = await this.queueService.getTask(task.id);
+
+      if (
+        current?.status !== task.status ||
+        current.attempts !== task.attempts ||
+        (await this.queueService.isQueued(task.id))
+      ) {
+        return false;
+      }
+
+      await this.queueService.addLog(task.id, {
+        timestamp: now,
+        level: 'warn',
+        message: 'Task requeued: it was taken from the queue but never started',
+        metadata: { reason: 'lost_from_queue', status: task.status, attempts: task.attempts },
+      });
+      this.logger.warn(`Task ${task.id} (${task.type}) was in no queue, requeued`);
+
+      await this.queueService.requeueTask(task.id, 0);
+      return true;
+    } finally {
+      await this.leaseService.releaseTaskLease(task.id);
+    }
+  }
+
+  private async reclaim(task: Job, reason: ReapReason, now: Date): Promise<void> {
+    const message =
+      reason === 'heartbeat_lost'
+        ? 'Task reclaimed: worker heartbeat lost'
+        : `Task reclaimed: timed out after ${this.processor.getTimeout(task)}ms`;
+
+    await this.queueService.addLog(task.id, {
+      timestamp: now,
+      level: 'warn',
+      message,
+      metadata: {
+        reason,
+        status: task.status,
+        attempts: task.attempts,
+        startedAt: task.startedAt,
+        heartbeatAt: task.heartbeatAt,
+      },
+    });
+
+    this.logger.warn(`Task ${task.id} (${task.type}) stuck in ${task.status}: ${message}`);
+
+    if (task.status === JobStatus.Cancelling) {
+      await this.queueService.confirmCancellation(task.id, true);
+      return;
+    }
+
+    await this.processor.failAttempt(task, message);
+  }
+}
@@ -0,0 +1,179 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { Job, JobStatus } from '../../../common/src/types/common';
+import { TASK_STORE, TaskTypeLimits } from '../storage/task-store.interface';
+import type { TaskStore } from '../storage/task-store.interface';
+import { LeaseService } from '../services/lease.service';
+import { QueueService } from '../services/queue.service';
+import { parseTaskTypeLimits } from './task-limits';
+
+/**
+ * Where the limits of a task type come from
+ */
+export type TaskTypeLimitsSource = 'runtime' | 'config' | 'none';
+
+/**
+ * Limits of a task type together with its current load
+ */
+export interface TaskTypeLimitsStatus {
+  type: string;
+  limits: TaskTypeLimits;
+  source: TaskTypeLimitsSource;
+  /** Tasks of the type running now */
+  running: number;
+  /** Tasks of the type waiting in the queue */
+  queued: number;
+}
+
+/**
+ * Outcome of asking to start a task
+ */
+export interface ThrottleDecision {
+  allowed: boolean;
+  /** Limit that stopped the task */
+  reason?: 'concurrency' | 'rate';
+  /** How long until a rate limit token is available; 0 when waiting for a free slot */
+  retryAfterMs?: number;
+}
+
+/**
+ * Task Throttle Service
+ * Applies per-type concurrency caps and token-bucket rate limits before a task is started.
+ * Slots and buckets live in the shared LockStore, so limits hold across all worker replicas.
+ *
+ * Limits set at runtime (stored in the TaskStore) take precedence over WORKER_TYPE_LIMITS, a
+ * JSON map of task type to limits. Types without limits are never throttled.
+ */
+@Injectable()
+export class TaskThrottleService {
+  private readonly logger = new Logger(TaskThrottleService.name);
+  private readonly configuredLimits: Map<string, TaskTypeLimits>;
+
+  private slots: Map<string, { type: string; slot: number }> = new Map();
+
+  constructor(
+    @Inject(TASK_STORE) private readonly store: TaskStore,
+    private readonly leaseService: LeaseService,
+    private readonly queueService: QueueService,
+  ) {
+    this.configuredLimits = parseTaskTypeLimits(process.env.WORKER_TYPE_LIMITS);
+  }
+
+  /**
+   * Get the limits of a task type with the number of running and queued tasks
+   * @param type - The task type
+   */
+  async getStatus(type: string): Promise<TaskTypeLimitsStatus> {
+    const { limits, source } = await this.resolveLimits(type);
+    const tasks = (await this.queueService.getAllTasks()).filter((task) => task.type === type);
+    const countOf = (...statuses: JobStatus[]) => tasks.filter((task) => statuses.includes(task.status)).length;
+
+    return {
+      type,
+      limits,
+      source,
+      running: countOf(JobStatus.Processing, JobStatus.Cancelling),
+      queued: countOf(JobStatus.Pending, JobStatus.Retrying),
+    };
+  }
+
+  /**
+   * Replace the limits of a task type at runtime. Tasks already running are not affected.
+   * @param type - The task type
+   * @param limits - The new limits; omitted fields are unlimited
+   * @returns The limits now in effect
+   */
+  async setLimits(type: string, limits: TaskTypeLimits): Promise<TaskTypeLimitsStatus> {
+    await this.store.saveTypeLimits(type, {
+      maxConcurrency: limits.maxConcurrency,
+      rateLimit: limits.rateLimit && { limit: limits.rateLimit.limit, intervalMs: limits.rateLimit.intervalMs },
+    });
+
+    this.logger.log(`Limits of task type ${type} set to ${JSON.stringify(limits)}`);
+
+    return this.getStatus(type);
+  }
+
+  /**
+   * Remove the runtime limits of a task type, falling back to the configured ones
+   * @param type - The task type
+   * @returns The limits now in effect
+   */
+  async resetLimits(type: string): Promise<TaskTypeLimitsStatus> {
+    await this.store.deleteTypeLimits(type);
+
+    this.logger.log(`Runtime limits of task type ${type} removed`);
+
+    return this.getStatus(type);
+  }
+
+  /**
+   * Take a concurrency slot and a rate limit token for a task about to start
+   * @param task - The task to start
+   * @returns Whether the task may start, and if not, how long to wait before trying again
+   */
+  async acquire(task: Job): Promise<ThrottleDecision> {
+    const { limits } = await this.resolveLimits(task.type);
+
+    if (limits.maxConcurrency !== undefined) {
+      const slot = await this.leaseService.acquireSlot(task.type, limits.maxConcurrency, task.id);
+
+      if (slot === undefined) {
+        return { allowed: false, reason: 'concurrency', retryAfterMs: 0 };
+      }
+
+      this.slots.set(task.id, { type: task.type, slot });
+    }
+
+    if (limits.rateLimit) {
+      const retryAfterMs = await this.leaseService.consumeToken(
+        task.type,
+        limits.rateLimit.limit,
+        limits.rateLimit.intervalMs,
+      );
+
+      if (retryAfterMs > 0) {
+        await this.release(task.id);
+        return { allowed: false, reason: 'rate', retryAfterMs };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Extend the concurrency slot of a running task
+   * @param taskId - The unique identifier of the task
+   */
+  async renew(taskId: string): Promise<void> {
+    const held = this.slots.get(taskId);
+
+    if (held && !(await this.leaseService.renewSlot(held.type, held.slot, taskId))) {
+      this.logger.warn(`Concurrency slot of task ${taskId} (${held.type}) expired`);
+    }
+  }
+
+  /**
+   * Free the concurrency slot of a task that stopped running
+   * @param taskId - The unique identifier of the task
+   */
+  async release(taskId: string): Promise<void> {
+    const held = this.slots.get(taskId);
+
+    if (held) {
+      this.slots.delete(taskId);
+      await this.leaseService.releaseSlot(held.type, held.slot, taskId);
+    }
+  }
+
+  private async resolveLimits(type: string): Promise<{ limits: TaskTypeLimits; source: TaskTypeLimitsSource }> {
+    const runtime = await this.store.getTypeLimits(type);
+
+    if (runtime) {
+      return { limits: runtime, source: 'runtime' };
+    }
+
+    const configured = this.configuredLimits.get(type);
+
+    return configured ? { limits: configured, source: 'config' } : { limits: {}, source: 'none' };
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Attempt timeout used when neither the task, the configuration nor the handler defines one
+ */
+export const DEFAULT_TASK_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Parse per-type attempt timeouts from a JSON object keyed by task type,
+ * e.g. `{"export":600000,"email":30000}`
+ * @param json - The raw configuration value
+ * @returns Map of task type to timeout in milliseconds
+ * @throws Error if the configuration is not valid
+ */
+export function parseTaskTimeouts(json: string | undefined): Map<string, number> {
+  const timeouts = new Map<string, number>();
+
+  if (!json) {
+    return timeouts;
+  }
+
+  const parsed = JSON.parse(json) as Record<string, number>;
+
+  for (const [type, timeoutMs] of Object.entries(parsed)) {
+    if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+      throw new Error(`Invalid timeout for task type "${type}"`);
+    }
+    timeouts.set(type, timeoutMs);
+  }
+
+  return timeouts;
+}
@@ -0,0 +1,253 @@
+/**
+ * Cron aliases and the 5-field expressions they expand to
+ */
+const CRON_ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Value of the first entry in `names` */
+  namesOffset?: number;
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  // 7 is accepted as an alias for Sunday and folded into 0
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesOffset: 0 },
+];
+
+/**
+ * How far ahead next() searches before deciding an expression never fires (e.g. `0 0 31 2 *`)
+ */
+const MAX_SEARCH_YEARS = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Cron Expression
+ * Parses standard 5-field cron expressions (`minute hour day-of-month month day-of-week`)
+ * with lists, ranges, steps, month/day names and the `@hourly`, `@daily`, `@weekly`,
+ * `@monthly` and `@yearly` aliases, and computes fire times in an IANA timezone.
+ *
+ * As in Vixie cron, when both day-of-month and day-of-week are restricted a day matches
+ * if either field matches.
+ */
+export class CronExpression {
+  private constructor(
+    readonly expression: string,
+    readonly timezone: string,
+    private readonly minutes: Set<number>,
+    private readonly hours: Set<number>,
+    private readonly daysOfMonth: Set<number>,
+    private readonly months: Set<number>,
+    private readonly daysOfWeek: Set<number>,
+    private readonly dayOfMonthRestricted: boolean,
+    private readonly dayOfWeekRestricted: boolean,
+  ) {}
+
+  /**
+   * Parse a cron expression
+   * @param expression - 5-field expression or alias
+   * @param timezone - IANA timezone the expression is evaluated in (default: UTC)
+   * @returns The parsed expression
+   * @throws Error if the expression or timezone is invalid
+   */
+  static parse(expression: string, timezone: string = 'UTC'): CronExpression {
+    if (!CronExpression.isValidTimezone(timezone)) {
+      throw new Error(`Unknown timezone: ${timezone}`);
+    }
+
+    const trimmed = expression.trim();
+    const expanded = CRON_ALIASES[trimmed.toLowerCase()] ?? trimmed;
+    const fields = expanded.split(/\s+/);
+
+    if (fields.length !== 5) {
+      throw new Error(`Cron expression must have 5 fields, got ${fields.length}: "${expression}"`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+      CronExpression.parseField(field, FIELD_SPECS[index]),
+    );
+
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+
+    return new CronExpression(
+      trimmed,
+      timezone,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      !fields[2].startsWith('*'),
+      !fields[4].startsWith('*'),
+    );
+  }
+
+  /**
+   * Check whether a timezone name is supported by the runtime
+   * @param timezone - IANA timezone name
+   * @returns True if the timezone can be used
+   */
+  static isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Compute the next fire time strictly after a given instant
+   * @param after - Instant to search from (default: now)
+   * @returns The next fire time, or undefined if the expression never fires
+   */
+  next(after: Date = new Date()): Date | undefined {
+    // Work on wall-clock time in the job's timezone, stored in a UTC-based Date
+    const start = this.toWallClock(after);
+    let wall = Math.floor(start / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+    const limitYear = new Date(start).getUTCFullYear() + MAX_SEARCH_YEARS;
+
+    while (new Date(wall).getUTCFullYear() <= limitYear) {
+      const d = new Date(wall);
+      const year = d.getUTCFullYear();
+      const month = d.getUTCMonth();
+      const day = d.getUTCDate();
+      const hour = d.getUTCHours();
+
+      if (!this.months.has(month + 1)) {
+        wall = Date.UTC(year, month + 1, 1);
+      } else if (!this.matchesDay(d)) {
+        wall = Date.UTC(year, month, day + 1);
+      } else if (!this.hours.has(hour)) {
+        wall = Date.UTC(year, month, day, hour + 1);
+      } else if (!this.minutes.has(d.getUTCMinutes())) {
+        wall += MINUTE_MS;
+      } else {
+        const instant = this.fromWallClock(wall);
+        // Wall-clock times repeated by a DST change can map to an instant we already passed
+        if (instant > after.getTime()) {
+          return new Date(instant);
+        }
+        wall += MINUTE_MS;
+      }
+    }
+
+    return undefined;
+  }
+
+  private matchesDay(wall: Date): boolean {
+    const domMatch = this.daysOfMonth.has(wall.getUTCDate());
+    const dowMatch = this.daysOfWeek.has(wall.getUTCDay());
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return domMatch || dowMatch;
+    }
+
+    return domMatch && dowMatch;
+  }
+
+  /**
+   * Offset of the job's timezone from UTC at a given instant, in milliseconds
+   */
+  private getOffset(instant: number): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(new Date(instant));
+
+    const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+    return asUtc - Math.floor(instant / 1000) * 1000;
+  }
+
+  private toWallClock(instant: Date): number {
+    return instant.getTime() + this.getOffset(instant.getTime());
+  }
+
+  private fromWallClock(wall: number): number {
+    const guess = wall - this.getOffset(wall);
+    const offset = this.getOffset(guess);
+    return wall - offset;
+  }
+
+  private static parseField(field: string, spec: FieldSpec): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+      const [rangePart, stepPart, ...rest] = part.split('/');
+
+      if (rest.length > 0 || rangePart === '') {
+        throw new Error(`Invalid ${spec.name} field: "${field}"`);
+      }
+
+      const step = stepPart === undefined ? 1 : Number(stepPart);
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid step in ${spec.name} field: "${field}"`);
+      }
+
+      let from: number;
+      let to: number;
+
+      if (rangePart === '*') {
+        from = spec.min;
+        to = spec.max;
+      } else if (rangePart.includes('-')) {
+        const [start, end] = rangePart.split('-');
+        from = CronExpression.parseValue(start, spec);
+        to = CronExpression.parseValue(end, spec);
+      } else {
+        from = CronExpression.parseValue(rangePart, spec);
+        // "5/15" means every 15 starting at 5
+        to = stepPart === undefined ? from : spec.max;
+      }
+
+      if (from > to) {
+        throw new Error(`Invalid range in ${spec.name} field: "${field}"`);
+      }
+
+      for (let value = from; value <= to; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+
+  private static parseValue(value: string, spec: FieldSpec): number {
+    const nameIndex = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+    const parsed = nameIndex >= 0 ? nameIndex + (spec.namesOffset ?? 0) : Number(value);
+
+    if (value === '' || !Number.isInteger(parsed) || parsed < spec.min || parsed > spec.max) {
+      throw new Error(`Invalid ${spec.name} value "${value}" (expected ${spec.min}-${spec.max})`);
+    }
+
+    return parsed;
+  }
+}
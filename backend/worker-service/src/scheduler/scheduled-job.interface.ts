@@ -0,0 +1,93 @@
+/**
+ * Job status enum
+ */
+export enum JobScheduleStatus {
+  Active = 'active',
+  Paused = 'paused',
+  Failed = 'failed',
+}
+
+/**
+ * Job run status enum
+ */
+export enum JobRunStatus {
+  Pending = 'pending',
+  Running = 'running',
+  Completed = 'completed',
+  Failed = 'failed',
+  Cancelled = 'cancelled',
+  /** Waiting for an earlier run to finish (overlap policy `queue`) */
+  Queued = 'queued',
+  /** Not run because of the job's misfire or overlap policy */
+  Skipped = 'skipped',
+}
+
+/**
+ * What the scheduler does with runs whose time passed while it was not running (or a tick
+ * came too late)
+ */
+export enum MisfirePolicy {
+  /** Drop missed runs; only a run that is still within the grace period fires */
+  Skip = 'skip',
+  /** Fire a single run in place of all missed runs */
+  RunOnce = 'run-once',
+  /** Fire every missed run, oldest first */
+  RunAllMissed = 'run-all-missed',
+}
+
+/**
+ * What the scheduler does when a run is due while an earlier run of the job is unfinished
+ */
+export enum OverlapPolicy {
+  /** Start the new run anyway */
+  Allow = 'allow',
+  /** Record the new run as skipped */
+  SkipIfRunning = 'skip-if-running',
+  /** Start the new run once the earlier runs have finished */
+  Queue = 'queue',
+}
+
+/**
+ * One firing of a scheduled job and the outcome of the task it enqueued
+ */
+export interface JobRun {
+  id: string;
+  jobId: string;
+  /** Task enqueued by the run; absent when it could not be enqueued */
+  taskId?: string;
+  status: JobRunStatus;
+  /** When the schedule fired */
+  scheduledAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  /** Time from start to finish of the task in milliseconds */
+  durationMs?: number;
+  error?: string;
+  /** Why the run was skipped or queued */
+  reason?: string;
+}
+
+/**
+ * Scheduled job interface
+ */
+export interface ScheduledJob {
+  id: string;
+  name: string;
+  type: string;
+  /** 5-field cron expression or alias such as `@daily` */
+  schedule: string;
+  /** IANA timezone the schedule is evaluated in */
+  timezone: string;
+  payload: Record<string, unknown>;
+  status: JobScheduleStatus;
+  misfirePolicy: MisfirePolicy;
+  overlapPolicy: OverlapPolicy;
+  /** Runs that failed in a row since the last successful run or resume */
+  consecutiveFailures: number;
+  /** Last run before the job was resumed from `failed`; failures up to it no longer count */
+  failureResetAt?: Date;
+  lastRun?: Date;
+  nextRun?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
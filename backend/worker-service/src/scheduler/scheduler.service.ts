@@ -0,0 +1,721 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Job, JobStatus } from '../../../common/src/types/common';
+import { QueueService } from '../services/queue.service';
+import { LeaseService } from '../services/lease.service';
+import { TASK_STORE } from '../storage/task-store.interface';
+import type { TaskStore } from '../storage/task-store.interface';
+import { CreateJobDto } from '../dto/job.dto';
+import { CronExpression } from './cron-expression';
+import {
+  ScheduledJob,
+  JobScheduleStatus,
+  JobRun,
+  JobRunStatus,
+  MisfirePolicy,
+  OverlapPolicy,
+} from './scheduled-job.interface';
+
+const FINISHED_RUN_STATUSES = [
+  JobRunStatus.Completed,
+  JobRunStatus.Failed,
+  JobRunStatus.Cancelled,
+  JobRunStatus.Skipped,
+];
+const UNFINISHED_RUN_STATUSES = [JobRunStatus.Pending, JobRunStatus.Running, JobRunStatus.Queued];
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Scheduler Service
+ * Owns the scheduled jobs and enqueues a task into QueueService each time a job's
+ * cron schedule fires.
+ *
+ * Configuration:
+ * - WORKER_SCHEDULER_INTERVAL_MS: how often due jobs are checked (default: 1000)
+ * - WORKER_SCHEDULER_TIMEZONE: timezone for jobs created without one (default: UTC)
+ * - WORKER_SCHEDULER_ENABLED: set to "false" to stop jobs from firing on this instance
+ * - WORKER_JOB_RUN_HISTORY: runs kept per job (default: 100)
+ * - WORKER_JOB_FAILURE_THRESHOLD: failed runs in a row after which a job moves to `failed` and
+ *   stops firing until resumed (default: 3, 0 never stops a job)
+ * - WORKER_JOB_MISFIRE_GRACE_MS: how late a run may fire before it counts as missed (default: 60000)
+ * - WORKER_JOB_MAX_CATCH_UP: most missed runs fired at once under `run-all-missed` (default: 100)
+ *
+ * Jobs and their runs are kept in the TaskStore, so every replica serves the same jobs through
+ * the API. Every firing is recorded as a run, linked to the task it enqueued, and completed with
+ * the task's outcome once the task finishes. A job keeps its next run in the store, so runs missed
+ * while no scheduler was running are due on the next tick and handled by the job's misfire
+ * policy; a run that is due while an earlier one is unfinished follows its overlap policy.
+ *
+ * When several replicas run, only the `scheduler` leader fires jobs, so each run produces one task.
+ * The leader loads the jobs from the store on every tick, so changes made through any replica
+ * apply from the next tick and survive a change of leader.
+ */
+@Injectable()
+export class SchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly tickIntervalMs: number;
+  private readonly defaultTimezone: string;
+  private readonly runHistoryLimit: number;
+  private readonly failureThreshold: number;
+  private readonly misfireGraceMs: number;
+  private readonly maxCatchUp: number;
+
+  private expressions: Map<string, CronExpression> = new Map();
+  private tickTimer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(
+    @Inject(TASK_STORE) private readonly store: TaskStore,
+    private readonly queueService: QueueService,
+    private readonly leaseService: LeaseService,
+  ) {
+    this.tickIntervalMs = parseInt(process.env.WORKER_SCHEDULER_INTERVAL_MS || '1000', 10);
+    this.defaultTimezone = process.env.WORKER_SCHEDULER_TIMEZONE || 'UTC';
+    this.runHistoryLimit = parseInt(process.env.WORKER_JOB_RUN_HISTORY || '100', 10);
+    this.failureThreshold = parseInt(process.env.WORKER_JOB_FAILURE_THRESHOLD || '3', 10);
+    this.misfireGraceMs = parseInt(process.env.WORKER_JOB_MISFIRE_GRACE_MS || '60000', 10);
+    this.maxCatchUp = parseInt(process.env.WORKER_JOB_MAX_CATCH_UP || '100', 10);
+
+    this.queueService.onTaskFinished((task) => this.handleTaskFinished(task));
+  }
+
+  async onModuleInit(): Promise<void> {
+    // Initialize with some sample data for demonstration
+    await this.initializeSampleJobs();
+
+    if (process.env.WORKER_SCHEDULER_ENABLED === 'false') {
+      this.logger.warn('Scheduler disabled by WORKER_SCHEDULER_ENABLED=false');
+      return;
+    }
+
+    this.start();
+  }
+
+  onModuleDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Start checking for due jobs
+   */
+  start(): void {
+    if (this.tickTimer) {
+      return;
+    }
+
+    this.tickTimer = setInterval(() => {
+      this.tick().catch((error) => this.logger.error(`Scheduler tick failed: ${error.message}`));
+    }, this.tickIntervalMs);
+
+    this.logger.log(`Scheduler started, checking for due jobs every ${this.tickIntervalMs}ms`);
+  }
+
+  /**
+   * Stop checking for due jobs
+   */
+  stop(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = undefined;
+      this.logger.log('Scheduler stopped');
+    }
+  }
+
+  /**
+   * Enqueue a task for every active job whose next run is due, if this replica is the leader
+   * @param now - The current time
+   * @returns The jobs that fired
+   */
+  async tick(now: Date = new Date()): Promise<ScheduledJob[]> {
+    if (this.ticking) {
+      return [];
+    }
+
+    if (!(await this.leaseService.holdLeadership('scheduler'))) {
+      return [];
+    }
+
+    this.ticking = true;
+    const fired: ScheduledJob[] = [];
+
+    try {
+      for (const job of await this.store.getScheduledJobs()) {
+        if (job.status !== JobScheduleStatus.Active) {
+          continue;
+        }
+
+        if (job.overlapPolicy === OverlapPolicy.Queue) {
+          await this.startQueuedRun(job, now);
+        }
+
+        if (!job.nextRun || job.nextRun > now) {
+          continue;
+        }
+
+        // Runs may have failed (or fired) on other replicas since this replica last looked
+        const runs = await this.resolveRuns(job.id);
+
+        if ((await this.refreshFailures(job, now, runs))?.status === JobScheduleStatus.Active) {
+          const updated = await this.runDueSlots(job, runs, now);
+
+          if (updated) {
+            fired.push(updated);
+          }
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+
+    return fired;
+  }
+
+  /**
+   * Create a new scheduled job
+   * @param dto - Job name, task type, schedule, payload, optional timezone and policies
+   * @returns The created job with its first run time
+   * @throws BadRequestException if the schedule, timezone or payload is invalid
+   */
+  async createJob(dto: CreateJobDto): Promise<ScheduledJob> {
+    const timezone = dto.timezone || this.defaultTimezone;
+    const expression = this.parseSchedule(dto.schedule, timezone);
+    this.queueService.validatePayload(dto.type, dto.payload ?? {});
+    const now = new Date();
+
+    const job: ScheduledJob = {
+      id: randomUUID(),
+      name: dto.name,
+      type: dto.type,
+      schedule: expression.expression,
+      timezone,
+      payload: dto.payload ?? {},
+      status: JobScheduleStatus.Active,
+      misfirePolicy: dto.misfirePolicy ?? MisfirePolicy.RunOnce,
+      overlapPolicy: dto.overlapPolicy ?? OverlapPolicy.Allow,
+      consecutiveFailures: 0,
+      createdAt: now,
+      updatedAt: now,
+      nextRun: expression.next(now),
+    };
+
+    await this.store.saveScheduledJob(job);
+    this.expressions.set(job.id, expression);
+
+    this.logger.log(`Scheduled job ${job.id} (${job.name}) created, next run at ${job.nextRun?.toISOString()}`);
+
+    return job;
+  }
+
+  /**
+   * Get all scheduled jobs
+   * @returns Array of all jobs
+   */
+  async getJobs(): Promise<ScheduledJob[]> {
+    return this.store.getScheduledJobs();
+  }
+
+  /**
+   * Get a scheduled job by ID
+   * @param jobId - The unique identifier of the job
+   * @returns The job
+   * @throws NotFoundException if job doesn't exist
+   */
+  async getJob(jobId: string): Promise<ScheduledJob> {
+    const job = await this.store.getScheduledJob(jobId);
+
+    if (!job) {
+      throw new NotFoundException(`Job with ID ${jobId} not found`);
+    }
+
+    return job;
+  }
+
+  /**
+   * Get the runs of a scheduled job with the current state of their tasks
+   * @param jobId - The unique identifier of the job
+   * @param limit - Maximum number of runs to return
+   * @returns Runs, newest first
+   * @throws NotFoundException if job doesn't exist
+   */
+  async getJobRuns(jobId: string, limit: number = this.runHistoryLimit): Promise<JobRun[]> {
+    await this.getJob(jobId);
+
+    return this.resolveRuns(jobId, limit);
+  }
+
+  /**
+   * Pause a scheduled job so it stops firing
+   * @param jobId - The unique identifier of the job
+   * @returns The updated job
+   * @throws NotFoundException if job doesn't exist
+   * @throws BadRequestException if job is already paused
+   */
+  async pauseJob(jobId: string): Promise<ScheduledJob> {
+    const job = await this.getJob(jobId);
+
+    if (job.status === JobScheduleStatus.Paused) {
+      throw new BadRequestException('Job is already paused');
+    }
+
+    return this.saveJob({
+      ...job,
+      status: JobScheduleStatus.Paused,
+      nextRun: undefined,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Resume a paused or failed job. Runs missed in the meantime are skipped, and the failures
+   * that stopped a failed job no longer count towards the threshold.
+   * @param jobId - The unique identifier of the job
+   * @returns The updated job with its next run time
+   * @throws NotFoundException if job doesn't exist
+   * @throws BadRequestException if job is active
+   */
+  async resumeJob(jobId: string): Promise<ScheduledJob> {
+    const job = await this.getJob(jobId);
+
+    if (job.status === JobScheduleStatus.Active) {
+      throw new BadRequestException('Job is not paused or failed');
+    }
+
+    const now = new Date();
+    const failed = job.status === JobScheduleStatus.Failed;
+
+    return this.saveJob({
+      ...job,
+      status: JobScheduleStatus.Active,
+      consecutiveFailures: failed ? 0 : job.consecutiveFailures,
+      failureResetAt: failed && job.lastRun ? job.lastRun : job.failureResetAt,
+      nextRun: this.getExpression(job).next(now),
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Delete a scheduled job and its run history
+   * @param jobId - The unique identifier of the job
+   * @throws NotFoundException if job doesn't exist
+   */
+  async deleteJob(jobId: string): Promise<void> {
+    await this.getJob(jobId);
+
+    await this.store.deleteScheduledJob(jobId);
+    this.expressions.delete(jobId);
+
+    this.logger.log(`Scheduled job ${jobId} deleted`);
+  }
+
+  /**
+   * Run the due slots of a job as its misfire and overlap policies allow and move its schedule
+   * forward
+   * @param runs - The job's runs, newest first
+   * @returns The updated job, or undefined if another replica already ran the due slot or the job
+   *   was deleted meanwhile
+   */
+  private async runDueSlots(job: ScheduledJob, runs: JobRun[], now: Date): Promise<ScheduledJob | undefined> {
+    const expression = this.getExpression(job);
+    const [latestRun] = runs;
+    const first =
+      latestRun && job.nextRun && latestRun.scheduledAt >= job.nextRun
+        ? expression.next(latestRun.scheduledAt)
+        : job.nextRun;
+
+    if (!first || first > now) {
+      await this.updateJob(job.id, (current) => ({ ...current, lastRun: latestRun?.scheduledAt, nextRun: first }));
+      return undefined;
+    }
+
+    const latest = this.latestSlot(expression, first, now);
+    const onTime = now.getTime() - latest.getTime() <= this.misfireGraceMs;
+    const slots: Date[] = [];
+
+    if (job.misfirePolicy === MisfirePolicy.RunAllMissed) {
+      for (let slot: Date | undefined = first; slot && slot < latest && slots.length < this.maxCatchUp; slot = expression.next(slot)) {
+        slots.push(slot);
+      }
+    }
+    if (onTime || job.misfirePolicy !== MisfirePolicy.Skip) {
+      slots.push(latest);
+    } else {
+      await this.saveRun({
+        ...this.newRun(job, latest),
+        status: JobRunStatus.Skipped,
+        finishedAt: now,
+        reason: 'Missed its scheduled time',
+      });
+    }
+
+    if (first < latest || !onTime) {
+      this.logger.warn(
+        `Scheduled job ${job.id} (${job.name}) missed runs since ${first.toISOString()}, ` +
+          `handled by misfire policy ${job.misfirePolicy}`,
+      );
+    }
+
+    let busy = runs.some((run) => UNFINISHED_RUN_STATUSES.includes(run.status));
+    let failed = false;
+
+    for (const slot of slots) {
+      const run = this.newRun(job, slot);
+
+      if (busy && job.overlapPolicy === OverlapPolicy.SkipIfRunning) {
+        await this.saveRun({
+          ...run,
+          status: JobRunStatus.Skipped,
+          finishedAt: now,
+          reason: 'Previous run still unfinished',
+        });
+      } else if (busy && job.overlapPolicy === OverlapPolicy.Queue) {
+        await this.saveRun({ ...run, status: JobRunStatus.Queued, reason: 'Waiting for the previous run to finish' });
+      } else {
+        const started = await this.startRun(job, run, now);
+        failed = failed || started.status === JobRunStatus.Failed;
+        busy = busy || started.status !== JobRunStatus.Failed;
+      }
+    }
+
+    const updated = await this.updateJob(job.id, (current) => ({
+      ...current,
+      lastRun: now,
+      nextRun: expression.next(now),
+      updatedAt: now,
+    }));
+
+    return updated && failed ? this.refreshFailures(updated, now) : updated;
+  }
+
+  /**
+   * Start the oldest queued run of a job once none of its other runs is unfinished
+   */
+  private async startQueuedRun(job: ScheduledJob, now: Date): Promise<void> {
+    const runs = await this.resolveRuns(job.id);
+
+    if (runs.some((run) => run.status === JobRunStatus.Pending || run.status === JobRunStatus.Running)) {
+      return;
+    }
+
+    const queued = runs.filter((run) => run.status === JobRunStatus.Queued).pop();
+
+    if (queued) {
+      const started = await this.startRun(job, { ...queued, status: JobRunStatus.Pending, reason: undefined }, now);
+
+      if (started.status === JobRunStatus.Failed) {
+        await this.refreshFailures(job, now);
+      }
+    }
+  }
+
+  /**
+   * Enqueue the task of a run and record the run
+   * @returns The recorded run, `failed` if the task could not be enqueued
+   */
+  private async startRun(job: ScheduledJob, run: JobRun, now: Date): Promise<JobRun> {
+    try {
+      const task = await this.queueService.createTask(
+        { type: job.type, payload: { ...job.payload } },
+        { scheduledJobId: job.id, jobRunId: run.id },
+      );
+      run = { ...run, taskId: task.id };
+
+      await this.queueService.addLog(task.id, {
+        timestamp: now,
+        level: 'info',
+        message: `Task scheduled by job: ${job.name}`,
+        metadata: {
+          scheduledJobId: job.id,
+          jobRunId: run.id,
+          scheduledAt: run.scheduledAt,
+          schedule: job.schedule,
+          timezone: job.timezone,
+        },
+      });
+
+      this.logger.log(`Scheduled job ${job.id} (${job.name}) enqueued task ${task.id}`);
+    } catch (error) {
+      // The schedule still advances so a broken job doesn't fire on every tick
+      const message = (error as Error).message;
+      run = { ...run, status: JobRunStatus.Failed, finishedAt: now, durationMs: 0, error: message };
+      this.logger.error(`Scheduled job ${job.id} (${job.name}) failed to enqueue: ${message}`);
+    }
+
+    await this.saveRun(run);
+
+    return run;
+  }
+
+  private newRun(job: ScheduledJob, scheduledAt: Date): JobRun {
+    return { id: randomUUID(), jobId: job.id, status: JobRunStatus.Pending, scheduledAt };
+  }
+
+  /**
+   * Latest slot of a schedule at or before `now`. Searches back in doubling windows, so a long
+   * outage doesn't mean stepping through every missed slot.
+   * @param first - The first due slot
+   */
+  private latestSlot(expression: CronExpression, first: Date, now: Date): Date {
+    let slot = first;
+
+    for (let window = MINUTE_MS; now.getTime() - window > first.getTime(); window *= 2) {
+      const candidate = expression.next(new Date(now.getTime() - window));
+
+      if (candidate && candidate <= now) {
+        slot = candidate;
+        break;
+      }
+    }
+
+    for (let next = expression.next(slot); next && next <= now; next = expression.next(next)) {
+      slot = next;
+    }
+
+    return slot;
+  }
+
+  /**
+   * Complete the run that enqueued a finished task
+   */
+  private async handleTaskFinished(task: Job): Promise<void> {
+    if (!task.scheduledJobId || !task.jobRunId) {
+      return;
+    }
+
+    const run = await this.store.getJobRun(task.scheduledJobId, task.jobRunId);
+
+    if (!run) {
+      return;
+    }
+
+    await this.store.saveJobRun(this.applyTaskState(run, task));
+
+    const job = await this.store.getScheduledJob(task.scheduledJobId);
+
+    if (job) {
+      await this.refreshFailures(job, new Date());
+    }
+  }
+
+  /**
+   * Store a new run and drop the oldest runs beyond the history limit
+   */
+  private async saveRun(run: JobRun): Promise<void> {
+    await this.store.saveJobRun(run);
+
+    const runs = await this.store.getJobRuns(run.jobId);
+
+    if (runs.length > this.runHistoryLimit) {
+      await this.store.deleteJobRuns(
+        run.jobId,
+        runs.slice(this.runHistoryLimit).map((old) => old.id),
+      );
+    }
+  }
+
+  /**
+   * Get the stored runs of a job, newest first, with unfinished runs brought up to date with
+   * their tasks
+   */
+  private async resolveRuns(jobId: string, limit: number = this.runHistoryLimit): Promise<JobRun[]> {
+    const runs = await this.store.getJobRuns(jobId);
+
+    return Promise.all(runs.slice(0, limit).map((run) => this.resolveRun(run)));
+  }
+
+  /**
+   * Bring an unfinished run up to date with its task
+   */
+  private async resolveRun(run: JobRun): Promise<JobRun> {
+    if (FINISHED_RUN_STATUSES.includes(run.status) || !run.taskId) {
+      return run;
+    }
+
+    const task = await this.queueService.getTask(run.taskId);
+
+    return task ? this.applyTaskState(run, task) : run;
+  }
+
+  private applyTaskState(run: JobRun, task: Job): JobRun {
+    const statusMap: Record<JobStatus, JobRunStatus> = {
+      [JobStatus.Pending]: JobRunStatus.Pending,
+      [JobStatus.Processing]: JobRunStatus.Running,
+      [JobStatus.Retrying]: JobRunStatus.Running,
+      [JobStatus.Cancelling]: JobRunStatus.Running,
+      [JobStatus.Completed]: JobRunStatus.Completed,
+      [JobStatus.Failed]: JobRunStatus.Failed,
+      [JobStatus.Cancelled]: JobRunStatus.Cancelled,
+    };
+    const status = statusMap[task.status];
+    const finishedAt = !FINISHED_RUN_STATUSES.includes(status)
+      ? undefined
+      : status === JobRunStatus.Failed
+        ? task.failedAt
+        : task.completedAt;
+
+    return {
+      ...run,
+      status,
+      startedAt: task.startedAt,
+      finishedAt,
+      durationMs: finishedAt && task.startedAt ? finishedAt.getTime() - task.startedAt.getTime() : undefined,
+      error: status === JobRunStatus.Failed ? task.error : undefined,
+    };
+  }
+
+  /**
+   * Count the job's failed runs since its last successful run (or resume) and stop the job once
+   * the count reaches the failure threshold
+   * @param runs - The job's runs, newest first; fetched when omitted
+   * @returns The updated job, or undefined if it was deleted meanwhile
+   */
+  private async refreshFailures(
+    job: ScheduledJob,
+    now: Date,
+    runs?: JobRun[],
+  ): Promise<ScheduledJob | undefined> {
+    const resetAt = job.failureResetAt;
+    let consecutiveFailures = 0;
+
+    for (const run of runs ?? (await this.resolveRuns(job.id))) {
+      if (run.status === JobRunStatus.Completed || (resetAt && run.scheduledAt <= resetAt)) {
+        break;
+      }
+      if (run.status === JobRunStatus.Failed) {
+        consecutiveFailures++;
+      }
+    }
+
+    return this.updateJob(job.id, (current) => {
+      const stop =
+        current.status === JobScheduleStatus.Active &&
+        this.failureThreshold > 0 &&
+        consecutiveFailures >= this.failureThreshold;
+
+      if (!stop) {
+        return { ...current, consecutiveFailures };
+      }
+
+      this.logger.error(
+        `Scheduled job ${job.id} (${job.name}) stopped after ${consecutiveFailures} failed runs in a row`,
+      );
+
+      return {
+        ...current,
+        consecutiveFailures,
+        status: JobScheduleStatus.Failed,
+        nextRun: undefined,
+        updatedAt: now,
+      };
+    });
+  }
+
+  /**
+   * Apply a change to the stored version of a job, which may have been paused, resumed or deleted
+   * through another replica since it was loaded
+   * @returns The updated job, or undefined if the job was deleted
+   */
+  private async updateJob(
+    jobId: string,
+    change: (current: ScheduledJob) => ScheduledJob,
+  ): Promise<ScheduledJob | undefined> {
+    const current = await this.store.getScheduledJob(jobId);
+
+    return current ? this.saveJob(change(current)) : undefined;
+  }
+
+  private async saveJob(job: ScheduledJob): Promise<ScheduledJob> {
+    await this.store.saveScheduledJob(job);
+    return job;
+  }
+
+  private getExpression(job: ScheduledJob): CronExpression {
+    let expression = this.expressions.get(job.id);
+
+    if (!expression) {
+      expression = CronExpression.parse(job.schedule, job.timezone);
+      this.expressions.set(job.id, expression);
+    }
+
+    return expression;
+  }
+
+  private parseSchedule(schedule: string, timezone: string): CronExpression {
+    let expression: CronExpression;
+
+    try {
+      expression = CronExpression.parse(schedule, timezone);
+    } catch (error) {
+      throw new BadRequestException(`Invalid schedule: ${(error as Error).message}`);
+    }
+
+    if (!expression.next()) {
+      throw new BadRequestException(`Invalid schedule: "${schedule}" never fires`);
+    }
+
+    return expression;
+  }
+
+  /**
+   * Initialize sample jobs for demonstration when the store holds no scheduled jobs yet
+   */
+  private async initializeSampleJobs(): Promise<void> {
+    if ((await this.store.getScheduledJobs()).length > 0) {
+      return;
+    }
+
+    const now = new Date();
+    const sampleJobs: Omit<ScheduledJob, 'timezone' | 'nextRun' | 'consecutiveFailures'>[] = [
+      {
+        id: '1',
+        name: 'Daily Backup',
+        type: 'backup',
+        schedule: '0 0 * * *',
+        payload: { target: 'database' },
+        status: JobScheduleStatus.Active,
+        misfirePolicy: MisfirePolicy.RunOnce,
+        overlapPolicy: OverlapPolicy.SkipIfRunning,
+        createdAt: new Date(Date.now() - 604800000),
+        updatedAt: new Date(Date.now() - 86400000),
+      },
+      {
+        id: '2',
+        name: 'Hourly Cleanup',
+        type: 'cleanup',
+        schedule: '0 * * * *',
+        payload: {},
+        status: JobScheduleStatus.Active,
+        misfirePolicy: MisfirePolicy.Skip,
+        overlapPolicy: OverlapPolicy.SkipIfRunning,
+        createdAt: new Date(Date.now() - 2592000000),
+        updatedAt: new Date(Date.now() - 3600000),
+      },
+      {
+        id: '3',
+        name: 'Weekly Report',
+        type: 'report',
+        schedule: '0 0 * * 1',
+        payload: { periodDays: 7, recipients: ['admin@example.com'] },
+        status: JobScheduleStatus.Active,
+        misfirePolicy: MisfirePolicy.RunOnce,
+        overlapPolicy: OverlapPolicy.Queue,
+        createdAt: new Date(Date.now() - 2592000000),
+        updatedAt: new Date(Date.now() - 86400000),
+      },
+    ];
+
+    for (const sample of sampleJobs) {
+      const job: ScheduledJob = { ...sample, timezone: this.defaultTimezone, consecutiveFailures: 0 };
+      job.nextRun = this.getExpression(job).next(now);
+      await this.store.saveScheduledJob(job);
+    }
+  }
+}
@@ -0,0 +1,278 @@
+import { Injectable, Inject, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { Job, JobStatus } from '../../../common/src/types/common';
+import {
+  TASK_STORE,
+  LogEntry,
+  DeadLetterEntry,
+  TaskAttempt,
+} from '../storage/task-store.interface';
+import type { TaskStore } from '../storage/task-store.interface';
+import { QueueService } from './queue.service';
+
+export type { DeadLetterEntry, TaskAttempt } from '../storage/task-store.interface';
+
+/**
+ * Criteria selecting dead-letter entries for bulk operations.
+ * At least one criterion (or `all`) is required so an empty request can't wipe the queue.
+ */
+export interface DeadLetterSelection {
+  taskIds?: string[];
+  type?: string;
+  errorContains?: string;
+  all?: boolean;
+}
+
+/**
+ * Filters for listing dead-letter entries. Values may arrive as query-string text.
+ */
+export interface DeadLetterFilters {
+  type?: string;
+  errorContains?: string;
+  limit?: number | string;
+  offset?: number | string;
+}
+
+/**
+ * Response for dead-letter list query
+ */
+export interface DeadLetterListResponse {
+  entries: DeadLetterEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+  byType: Record<string, number>;
+}
+
+/**
+ * Result of a bulk dead-letter operation
+ */
+export interface DeadLetterOperationResult {
+  count: number;
+  taskIds: string[];
+}
+
+/**
+ * Dead Letter Service
+ * Holds tasks that failed permanently (out of attempts, or no handler) so they can be
+ * triaged in bulk: listed, inspected, replayed or purged.
+ */
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+
+  constructor(
+    @Inject(TASK_STORE) private readonly store: TaskStore,
+    private readonly queueService: QueueService,
+  ) {}
+
+  /**
+   * Fail a task permanently and record it in the dead-letter queue
+   * @param taskId - The unique identifier of the task
+   * @param error - The final error
+   * @returns The dead-letter entry
+   * @throws NotFoundException if task doesn't exist
+   */
+  async deadLetter(taskId: string, error: string): Promise<DeadLetterEntry> {
+    const task = await this.queueService.updateTaskStatus(taskId, JobStatus.Failed, error);
+    const logs = await this.store.getLogs(taskId);
+
+    const entry: DeadLetterEntry = {
+      taskId: task.id,
+      type: task.type,
+      payload: task.payload,
+      priority: task.priority,
+      error,
+      attempts: task.attempts,
+      maxAttempts: task.maxAttempts,
+      history: this.buildAttemptHistory(logs),
+      retryPolicy: task.retryPolicy,
+      createdAt: task.createdAt,
+      deadLetteredAt: new Date(),
+    };
+
+    await this.store.saveDeadLetter(entry);
+
+    await this.queueService.addLog(taskId, {
+      timestamp: entry.deadLetteredAt,
+      level: 'error',
+      message: 'Task moved to dead-letter queue',
+      metadata: { attempts: task.attempts, maxAttempts: task.maxAttempts },
+    });
+
+    this.logger.warn(`Task ${taskId} (${task.type}) moved to dead-letter queue: ${error}`);
+
+    return entry;
+  }
+
+  /**
+   * List dead-letter entries, newest first
+   * @param filters - Type and error filters plus limit / offset
+   * @returns Matching entries with pagination info and a count per task type
+   */
+  async list(filters: DeadLetterFilters = {}): Promise<DeadLetterListResponse> {
+    const limit = Number(filters.limit ?? 50);
+    const offset = Number(filters.offset ?? 0);
+
+    if (!Number.isInteger(limit) || limit < 0 || !Number.isInteger(offset) || offset < 0) {
+      throw new BadRequestException('limit and offset must be non-negative integers');
+    }
+
+    const entries = this.filterEntries(await this.store.getDeadLetters(), filters);
+    const byType: Record<string, number> = {};
+
+    for (const entry of entries) {
+      byType[entry.type] = (byType[entry.type] ?? 0) + 1;
+    }
+
+    return {
+      entries: entries.slice(offset, offset + limit),
+      total: entries.length,
+      limit,
+      offset,
+      byType,
+    };
+  }
+
+  /**
+   * Get the dead-letter entry of a task
+   * @param taskId - The unique identifier of the task
+   * @returns The entry with its payload, final error and attempt history
+   * @throws NotFoundException if the task is not in the dead-letter queue
+   */
+  async getEntry(taskId: string): Promise<DeadLetterEntry> {
+    const entry = await this.store.getDeadLetter(taskId);
+
+    if (!entry) {
+      throw new NotFoundException(`Task with ID ${taskId} is not in the dead-letter queue`);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Put the selected tasks back in the queue with their attempts reset
+   * @param selection - Which entries to replay
+   * @returns The number and IDs of replayed tasks
+   * @throws BadRequestException if the selection has no criteria
+   */
+  async replay(selection: DeadLetterSelection): Promise<DeadLetterOperationResult> {
+    const entries = await this.select(selection);
+
+    for (const entry of entries) {
+      await this.replayEntry(entry);
+    }
+
+    this.logger.log(`Replayed ${entries.length} task(s) from the dead-letter queue`);
+
+    return { count: entries.length, taskIds: entries.map((e) => e.taskId) };
+  }
+
+  /**
+   * Remove the selected entries from the dead-letter queue. Task records are kept as failed.
+   * @param selection - Which entries to purge
+   * @returns The number and IDs of purged entries
+   * @throws BadRequestException if the selection has no criteria
+   */
+  async purge(selection: DeadLetterSelection): Promise<DeadLetterOperationResult> {
+    const entries = await this.select(selection);
+
+    for (const entry of entries) {
+      await this.store.deleteDeadLetter(entry.taskId);
+    }
+
+    this.logger.log(`Purged ${entries.length} task(s) from the dead-letter queue`);
+
+    return { count: entries.length, taskIds: entries.map((e) => e.taskId) };
+  }
+
+  private async replayEntry(entry: DeadLetterEntry): Promise<Job> {
+    // The task record may have been cleaned up; the entry carries everything needed to rebuild it
+    const existing = await this.store.getTask(entry.taskId);
+    const task = await this.queueService.enqueueTask({
+      ...(existing ?? {
+        id: entry.taskId,
+        type: entry.type,
+        payload: entry.payload,
+        priority: entry.priority,
+        maxAttempts: entry.maxAttempts,
+        retryPolicy: entry.retryPolicy,
+        createdAt: entry.createdAt,
+      }),
+      status: JobStatus.Pending,
+      attempts: 0,
+      error: undefined,
+      result: undefined,
+      progress: undefined,
+      partialResult: undefined,
+      startedAt: undefined,
+      completedAt: undefined,
+      failedAt: undefined,
+      nextRetryAt: undefined,
+    });
+    await this.store.deleteDeadLetter(entry.taskId);
+
+    await this.queueService.addLog(task.id, {
+      timestamp: new Date(),
+      level: 'info',
+      message: 'Task replayed from dead-letter queue',
+      metadata: { previousError: entry.error, previousAttempts: entry.attempts },
+    });
+
+    return task;
+  }
+
+  private async select(selection: DeadLetterSelection): Promise<DeadLetterEntry[]> {
+    const hasCriteria = Boolean(selection.taskIds?.length || selection.type || selection.errorContains);
+
+    if (!hasCriteria && !selection.all) {
+      throw new BadRequestException('Select entries by taskIds, type or errorContains, or set all to true');
+    }
+
+    let entries = this.filterEntries(await this.store.getDeadLetters(), selection);
+
+    if (selection.taskIds?.length) {
+      const ids = new Set(selection.taskIds);
+      entries = entries.filter((entry) => ids.has(entry.taskId));
+    }
+
+    return entries;
+  }
+
+  private filterEntries(
+    entries: DeadLetterEntry[],
+    filters: { type?: string; errorContains?: string },
+  ): DeadLetterEntry[] {
+    const errorNeedle = filters.errorContains?.toLowerCase();
+
+    return entries
+      .filter((entry) => !filters.type || entry.type === filters.type)
+      .filter((entry) => !errorNeedle || entry.error.toLowerCase().includes(errorNeedle))
+      .sort((a, b) => b.deadLetteredAt.getTime() - a.deadLetteredAt.getTime());
+  }
+
+  /**
+   * Rebuild the attempt history from the status-change entries in a task's log
+   */
+  private buildAttemptHistory(logs: LogEntry[]): TaskAttempt[] {
+    const history: TaskAttempt[] = [];
+    const startedAt = new Map<number, Date>();
+
+    for (const log of logs) {
+      const attempt = log.metadata?.attempts as number | undefined;
+      const status = log.metadata?.status;
+      const error = log.metadata?.error;
+
+      if (attempt === undefined) {
+        continue;
+      }
+
+      if (status === JobStatus.Processing) {
+        startedAt.set(attempt, log.timestamp);
+      } else if ((status === JobStatus.Retrying || status === JobStatus.Failed) && typeof error === 'string') {
+        history.push({ attempt, startedAt: startedAt.get(attempt), failedAt: log.timestamp, error });
+      }
+    }
+
+    return history;
+  }
+}
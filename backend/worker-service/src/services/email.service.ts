@@ -0,0 +1,200 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import {
+  EMAIL_TRANSPORT,
+  EmailAttachment,
+  EmailMessage,
+  RecipientDelivery,
+} from '../email/email-transport.interface';
+import type { EmailTransport } from '../email/email-transport.interface';
+import { EMAIL_TEMPLATES, escapeHtml, renderTemplate } from '../email/email-templates';
+import { addressOf, attachmentSize, isValidMailbox } from '../email/mime-message';
+
+/**
+ * Payload of an `email` task
+ */
+export interface SendEmailRequest {
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  /** Default: WORKER_EMAIL_FROM */
+  from?: string;
+  replyTo?: string;
+  /** Name of a built-in template; its subject and bodies are used unless given here */
+  template?: string;
+  /** Values for the `{{variables}}` of the template, subject and bodies */
+  variables?: Record<string, unknown>;
+  subject?: string;
+  text?: string;
+  html?: string;
+  /** Plain-text body; same as `text` */
+  body?: string;
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * Result of an email task
+ */
+export interface EmailDeliveryReport {
+  messageId: string;
+  transport: string;
+  subject: string;
+  recipients: RecipientDelivery[];
+  delivered: number;
+  bounced: number;
+  deferred: number;
+}
+
+/**
+ * Email Service
+ * Renders email requests into messages and delivers them through the configured EmailTransport.
+ *
+ * Configuration:
+ * - WORKER_EMAIL_FROM: sender used when a request has no `from` (default: Task Manager <noreply@task-manager.local>)
+ * - WORKER_EMAIL_MAX_ATTACHMENT_BYTES: combined size limit of a message's attachments (default: 10 MiB)
+ */
+@Injectable()
+export class EmailService {
+  private readonly logger = new Logger(EmailService.name);
+  private readonly defaultFrom: string;
+  private readonly maxAttachmentBytes: number;
+
+  constructor(@Inject(EMAIL_TRANSPORT) private readonly transport: EmailTransport) {
+    this.defaultFrom = process.env.WORKER_EMAIL_FROM || 'Task Manager <noreply@task-manager.local>';
+    this.maxAttachmentBytes = parseInt(process.env.WORKER_EMAIL_MAX_ATTACHMENT_BYTES || '10485760', 10);
+  }
+
+  /**
+   * Render a request into a message. Invalid recipient addresses are left out of the headers.
+   * @param request - The email request
+   * @param id - Unique ID the Message-ID is built from, e.g. the task ID
+   * @returns The message
+   * @throws Error if the request has no recipient, an invalid sender, an unknown template or
+   * invalid or oversized attachments
+   */
+  compose(request: SendEmailRequest, id: string): EmailMessage {
+    const from = request.from || this.defaultFrom;
+
+    if (this.recipientsOf(request).length === 0) {
+      throw new Error('Email task payload requires a "to" recipient');
+    }
+    if (!isValidMailbox(from)) {
+      throw new Error(`Invalid sender address: ${from}`);
+    }
+    if (request.replyTo && !isValidMailbox(request.replyTo)) {
+      throw new Error(`Invalid reply-to address: ${request.replyTo}`);
+    }
+
+    const template = request.template ? EMAIL_TEMPLATES[request.template] : undefined;
+
+    if (request.template && !template) {
+      throw new Error(`Unknown email template: ${request.template}`);
+    }
+
+    const variables = request.variables ?? {};
+    const subject = request.subject ?? template?.subject ?? '';
+    const text = request.text ?? request.body ?? template?.text;
+    const html = request.html ?? template?.html;
+
+    return {
+      messageId: `${id}@${addressOf(from).split('@')[1]}`,
+      from,
+      to: this.toList(request.to).filter(isValidMailbox),
+      cc: this.toList(request.cc).filter(isValidMailbox),
+      bcc: this.toList(request.bcc).filter(isValidMailbox),
+      replyTo: request.replyTo,
+      subject: renderTemplate(subject, variables),
+      text: text !== undefined ? renderTemplate(text, variables) : undefined,
+      html: html !== undefined ? renderTemplate(html, variables, escapeHtml) : undefined,
+      attachments: this.validateAttachments(request.attachments ?? []),
+    };
+  }
+
+  /**
+   * Every distinct recipient of a request (To, Cc and Bcc)
+   */
+  recipientsOf(request: SendEmailRequest): string[] {
+    return Array.from(new Set([...this.toList(request.to), ...this.toList(request.cc), ...this.toList(request.bcc)]));
+  }
+
+  /**
+   * Deliver a message. Invalid addresses bounce without being sent.
+   * @param message - The message
+   * @param recipients - The recipients to deliver to
+   * @param signal - Aborts the delivery
+   * @returns One delivery per recipient, in the order given
+   */
+  async deliver(message: EmailMessage, recipients: string[], signal?: AbortSignal): Promise<RecipientDelivery[]> {
+    const valid = recipients.filter(isValidMailbox);
+    const sent = valid.length > 0 ? await this.transport.send(message, valid, signal) : [];
+
+    for (const delivery of sent) {
+      if (delivery.status !== 'delivered') {
+        this.logger.warn(`Email ${message.messageId} to ${delivery.recipient} ${delivery.status}: ${delivery.response}`);
+      }
+    }
+
+    return recipients.map(
+      (recipient) =>
+        sent.find((delivery) => delivery.recipient === recipient) ?? {
+          recipient,
+          status: 'bounced',
+          response: 'Invalid email address',
+        },
+    );
+  }
+
+  /**
+   * Summarise the deliveries of a message
+   */
+  summarize(message: EmailMessage, recipients: RecipientDelivery[]): EmailDeliveryReport {
+    const count = (status: RecipientDelivery['status']) => recipients.filter((r) => r.status === status).length;
+
+    return {
+      messageId: message.messageId,
+      transport: this.transport.name,
+      subject: message.subject,
+      recipients,
+      delivered: count('delivered'),
+      bounced: count('bounced'),
+      deferred: count('deferred'),
+    };
+  }
+
+  private toList(value: string | string[] | undefined): string[] {
+    return (Array.isArray(value) ? value : value ? [value] : [])
+      .filter((address) => typeof address === 'string')
+      .map((address) => address.trim())
+      .filter((address) => address.length > 0);
+  }
+
+  private validateAttachments(attachments: EmailAttachment[]): EmailAttachment[] {
+    if (!Array.isArray(attachments)) {
+      throw new Error('Email attachments must be an array');
+    }
+
+    let totalBytes = 0;
+
+    for (const attachment of attachments) {
+      if (!attachment || typeof attachment.filename !== 'string' || !attachment.filename.trim()) {
+        throw new Error('Each email attachment requires a filename');
+      }
+      if (typeof attachment.content !== 'string') {
+        throw new Error(`Email attachment ${attachment.filename} requires string content`);
+      }
+      if (attachment.contentType && !/^[\w.+-]+\/[\w.+-]+$/.test(attachment.contentType)) {
+        throw new Error(`Invalid content type for email attachment ${attachment.filename}: ${attachment.contentType}`);
+      }
+      if (attachment.encoding && !['utf8', 'base64'].includes(attachment.encoding)) {
+        throw new Error(`Unsupported encoding for email attachment ${attachment.filename}: ${attachment.encoding}`);
+      }
+
+      totalBytes += attachmentSize(attachment);
+    }
+
+    if (totalBytes > this.maxAttachmentBytes) {
+      throw new Error(`Email attachments are ${totalBytes} bytes, more than the limit of ${this.maxAttachmentBytes}`);
+    }
+
+    return attachments;
+  }
+}
@@ -0,0 +1,169 @@
+import { Injectable, Inject, Logger, OnModuleDestroy } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { LOCK_STORE } from '../storage/lock-store.interface';
+import type { LockStore } from '../storage/lock-store.interface';
+
+/**
+ * Lease Service
+ * Coordinates worker replicas through expiring locks in the shared LockStore.
+ *
+ * - Task leases (`task:{id}`) are taken when a worker claims a task and renewed with its heartbeat.
+ *   A task whose lease expired belongs to a worker that is gone and may be reclaimed.
+ * - Slots (`slot:{group}:{n}`) cap how many tasks of a group run at once across all replicas. A
+ *   slot is leased like a task and renewed with it.
+ * - Leadership (`leader:{role}`) is held by one replica at a time for work that must not run on
+ *   every replica, such as firing scheduled jobs. The leader keeps it by calling holdLeadership
+ *   more often than the leader TTL; another replica takes over once it lapses.
+ *
+ * Configuration:
+ * - WORKER_ID: identity of this replica (default: host name plus a random suffix)
+ * - WORKER_LEASE_TTL_MS: how long a task lease survives without renewal (default: 30000)
+ * - WORKER_LEADER_TTL_MS: how long leadership survives without renewal (default: 15000)
+ */
+@Injectable()
+export class LeaseService implements OnModuleDestroy {
+  private readonly logger = new Logger(LeaseService.name);
+  private readonly leaseTtlMs: number;
+  private readonly leaderTtlMs: number;
+  private leaderships: Set<string> = new Set();
+
+  readonly workerId: string;
+
+  constructor(@Inject(LOCK_STORE) private readonly locks: LockStore) {
+    this.workerId = process.env.WORKER_ID || `${hostname()}-${randomUUID().slice(0, 8)}`;
+    this.leaseTtlMs = parseInt(process.env.WORKER_LEASE_TTL_MS || '30000', 10);
+    this.leaderTtlMs = parseInt(process.env.WORKER_LEADER_TTL_MS || '15000', 10);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    // Hand leadership over straight away instead of waiting for it to expire
+    for (const role of Array.from(this.leaderships)) {
+      await this.resignLeadership(role);
+    }
+  }
+
+  /**
+   * Claim a task for this worker
+   * @param taskId - The unique identifier of the task
+   * @returns False if another worker holds a live lease on the task
+   */
+  async acquireTaskLease(taskId: string): Promise<boolean> {
+    return this.locks.acquire(this.taskKey(taskId), this.workerId, this.leaseTtlMs);
+  }
+
+  /**
+   * Extend this worker's lease on a task
+   * @param taskId - The unique identifier of the task
+   * @returns False if the lease expired and the task may have been reclaimed
+   */
+  async renewTaskLease(taskId: string): Promise<boolean> {
+    return this.locks.renew(this.taskKey(taskId), this.workerId, this.leaseTtlMs);
+  }
+
+  /**
+   * Give up this worker's lease on a task
+   * @param taskId - The unique identifier of the task
+   */
+  async releaseTaskLease(taskId: string): Promise<void> {
+    await this.locks.release(this.taskKey(taskId), this.workerId);
+  }
+
+  /**
+   * Get the worker holding a live lease on a task
+   * @param taskId - The unique identifier of the task
+   * @returns The worker ID, or undefined if the task is not leased
+   */
+  async getTaskLeaseOwner(taskId: string): Promise<string | undefined> {
+    return this.locks.getOwner(this.taskKey(taskId));
+  }
+
+  /**
+   * Take a free slot of a group of `size` slots
+   * @param group - The group, e.g. a task type
+   * @param size - Number of slots in the group
+   * @param holder - What holds the slot, e.g. a task ID
+   * @returns The slot number, or undefined if every slot is taken
+   */
+  async acquireSlot(group: string, size: number, holder: string): Promise<number | undefined> {
+    for (let slot = 0; slot < size; slot++) {
+      if (await this.locks.acquire(this.slotKey(group, slot), this.slotOwner(holder), this.leaseTtlMs)) {
+        return slot;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Extend a slot held by this worker
+   * @returns False if the slot expired and may have been taken
+   */
+  async renewSlot(group: string, slot: number, holder: string): Promise<boolean> {
+    return this.locks.renew(this.slotKey(group, slot), this.slotOwner(holder), this.leaseTtlMs);
+  }
+
+  /**
+   * Free a slot held by this worker
+   */
+  async releaseSlot(group: string, slot: number, holder: string): Promise<void> {
+    await this.locks.release(this.slotKey(group, slot), this.slotOwner(holder));
+  }
+
+  /**
+   * Take a token from a shared rate limit bucket
+   * @param bucket - The bucket name, e.g. a task type
+   * @param limit - Tokens per interval, also the largest burst
+   * @param intervalMs - The interval
+   * @returns 0 if a token was taken, otherwise the milliseconds until the next token
+   */
+  async consumeToken(bucket: string, limit: number, intervalMs: number): Promise<number> {
+    return this.locks.consumeToken(bucket, limit, intervalMs);
+  }
+
+  /**
+   * Become or stay the leader for a role
+   * @param role - What the leader is responsible for, e.g. "scheduler"
+   * @returns True if this replica is the leader
+   */
+  async holdLeadership(role: string): Promise<boolean> {
+    const leader = await this.locks.acquire(this.leaderKey(role), this.workerId, this.leaderTtlMs);
+
+    if (leader && !this.leaderships.has(role)) {
+      this.leaderships.add(role);
+      this.logger.log(`Worker ${this.workerId} became ${role} leader`);
+    } else if (!leader && this.leaderships.has(role)) {
+      this.leaderships.delete(role);
+      this.logger.warn(`Worker ${this.workerId} lost ${role} leadership`);
+    }
+
+    return leader;
+  }
+
+  /**
+   * Step down as leader for a role
+   * @param role - What the leader is responsible for
+   */
+  async resignLeadership(role: string): Promise<void> {
+    if (await this.locks.release(this.leaderKey(role), this.workerId)) {
+      this.logger.log(`Worker ${this.workerId} resigned ${role} leadership`);
+    }
+    this.leaderships.delete(role);
+  }
+
+  private taskKey(taskId: string): string {
+    return `task:${taskId}`;
+  }
+
+  private slotKey(group: string, slot: number): string {
+    return `slot:${group}:${slot}`;
+  }
+
+  private slotOwner(holder: string): string {
+    return `${this.workerId}:${holder}`;
+  }
+
+  private leaderKey(role: string): string {
+    return `leader:${role}`;
+  }
+}
@@ -0,0 +1,50 @@
+import { DEFAULT_QUEUE } from '../storage/task-store.interface';
+
+/**
+ * Names accepted for queues; they become part of storage keys
+ */
+export const QUEUE_NAME_PATTERN = /^[\w-]+$/;
+
+/**
+ * Queues that always exist, even before a task has been placed in them
+ */
+export const BUILT_IN_QUEUES = [DEFAULT_QUEUE, 'ai', 'email', 'reports'];
+
+/**
+ * Queue of each built-in task type that does not go to the default queue
+ */
+export const DEFAULT_QUEUE_ROUTES: Record<string, string> = {
+  ai_chat: 'ai',
+  ai_insights: 'ai',
+  ai_bulk_insights: 'ai',
+  email: 'email',
+  report: 'reports',
+  'report-generation': 'reports',
+  export: 'reports',
+};
+
+/**
+ * Parse queue routes from a JSON object of task type to queue name, e.g. `{"webhook":"email"}`,
+ * on top of the default routes
+ * @param json - The raw configuration value
+ * @returns Map of task type to queue name
+ * @throws Error if the configuration is not valid
+ */
+export function parseQueueRoutes(json: string | undefined): Map<string, string> {
+  const routes = new Map(Object.entries(DEFAULT_QUEUE_ROUTES));
+
+  if (!json) {
+    return routes;
+  }
+
+  const parsed = JSON.parse(json) as Record<string, string>;
+
+  for (const [type, queue] of Object.entries(parsed)) {
+    if (typeof queue !== 'string' || !QUEUE_NAME_PATTERN.test(queue)) {
+      throw new Error(`Invalid queue for task type "${type}"`);
+    }
+    routes.set(type, queue);
+  }
+
+  return routes;
+}
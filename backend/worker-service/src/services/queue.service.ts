@@ -1,15 +1,15 @@
-import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
-import { Job, JobStatus, JobPriority } from '../../../common/src/types/common';
+import { Injectable, Inject, NotFoundException, BadRequestException, ConflictException, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Job, JobStatus, JobPriority, TaskProgress } from '../../../common/src/types/common';
+import { TASK_STORE, LogEntry, QueueStatus, DEFAULT_QUEUE } from '../storage/task-store.interface';
+import type { TaskStore } from '../storage/task-store.interface';
+import { CreateTaskDto, PRIORITY_NAMES } from '../dto/task.dto';
+import { DEFAULT_RETRY_POLICY, calculateRetryDelay } from '../processors/retry-policy';
+import { PriorityAging } from '../storage/priority-aging';
+import { BUILT_IN_QUEUES, parseQueueRoutes } from './queue-routing';
+import { idempotencyTaskKey, contentTaskKey, parseTaskTypeList } from './task-deduplication';
 
-/**
- * Log entry structure for task logging
- */
-export interface LogEntry {
-  timestamp: Date;
-  level: 'info' | 'warn' | 'error' | 'debug';
-  message: string;
-  metadata?: Record<string, unknown>;
-}
+export type { LogEntry } from '../storage/task-store.interface';
 
 /**
  * Options for retrying a task
@@ -20,6 +20,44 @@ export interface RetryTaskOptions {
   delayMs?: number;
 }
 
+/**
+ * Filters for listing tasks. Values may arrive as query-string text.
+ */
+export interface TaskFilters {
+  status?: JobStatus;
+  type?: string;
+  queue?: string;
+  priority?: JobPriority | string;
+  limit?: number | string;
+  offset?: number | string;
+}
+
+/**
+ * Response for task list query
+ */
+export interface TaskListResponse {
+  tasks: Job[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Progress fields a handler may report; omitted fields keep their previous value
+ */
+export type TaskProgressUpdate = Partial<Omit<TaskProgress, 'updatedAt'>>;
+
+/**
+ * Called after a task reaches a final state (completed, failed or cancelled)
+ */
+export type TaskFinishedListener = (task: Job) => Promise<void>;
+
+/**
+ * Checks the payload a task of a type is created or released with
+ * @throws BadRequestException if the payload is invalid
+ */
+export type PayloadValidator = (type: string, payload: unknown) => void;
+
 /**
  * Response for task status query
  */
@@ -30,6 +68,31 @@ export interface TaskStatusResponse {
   estimatedRetryTime?: Date;
 }
 
+/**
+ * Number of tasks in each status
+ */
+export type TaskStatusCounts = Record<
+  'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'cancelling' | 'retrying',
+  number
+>;
+
+/**
+ * State and load of a named queue
+ */
+export interface QueueSummary {
+  name: string;
+  status: QueueStatus;
+  /** Tasks waiting in the queue, including delayed retries */
+  queued: number;
+  /** Tasks of the queue running now */
+  running: number;
+  /** Whether a draining queue has nothing left to run */
+  drained: boolean;
+  byStatus: TaskStatusCounts;
+  /** Last time the queue was paused, resumed or drained */
+  updatedAt?: Date;
+}
+
 /**
  * Response for task logs query
  */
@@ -42,17 +105,42 @@ export interface TaskLogsResponse {
 /**
  * Queue Service
  * Manages background job queue operations including task status, retry, and logging
+ *
+ * Tasks wait in named queues: the queue given when the task is created, else the queue its type
+ * is routed to, else `default`. WORKER_QUEUE_ROUTES, a JSON map of task type to queue name, adds
+ * to or overrides the built-in routes.
+ *
+ * Waiting tasks gain priority with age so that a steady stream of high priority work does not
+ * starve low priority tasks:
+ * - WORKER_PRIORITY_AGING_RATE: priority points gained per minute of waiting (default: 1, 0 disables aging)
+ * - WORKER_PRIORITY_AGING_CAP: highest priority a task can age to (default: 19)
+ * With the defaults every non-critical task reaches priority 19 within 18 minutes and from then
+ * on goes ahead of all newer tasks except critical ones, which always come first.
+ *
+ * Duplicate create requests are coalesced into the original task:
+ * - WORKER_IDEMPOTENCY_WINDOW_MS: how long an `idempotencyKey` keeps returning the task it created
+ *   (default: 86400000)
+ * - WORKER_DEDUPLICATE_TYPES: comma-separated task types whose identical payloads are coalesced
+ *   into the task already pending, within the same window
  */
 @Injectable()
 export class QueueService {
   private readonly logger = new Logger(QueueService.name);
-  
-  // In-memory storage (replace with Redis or database in production)
-  private tasks: Map<string, Job> = new Map();
-  private taskLogs: Map<string, LogEntry[]> = new Map();
-  private taskQueue: Job[] = [];
+  private readonly finishedListeners: TaskFinishedListener[] = [];
+  private payloadValidator?: PayloadValidator;
+  private readonly queueRoutes: Map<string, string>;
+  private readonly priorityAging: PriorityAging;
+  private readonly idempotencyWindowMs: number;
+  private readonly deduplicatedTypes: Set<string>;
 
-  constructor() {
+  constructor(@Inject(TASK_STORE) private readonly store: TaskStore) {
+    this.queueRoutes = parseQueueRoutes(process.env.WORKER_QUEUE_ROUTES);
+    this.priorityAging = {
+      ratePerMinute: parseFloat(process.env.WORKER_PRIORITY_AGING_RATE || '1'),
+      cap: parseFloat(process.env.WORKER_PRIORITY_AGING_CAP || String(JobPriority.Critical - 1)),
+    };
+    this.idempotencyWindowMs = parseInt(process.env.WORKER_IDEMPOTENCY_WINDOW_MS || '86400000', 10);
+    this.deduplicatedTypes = parseTaskTypeList(process.env.WORKER_DEDUPLICATE_TYPES);
     this.logger.log('QueueService initialized');
   }
 
@@ -63,13 +151,13 @@ export class QueueService {
    * @throws NotFoundException if task doesn't exist
    */
   async getTaskStatus(taskId: string): Promise<TaskStatusResponse> {
-    const task = this.tasks.get(taskId);
+    const task = await this.store.getTask(taskId);
 
     if (!task) {
       throw new NotFoundException(`Task with ID ${taskId} not found`);
     }
 
-    const logs = this.taskLogs.get(taskId) || [];
+    const logs = await this.store.getLogs(taskId);
     const canRetry = this.canTaskBeRetried(task);
     const estimatedRetryTime = this.calculateRetryTime(task);
 
@@ -92,7 +180,7 @@ export class QueueService {
    * @throws BadRequestException if task cannot be retried
    */
   async retryTask(taskId: string, options: RetryTaskOptions = {}): Promise<Job> {
-    const task = this.tasks.get(taskId);
+    const task = await this.store.getTask(taskId);
 
     if (!task) {
       throw new NotFoundException(`Task with ID ${taskId} not found`);
@@ -116,19 +204,20 @@ export class QueueService {
       attempts: options.resetAttempts ? 0 : task.attempts,
       priority: options.priority ?? task.priority,
       error: undefined,
+      progress: undefined,
+      partialResult: options.resetAttempts ? undefined : task.partialResult,
       startedAt: undefined,
       completedAt: undefined,
       failedAt: undefined,
+      nextRetryAt: undefined,
     };
 
-    // Update task in storage
-    this.tasks.set(taskId, updatedTask);
-
     // Add task back to queue
-    this.addToQueue(updatedTask, options.delayMs);
+    const queuedTask = await this.enqueueTask(updatedTask, options.delayMs);
+    await this.store.deleteDeadLetter(taskId);
 
     // Log the retry action
-    this.addLog(taskId, {
+    await this.addLog(taskId, {
       timestamp: new Date(),
       level: 'info',
       message: `Task retried${options.resetAttempts ? ' with reset attempts' : ''}`,
@@ -144,6 +233,51 @@ export class QueueService {
       `Task ${taskId} retried. Previous status: ${previousStatus}, Previous attempts: ${previousAttempts}`
     );
 
+    return queuedTask;
+  }
+
+  /**
+   * Put a failed attempt back in the queue after a backoff delay
+   * @param taskId - The unique identifier of the task
+   * @param error - The error from the failed attempt
+   * @param delayMs - Delay before the task becomes available again
+   * @returns The updated task in `retrying` status
+   * @throws NotFoundException if task doesn't exist
+   */
+  async scheduleRetry(taskId: string, error: string, delayMs: number): Promise<Job> {
+    const task = await this.store.getTask(taskId);
+
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    const now = new Date();
+    const updatedTask = await this.enqueueTask(
+      {
+        ...task,
+        status: JobStatus.Retrying,
+        error,
+        nextRetryAt: new Date(now.getTime() + delayMs),
+      },
+      delayMs,
+    );
+
+    await this.addLog(taskId, {
+      timestamp: now,
+      level: 'warn',
+      message: `Task attempt ${task.attempts} failed, retrying in ${delayMs}ms: ${error}`,
+      metadata: {
+        attempts: task.attempts,
+        maxAttempts: task.maxAttempts,
+        status: JobStatus.Retrying,
+        error,
+        delayMs,
+        nextRetryAt: updatedTask.nextRetryAt,
+      },
+    });
+
+    this.logger.warn(`Task ${taskId} scheduled for retry in ${delayMs}ms (attempt ${task.attempts}/${task.maxAttempts})`);
+
     return updatedTask;
   }
 
@@ -160,13 +294,13 @@ export class QueueService {
     limit: number = 100,
     offset: number = 0
   ): Promise<TaskLogsResponse> {
-    const task = this.tasks.get(taskId);
+    const task = await this.store.getTask(taskId);
 
     if (!task) {
       throw new NotFoundException(`Task with ID ${taskId} not found`);
     }
 
-    const logs = this.taskLogs.get(taskId) || [];
+    const logs = await this.store.getLogs(taskId);
     const total = logs.length;
 
     // Sort logs by timestamp (newest first)
@@ -186,15 +320,423 @@ export class QueueService {
     };
   }
 
+  /**
+   * Add a log entry for a task
+   * @param taskId - The unique identifier of the task
+   * @param log - The log entry to add
+   */
+  async addLog(taskId: string, log: LogEntry): Promise<void> {
+    await this.store.appendLog(taskId, log);
+  }
+
+  /**
+   * Delete the log entries of a task older than a cutoff
+   * @param taskId - The unique identifier of the task
+   * @param before - Entries logged before this time are deleted
+   * @param dryRun - Only count the entries that would be deleted
+   * @returns Number of entries deleted, or that would be deleted
+   */
+  async pruneLogs(taskId: string, before: Date, dryRun = false): Promise<number> {
+    if (!dryRun) {
+      return this.store.deleteLogsBefore(taskId, before);
+    }
+
+    const logs = await this.store.getLogs(taskId);
+    const kept = logs.findIndex((log) => log.timestamp >= before);
+    return kept < 0 ? logs.length : kept;
+  }
+
+  /**
+   * Record the progress of a processing task. A new step is also written to the task log.
+   * @param taskId - The unique identifier of the task
+   * @param update - Percentage (clamped to 0-100), current step and message
+   * @returns The updated task
+   * @throws NotFoundException if task doesn't exist
+   * @throws BadRequestException if task is not processing or cancelling
+   */
+  async updateProgress(taskId: string, update: TaskProgressUpdate): Promise<Job> {
+    let previousStep: string | undefined;
+
+    const updatedTask = await this.updateRunningTask(taskId, 'Progress', (task) => {
+      previousStep = task.progress?.step;
+
+      return {
+        ...task,
+        progress: {
+          percent: Math.min(Math.max(update.percent ?? task.progress?.percent ?? 0, 0), 100),
+          step: update.step ?? task.progress?.step,
+          message: update.message ?? task.progress?.message,
+          updatedAt: new Date(),
+        },
+      };
+    });
+    const progress = updatedTask.progress as TaskProgress;
+
+    if (update.step && update.step !== previousStep) {
+      await this.addLog(taskId, {
+        timestamp: progress.updatedAt,
+        level: 'info',
+        message: `Step: ${update.step}`,
+        metadata: { percent: progress.percent },
+      });
+    }
+
+    return updatedTask;
+  }
+
+  /**
+   * Save a partial result of a processing task. The checkpoint is passed back to the
+   * handler on automatic retries so it can resume instead of starting over.
+   * @param taskId - The unique identifier of the task
+   * @param partialResult - The data produced so far
+   * @returns The updated task
+   * @throws NotFoundException if task doesn't exist
+   * @throws BadRequestException if task is not processing or cancelling
+   */
+  async saveCheckpoint(taskId: string, partialResult: unknown): Promise<Job> {
+    const updatedTask = await this.updateRunningTask(taskId, 'Checkpoints', (task) => ({ ...task, partialResult }));
+
+    await this.addLog(taskId, {
+      timestamp: new Date(),
+      level: 'debug',
+      message: 'Checkpoint saved',
+    });
+
+    return updatedTask;
+  }
+
+  /**
+   * Register a listener for tasks reaching a final state
+   * @param listener - Callback invoked with the finished task
+   */
+  onTaskFinished(listener: TaskFinishedListener): void {
+    this.finishedListeners.push(listener);
+  }
+
+  /**
+   * Set the check every task payload must pass before the task is queued
+   * @param validator - Callback that throws for an invalid payload
+   */
+  setPayloadValidator(validator: PayloadValidator): void {
+    this.payloadValidator = validator;
+  }
+
+  /**
+   * Check a payload with the configured validator, if any
+   * @param type - The task type
+   * @param payload - The payload to check
+   * @throws BadRequestException if the payload is invalid
+   */
+  validatePayload(type: string, payload: unknown): void {
+    this.payloadValidator?.(type, payload);
+  }
+
+  /**
+   * Create a new pending task from a request body and add it to the queue
+   * @param dto - The task type, payload and optional priority / max attempts
+   * @param overrides - Fields set by the caller rather than the request (e.g. workflow links)
+   * @returns The created task, or the task a repeated or identical request was coalesced into
+   * @throws BadRequestException if the payload is invalid or the task's queue is draining
+   * @throws ConflictException if a task with the same idempotency key is still being created
+   */
+  async createTask(dto: CreateTaskDto, overrides: Partial<Job> = {}): Promise<Job> {
+    const queue = this.resolveQueue(dto);
+    const task: Job = {
+      id: randomUUID(),
+      type: dto.type,
+      status: JobStatus.Pending,
+      priority: this.normalizePriority(dto.priority) ?? JobPriority.Normal,
+      payload: dto.payload,
+      attempts: 0,
+      maxAttempts: dto.maxAttempts ?? 3,
+      createdAt: new Date(),
+      retryPolicy: dto.retryPolicy,
+      timeoutMs: dto.timeoutMs,
+      queue,
+      idempotencyKey: dto.idempotencyKey,
+      ...overrides,
+    };
+
+    const original = task.idempotencyKey ? await this.findIdempotentTask(task) : undefined;
+    if (original) {
+      return original;
+    }
+
+    try {
+      await this.assertCanCreate(dto, overrides);
+    } catch (error) {
+      await this.releaseIdempotencyKey(task);
+      throw error;
+    }
+
+    // Workflow nodes are never coalesced: each one belongs to its own workflow
+    const deduplicate = this.deduplicatedTypes.has(task.type) && !task.workflowId;
+    const pending = deduplicate ? await this.findPendingDuplicate(task) : undefined;
+    if (pending) {
+      await this.releaseIdempotencyKey(task);
+      return pending;
+    }
+
+    return this.addTask(task);
+  }
+
+  /**
+   * Check that a task could be created now, without creating it. The payload of a task that
+   * waits for dependencies is checked when it is released, as it may still receive their results.
+   * @param dto - The task type, payload and optional queue
+   * @param overrides - Fields the task will be created with, as passed to createTask
+   * @throws BadRequestException if the payload is invalid or the task's queue is draining
+   */
+  async assertCanCreate(dto: CreateTaskDto, overrides: Partial<Job> = {}): Promise<void> {
+    const queue = this.resolveQueue(dto);
+
+    if (!overrides.dependsOn?.length) {
+      this.validatePayload(dto.type, dto.payload);
+    }
+
+    if ((await this.getQueueStatus(queue)) === 'draining') {
+      throw new BadRequestException(`Queue ${queue} is draining and does not accept new tasks`);
+    }
+  }
+
+  private resolveQueue(dto: CreateTaskDto): string {
+    return dto.queue ?? this.queueRoutes.get(dto.type) ?? DEFAULT_QUEUE;
+  }
+
+  /**
+   * Reserve the idempotency key of a task about to be created
+   * @returns The task created earlier with the same key, if any
+   * @throws ConflictException if that task is still being created
+   */
+  private async findIdempotentTask(task: Job): Promise<Job | undefined> {
+    const key = task.idempotencyKey as string;
+    const holder = await this.store.reserveTaskKey(idempotencyTaskKey(key), task.id, this.idempotencyWindowMs);
+
+    if (holder === task.id) {
+      return undefined;
+    }
+
+    const original = await this.store.getTask(holder);
+
+    if (!original) {
+      throw new ConflictException(`Task with idempotency key ${key} is still being created`);
+    }
+
+    await this.addLog(original.id, {
+      timestamp: new Date(),
+      level: 'info',
+      message: 'Repeated create request returned this task',
+      metadata: { idempotencyKey: key },
+    });
+
+    this.logger.log(`Create request with idempotency key ${key} returned existing task ${original.id}`);
+
+    return original;
+  }
+
+  private async releaseIdempotencyKey(task: Job): Promise<void> {
+    if (task.idempotencyKey) {
+      await this.store.releaseTaskKey(idempotencyTaskKey(task.idempotencyKey), task.id);
+    }
+  }
+
+  /**
+   * Reserve the payload fingerprint of a task about to be created
+   * @returns The pending task of the same type with an identical payload, if any
+   */
+  private async findPendingDuplicate(task: Job): Promise<Job | undefined> {
+    const key = contentTaskKey(task.type, task.payload);
+
+    // A fingerprint held by a task that is no longer pending is stale: release it and reserve again
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const holder = await this.store.reserveTaskKey(key, task.id, this.idempotencyWindowMs);
+
+      if (holder === task.id) {
+        return undefined;
+      }
+
+      const pending = await this.store.getTask(holder);
+
+      if (pending?.status === JobStatus.Pending) {
+        await this.addLog(pending.id, {
+          timestamp: new Date(),
+          level: 'info',
+          message: 'Identical task coalesced into this task',
+          metadata: { type: task.type },
+        });
+
+        this.logger.log(`Task of type ${task.type} coalesced into pending task ${pending.id}`);
+
+        return pending;
+      }
+
+      await this.store.releaseTaskKey(key, holder);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * List tasks with optional filtering and pagination
+   * @param filters - Status, type and priority filters plus limit / offset
+   * @returns Matching tasks (newest first) with pagination info
+   */
+  async listTasks(filters: TaskFilters = {}): Promise<TaskListResponse> {
+    const limit = Number(filters.limit ?? 50);
+    const offset = Number(filters.offset ?? 0);
+    const priority = this.normalizePriority(filters.priority);
+
+    if (!Number.isInteger(limit) || limit < 0 || !Number.isInteger(offset) || offset < 0) {
+      throw new BadRequestException('limit and offset must be non-negative integers');
+    }
+
+    let tasks = await this.store.getAllTasks();
+
+    if (filters.status) {
+      tasks = tasks.filter((task) => task.status === filters.status);
+    }
+    if (filters.type) {
+      tasks = tasks.filter((task) => task.type === filters.type);
+    }
+    if (filters.queue) {
+      tasks = tasks.filter((task) => (task.queue ?? DEFAULT_QUEUE) === filters.queue);
+    }
+    if (priority !== undefined) {
+      tasks = tasks.filter((task) => task.priority === priority);
+    }
+
+    // Sort by creation date (newest first)
+    tasks.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return {
+      tasks: tasks.slice(offset, offset + limit),
+      total: tasks.length,
+      limit,
+      offset,
+    };
+  }
+
+  /**
+   * Cancel a task. Pending and retrying tasks are cancelled immediately; a processing task
+   * moves to `cancelling` until the processor has stopped its handler.
+   * @param taskId - The unique identifier of the task
+   * @param reason - Optional reason stored as the task error
+   * @returns The task in `cancelled` or `cancelling` status
+   * @throws NotFoundException if task doesn't exist
+   * @throws BadRequestException if task is not pending, processing or retrying
+   */
+  async cancelTask(taskId: string, reason?: string): Promise<Job> {
+    const task = await this.store.getTask(taskId);
+
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    if (task.status === JobStatus.Cancelling) {
+      return task;
+    }
+
+    if (![JobStatus.Pending, JobStatus.Processing, JobStatus.Retrying].includes(task.status)) {
+      throw new BadRequestException(
+        `Task with status ${task.status} cannot be cancelled. Only pending, processing or retrying tasks can be cancelled.`
+      );
+    }
+
+    // A running handler is signalled by the processor and the task is cancelled once it stops
+    if (task.status === JobStatus.Processing) {
+      const cancellingTask: Job = { ...task, status: JobStatus.Cancelling, error: reason ?? task.error };
+
+      await this.store.saveTask(cancellingTask);
+
+      await this.addLog(taskId, {
+        timestamp: new Date(),
+        level: 'info',
+        message: reason ? `Cancellation requested: ${reason}` : 'Cancellation requested',
+        metadata: { previousStatus: task.status },
+      });
+
+      this.logger.log(`Cancellation of running task ${taskId} requested`);
+
+      return cancellingTask;
+    }
+
+    const updatedTask: Job = {
+      ...task,
+      status: JobStatus.Cancelled,
+      completedAt: new Date(),
+      nextRetryAt: undefined,
+      error: reason ?? task.error,
+    };
+
+    await this.store.saveTask(updatedTask);
+    await this.store.removeFromQueue(taskId);
+
+    await this.addLog(taskId, {
+      timestamp: new Date(),
+      level: 'info',
+      message: reason ? `Task cancelled: ${reason}` : 'Task cancelled',
+      metadata: { previousStatus: task.status },
+    });
+
+    this.logger.log(`Task ${taskId} cancelled. Previous status: ${task.status}`);
+
+    await this.notifyFinished(updatedTask);
+
+    return updatedTask;
+  }
+
+  /**
+   * Complete the cancellation of a task whose handler has stopped
+   * @param taskId - The unique identifier of the task
+   * @param forced - True if the handler did not stop within the grace period and was abandoned
+   * @returns The cancelled task
+   * @throws NotFoundException if task doesn't exist
+   * @throws BadRequestException if task is not cancelling
+   */
+  async confirmCancellation(taskId: string, forced = false): Promise<Job> {
+    const task = await this.store.getTask(taskId);
+
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    if (task.status !== JobStatus.Cancelling) {
+      throw new BadRequestException(`Task with status ${task.status} is not being cancelled`);
+    }
+
+    const updatedTask: Job = { ...task, status: JobStatus.Cancelled, completedAt: new Date() };
+
+    await this.store.saveTask(updatedTask);
+
+    await this.addLog(taskId, {
+      timestamp: updatedTask.completedAt as Date,
+      level: forced ? 'warn' : 'info',
+      message: forced
+        ? 'Task cancelled: handler did not stop within the grace period and was terminated'
+        : 'Task cancelled: handler stopped',
+      metadata: { attempts: task.attempts, status: JobStatus.Cancelled, forced },
+    });
+
+    this.logger.log(`Task ${taskId} cancelled${forced ? ' (forced)' : ''}`);
+
+    await this.notifyFinished(updatedTask);
+
+    return updatedTask;
+  }
+
   /**
    * Add a new task to the queue
    * @param task - The task to add
    */
   async addTask(task: Job): Promise<Job> {
-    this.tasks.set(task.id, task);
-    this.taskQueue.push(task);
+    // Tasks with dependencies are queued by releaseTask once their parents have finished
+    if (task.status === JobStatus.Pending && !task.dependsOn?.length) {
+      task = await this.enqueueTask(task);
+    } else {
+      await this.store.saveTask(task);
+    }
 
-    this.addLog(task.id, {
+    await this.addLog(task.id, {
       timestamp: new Date(),
       level: 'info',
       message: `Task created with type: ${task.type}`,
@@ -209,18 +751,79 @@ export class QueueService {
     return task;
   }
 
+  /**
+   * Queue a pending task that was held back waiting for its dependencies. A task whose payload is
+   * invalid can never run, so it is failed instead.
+   * @param taskId - The unique identifier of the task
+   * @param payload - Payload to run the task with (e.g. including parent results)
+   * @returns The queued task, or the failed task if its payload is invalid
+   * @throws NotFoundException if task doesn't exist
+   * @throws BadRequestException if task is not pending
+   */
+  async releaseTask(taskId: string, payload?: Record<string, unknown>): Promise<Job> {
+    const task = await this.store.getTask(taskId);
+
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    if (task.status !== JobStatus.Pending) {
+      throw new BadRequestException(`Task with status ${task.status} cannot be released`);
+    }
+
+    const updatedTask: Job = { ...task, payload: payload ?? task.payload };
+
+    await this.store.saveTask(updatedTask);
+
+    try {
+      this.validatePayload(updatedTask.type, updatedTask.payload);
+    } catch (error) {
+      return this.updateTaskStatus(taskId, JobStatus.Failed, (error as Error).message);
+    }
+
+    const queuedTask = await this.enqueueTask(updatedTask);
+
+    await this.addLog(taskId, {
+      timestamp: new Date(),
+      level: 'info',
+      message: 'Task dependencies finished, task queued',
+      metadata: { dependsOn: task.dependsOn },
+    });
+
+    return queuedTask;
+  }
+
+  /**
+   * Save a task and place it in its queue. The task counts as queued from when it becomes
+   * available, so a retried or replayed task waits and ages from then rather than from its creation
+   * and doesn't overtake fresh work of the same priority.
+   * @param task - The task to queue
+   * @param delayMs - Delay before the task becomes available
+   * @returns The saved task
+   */
+  async enqueueTask(task: Job, delayMs?: number): Promise<Job> {
+    const queuedTask: Job = { ...task, queuedAt: new Date(Date.now() + (delayMs ?? 0)) };
+
+    await this.store.saveTask(queuedTask);
+    await this.store.enqueue(queuedTask, delayMs);
+
+    return queuedTask;
+  }
+
   /**
    * Update task status
    * @param taskId - The unique identifier of the task
    * @param status - The new status
    * @param error - Optional error message
+   * @param result - Optional result to store with the task
    */
   async updateTaskStatus(
     taskId: string,
     status: JobStatus,
-    error?: string
+    error?: string,
+    result?: unknown
   ): Promise<Job> {
-    const task = this.tasks.get(taskId);
+    const task = await this.store.getTask(taskId);
 
     if (!task) {
       throw new NotFoundException(`Task with ID ${taskId} not found`);
@@ -233,21 +836,29 @@ export class QueueService {
       error,
     };
 
+    if (result !== undefined) {
+      updatedTask.result = result;
+    }
+
     // Update timestamps based on status
     switch (status) {
       case JobStatus.Processing:
         updatedTask.startedAt = now;
+        updatedTask.heartbeatAt = now;
         updatedTask.attempts = task.attempts + 1;
+        updatedTask.nextRetryAt = undefined;
         break;
       case JobStatus.Completed:
         updatedTask.completedAt = now;
+        updatedTask.progress = { ...task.progress, percent: 100, updatedAt: now };
+        updatedTask.partialResult = undefined;
         break;
       case JobStatus.Failed:
         updatedTask.failedAt = now;
         break;
     }
 
-    this.tasks.set(taskId, updatedTask);
+    await this.store.saveTask(updatedTask);
 
     // Add log entry
     const logLevel = status === JobStatus.Failed ? 'error' : 'info';
@@ -255,15 +866,19 @@ export class QueueService {
       ? `Task ${status}: ${error}`
       : `Task status changed to: ${status}`;
 
-    this.addLog(taskId, {
+    await this.addLog(taskId, {
       timestamp: now,
       level: logLevel,
       message: logMessage,
-      metadata: { attempts: updatedTask.attempts, status },
+      metadata: { attempts: updatedTask.attempts, status, ...(error ? { error } : {}) },
     });
 
     this.logger.log(`Task ${taskId} status updated to: ${status}`);
 
+    if (status === JobStatus.Completed || status === JobStatus.Failed) {
+      await this.notifyFinished(updatedTask);
+    }
+
     return updatedTask;
   }
 
@@ -271,8 +886,8 @@ export class QueueService {
    * Get all tasks
    * @returns Array of all tasks
    */
-  getAllTasks(): Job[] {
-    return Array.from(this.tasks.values());
+  async getAllTasks(): Promise<Job[]> {
+    return this.store.getAllTasks();
   }
 
   /**
@@ -280,8 +895,8 @@ export class QueueService {
    * @param taskId - The unique identifier of the task
    * @returns The task if found
    */
-  getTask(taskId: string): Job | undefined {
-    return this.tasks.get(taskId);
+  async getTask(taskId: string): Promise<Job | undefined> {
+    return this.store.getTask(taskId);
   }
 
   /**
@@ -289,13 +904,73 @@ export class QueueService {
    * @param taskId - The unique identifier of the task
    */
   async deleteTask(taskId: string): Promise<void> {
-    this.tasks.delete(taskId);
-    this.taskLogs.delete(taskId);
-    this.taskQueue = this.taskQueue.filter((t) => t.id !== taskId);
-    
+    const task = await this.store.getTask(taskId);
+
+    await this.store.deleteTask(taskId);
+
+    if (task) {
+      await this.releaseIdempotencyKey(task);
+    }
+
     this.logger.log(`Task ${taskId} deleted`);
   }
 
+  /**
+   * Run the finished listeners. Listener errors are logged so they never undo the status change.
+   * @param task - The task that reached a final state
+   */
+  private async notifyFinished(task: Job): Promise<void> {
+    for (const listener of this.finishedListeners) {
+      try {
+        await listener(task);
+      } catch (error) {
+        this.logger.error(`Task finished listener failed for ${task.id}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Record that the worker running these tasks is alive. Tasks that are no longer running are skipped.
+   * Only `heartbeatAt` is changed, atomically, so a heartbeat never undoes a concurrent status change.
+   * @param taskIds - The tasks executing on this worker
+   */
+  async heartbeat(taskIds: string[]): Promise<void> {
+    const now = new Date();
+
+    for (const taskId of taskIds) {
+      await this.store.updateTask(taskId, (task) =>
+        task.status === JobStatus.Processing || task.status === JobStatus.Cancelling
+          ? { ...task, heartbeatAt: now }
+          : undefined,
+      );
+    }
+  }
+
+  /**
+   * Change a processing or cancelling task. The change is applied atomically to the stored task, so
+   * it never undoes a concurrent write such as a cancellation or the reaper reclaiming the task.
+   * @throws NotFoundException if task doesn't exist
+   * @throws BadRequestException if task is not processing or cancelling
+   */
+  private async updateRunningTask(taskId: string, action: string, change: (task: Job) => Job): Promise<Job> {
+    let status: JobStatus | undefined;
+
+    const updatedTask = await this.store.updateTask(taskId, (task) => {
+      status = task.status;
+      return task.status === JobStatus.Processing || task.status === JobStatus.Cancelling ? change(task) : undefined;
+    });
+
+    if (!status) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    if (!updatedTask) {
+      throw new BadRequestException(`${action} can only be recorded for running tasks, task is ${status}`);
+    }
+
+    return updatedTask;
+  }
+
   /**
    * Check if a task can be retried
    * @param task - The task to check
@@ -329,107 +1004,252 @@ export class QueueService {
     }
 
     if (task.attempts >= task.maxAttempts) {
-      return `Task has reached maximum retry attempts (${task.maxAttempts}).`;
+      return `Task has reached maximum retry attempts (${task.maxAttempts}). Replay it from the dead-letter queue instead.`;
     }
 
     return 'Unknown reason';
   }
 
   /**
-   * Calculate estimated retry time based on exponential backoff
+   * Convert a numeric or named priority (e.g. `"high"`, `"10"`) to a JobPriority
+   * @param priority - The priority as received from a request
+   * @returns The matching JobPriority, or undefined when not set
+   * @throws BadRequestException if the priority is not recognised
+   */
+  private normalizePriority(priority?: JobPriority | string): JobPriority | undefined {
+    if (priority === undefined || priority === '') {
+      return undefined;
+    }
+
+    const named = PRIORITY_NAMES[String(priority).toLowerCase()];
+    if (named !== undefined) {
+      return named;
+    }
+
+    const numeric = Number(priority);
+    if (Object.values(PRIORITY_NAMES).includes(numeric)) {
+      return numeric as JobPriority;
+    }
+
+    throw new BadRequestException(`Unknown task priority: ${priority}`);
+  }
+
+  /**
+   * Calculate when a task will next be attempted
    * @param task - The task to calculate retry time for
-   * @returns Estimated retry time or undefined if cannot retry
+   * @returns The scheduled retry time for retrying tasks, the backoff estimate (without jitter)
+   * for tasks that can be retried manually, or undefined if cannot retry
    */
   private calculateRetryTime(task: Job): Date | undefined {
+    if (task.status === JobStatus.Retrying) {
+      return task.nextRetryAt;
+    }
+
     if (!this.canTaskBeRetried(task)) {
       return undefined;
     }
 
-    // Exponential backoff: 2^attempts * 1000ms
-    const delayMs = Math.pow(2, task.attempts) * 1000;
-    const retryTime = new Date(Date.now() + delayMs);
+    const delayMs = calculateRetryDelay(task.retryPolicy ?? DEFAULT_RETRY_POLICY, task.attempts, () => 0);
 
-    return retryTime;
+    return new Date(Date.now() + delayMs);
   }
 
   /**
-   * Add a task to the queue with optional delay
-   * @param task - The task to add
-   * @param delayMs - Optional delay in milliseconds
-   */
-  private addToQueue(task: Job, delayMs?: number): void {
-    if (delayMs && delayMs > 0) {
-      // Schedule task to be added later
-      setTimeout(() => {
-        this.taskQueue.push(task);
-        this.logger.debug(`Task ${task.id} added to queue after ${delayMs}ms delay`);
-      }, delayMs);
-    } else {
-      this.taskQueue.push(task);
+   * Get next task from the queues that are not paused (for processing), by priority including
+   * the points gained while waiting, then by age
+   * @param now - The time aging is measured at
+   * @returns Next task or undefined if those queues are empty
+   */
+  async getNextTask(now: Date = new Date()): Promise<Job | undefined> {
+    const states = await this.store.getQueueStates();
+    const paused = states.filter((state) => state.status === 'paused').map((state) => state.name);
+    const queues = (await this.store.getQueueNames()).filter((name) => !paused.includes(name));
+
+    if (queues.length === 0) {
+      return undefined;
     }
+
+    // Skip queue entries whose task was cancelled, deleted or otherwise moved on
+    let taskId = await this.store.dequeue(queues, this.priorityAging, now.getTime());
+
+    while (taskId) {
+      const task = await this.store.getTask(taskId);
+
+      if (task && (task.status === JobStatus.Pending || task.status === JobStatus.Retrying)) {
+        this.logger.debug(`Next task retrieved from queue: ${task.id}`);
+        return task;
+      }
+
+      taskId = await this.store.dequeue(queues, this.priorityAging, now.getTime());
+    }
+
+    return undefined;
   }
 
   /**
-   * Add a log entry for a task
+   * Put a task taken from the queue back without changing its state, e.g. when another worker
+   * still holds its lease. It keeps its queue time, so it keeps its place and aging.
    * @param taskId - The unique identifier of the task
-   * @param log - The log entry to add
+   * @param delayMs - Delay before the task becomes available again
    */
-  private addLog(taskId: string, log: LogEntry): void {
-    if (!this.taskLogs.has(taskId)) {
-      this.taskLogs.set(taskId, []);
+  async requeueTask(taskId: string, delayMs: number): Promise<void> {
+    const task = await this.store.getTask(taskId);
+
+    if (task) {
+      await this.store.enqueue(task, delayMs);
     }
-    this.taskLogs.get(taskId)!.push(log);
   }
 
   /**
-   * Get next task from queue (for processing)
-   * @returns Next task or undefined if queue is empty
+   * Whether a task is waiting in its queue, ready or delayed
+   * @param taskId - The unique identifier of the task
    */
-  async getNextTask(): Promise<Job | undefined> {
-    // Sort by priority (higher first) and creation time (older first)
-    this.taskQueue.sort((a, b) => {
-      if (a.priority !== b.priority) {
-        return b.priority - a.priority;
-      }
-      return a.createdAt.getTime() - b.createdAt.getTime();
-    });
+  async isQueued(taskId: string): Promise<boolean> {
+    return this.store.isQueued(taskId);
+  }
 
-    // Get pending tasks only
-    const nextTask = this.taskQueue.find((t) => t.status === JobStatus.Pending);
+  /**
+   * Get the state and load of every known queue
+   * @returns Built-in queues, routed queues and every queue a task was placed in
+   */
+  async getQueues(): Promise<QueueSummary[]> {
+    const names = await this.getQueueNames();
+    const tasks = await this.store.getAllTasks();
 
-    if (nextTask) {
-      // Remove from queue
-      this.taskQueue = this.taskQueue.filter((t) => t.id !== nextTask.id);
-      this.logger.debug(`Next task retrieved from queue: ${nextTask.id}`);
-    }
+    return Promise.all(names.map((name) => this.summarizeQueue(name, tasks)));
+  }
+
+  /**
+   * Get the state and load of a named queue
+   * @param name - The queue name
+   * @throws NotFoundException if the queue is not known
+   */
+  async getQueue(name: string): Promise<QueueSummary> {
+    await this.assertQueueExists(name);
+
+    return this.summarizeQueue(name, await this.store.getAllTasks());
+  }
+
+  /**
+   * Stop starting tasks from a queue. New tasks are still accepted and wait until it is resumed;
+   * tasks already running are not affected.
+   * @param name - The queue name
+   * @returns The paused queue
+   * @throws NotFoundException if the queue is not known
+   * @throws BadRequestException if the queue is already paused
+   */
+  async pauseQueue(name: string): Promise<QueueSummary> {
+    return this.setQueueStatus(name, 'paused');
+  }
+
+  /**
+   * Return a paused or draining queue to normal operation
+   * @param name - The queue name
+   * @returns The active queue
+   * @throws NotFoundException if the queue is not known
+   * @throws BadRequestException if the queue is already active
+   */
+  async resumeQueue(name: string): Promise<QueueSummary> {
+    return this.setQueueStatus(name, 'active');
+  }
 
-    return nextTask;
+  /**
+   * Stop accepting new tasks in a queue while the tasks it already holds run to completion
+   * @param name - The queue name
+   * @returns The draining queue; `drained` is set once nothing is left to run
+   * @throws NotFoundException if the queue is not known
+   * @throws BadRequestException if the queue is already draining
+   */
+  async drainQueue(name: string): Promise<QueueSummary> {
+    return this.setQueueStatus(name, 'draining');
   }
 
   /**
    * Get queue statistics
-   * @returns Queue statistics
+   * @returns Queue statistics, overall and per named queue
    */
-  getQueueStats() {
-    const tasks = Array.from(this.tasks.values());
+  async getQueueStats() {
+    const tasks = await this.store.getAllTasks();
+    const queues = await Promise.all((await this.getQueueNames()).map((name) => this.summarizeQueue(name, tasks)));
 
     return {
       total: tasks.length,
-      queued: this.taskQueue.length,
-      byStatus: {
-        pending: tasks.filter((t) => t.status === JobStatus.Pending).length,
-        processing: tasks.filter((t) => t.status === JobStatus.Processing).length,
-        completed: tasks.filter((t) => t.status === JobStatus.Completed).length,
-        failed: tasks.filter((t) => t.status === JobStatus.Failed).length,
-        cancelled: tasks.filter((t) => t.status === JobStatus.Cancelled).length,
-        retrying: tasks.filter((t) => t.status === JobStatus.Retrying).length,
-      },
+      queued: await this.store.getQueueLength(),
+      byStatus: this.countByStatus(tasks),
       byPriority: {
         low: tasks.filter((t) => t.priority === JobPriority.Low).length,
         normal: tasks.filter((t) => t.priority === JobPriority.Normal).length,
         high: tasks.filter((t) => t.priority === JobPriority.High).length,
         critical: tasks.filter((t) => t.priority === JobPriority.Critical).length,
       },
+      byQueue: Object.fromEntries(queues.map((queue) => [queue.name, queue])),
+    };
+  }
+
+  private countByStatus(tasks: Job[]): TaskStatusCounts {
+    return {
+      pending: tasks.filter((t) => t.status === JobStatus.Pending).length,
+      processing: tasks.filter((t) => t.status === JobStatus.Processing).length,
+      completed: tasks.filter((t) => t.status === JobStatus.Completed).length,
+      failed: tasks.filter((t) => t.status === JobStatus.Failed).length,
+      cancelled: tasks.filter((t) => t.status === JobStatus.Cancelled).length,
+      cancelling: tasks.filter((t) => t.status === JobStatus.Cancelling).length,
+      retrying: tasks.filter((t) => t.status === JobStatus.Retrying).length,
+    };
+  }
+
+  private async getQueueNames(): Promise<string[]> {
+    const names = new Set([...BUILT_IN_QUEUES, ...this.queueRoutes.values(), ...(await this.store.getQueueNames())]);
+
+    for (const state of await this.store.getQueueStates()) {
+      names.add(state.name);
+    }
+
+    return Array.from(names);
+  }
+
+  private async assertQueueExists(name: string): Promise<void> {
+    if (!(await this.getQueueNames()).includes(name)) {
+      throw new NotFoundException(`Queue ${name} not found`);
+    }
+  }
+
+  private async getQueueStatus(name: string): Promise<QueueStatus> {
+    const state = (await this.store.getQueueStates()).find((entry) => entry.name === name);
+    return state?.status ?? 'active';
+  }
+
+  private async setQueueStatus(name: string, status: QueueStatus): Promise<QueueSummary> {
+    await this.assertQueueExists(name);
+
+    if ((await this.getQueueStatus(name)) === status) {
+      throw new BadRequestException(`Queue ${name} is already ${status}`);
+    }
+
+    await this.store.saveQueueState({ name, status, updatedAt: new Date() });
+
+    this.logger.warn(`Queue ${name} is now ${status}`);
+
+    return this.getQueue(name);
+  }
+
+  private async summarizeQueue(name: string, allTasks: Job[]): Promise<QueueSummary> {
+    const state = (await this.store.getQueueStates()).find((entry) => entry.name === name);
+    const tasks = allTasks.filter((task) => (task.queue ?? DEFAULT_QUEUE) === name);
+    const status = state?.status ?? 'active';
+    const queued = await this.store.getQueueLength(name);
+    const running = tasks.filter(
+      (task) => task.status === JobStatus.Processing || task.status === JobStatus.Cancelling,
+    ).length;
+
+    return {
+      name,
+      status,
+      queued,
+      running,
+      drained: status === 'draining' && queued === 0 && running === 0,
+      byStatus: this.countByStatus(tasks),
+      updatedAt: state?.updatedAt,
     };
   }
 }
@@ -0,0 +1,49 @@
+import { createHash } from 'crypto';
+
+/**
+ * Deduplication key reserved for a client-supplied idempotency key
+ */
+export function idempotencyTaskKey(idempotencyKey: string): string {
+  return `idempotency:${idempotencyKey}`;
+}
+
+/**
+ * Deduplication key of a task type and payload. Object keys are sorted first, so payloads that
+ * only differ in key order share a key.
+ */
+export function contentTaskKey(type: string, payload: Record<string, unknown>): string {
+  const fingerprint = createHash('sha256').update(stableStringify(payload)).digest('hex');
+
+  return `content:${type}:${fingerprint}`;
+}
+
+/**
+ * Parse a comma-separated list of task types, e.g. `report,export`
+ * @param value - The raw configuration value
+ * @returns The task types
+ */
+export function parseTaskTypeList(value: string | undefined): Set<string> {
+  return new Set(
+    (value ?? '')
+      .split(',')
+      .map((type) => type.trim())
+      .filter((type) => type.length > 0),
+  );
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,79 @@
+import { LockStore } from './lock-store.interface';
+
+/**
+ * In-Memory Lock Store
+ * Process-local locks used for tests and single-instance deployments.
+ * Provides no coordination between replicas. Each operation checks and updates a lock without
+ * yielding, which keeps it atomic for concurrent callers in the process.
+ */
+export class InMemoryLockStore implements LockStore {
+  private locks: Map<string, { owner: string; expiresAt: number }> = new Map();
+  private buckets: Map<string, { tokens: number; updatedAt: number }> = new Map();
+
+  /**
+   * @param now - Clock used for expiry, replaceable in tests
+   */
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async acquire(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const holder = this.currentOwner(key);
+
+    if (holder !== undefined && holder !== owner) {
+      return false;
+    }
+
+    this.locks.set(key, { owner, expiresAt: this.now() + ttlMs });
+    return true;
+  }
+
+  async renew(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    if (this.currentOwner(key) !== owner) {
+      return false;
+    }
+
+    this.locks.set(key, { owner, expiresAt: this.now() + ttlMs });
+    return true;
+  }
+
+  async release(key: string, owner: string): Promise<boolean> {
+    if (this.currentOwner(key) !== owner) {
+      return false;
+    }
+
+    this.locks.delete(key);
+    return true;
+  }
+
+  async getOwner(key: string): Promise<string | undefined> {
+    return this.currentOwner(key);
+  }
+
+  async consumeToken(key: string, capacity: number, refillMs: number): Promise<number> {
+    const now = this.now();
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    const tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) * capacity) / refillMs);
+
+    if (tokens >= 1) {
+      this.buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+      return 0;
+    }
+
+    this.buckets.set(key, { tokens, updatedAt: now });
+    return Math.ceil(((1 - tokens) * refillMs) / capacity);
+  }
+
+  private currentOwner(key: string): string | undefined {
+    const lock = this.locks.get(key);
+
+    if (!lock) {
+      return undefined;
+    }
+
+    if (lock.expiresAt <= this.now()) {
+      this.locks.delete(key);
+      return undefined;
+    }
+
+    return lock.owner;
+  }
+}
@@ -0,0 +1,318 @@
+import { Job } from '../../../common/src/types/common';
+import {
+  TaskStore,
+  LogEntry,
+  DeadLetterEntry,
+  WorkflowRecord,
+  TaskTypeLimits,
+  QueueState,
+  DEFAULT_QUEUE,
+} from './task-store.interface';
+import { PriorityHeap } from './priority-heap';
+import { PriorityAging, QueuedTaskRank, compareQueuedTasks } from './priority-aging';
+import { ScheduledJob, JobRun } from '../scheduler/scheduled-job.interface';
+
+/**
+ * A task waiting for its delay to elapse
+ */
+interface DelayedTask {
+  task: Job;
+  availableAt: number;
+}
+
+/**
+ * In-Memory Task Store
+ * Process-local storage used for tests and local development.
+ * All state is lost when the process exits.
+ *
+ * Each queue keeps one heap per priority level, ordered by age. The head of a level is its
+ * longest waiting task and so also the one that gained the most priority by aging, which means
+ * dequeue only compares the heads of the levels.
+ */
+export class InMemoryTaskStore implements TaskStore {
+  private tasks: Map<string, Job> = new Map();
+  private taskLogs: Map<string, LogEntry[]> = new Map();
+  private taskQueues: Map<string, Map<number, PriorityHeap<Job>>> = new Map();
+  private delayedQueue = new PriorityHeap<DelayedTask>(
+    (a, b) => a.availableAt - b.availableAt,
+    (entry) => entry.task.id,
+  );
+  private queueStates: Map<string, QueueState> = new Map();
+  private taskKeys: Map<string, { taskId: string; expiresAt: number }> = new Map();
+  private deadLetters: Map<string, DeadLetterEntry> = new Map();
+  private workflows: Map<string, WorkflowRecord> = new Map();
+  private scheduledJobs: Map<string, ScheduledJob> = new Map();
+  private jobRuns: Map<string, Map<string, JobRun>> = new Map();
+  private typeLimits: Map<string, TaskTypeLimits> = new Map();
+
+  async saveTask(task: Job): Promise<void> {
+    this.tasks.set(task.id, task);
+  }
+
+  async updateTask(taskId: string, change: (task: Job) => Job | undefined): Promise<Job | undefined> {
+    const task = this.tasks.get(taskId);
+    const updated = task && change(task);
+
+    if (updated) {
+      this.tasks.set(taskId, updated);
+    }
+    return updated;
+  }
+
+  async getTask(taskId: string): Promise<Job | undefined> {
+    return this.tasks.get(taskId);
+  }
+
+  async getAllTasks(): Promise<Job[]> {
+    return Array.from(this.tasks.values());
+  }
+
+  async deleteTask(taskId: string): Promise<void> {
+    this.tasks.delete(taskId);
+    this.taskLogs.delete(taskId);
+    await this.removeFromQueue(taskId);
+  }
+
+  async appendLog(taskId: string, log: LogEntry): Promise<void> {
+    if (!this.taskLogs.has(taskId)) {
+      this.taskLogs.set(taskId, []);
+    }
+    this.taskLogs.get(taskId)!.push(log);
+  }
+
+  async getLogs(taskId: string): Promise<LogEntry[]> {
+    return [...(this.taskLogs.get(taskId) || [])];
+  }
+
+  async deleteLogsBefore(taskId: string, before: Date): Promise<number> {
+    const logs = this.taskLogs.get(taskId) || [];
+    const kept = logs.findIndex((log) => log.timestamp >= before);
+    const count = kept < 0 ? logs.length : kept;
+
+    logs.splice(0, count);
+    return count;
+  }
+
+  async enqueue(task: Job, delayMs?: number): Promise<void> {
+    await this.removeFromQueue(task.id);
+
+    // Registers the queue name even while the task is delayed
+    const levels = this.queueLevels(task.queue ?? DEFAULT_QUEUE);
+
+    if (delayMs && delayMs > 0) {
+      this.delayedQueue.push({ task, availableAt: Date.now() + delayMs });
+      return;
+    }
+
+    this.readyHeap(levels, task.priority).push(task);
+  }
+
+  async dequeue(queues?: string[], aging?: PriorityAging, now: number = Date.now()): Promise<string | undefined> {
+    this.promoteDueTasks();
+
+    let next: { heap: PriorityHeap<Job>; task: Job } | undefined;
+
+    for (const [name, levels] of this.taskQueues) {
+      if (queues && !queues.includes(name)) {
+        continue;
+      }
+
+      for (const heap of levels.values()) {
+        const head = heap.peek();
+
+        if (head && (!next || compareQueuedTasks(this.rank(head), this.rank(next.task), now, aging) < 0)) {
+          next = { heap, task: head };
+        }
+      }
+    }
+
+    return next?.heap.pop()?.id;
+  }
+
+  async removeFromQueue(taskId: string): Promise<void> {
+    for (const levels of this.taskQueues.values()) {
+      for (const heap of levels.values()) {
+        heap.delete(taskId);
+      }
+    }
+    this.delayedQueue.delete(taskId);
+  }
+
+  async isQueued(taskId: string): Promise<boolean> {
+    for (const levels of this.taskQueues.values()) {
+      for (const heap of levels.values()) {
+        if (heap.has(taskId)) {
+          return true;
+        }
+      }
+    }
+    return this.delayedQueue.has(taskId);
+  }
+
+  async getQueueLength(queue?: string): Promise<number> {
+    let length = 0;
+
+    for (const [name, levels] of this.taskQueues) {
+      if (queue === undefined || name === queue) {
+        for (const heap of levels.values()) {
+          length += heap.size;
+        }
+      }
+    }
+
+    const delayed = this.delayedQueue.values();
+    length += delayed.filter(({ task }) => queue === undefined || (task.queue ?? DEFAULT_QUEUE) === queue).length;
+
+    return length;
+  }
+
+  async getQueueNames(): Promise<string[]> {
+    return Array.from(this.taskQueues.keys());
+  }
+
+  async saveQueueState(state: QueueState): Promise<void> {
+    this.queueStates.set(state.name, state);
+  }
+
+  async getQueueStates(): Promise<QueueState[]> {
+    return Array.from(this.queueStates.values());
+  }
+
+  async reserveTaskKey(key: string, taskId: string, ttlMs: number): Promise<string> {
+    const current = this.taskKeys.get(key);
+
+    if (current && current.expiresAt > Date.now()) {
+      return current.taskId;
+    }
+
+    this.taskKeys.set(key, { taskId, expiresAt: Date.now() + ttlMs });
+    return taskId;
+  }
+
+  async releaseTaskKey(key: string, taskId: string): Promise<void> {
+    if (this.taskKeys.get(key)?.taskId === taskId) {
+      this.taskKeys.delete(key);
+    }
+  }
+
+  async saveDeadLetter(entry: DeadLetterEntry): Promise<void> {
+    this.deadLetters.set(entry.taskId, entry);
+  }
+
+  async getDeadLetter(taskId: string): Promise<DeadLetterEntry | undefined> {
+    return this.deadLetters.get(taskId);
+  }
+
+  async getDeadLetters(): Promise<DeadLetterEntry[]> {
+    return Array.from(this.deadLetters.values());
+  }
+
+  async deleteDeadLetter(taskId: string): Promise<void> {
+    this.deadLetters.delete(taskId);
+  }
+
+  async saveWorkflow(workflow: WorkflowRecord): Promise<void> {
+    this.workflows.set(workflow.id, workflow);
+  }
+
+  async getWorkflow(workflowId: string): Promise<WorkflowRecord | undefined> {
+    return this.workflows.get(workflowId);
+  }
+
+  async getWorkflows(): Promise<WorkflowRecord[]> {
+    return Array.from(this.workflows.values());
+  }
+
+  async deleteWorkflow(workflowId: string): Promise<void> {
+    this.workflows.delete(workflowId);
+  }
+
+  async saveScheduledJob(job: ScheduledJob): Promise<void> {
+    this.scheduledJobs.set(job.id, job);
+  }
+
+  async getScheduledJob(jobId: string): Promise<ScheduledJob | undefined> {
+    return this.scheduledJobs.get(jobId);
+  }
+
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return Array.from(this.scheduledJobs.values());
+  }
+
+  async deleteScheduledJob(jobId: string): Promise<void> {
+    this.scheduledJobs.delete(jobId);
+    this.jobRuns.delete(jobId);
+  }
+
+  async saveJobRun(run: JobRun): Promise<void> {
+    if (!this.jobRuns.has(run.jobId)) {
+      this.jobRuns.set(run.jobId, new Map());
+    }
+    this.jobRuns.get(run.jobId)!.set(run.id, run);
+  }
+
+  async getJobRun(jobId: string, runId: string): Promise<JobRun | undefined> {
+    return this.jobRuns.get(jobId)?.get(runId);
+  }
+
+  async getJobRuns(jobId: string): Promise<JobRun[]> {
+    const runs = Array.from(this.jobRuns.get(jobId)?.values() ?? []);
+    return runs.sort((a, b) => b.scheduledAt.getTime() - a.scheduledAt.getTime());
+  }
+
+  async deleteJobRuns(jobId: string, runIds: string[]): Promise<void> {
+    runIds.forEach((runId) => this.jobRuns.get(jobId)?.delete(runId));
+  }
+
+  async saveTypeLimits(type: string, limits: TaskTypeLimits): Promise<void> {
+    this.typeLimits.set(type, limits);
+  }
+
+  async getTypeLimits(type: string): Promise<TaskTypeLimits | undefined> {
+    return this.typeLimits.get(type);
+  }
+
+  async getAllTypeLimits(): Promise<Record<string, TaskTypeLimits>> {
+    return Object.fromEntries(this.typeLimits);
+  }
+
+  async deleteTypeLimits(type: string): Promise<void> {
+    this.typeLimits.delete(type);
+  }
+
+  /**
+   * Move delayed tasks whose delay has elapsed into the ready part of their queue
+   */
+  private promoteDueTasks(): void {
+    const now = Date.now();
+
+    while ((this.delayedQueue.peek()?.availableAt ?? Infinity) <= now) {
+      const { task } = this.delayedQueue.pop() as DelayedTask;
+      this.readyHeap(this.queueLevels(task.queue ?? DEFAULT_QUEUE), task.priority).push(task);
+    }
+  }
+
+  private queueLevels(name: string): Map<number, PriorityHeap<Job>> {
+    if (!this.taskQueues.has(name)) {
+      this.taskQueues.set(name, new Map());
+    }
+    return this.taskQueues.get(name)!;
+  }
+
+  private readyHeap(levels: Map<number, PriorityHeap<Job>>, priority: number): PriorityHeap<Job> {
+    if (!levels.has(priority)) {
+      levels.set(
+        priority,
+        new PriorityHeap<Job>(
+          (a, b) => this.rank(a).queuedAt - this.rank(b).queuedAt,
+          (task) => task.id,
+        ),
+      );
+    }
+    return levels.get(priority)!;
+  }
+
+  private rank(task: Job): QueuedTaskRank {
+    return { priority: task.priority, queuedAt: (task.queuedAt ?? task.createdAt).getTime() };
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Injection token for the configured lock storage backend
+ */
+export const LOCK_STORE = 'LOCK_STORE';
+
+/**
+ * Lock Store
+ * Expiring, owner-checked locks and token buckets shared by every worker replica. Used for task
+ * leases, leader election and per-type throttling. All operations must be atomic.
+ */
+export interface LockStore {
+  /**
+   * Take a lock if it is free, expired or already held by the owner
+   * @param key - The lock name
+   * @param owner - Identity of the caller
+   * @param ttlMs - How long the lock is held unless renewed
+   * @returns True if the owner now holds the lock
+   */
+  acquire(key: string, owner: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Extend a lock the owner still holds
+   * @returns False if the lock expired or is held by someone else
+   */
+  renew(key: string, owner: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Release a lock the owner holds. Locks held by someone else are left alone.
+   * @returns True if the lock was released
+   */
+  release(key: string, owner: string): Promise<boolean>;
+
+  /**
+   * Get the current holder of a lock
+   * @returns The owner, or undefined if the lock is free
+   */
+  getOwner(key: string): Promise<string | undefined>;
+
+  /**
+   * Take one token from a bucket holding up to `capacity` tokens that refills completely every
+   * `refillMs`. A bucket starts full.
+   * @returns 0 if a token was taken, otherwise the milliseconds until the next token is available
+   */
+  consumeToken(key: string, capacity: number, refillMs: number): Promise<number>;
+}
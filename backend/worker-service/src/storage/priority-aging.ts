@@ -0,0 +1,49 @@
+/**
+ * How much a waiting task's priority grows with its age, so that low priority tasks are not
+ * starved by a steady stream of higher priority ones
+ */
+export interface PriorityAging {
+  /** Priority points gained per minute since the task was queued */
+  ratePerMinute: number;
+  /**
+   * Highest priority a task can age to. Tasks that reached it are taken in the order they were
+   * queued, so a task that waited long enough is never overtaken by newer ones below the cap;
+   * tasks created at or above it do not age.
+   */
+  cap: number;
+}
+
+/**
+ * The part of a queued task that decides its place in the queue
+ */
+export interface QueuedTaskRank {
+  priority: number;
+  /** Time the task was queued in milliseconds (`queuedAt`, or its creation time if it has none) */
+  queuedAt: number;
+}
+
+/**
+ * Priority of a waiting task including the points gained by aging
+ * @param task - The queued task
+ * @param now - The current time in milliseconds
+ * @param aging - The aging policy; none when omitted
+ */
+export function effectivePriority(task: QueuedTaskRank, now: number, aging?: PriorityAging): number {
+  if (!aging || aging.ratePerMinute <= 0 || task.priority >= aging.cap) {
+    return task.priority;
+  }
+
+  const waitedMinutes = Math.max(0, now - task.queuedAt) / 60000;
+
+  return Math.min(aging.cap, task.priority + waitedMinutes * aging.ratePerMinute);
+}
+
+/**
+ * Order queued tasks by effective priority (higher first) and queue time (earlier first)
+ * @returns A negative number when `a` should be dequeued before `b`
+ */
+export function compareQueuedTasks(a: QueuedTaskRank, b: QueuedTaskRank, now: number, aging?: PriorityAging): number {
+  const difference = effectivePriority(b, now, aging) - effectivePriority(a, now, aging);
+
+  return difference !== 0 ? difference : a.queuedAt - b.queuedAt;
+}
@@ -0,0 +1,136 @@
+/**
+ * Priority Heap
+ * Binary min-heap of items with a unique key. Items are ordered by `compare` (negative when the
+ * first item comes out first). Push, pop and delete by key are O(log n); peek is O(1).
+ */
+export class PriorityHeap<T> {
+  private items: T[] = [];
+  private positions: Map<string, number> = new Map();
+
+  constructor(
+    private readonly compare: (a: T, b: T) => number,
+    private readonly keyOf: (item: T) => string,
+  ) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Add an item, replacing any item with the same key
+   */
+  push(item: T): void {
+    this.delete(this.keyOf(item));
+
+    this.items.push(item);
+    this.positions.set(this.keyOf(item), this.items.length - 1);
+    this.siftUp(this.items.length - 1);
+  }
+
+  /**
+   * Get the first item without removing it
+   */
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  /**
+   * Remove and return the first item
+   */
+  pop(): T | undefined {
+    const first = this.items[0];
+
+    if (first !== undefined) {
+      this.removeAt(0);
+    }
+
+    return first;
+  }
+
+  /**
+   * Remove the item with the given key
+   * @returns Whether an item was removed
+   */
+  delete(key: string): boolean {
+    const index = this.positions.get(key);
+
+    if (index === undefined) {
+      return false;
+    }
+
+    this.removeAt(index);
+    return true;
+  }
+
+  has(key: string): boolean {
+    return this.positions.has(key);
+  }
+
+  /**
+   * All items, in no particular order
+   */
+  values(): T[] {
+    return [...this.items];
+  }
+
+  private removeAt(index: number): void {
+    const last = this.items.length - 1;
+
+    this.positions.delete(this.keyOf(this.items[index]));
+
+    if (index !== last) {
+      this.move(this.items[last], index);
+    }
+    this.items.pop();
+
+    if (index < this.items.length) {
+      this.siftDown(index);
+      this.siftUp(index);
+    }
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+
+      if (this.compare(this.items[index], this.items[parent]) >= 0) {
+        return;
+      }
+
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let first = index;
+
+      if (left < this.items.length && this.compare(this.items[left], this.items[first]) < 0) {
+        first = left;
+      }
+      if (right < this.items.length && this.compare(this.items[right], this.items[first]) < 0) {
+        first = right;
+      }
+      if (first === index) {
+        return;
+      }
+
+      this.swap(index, first);
+      index = first;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    const itemA = this.items[a];
+    this.move(this.items[b], a);
+    this.move(itemA, b);
+  }
+
+  private move(item: T, index: number): void {
+    this.items[index] = item;
+    this.positions.set(this.keyOf(item), index);
+  }
+}
@@ -0,0 +1,26 @@
+import Redis from 'ioredis';
+
+/**
+ * Read one field of a section of the Redis INFO report (available even where CONFIG is disabled)
+ * @returns The value, or undefined when Redis does not report the field
+ */
+export async function readRedisInfo(client: Redis, section: string, field: string): Promise<string | undefined> {
+  const info = await client.info(section);
+  return info.match(new RegExp(`^${field}:(.*)$`, 'm'))?.[1]?.trim();
+}
+
+/**
+ * Make sure Redis never evicts keys. Under any other maxmemory-policy, keys without an expiry
+ * may be evicted under memory pressure, and under the volatile policies so may those with one,
+ * so stored state would disappear without an error.
+ * @throws Error if Redis runs with an eviction policy
+ */
+export async function assertNoEviction(client: Redis, purpose: string): Promise<void> {
+  const policy = await readRedisInfo(client, 'memory', 'maxmemory_policy');
+
+  if (policy !== undefined && policy !== 'noeviction') {
+    throw new Error(
+      `Redis for ${purpose} runs with maxmemory-policy ${policy}; set it to noeviction so keys are never evicted`,
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { Logger, OnApplicationShutdown, OnModuleInit } from '@nestjs/common';
+import Redis from 'ioredis';
+import { LockStore } from './lock-store.interface';
+import { assertNoEviction } from './redis-info';
+
+/**
+ * Set the lock if it is free or already held by the owner
+ */
+const ACQUIRE_SCRIPT = `
+local holder = redis.call('GET', KEYS[1])
+if holder == false or holder == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+return 0
+`;
+
+/**
+ * Extend the lock only if the owner still holds it
+ */
+const RENEW_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/**
+ * Delete the lock only if the owner still holds it
+ */
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Refill the bucket for the time elapsed (by the Redis clock, shared by all replicas) and take a
+ * token if one is available. Returns the wait in milliseconds, 0 when a token was taken.
+ */
+const CONSUME_TOKEN_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill_ms = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or capacity
+local updated_at = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + (now - updated_at) * capacity / refill_ms)
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  wait = math.ceil((1 - tokens) * refill_ms / capacity)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], refill_ms * 2)
+return wait
+`;
+
+/**
+ * Redis Lock Store
+ * Locks shared by every replica, stored as `{prefix}:lock:{key}` with the owner as value and the
+ * TTL as key expiry. Token buckets are hashes at `{prefix}:bucket:{key}`. Checks and updates run
+ * in Lua scripts so they are atomic.
+ *
+ * An evicted lock would let a second replica take a task or scheduler leadership that is still
+ * held, so the store refuses to start on a Redis whose maxmemory-policy is not `noeviction`.
+ */
+export class RedisLockStore implements LockStore, OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(RedisLockStore.name);
+
+  constructor(
+    private readonly client: Redis,
+    private readonly prefix: string = 'worker',
+  ) {}
+
+  async acquire(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    return (await this.client.eval(ACQUIRE_SCRIPT, 1, this.lockKey(key), owner, ttlMs)) === 1;
+  }
+
+  async renew(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    return (await this.client.eval(RENEW_SCRIPT, 1, this.lockKey(key), owner, ttlMs)) === 1;
+  }
+
+  async release(key: string, owner: string): Promise<boolean> {
+    return (await this.client.eval(RELEASE_SCRIPT, 1, this.lockKey(key), owner)) === 1;
+  }
+
+  async getOwner(key: string): Promise<string | undefined> {
+    return (await this.client.get(this.lockKey(key))) ?? undefined;
+  }
+
+  async consumeToken(key: string, capacity: number, refillMs: number): Promise<number> {
+    return Number(await this.client.eval(CONSUME_TOKEN_SCRIPT, 1, this.bucketKey(key), capacity, refillMs));
+  }
+
+  async onModuleInit(): Promise<void> {
+    await assertNoEviction(this.client, 'task leases and scheduler leadership');
+  }
+
+  /**
+   * Close the connection only once the application has shut down: services still drain running
+   * tasks and release leases through it in their onModuleDestroy
+   */
+  async onApplicationShutdown(): Promise<void> {
+    this.logger.log('Closing Redis connection...');
+    await this.client.quit();
+  }
+
+  private lockKey(key: string): string {
+    return `${this.prefix}:lock:${key}`;
+  }
+
+  private bucketKey(key: string): string {
+    return `${this.prefix}:bucket:${key}`;
+  }
+}
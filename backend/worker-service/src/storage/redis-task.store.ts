@@ -0,0 +1,569 @@
+import { Logger, OnApplicationShutdown, OnModuleInit } from '@nestjs/common';
+import Redis from 'ioredis';
+import { Job } from '../../../common/src/types/common';
+import {
+  TaskStore,
+  LogEntry,
+  DeadLetterEntry,
+  WorkflowRecord,
+  TaskTypeLimits,
+  QueueState,
+  DEFAULT_QUEUE,
+} from './task-store.interface';
+import { PriorityAging, QueuedTaskRank, compareQueuedTasks } from './priority-aging';
+import { ScheduledJob, JobRun } from '../scheduler/scheduled-job.interface';
+import { assertNoEviction, readRedisInfo } from './redis-info';
+
+/**
+ * Job fields persisted as ISO strings that must be revived into Date objects
+ */
+const TASK_DATE_FIELDS = [
+  'createdAt',
+  'startedAt',
+  'completedAt',
+  'failedAt',
+  'nextRetryAt',
+  'queuedAt',
+  'heartbeatAt',
+] as const;
+
+/**
+ * Multiplier that keeps priority dominant over queue time in the queue score.
+ * Millisecond timestamps stay below 1e13 until the year 2286.
+ */
+const PRIORITY_SCORE_FACTOR = 1e13;
+
+/**
+ * Delete a key only while it still holds the expected value
+ */
+const RELEASE_TASK_KEY_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Replace a value only while it is still the one the change was based on
+ */
+const COMPARE_AND_SET_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[2])
+  return 1
+end
+return 0
+`;
+
+/**
+ * Move a task from the delayed set to the ready set, unless another promoter already took it
+ */
+const PROMOTE_TASK_SCRIPT = `
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 1 then
+  redis.call('ZADD', KEYS[2], ARGV[2], ARGV[1])
+  return 1
+end
+return 0
+`;
+
+/**
+ * Redis Task Store
+ * Durable storage for task state, queue ordering, delayed retries and logs.
+ *
+ * Key layout (prefix defaults to "worker"):
+ * - `{prefix}:task:{id}`       JSON encoded task
+ * - `{prefix}:tasks`           set of all task IDs
+ * - `{prefix}:logs:{id}`       list of JSON encoded log entries
+ * - `{prefix}:queue`           sorted set of ready task IDs of the default queue, scored by priority then age
+ * - `{prefix}:queue:delayed`   sorted set of delayed task IDs of the default queue, scored by availability time
+ * - `{prefix}:queues:{name}`   ready task IDs of any other named queue
+ * - `{prefix}:queues:{name}:delayed` delayed task IDs of any other named queue
+ * - `{prefix}:queues`          set of the names of all queues tasks were placed in
+ * - `{prefix}:queue-states`    hash of queue name to JSON encoded queue state
+ * - `{prefix}:task-key:{key}`  ID of the task holding a deduplication key, expiring with the key
+ * - `{prefix}:dlq`             hash of task ID to JSON encoded dead-letter entry
+ * - `{prefix}:workflows`       hash of workflow ID to JSON encoded workflow definition
+ * - `{prefix}:jobs`            hash of scheduled job ID to JSON encoded scheduled job
+ * - `{prefix}:job-runs:{id}`   hash of run ID to JSON encoded run of a scheduled job
+ * - `{prefix}:limits`          hash of task type to JSON encoded runtime limits
+ *
+ * The default queue keeps the keys it had before queues were named, so tasks queued by an
+ * older version are still picked up.
+ *
+ * None of these keys may be evicted, so the store refuses to start on a Redis whose
+ * maxmemory-policy is not `noeviction`, and warns when the append-only file is disabled.
+ */
+export class RedisTaskStore implements TaskStore, OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(RedisTaskStore.name);
+
+  constructor(
+    private readonly client: Redis,
+    private readonly prefix: string = 'worker',
+  ) {}
+
+  async saveTask(task: Job): Promise<void> {
+    await this.client
+      .multi()
+      .set(this.taskKey(task.id), JSON.stringify(task))
+      .sadd(this.tasksKey(), task.id)
+      .exec();
+  }
+
+  async updateTask(taskId: string, change: (task: Job) => Job | undefined): Promise<Job | undefined> {
+    // Apply the change again to the newer version when the task was written meanwhile
+    for (;;) {
+      const raw = await this.client.get(this.taskKey(taskId));
+      const updated = raw ? change(this.deserializeTask(raw)) : undefined;
+
+      if (!raw || !updated) {
+        return undefined;
+      }
+
+      if ((await this.client.eval(COMPARE_AND_SET_SCRIPT, 1, this.taskKey(taskId), raw, JSON.stringify(updated))) === 1) {
+        return updated;
+      }
+    }
+  }
+
+  async getTask(taskId: string): Promise<Job | undefined> {
+    const raw = await this.client.get(this.taskKey(taskId));
+    return raw ? this.deserializeTask(raw) : undefined;
+  }
+
+  async getAllTasks(): Promise<Job[]> {
+    const ids = await this.client.smembers(this.tasksKey());
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const values = await this.client.mget(...ids.map((id) => this.taskKey(id)));
+    return values
+      .filter((raw): raw is string => raw !== null)
+      .map((raw) => this.deserializeTask(raw));
+  }
+
+  async deleteTask(taskId: string): Promise<void> {
+    await this.client
+      .multi()
+      .del(this.taskKey(taskId), this.logsKey(taskId))
+      .srem(this.tasksKey(), taskId)
+      .exec();
+    await this.removeFromQueue(taskId);
+  }
+
+  async appendLog(taskId: string, log: LogEntry): Promise<void> {
+    await this.client.rpush(this.logsKey(taskId), JSON.stringify(log));
+  }
+
+  async getLogs(taskId: string): Promise<LogEntry[]> {
+    const entries = await this.client.lrange(this.logsKey(taskId), 0, -1);
+    return entries.map((raw) => {
+      const log = JSON.parse(raw) as LogEntry;
+      return { ...log, timestamp: new Date(log.timestamp) };
+    });
+  }
+
+  async deleteLogsBefore(taskId: string, before: Date): Promise<number> {
+    const logs = await this.getLogs(taskId);
+    const kept = logs.findIndex((log) => log.timestamp >= before);
+    const count = kept < 0 ? logs.length : kept;
+
+    // Entries appended meanwhile go to the end of the list, so trimming the start is safe
+    if (count > 0) {
+      await this.client.ltrim(this.logsKey(taskId), count, -1);
+    }
+
+    return count;
+  }
+
+  async enqueue(task: Job, delayMs?: number): Promise<void> {
+    const queue = task.queue ?? DEFAULT_QUEUE;
+    const pipeline = this.client.multi().sadd(this.queueNamesKey(), queue);
+
+    for (const name of await this.getQueueNames()) {
+      pipeline.zrem(this.queueKey(name), task.id).zrem(this.delayedKey(name), task.id);
+    }
+
+    if (delayMs && delayMs > 0) {
+      pipeline.zadd(this.delayedKey(queue), Date.now() + delayMs, task.id);
+    } else {
+      pipeline.zadd(this.queueKey(queue), this.queueScore(task), task.id);
+    }
+
+    await pipeline.exec();
+  }
+
+  async dequeue(queues?: string[], aging?: PriorityAging, now: number = Date.now()): Promise<string | undefined> {
+    const names = queues ?? (await this.getQueueNames());
+
+    for (const name of names) {
+      await this.promoteDueTasks(name);
+    }
+
+    // ZREM acts as the claim, so pick the best head again if another worker took it first
+    for (;;) {
+      let next: { queue: string; taskId: string; rank: QueuedTaskRank } | undefined;
+
+      for (const name of names) {
+        for (const head of await this.getPriorityHeads(name)) {
+          if (!next || compareQueuedTasks(head.rank, next.rank, now, aging) < 0) {
+            next = { queue: name, ...head };
+          }
+        }
+      }
+
+      if (!next) {
+        return undefined;
+      }
+
+      if ((await this.client.zrem(this.queueKey(next.queue), next.taskId)) > 0) {
+        return next.taskId;
+      }
+    }
+  }
+
+  async removeFromQueue(taskId: string): Promise<void> {
+    const pipeline = this.client.multi();
+
+    for (const name of await this.getQueueNames()) {
+      pipeline.zrem(this.queueKey(name), taskId).zrem(this.delayedKey(name), taskId);
+    }
+
+    await pipeline.exec();
+  }
+
+  async isQueued(taskId: string): Promise<boolean> {
+    const scores = await Promise.all(
+      (await this.getQueueNames()).flatMap((name) => [
+        this.client.zscore(this.queueKey(name), taskId),
+        this.client.zscore(this.delayedKey(name), taskId),
+      ]),
+    );
+    return scores.some((score) => score !== null);
+  }
+
+  async getQueueLength(queue?: string): Promise<number> {
+    const names = queue === undefined ? await this.getQueueNames() : [queue];
+    const lengths = await Promise.all(
+      names.flatMap((name) => [this.client.zcard(this.queueKey(name)), this.client.zcard(this.delayedKey(name))]),
+    );
+    return lengths.reduce((sum, length) => sum + length, 0);
+  }
+
+  async getQueueNames(): Promise<string[]> {
+    const names = await this.client.smembers(this.queueNamesKey());
+    return names.includes(DEFAULT_QUEUE) ? names : [DEFAULT_QUEUE, ...names];
+  }
+
+  async saveQueueState(state: QueueState): Promise<void> {
+    await this.client.hset(this.queueStatesKey(), state.name, JSON.stringify(state));
+  }
+
+  async getQueueStates(): Promise<QueueState[]> {
+    const values = await this.client.hvals(this.queueStatesKey());
+    return values.map((raw) => {
+      const state = JSON.parse(raw) as QueueState;
+      return { ...state, updatedAt: new Date(state.updatedAt) };
+    });
+  }
+
+  async reserveTaskKey(key: string, taskId: string, ttlMs: number): Promise<string> {
+    for (;;) {
+      if (await this.client.set(this.taskKeyKey(key), taskId, 'PX', ttlMs, 'NX')) {
+        return taskId;
+      }
+
+      // The reservation may expire between SET and GET; try again if it did
+      const holder = await this.client.get(this.taskKeyKey(key));
+      if (holder) {
+        return holder;
+      }
+    }
+  }
+
+  async releaseTaskKey(key: string, taskId: string): Promise<void> {
+    await this.client.eval(RELEASE_TASK_KEY_SCRIPT, 1, this.taskKeyKey(key), taskId);
+  }
+
+  async saveDeadLetter(entry: DeadLetterEntry): Promise<void> {
+    await this.client.hset(this.deadLetterKey(), entry.taskId, JSON.stringify(entry));
+  }
+
+  async getDeadLetter(taskId: string): Promise<DeadLetterEntry | undefined> {
+    const raw = await this.client.hget(this.deadLetterKey(), taskId);
+    return raw ? this.deserializeDeadLetter(raw) : undefined;
+  }
+
+  async getDeadLetters(): Promise<DeadLetterEntry[]> {
+    const values = await this.client.hvals(this.deadLetterKey());
+    return values.map((raw) => this.deserializeDeadLetter(raw));
+  }
+
+  async deleteDeadLetter(taskId: string): Promise<void> {
+    await this.client.hdel(this.deadLetterKey(), taskId);
+  }
+
+  async saveWorkflow(workflow: WorkflowRecord): Promise<void> {
+    await this.client.hset(this.workflowsKey(), workflow.id, JSON.stringify(workflow));
+  }
+
+  async getWorkflow(workflowId: string): Promise<WorkflowRecord | undefined> {
+    const raw = await this.client.hget(this.workflowsKey(), workflowId);
+    return raw ? this.deserializeWorkflow(raw) : undefined;
+  }
+
+  async getWorkflows(): Promise<WorkflowRecord[]> {
+    const values = await this.client.hvals(this.workflowsKey());
+    return values.map((raw) => this.deserializeWorkflow(raw));
+  }
+
+  async deleteWorkflow(workflowId: string): Promise<void> {
+    await this.client.hdel(this.workflowsKey(), workflowId);
+  }
+
+  async saveScheduledJob(job: ScheduledJob): Promise<void> {
+    await this.client.hset(this.scheduledJobsKey(), job.id, JSON.stringify(job));
+  }
+
+  async getScheduledJob(jobId: string): Promise<ScheduledJob | undefined> {
+    const raw = await this.client.hget(this.scheduledJobsKey(), jobId);
+    return raw ? this.deserializeScheduledJob(raw) : undefined;
+  }
+
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    const values = await this.client.hvals(this.scheduledJobsKey());
+    return values.map((raw) => this.deserializeScheduledJob(raw));
+  }
+
+  async deleteScheduledJob(jobId: string): Promise<void> {
+    await this.client
+      .multi()
+      .hdel(this.scheduledJobsKey(), jobId)
+      .del(this.jobRunsKey(jobId))
+      .exec();
+  }
+
+  async saveJobRun(run: JobRun): Promise<void> {
+    await this.client.hset(this.jobRunsKey(run.jobId), run.id, JSON.stringify(run));
+  }
+
+  async getJobRun(jobId: string, runId: string): Promise<JobRun | undefined> {
+    const raw = await this.client.hget(this.jobRunsKey(jobId), runId);
+    return raw ? this.deserializeJobRun(raw) : undefined;
+  }
+
+  async getJobRuns(jobId: string): Promise<JobRun[]> {
+    const values = await this.client.hvals(this.jobRunsKey(jobId));
+    return values
+      .map((raw) => this.deserializeJobRun(raw))
+      .sort((a, b) => b.scheduledAt.getTime() - a.scheduledAt.getTime());
+  }
+
+  async deleteJobRuns(jobId: string, runIds: string[]): Promise<void> {
+    if (runIds.length > 0) {
+      await this.client.hdel(this.jobRunsKey(jobId), ...runIds);
+    }
+  }
+
+  async saveTypeLimits(type: string, limits: TaskTypeLimits): Promise<void> {
+    await this.client.hset(this.limitsKey(), type, JSON.stringify(limits));
+  }
+
+  async getTypeLimits(type: string): Promise<TaskTypeLimits | undefined> {
+    const raw = await this.client.hget(this.limitsKey(), type);
+    return raw ? (JSON.parse(raw) as TaskTypeLimits) : undefined;
+  }
+
+  async getAllTypeLimits(): Promise<Record<string, TaskTypeLimits>> {
+    const entries = await this.client.hgetall(this.limitsKey());
+    return Object.fromEntries(
+      Object.entries(entries).map(([type, raw]) => [type, JSON.parse(raw) as TaskTypeLimits]),
+    );
+  }
+
+  async deleteTypeLimits(type: string): Promise<void> {
+    await this.client.hdel(this.limitsKey(), type);
+  }
+
+  async onModuleInit(): Promise<void> {
+    await assertNoEviction(this.client, 'the task store');
+
+    if ((await readRedisInfo(this.client, 'persistence', 'aof_enabled')) === '0') {
+      this.logger.warn('Redis runs without the append-only file; tasks written since its last snapshot are lost if it restarts');
+    }
+  }
+
+  /**
+   * Close the connection only once the application has shut down: services still drain running
+   * tasks and release leases through it in their onModuleDestroy
+   */
+  async onApplicationShutdown(): Promise<void> {
+    this.logger.log('Closing Redis connection...');
+    await this.client.quit();
+  }
+
+  /**
+   * Move delayed tasks of a queue whose delay has elapsed into its ready set.
+   * Each move runs as one script, so a task is never in both sets or in neither, and concurrent
+   * promoters never move a task twice.
+   */
+  private async promoteDueTasks(queue: string): Promise<void> {
+    const dueIds = await this.client.zrangebyscore(this.delayedKey(queue), '-inf', Date.now());
+
+    for (const taskId of dueIds) {
+      const task = await this.getTask(taskId);
+      if (!task) {
+        await this.client.zrem(this.delayedKey(queue), taskId);
+        continue;
+      }
+
+      const promoted = await this.client.eval(
+        PROMOTE_TASK_SCRIPT,
+        2,
+        this.delayedKey(queue),
+        this.queueKey(queue),
+        taskId,
+        this.queueScore(task),
+      );
+      if (promoted === 1) {
+        this.logger.debug(`Task ${taskId} promoted from delayed queue`);
+      }
+    }
+  }
+
+  /**
+   * Get the oldest ready task of each priority level of a queue. Each level occupies its own
+   * band of PRIORITY_SCORE_FACTOR in the score range, ordered by age within the band.
+   */
+  private async getPriorityHeads(queue: string): Promise<{ taskId: string; rank: QueuedTaskRank }[]> {
+    const heads: { taskId: string; rank: QueuedTaskRank }[] = [];
+    let min = '-inf';
+
+    for (;;) {
+      const [taskId, rawScore] = await this.client.zrangebyscore(this.queueKey(queue), min, '+inf', 'WITHSCORES', 'LIMIT', 0, 1);
+
+      if (taskId === undefined) {
+        return heads;
+      }
+
+      const score = Number(rawScore);
+      const priority = -Math.floor(score / PRIORITY_SCORE_FACTOR);
+
+      heads.push({ taskId, rank: { priority, queuedAt: score + priority * PRIORITY_SCORE_FACTOR } });
+      min = String((1 - priority) * PRIORITY_SCORE_FACTOR);
+    }
+  }
+
+  private queueScore(task: Job): number {
+    return -task.priority * PRIORITY_SCORE_FACTOR + new Date(task.queuedAt ?? task.createdAt).getTime();
+  }
+
+  private deserializeTask(raw: string): Job {
+    const task = JSON.parse(raw) as Job;
+    for (const field of TASK_DATE_FIELDS) {
+      if (task[field]) {
+        task[field] = new Date(task[field] as Date);
+      }
+    }
+    if (task.progress) {
+      task.progress.updatedAt = new Date(task.progress.updatedAt);
+    }
+    return task;
+  }
+
+  private deserializeDeadLetter(raw: string): DeadLetterEntry {
+    const entry = JSON.parse(raw) as DeadLetterEntry;
+    return {
+      ...entry,
+      createdAt: new Date(entry.createdAt),
+      deadLetteredAt: new Date(entry.deadLetteredAt),
+      history: entry.history.map((attempt) => ({
+        ...attempt,
+        startedAt: attempt.startedAt ? new Date(attempt.startedAt) : undefined,
+        failedAt: new Date(attempt.failedAt),
+      })),
+    };
+  }
+
+  private deserializeWorkflow(raw: string): WorkflowRecord {
+    const workflow = JSON.parse(raw) as WorkflowRecord;
+    return {
+      ...workflow,
+      createdAt: new Date(workflow.createdAt),
+      cancelledAt: workflow.cancelledAt ? new Date(workflow.cancelledAt) : undefined,
+    };
+  }
+
+  private deserializeScheduledJob(raw: string): ScheduledJob {
+    const job = JSON.parse(raw) as ScheduledJob;
+    return {
+      ...job,
+      failureResetAt: job.failureResetAt ? new Date(job.failureResetAt) : undefined,
+      lastRun: job.lastRun ? new Date(job.lastRun) : undefined,
+      nextRun: job.nextRun ? new Date(job.nextRun) : undefined,
+      createdAt: new Date(job.createdAt),
+      updatedAt: new Date(job.updatedAt),
+    };
+  }
+
+  private deserializeJobRun(raw: string): JobRun {
+    const run = JSON.parse(raw) as JobRun;
+    return {
+      ...run,
+      scheduledAt: new Date(run.scheduledAt),
+      startedAt: run.startedAt ? new Date(run.startedAt) : undefined,
+      finishedAt: run.finishedAt ? new Date(run.finishedAt) : undefined,
+    };
+  }
+
+  private taskKey(taskId: string): string {
+    return `${this.prefix}:task:${taskId}`;
+  }
+
+  private tasksKey(): string {
+    return `${this.prefix}:tasks`;
+  }
+
+  private logsKey(taskId: string): string {
+    return `${this.prefix}:logs:${taskId}`;
+  }
+
+  private queueKey(queue: string): string {
+    return queue === DEFAULT_QUEUE ? `${this.prefix}:queue` : `${this.prefix}:queues:${queue}`;
+  }
+
+  private delayedKey(queue: string): string {
+    return `${this.queueKey(queue)}:delayed`;
+  }
+
+  private taskKeyKey(key: string): string {
+    return `${this.prefix}:task-key:${key}`;
+  }
+
+  private queueNamesKey(): string {
+    return `${this.prefix}:queues`;
+  }
+
+  private queueStatesKey(): string {
+    return `${this.prefix}:queue-states`;
+  }
+
+  private deadLetterKey(): string {
+    return `${this.prefix}:dlq`;
+  }
+
+  private limitsKey(): string {
+    return `${this.prefix}:limits`;
+  }
+
+  private workflowsKey(): string {
+    return `${this.prefix}:workflows`;
+  }
+
+  private scheduledJobsKey(): string {
+    return `${this.prefix}:jobs`;
+  }
+
+  private jobRunsKey(jobId: string): string {
+    return `${this.prefix}:job-runs:${jobId}`;
+  }
+}
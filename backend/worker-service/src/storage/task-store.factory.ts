@@ -0,0 +1,88 @@
+import { Logger } from '@nestjs/common';
+import Redis from 'ioredis';
+import { TaskStore } from './task-store.interface';
+import { InMemoryTaskStore } from './in-memory-task.store';
+import { RedisTaskStore } from './redis-task.store';
+import { LockStore } from './lock-store.interface';
+import { InMemoryLockStore } from './in-memory-lock.store';
+import { RedisLockStore } from './redis-lock.store';
+
+const logger = new Logger('TaskStoreFactory');
+
+/**
+ * Create a Redis client from REDIS_URL / REDIS_HOST and REDIS_PASSWORD
+ * @returns The client, or null when Redis is not configured
+ */
+export function createRedisClient(): Redis | null {
+  const redisUrl = process.env.REDIS_URL || process.env.REDIS_HOST;
+  const redisPassword = process.env.REDIS_PASSWORD;
+
+  if (!redisUrl) {
+    return null;
+  }
+
+  const options = {
+    retryStrategy: (times: number) => Math.min(times * 50, 2000),
+    maxRetriesPerRequest: 3,
+    enableReadyCheck: true,
+  };
+
+  let client: Redis;
+
+  if (redisUrl.startsWith('redis://') || redisUrl.startsWith('rediss://')) {
+    // If URL doesn't contain password but we have REDIS_PASSWORD, construct URL with password
+    let finalRedisUrl = redisUrl;
+    if (redisPassword && !redisUrl.includes('@')) {
+      const urlParts = redisUrl.match(/^(redis:\/\/|rediss:\/\/)(.+)$/);
+      if (urlParts) {
+        finalRedisUrl = `${urlParts[1]}:${redisPassword}@${urlParts[2]}`;
+      }
+    }
+    client = new Redis(finalRedisUrl, options);
+  } else {
+    client = new Redis({
+      host: redisUrl,
+      port: parseInt(process.env.REDIS_PORT || '6379', 10),
+      password: redisPassword,
+      ...options,
+    });
+  }
+
+  client.on('error', (error) => {
+    logger.error(`Redis client error: ${error.message}`);
+  });
+
+  return client;
+}
+
+/**
+ * Select the task storage backend.
+ * Redis is used whenever it is configured; otherwise tasks are kept in memory
+ * and are lost on restart.
+ */
+export function createTaskStore(): TaskStore {
+  const client = createRedisClient();
+
+  if (!client) {
+    logger.warn('REDIS_URL or REDIS_HOST not configured. Tasks will be stored in memory only.');
+    return new InMemoryTaskStore();
+  }
+
+  logger.log('Using Redis task storage');
+  return new RedisTaskStore(client, process.env.WORKER_REDIS_PREFIX || 'worker');
+}
+
+/**
+ * Select the lock storage backend.
+ * Redis is used whenever it is configured; the in-memory fallback only coordinates a single
+ * instance, so running several replicas requires Redis.
+ */
+export function createLockStore(): LockStore {
+  const client = createRedisClient();
+
+  if (!client) {
+    return new InMemoryLockStore();
+  }
+
+  return new RedisLockStore(client, process.env.WORKER_REDIS_PREFIX || 'worker');
+}
@@ -0,0 +1,325 @@
+import { Job, JobPriority, RetryPolicy } from '../../../common/src/types/common';
+import { PriorityAging } from './priority-aging';
+import { ScheduledJob, JobRun } from '../scheduler/scheduled-job.interface';
+
+/**
+ * Injection token for the configured task storage backend
+ */
+export const TASK_STORE = 'TASK_STORE';
+
+/**
+ * Log entry structure for task logging
+ */
+export interface LogEntry {
+  timestamp: Date;
+  level: 'info' | 'warn' | 'error' | 'debug';
+  message: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * One failed execution attempt of a task
+ */
+export interface TaskAttempt {
+  attempt: number;
+  startedAt?: Date;
+  failedAt: Date;
+  error: string;
+}
+
+/**
+ * Dead-letter queue entry for a task that will not be retried automatically.
+ * Self-contained so the task can be replayed even after its record has been cleaned up.
+ */
+export interface DeadLetterEntry {
+  taskId: string;
+  type: string;
+  payload: Record<string, unknown>;
+  priority: JobPriority;
+  error: string;
+  attempts: number;
+  maxAttempts: number;
+  history: TaskAttempt[];
+  retryPolicy?: RetryPolicy;
+  createdAt: Date;
+  deadLetteredAt: Date;
+}
+
+/**
+ * What happens to a workflow node when one of its parents fails or is cancelled:
+ * `propagate` cancels the node (and in turn its descendants), `tolerate` runs it anyway
+ */
+export type WorkflowFailureMode = 'propagate' | 'tolerate';
+
+/**
+ * One task of a workflow
+ */
+export interface WorkflowNode {
+  /** Name of the node, unique within the workflow */
+  key: string;
+  taskId: string;
+  type: string;
+  /** Keys of the parent nodes */
+  dependsOn: string[];
+  failureMode: WorkflowFailureMode;
+  /** Payload field to parent result path, e.g. `{ "records": "import.records" }` */
+  inputs?: Record<string, string>;
+}
+
+/**
+ * Stored definition of a workflow. Node state lives on the node tasks.
+ */
+export interface WorkflowRecord {
+  id: string;
+  name: string;
+  failureMode: WorkflowFailureMode;
+  nodes: WorkflowNode[];
+  createdAt: Date;
+  cancelledAt?: Date;
+}
+
+/**
+ * Token-bucket rate limit: up to `limit` tasks per `intervalMs`, with bursts of at most `limit`
+ */
+export interface RateLimit {
+  limit: number;
+  intervalMs: number;
+}
+
+/**
+ * Throttling applied to one task type. Omitted fields are unlimited.
+ */
+export interface TaskTypeLimits {
+  /** Maximum number of tasks of the type running at once across all workers */
+  maxConcurrency?: number;
+  rateLimit?: RateLimit;
+}
+
+/**
+ * Queue a task is placed in when it names none and no route matches its type
+ */
+export const DEFAULT_QUEUE = 'default';
+
+/**
+ * Whether a named queue hands out tasks: `paused` queues keep accepting tasks but none are
+ * started, `draining` queues keep starting the tasks they hold but accept no new ones
+ */
+export type QueueStatus = 'active' | 'paused' | 'draining';
+
+/**
+ * Stored state of a named queue. Queues without a stored state are active.
+ */
+export interface QueueState {
+  name: string;
+  status: QueueStatus;
+  updatedAt: Date;
+}
+
+/**
+ * Task Store
+ * Persistence contract for task state, the named priority queues, delayed retries and per-task logs.
+ * Implementations must be safe to use from several QueueService instances at once.
+ */
+export interface TaskStore {
+  /**
+   * Insert or replace a task
+   */
+  saveTask(task: Job): Promise<void>;
+
+  /**
+   * Change a task atomically. The change is applied to the task as stored; if another write
+   * replaces the task in the meantime, the change is applied again to the newer version, so it
+   * never undoes that write.
+   * @param change - Returns the changed task, or undefined to leave the task as it is
+   * @returns The changed task, or undefined if the task doesn't exist or was left as it is
+   */
+  updateTask(taskId: string, change: (task: Job) => Job | undefined): Promise<Job | undefined>;
+
+  /**
+   * Get a task by ID
+   */
+  getTask(taskId: string): Promise<Job | undefined>;
+
+  /**
+   * Get all stored tasks
+   */
+  getAllTasks(): Promise<Job[]>;
+
+  /**
+   * Delete a task together with its logs and queue entries
+   */
+  deleteTask(taskId: string): Promise<void>;
+
+  /**
+   * Append a log entry to a task's history
+   */
+  appendLog(taskId: string, log: LogEntry): Promise<void>;
+
+  /**
+   * Get all log entries of a task in insertion order
+   */
+  getLogs(taskId: string): Promise<LogEntry[]>;
+
+  /**
+   * Delete the log entries of a task older than a cutoff. Entries are removed from the start of
+   * the history up to the first one at or after the cutoff.
+   * @returns Number of entries deleted
+   */
+  deleteLogsBefore(taskId: string, before: Date): Promise<number>;
+
+  /**
+   * Place a task in its queue (`task.queue`, or the default queue), optionally only becoming
+   * available after a delay
+   */
+  enqueue(task: Job, delayMs?: number): Promise<void>;
+
+  /**
+   * Remove and return the ID of the highest priority, oldest ready task across the given queues,
+   * or across all queues when none are given. With an aging policy, priority includes the points
+   * a task gained while waiting until `now` (in milliseconds, default: the current time).
+   * Delayed tasks whose delay has elapsed are promoted before selecting.
+   */
+  dequeue(queues?: string[], aging?: PriorityAging, now?: number): Promise<string | undefined>;
+
+  /**
+   * Remove a task from the ready and delayed queues
+   */
+  removeFromQueue(taskId: string): Promise<void>;
+
+  /**
+   * Whether a task is waiting in any queue, ready or delayed
+   */
+  isQueued(taskId: string): Promise<boolean>;
+
+  /**
+   * Number of tasks waiting in the ready and delayed parts of a queue, or of all queues
+   */
+  getQueueLength(queue?: string): Promise<number>;
+
+  /**
+   * Names of all queues a task has been placed in
+   */
+  getQueueNames(): Promise<string[]>;
+
+  /**
+   * Insert or replace the state of a named queue
+   */
+  saveQueueState(state: QueueState): Promise<void>;
+
+  /**
+   * Get the stored states of all named queues
+   */
+  getQueueStates(): Promise<QueueState[]>;
+
+  /**
+   * Reserve a deduplication key (an idempotency key or payload fingerprint) for a task until
+   * `ttlMs` has passed, unless an unexpired reservation of another task exists
+   * @returns The ID of the task holding the key; `taskId` when the reservation succeeded
+   */
+  reserveTaskKey(key: string, taskId: string, ttlMs: number): Promise<string>;
+
+  /**
+   * Release a deduplication key if it is still held by the given task
+   */
+  releaseTaskKey(key: string, taskId: string): Promise<void>;
+
+  /**
+   * Insert or replace a dead-letter queue entry
+   */
+  saveDeadLetter(entry: DeadLetterEntry): Promise<void>;
+
+  /**
+   * Get the dead-letter queue entry of a task
+   */
+  getDeadLetter(taskId: string): Promise<DeadLetterEntry | undefined>;
+
+  /**
+   * Get all dead-letter queue entries
+   */
+  getDeadLetters(): Promise<DeadLetterEntry[]>;
+
+  /**
+   * Remove a task from the dead-letter queue
+   */
+  deleteDeadLetter(taskId: string): Promise<void>;
+
+  /**
+   * Insert or replace a workflow definition
+   */
+  saveWorkflow(workflow: WorkflowRecord): Promise<void>;
+
+  /**
+   * Get a workflow definition by ID
+   */
+  getWorkflow(workflowId: string): Promise<WorkflowRecord | undefined>;
+
+  /**
+   * Get all workflow definitions
+   */
+  getWorkflows(): Promise<WorkflowRecord[]>;
+
+  /**
+   * Delete a workflow definition. Its node tasks are not deleted.
+   */
+  deleteWorkflow(workflowId: string): Promise<void>;
+
+  /**
+   * Insert or replace a scheduled job
+   */
+  saveScheduledJob(job: ScheduledJob): Promise<void>;
+
+  /**
+   * Get a scheduled job by ID
+   */
+  getScheduledJob(jobId: string): Promise<ScheduledJob | undefined>;
+
+  /**
+   * Get all scheduled jobs
+   */
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+
+  /**
+   * Delete a scheduled job together with its runs. Tasks it enqueued are not deleted.
+   */
+  deleteScheduledJob(jobId: string): Promise<void>;
+
+  /**
+   * Insert or replace a run of a scheduled job
+   */
+  saveJobRun(run: JobRun): Promise<void>;
+
+  /**
+   * Get a run of a scheduled job
+   */
+  getJobRun(jobId: string, runId: string): Promise<JobRun | undefined>;
+
+  /**
+   * Get all stored runs of a scheduled job, newest first
+   */
+  getJobRuns(jobId: string): Promise<JobRun[]>;
+
+  /**
+   * Remove runs of a scheduled job
+   */
+  deleteJobRuns(jobId: string, runIds: string[]): Promise<void>;
+
+  /**
+   * Insert or replace the runtime limits of a task type
+   */
+  saveTypeLimits(type: string, limits: TaskTypeLimits): Promise<void>;
+
+  /**
+   * Get the runtime limits of a task type
+   */
+  getTypeLimits(type: string): Promise<TaskTypeLimits | undefined>;
+
+  /**
+   * Get the runtime limits of every task type that has them
+   */
+  getAllTypeLimits(): Promise<Record<string, TaskTypeLimits>>;
+
+  /**
+   * Remove the runtime limits of a task type
+   */
+  deleteTypeLimits(type: string): Promise<void>;
+}
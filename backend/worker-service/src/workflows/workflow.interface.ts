@@ -0,0 +1,57 @@
+import { JobStatus } from '../../../common/src/types/common';
+import { WorkflowNode, WorkflowFailureMode } from '../storage/task-store.interface';
+
+export type { WorkflowNode, WorkflowFailureMode, WorkflowRecord } from '../storage/task-store.interface';
+
+/**
+ * Overall state of a workflow, derived from its node tasks
+ */
+export enum WorkflowStatus {
+  Pending = 'pending',
+  Running = 'running',
+  Completed = 'completed',
+  Failed = 'failed',
+  Cancelled = 'cancelled',
+}
+
+/**
+ * A workflow node together with the current state of its task
+ */
+export interface WorkflowNodeState extends WorkflowNode {
+  status: JobStatus;
+  /** True while the node is waiting for its parents */
+  blocked: boolean;
+  attempts: number;
+  error?: string;
+  result?: unknown;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Node counts of a workflow
+ */
+export interface WorkflowProgress {
+  total: number;
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  /** Share of nodes in a terminal state, 0-100 */
+  percent: number;
+}
+
+/**
+ * A workflow with its derived status and per-node state
+ */
+export interface Workflow {
+  id: string;
+  name: string;
+  status: WorkflowStatus;
+  failureMode: WorkflowFailureMode;
+  progress: WorkflowProgress;
+  nodes: WorkflowNodeState[];
+  createdAt: Date;
+  completedAt?: Date;
+}
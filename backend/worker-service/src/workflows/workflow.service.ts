@@ -0,0 +1,423 @@
+import { Injectable, Inject, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Job, JobStatus } from '../../../common/src/types/common';
+import { TASK_STORE } from '../storage/task-store.interface';
+import type { TaskStore } from '../storage/task-store.interface';
+import { QueueService } from '../services/queue.service';
+import { CreateWorkflowDto, WorkflowNodeDto } from '../dto/workflow.dto';
+import { CreateTaskDto } from '../dto/task.dto';
+import {
+  Workflow,
+  WorkflowNode,
+  WorkflowNodeState,
+  WorkflowProgress,
+  WorkflowRecord,
+  WorkflowStatus,
+} from './workflow.interface';
+
+const TERMINAL_STATUSES = [JobStatus.Completed, JobStatus.Failed, JobStatus.Cancelled];
+
+/**
+ * Filters for listing workflows
+ */
+export interface WorkflowFilters {
+  status?: WorkflowStatus;
+}
+
+/**
+ * Workflow Service
+ * Runs a DAG of tasks. Every node is a regular task; nodes with parents are created
+ * unqueued and released once all parents have finished, with the parents' results
+ * merged into their payload. When a parent fails or is cancelled, a `propagate` node is
+ * cancelled (and so are its own descendants) while a `tolerate` node runs anyway.
+ */
+@Injectable()
+export class WorkflowService {
+  private readonly logger = new Logger(WorkflowService.name);
+
+  constructor(
+    @Inject(TASK_STORE) private readonly store: TaskStore,
+    private readonly queueService: QueueService,
+  ) {
+    this.queueService.onTaskFinished((task) => this.handleTaskFinished(task));
+  }
+
+  /**
+   * Create a workflow and queue its root nodes. Nothing is saved unless every node can be created.
+   * Payloads of root nodes are validated now, those of other nodes once their parents' results
+   * are merged in; a node whose payload is then invalid fails.
+   * @param dto - Workflow name, default failure mode and nodes
+   * @returns The created workflow
+   * @throws BadRequestException if node keys are duplicated, a dependency is unknown, the graph has a cycle,
+   * a root node's payload is invalid or a node's queue is draining
+   */
+  async createWorkflow(dto: CreateWorkflowDto): Promise<Workflow> {
+    const order = this.sortNodes(dto.nodes);
+    const failureMode = dto.failureMode ?? 'propagate';
+    const taskIds = new Map(dto.nodes.map((node) => [node.key, randomUUID()]));
+
+    const record: WorkflowRecord = {
+      id: randomUUID(),
+      name: dto.name,
+      failureMode,
+      nodes: order.map((node) => ({
+        key: node.key,
+        taskId: taskIds.get(node.key) as string,
+        type: node.type,
+        dependsOn: node.dependsOn ?? [],
+        failureMode: node.failureMode ?? failureMode,
+        inputs: node.inputs,
+      })),
+      createdAt: new Date(),
+    };
+
+    const overridesOf = (node: WorkflowNodeDto): Partial<Job> => ({
+      id: taskIds.get(node.key),
+      workflowId: record.id,
+      dependsOn: (node.dependsOn ?? []).map((key) => taskIds.get(key) as string),
+    });
+
+    for (const node of order) {
+      await this.queueService.assertCanCreate(this.toCreateTaskDto(node), overridesOf(node));
+    }
+
+    await this.store.saveWorkflow(record);
+
+    const created: string[] = [];
+
+    try {
+      // Children first: a root queued earlier could finish before its children exist
+      for (const node of [...order].reverse()) {
+        const task = await this.queueService.createTask(this.toCreateTaskDto(node), overridesOf(node));
+        created.push(task.id);
+      }
+    } catch (error) {
+      // E.g. a queue started draining after the check: remove what was created so far
+      for (const taskId of created) {
+        await this.queueService.deleteTask(taskId);
+      }
+      await this.store.deleteWorkflow(record.id);
+
+      this.logger.warn(`Workflow ${record.name} not created: ${(error as Error).message}`);
+      throw error;
+    }
+
+    this.logger.log(`Workflow ${record.id} (${record.name}) created with ${record.nodes.length} node(s)`);
+
+    return this.buildWorkflow(record);
+  }
+
+  /**
+   * Get a workflow with the current state of its nodes
+   * @param workflowId - The unique identifier of the workflow
+   * @returns The workflow
+   * @throws NotFoundException if workflow doesn't exist
+   */
+  async getWorkflow(workflowId: string): Promise<Workflow> {
+    return this.buildWorkflow(await this.getRecord(workflowId));
+  }
+
+  /**
+   * List workflows, newest first
+   * @param filters - Optional status filter
+   * @returns Matching workflows
+   */
+  async listWorkflows(filters: WorkflowFilters = {}): Promise<Workflow[]> {
+    const records = await this.store.getWorkflows();
+    const workflows = await Promise.all(records.map((record) => this.buildWorkflow(record)));
+
+    return workflows
+      .filter((workflow) => !filters.status || workflow.status === filters.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Cancel every unfinished node of a workflow
+   * @param workflowId - The unique identifier of the workflow
+   * @returns The updated workflow
+   * @throws NotFoundException if workflow doesn't exist
+   * @throws BadRequestException if the workflow has already finished
+   */
+  async cancelWorkflow(workflowId: string): Promise<Workflow> {
+    const record = await this.getRecord(workflowId);
+    const workflow = await this.buildWorkflow(record);
+
+    if (![WorkflowStatus.Pending, WorkflowStatus.Running].includes(workflow.status)) {
+      throw new BadRequestException(`Workflow with status ${workflow.status} cannot be cancelled`);
+    }
+
+    // Mark first so nodes unblocked by the cancellations below are not released
+    await this.store.saveWorkflow({ ...record, cancelledAt: new Date() });
+
+    for (const node of record.nodes) {
+      const task = await this.store.getTask(node.taskId);
+
+      if (task && !TERMINAL_STATUSES.includes(task.status)) {
+        await this.queueService.cancelTask(node.taskId, 'Workflow cancelled');
+      }
+    }
+
+    this.logger.log(`Workflow ${workflowId} cancelled`);
+
+    return this.getWorkflow(workflowId);
+  }
+
+  /**
+   * Release or cancel the children of a finished workflow node
+   */
+  private async handleTaskFinished(task: Job): Promise<void> {
+    if (!task.workflowId) {
+      return;
+    }
+
+    const record = await this.store.getWorkflow(task.workflowId);
+    const finished = record?.nodes.find((node) => node.taskId === task.id);
+
+    if (!record || !finished) {
+      return;
+    }
+
+    for (const child of record.nodes.filter((node) => node.dependsOn.includes(finished.key))) {
+      await this.evaluateNode(record, child);
+    }
+  }
+
+  private async evaluateNode(record: WorkflowRecord, node: WorkflowNode): Promise<void> {
+    const task = await this.store.getTask(node.taskId);
+
+    if (!task || task.status !== JobStatus.Pending) {
+      return;
+    }
+
+    const parents = new Map<string, Job | undefined>();
+
+    for (const key of node.dependsOn) {
+      const parent = record.nodes.find((candidate) => candidate.key === key) as WorkflowNode;
+      parents.set(key, await this.store.getTask(parent.taskId));
+    }
+
+    if ([...parents.values()].some((parent) => parent && !TERMINAL_STATUSES.includes(parent.status))) {
+      return;
+    }
+
+    const unsuccessful = [...parents.entries()]
+      .filter(([, parent]) => parent?.status !== JobStatus.Completed)
+      .map(([key]) => key);
+
+    if (record.cancelledAt) {
+      await this.queueService.cancelTask(node.taskId, 'Workflow cancelled');
+      return;
+    }
+
+    if (unsuccessful.length && node.failureMode === 'propagate') {
+      await this.queueService.cancelTask(node.taskId, `Dependency ${unsuccessful.join(', ')} did not complete`);
+      return;
+    }
+
+    await this.queueService.releaseTask(node.taskId, this.buildPayload(node, task.payload, parents));
+  }
+
+  private toCreateTaskDto(node: WorkflowNodeDto): CreateTaskDto {
+    return {
+      type: node.type,
+      payload: node.payload ?? {},
+      priority: node.priority,
+      maxAttempts: node.maxAttempts,
+      retryPolicy: node.retryPolicy,
+      timeoutMs: node.timeoutMs,
+    };
+  }
+
+  /**
+   * Merge the parents' results into a node's payload: all results under `parentResults`,
+   * errors of tolerated failures under `parentErrors`, and each `inputs` mapping as a field
+   */
+  private buildPayload(
+    node: WorkflowNode,
+    payload: Record<string, unknown>,
+    parents: Map<string, Job | undefined>,
+  ): Record<string, unknown> {
+    const parentResults: Record<string, unknown> = {};
+    const parentErrors: Record<string, string> = {};
+
+    for (const [key, parent] of parents) {
+      if (parent?.status === JobStatus.Completed) {
+        parentResults[key] = parent.result;
+      } else {
+        parentErrors[key] = parent?.error ?? 'Task no longer exists';
+      }
+    }
+
+    const merged: Record<string, unknown> = { ...payload, parentResults };
+
+    if (Object.keys(parentErrors).length) {
+      merged.parentErrors = parentErrors;
+    }
+
+    for (const [field, path] of Object.entries(node.inputs ?? {})) {
+      merged[field] = this.resolvePath(parentResults, path);
+    }
+
+    return merged;
+  }
+
+  /**
+   * Read a dotted path such as `import.records` from the parent results
+   */
+  private resolvePath(source: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>((value, segment) => {
+      if (value === null || typeof value !== 'object') {
+        return undefined;
+      }
+      return (value as Record<string, unknown>)[segment];
+    }, source);
+  }
+
+  /**
+   * Validate the graph and return its nodes in topological order (Kahn's algorithm)
+   */
+  private sortNodes(nodes: WorkflowNodeDto[]): WorkflowNodeDto[] {
+    const byKey = new Map<string, WorkflowNodeDto>();
+
+    for (const node of nodes) {
+      if (byKey.has(node.key)) {
+        throw new BadRequestException(`Duplicate workflow node key: ${node.key}`);
+      }
+      byKey.set(node.key, node);
+    }
+
+    const remaining = new Map<string, number>();
+
+    for (const node of nodes) {
+      const dependsOn = node.dependsOn ?? [];
+
+      for (const key of dependsOn) {
+        if (!byKey.has(key)) {
+          throw new BadRequestException(`Workflow node ${node.key} depends on unknown node ${key}`);
+        }
+      }
+
+      if (new Set(dependsOn).size !== dependsOn.length) {
+        throw new BadRequestException(`Workflow node ${node.key} lists a dependency more than once`);
+      }
+
+      remaining.set(node.key, dependsOn.length);
+    }
+
+    const ready = nodes.filter((node) => !node.dependsOn?.length);
+    const order: WorkflowNodeDto[] = [];
+
+    while (ready.length) {
+      const node = ready.shift() as WorkflowNodeDto;
+      order.push(node);
+
+      for (const child of nodes.filter((candidate) => candidate.dependsOn?.includes(node.key))) {
+        const count = (remaining.get(child.key) as number) - 1;
+        remaining.set(child.key, count);
+
+        if (count === 0) {
+          ready.push(child);
+        }
+      }
+    }
+
+    if (order.length !== nodes.length) {
+      const cyclic = nodes.filter((node) => !order.includes(node)).map((node) => node.key);
+      throw new BadRequestException(`Workflow has a dependency cycle between: ${cyclic.join(', ')}`);
+    }
+
+    return order;
+  }
+
+  private async getRecord(workflowId: string): Promise<WorkflowRecord> {
+    const record = await this.store.getWorkflow(workflowId);
+
+    if (!record) {
+      throw new NotFoundException(`Workflow with ID ${workflowId} not found`);
+    }
+
+    return record;
+  }
+
+  private async buildWorkflow(record: WorkflowRecord): Promise<Workflow> {
+    const nodes: WorkflowNodeState[] = [];
+
+    for (const node of record.nodes) {
+      const task = await this.store.getTask(node.taskId);
+      nodes.push(this.buildNodeState(node, task));
+    }
+
+    const statuses = new Map(nodes.map((node) => [node.key, node.status]));
+
+    for (const node of nodes) {
+      node.blocked =
+        node.status === JobStatus.Pending &&
+        node.dependsOn.some((key) => !TERMINAL_STATUSES.includes(statuses.get(key) as JobStatus));
+    }
+
+    const progress = this.calculateProgress(nodes);
+    const finished = progress.completed + progress.failed + progress.cancelled === progress.total;
+
+    let status: WorkflowStatus;
+
+    if (finished) {
+      status = progress.failed
+        ? WorkflowStatus.Failed
+        : progress.cancelled
+          ? WorkflowStatus.Cancelled
+          : WorkflowStatus.Completed;
+    } else {
+      status = progress.pending === progress.total ? WorkflowStatus.Pending : WorkflowStatus.Running;
+    }
+
+    const completedAt = finished
+      ? nodes.reduce<Date | undefined>(
+          (latest, node) => (node.completedAt && (!latest || node.completedAt > latest) ? node.completedAt : latest),
+          undefined,
+        )
+      : undefined;
+
+    return {
+      id: record.id,
+      name: record.name,
+      status,
+      failureMode: record.failureMode,
+      progress,
+      nodes,
+      createdAt: record.createdAt,
+      completedAt,
+    };
+  }
+
+  private buildNodeState(node: WorkflowNode, task: Job | undefined): WorkflowNodeState {
+    if (!task) {
+      return { ...node, status: JobStatus.Cancelled, blocked: false, attempts: 0, error: 'Task no longer exists' };
+    }
+
+    return {
+      ...node,
+      status: task.status,
+      blocked: false,
+      attempts: task.attempts,
+      error: task.error,
+      result: task.result,
+      startedAt: task.startedAt,
+      completedAt: task.completedAt ?? task.failedAt,
+    };
+  }
+
+  private calculateProgress(nodes: WorkflowNodeState[]): WorkflowProgress {
+    const count = (...statuses: JobStatus[]) => nodes.filter((node) => statuses.includes(node.status)).length;
+    const progress = {
+      total: nodes.length,
+      pending: count(JobStatus.Pending),
+      running: count(JobStatus.Processing, JobStatus.Retrying, JobStatus.Cancelling),
+      completed: count(JobStatus.Completed),
+      failed: count(JobStatus.Failed),
+      cancelled: count(JobStatus.Cancelled),
+    };
+    const done = progress.completed + progress.failed + progress.cancelled;
+
+    return { ...progress, percent: progress.total ? Math.round((done / progress.total) * 100) : 0 };
+  }
+}
@@ -3,16 +3,90 @@ import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { HealthController } from './health.controller';
 import { TasksController } from './controllers/tasks.controller';
 import { JobsController } from './controllers/jobs.controller';
+import { DlqController } from './controllers/dlq.controller';
+import { WorkflowsController } from './controllers/workflows.controller';
+import { QueuesController } from './controllers/queues.controller';
+import { TaskTypesController } from './controllers/task-types.controller';
 import { QueueService } from './services/queue.service';
+import { DeadLetterService } from './services/dead-letter.service';
+import { LeaseService } from './services/lease.service';
+import { EmailService } from './services/email.service';
+import { TASK_STORE } from './storage/task-store.interface';
+import { LOCK_STORE } from './storage/lock-store.interface';
+import { createTaskStore, createLockStore } from './storage/task-store.factory';
+import { EMAIL_TRANSPORT } from './email/email-transport.interface';
+import { createEmailTransport } from './email/email-transport.factory';
+import { SchedulerService } from './scheduler/scheduler.service';
+import { WorkflowService } from './workflows/workflow.service';
+import { TaskProcessorService } from './processors/task-processor.service';
+import { TaskReaperService } from './processors/task-reaper.service';
+import { TaskThrottleService } from './processors/task-throttle.service';
+import { TaskHandlerRegistry } from './processors/task-handler.registry';
+import { TASK_HANDLERS, TaskHandler } from './processors/task-handler.interface';
+import { EmailJob } from './jobs/email.job';
+import { CleanupJob } from './jobs/cleanup.job';
+import { ReportJob } from './jobs/report.job';
+import { BackupJob } from './jobs/backup.job';
+import { ImportJob } from './jobs/import.job';
+import { ExportJob } from './jobs/export.job';
+import { AIProcessingJob } from './jobs/ai-processing.job';
 import { AuditLoggerInitializer } from './services/audit-logger-initializer';
 import { ApiKeyGuard } from './guards/api-key.guard';
 import { WorkerAuditInterceptor } from './interceptors/worker-audit.interceptor';
 
+const TASK_HANDLER_CLASSES = [
+  EmailJob,
+  CleanupJob,
+  ReportJob,
+  BackupJob,
+  ImportJob,
+  ExportJob,
+  AIProcessingJob,
+];
+
 @Module({
   imports: [],
-  controllers: [HealthController, TasksController, JobsController],
+  controllers: [
+    HealthController,
+    TasksController,
+    JobsController,
+    DlqController,
+    WorkflowsController,
+    QueuesController,
+    TaskTypesController,
+  ],
   providers: [
     QueueService,
+    DeadLetterService,
+    {
+      provide: TASK_STORE,
+      useFactory: createTaskStore,
+    },
+    // Coordination between replicas
+    {
+      provide: LOCK_STORE,
+      useFactory: createLockStore,
+    },
+    LeaseService,
+    // Outbound email
+    {
+      provide: EMAIL_TRANSPORT,
+      useFactory: createEmailTransport,
+    },
+    EmailService,
+    // Task execution
+    ...TASK_HANDLER_CLASSES,
+    {
+      provide: TASK_HANDLERS,
+      useFactory: (...handlers: TaskHandler[]) => handlers,
+      inject: TASK_HANDLER_CLASSES,
+    },
+    TaskHandlerRegistry,
+    TaskThrottleService,
+    TaskProcessorService,
+    TaskReaperService,
+    SchedulerService,
+    WorkflowService,
     AuditLoggerInitializer,
     // Apply audit logging globally
     {
@@ -1,17 +1,34 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { HttpException, HttpStatus, BadRequestException } from '@nestjs/common';
 import { TasksController } from '../../src/controllers/tasks.controller';
+import { QueueService } from '../../src/services/queue.service';
+import { TASK_STORE, TaskStore } from '../../src/storage/task-store.interface';
+import { InMemoryTaskStore } from '../../src/storage/in-memory-task.store';
+import { TaskHandlerRegistry } from '../../src/processors/task-handler.registry';
+import { TASK_HANDLERS } from '../../src/processors/task-handler.interface';
 import { Job, JobStatus, JobPriority } from '../../../common/src/types/common';
 
 describe('TasksController', () => {
   let controller: TasksController;
+  let queueService: QueueService;
+  let store: TaskStore;
+  let registry: TaskHandlerRegistry;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [TasksController],
+      providers: [
+        QueueService,
+        { provide: TASK_STORE, useClass: InMemoryTaskStore },
+        TaskHandlerRegistry,
+        { provide: TASK_HANDLERS, useValue: [] },
+      ],
     }).compile();
 
     controller = module.get<TasksController>(TasksController);
+    queueService = module.get<QueueService>(QueueService);
+    store = module.get<TaskStore>(TASK_STORE);
+    registry = module.get<TaskHandlerRegistry>(TaskHandlerRegistry);
   });
 
   afterEach(() => {
@@ -23,9 +40,11 @@ describe('TasksController', () => {
       expect(controller).toBeDefined();
     });
 
-    it('should initialize with sample tasks', () => {
-      const tasks = controller['tasks'];
-      expect(tasks.size).toBeGreaterThan(0);
+    it('should share task state with QueueService', async () => {
+      const created = await controller.createTask({ type: 'email', payload: {} });
+
+      expect(await queueService.getTask(created.id)).toEqual(created);
+      expect(await queueService.getNextTask()).toEqual(created);
     });
   });
 
@@ -61,6 +80,16 @@ describe('TasksController', () => {
       expect(result.type).toBe('data-sync');
     });
 
+    it('should accept a named priority', async () => {
+      const result = await controller.createTask({
+        type: 'email',
+        payload: {},
+        priority: 'critical',
+      });
+
+      expect(result.priority).toBe(JobPriority.Critical);
+    });
+
     it('should create task with unique ID', async () => {
       const createTaskDto1 = {
         type: 'task1',
@@ -90,6 +119,35 @@ describe('TasksController', () => {
       expect(logs.logs.length).toBeGreaterThan(0);
       expect(logs.logs[0].message).toContain('created');
     });
+
+    it('should reject payloads that do not match the schema of their type', async () => {
+      registry.register({
+        types: ['notify'],
+        schemas: {
+          notify: {
+            description: 'Notify a user',
+            payload: {
+              type: 'object',
+              required: ['to'],
+              properties: { to: { type: 'string' }, retries: { type: 'integer', minimum: 0 } },
+            },
+          },
+        },
+        handle: jest.fn(),
+      });
+
+      const error = await controller.createTask({ type: 'notify', payload: { retries: -1 } }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toMatchObject({
+        errors: [
+          { field: 'to', constraint: 'required', message: 'to is required' },
+          { field: 'retries', constraint: 'minimum', message: 'retries must be at least 0', value: -1 },
+        ],
+      });
+      expect(await queueService.getAllTasks()).toHaveLength(0);
+      await expect(controller.createTask({ type: 'notify', payload: { to: 'alice' } })).resolves.toHaveProperty('id');
+    });
   });
 
   describe('GET /tasks - getTasks', () => {
@@ -145,6 +203,17 @@ describe('TasksController', () => {
       expect(result.tasks.length).toBeLessThanOrEqual(limit);
     });
 
+    it('should coerce query-string filters', async () => {
+      await controller.createTask({ type: 'email', payload: {}, priority: JobPriority.High });
+      await controller.createTask({ type: 'email', payload: {}, priority: JobPriority.Low });
+
+      const result = await controller.getTasks({ priority: '10', limit: '1', offset: '0' });
+
+      expect(result.limit).toBe(1);
+      expect(result.tasks).toHaveLength(1);
+      expect(result.tasks[0].priority).toBe(JobPriority.High);
+    });
+
     it('should sort tasks by creation date (newest first)', async () => {
       const result = await controller.getTasks({});
 
@@ -237,7 +306,7 @@ describe('TasksController', () => {
         error: 'Connection timeout',
       };
       
-      controller['tasks'].set(taskId, failedTask);
+      await queueService.addTask(failedTask);
 
       const result = await controller.retryTask(taskId, {});
 
@@ -260,7 +329,7 @@ describe('TasksController', () => {
         error: 'Connection timeout',
       };
       
-      controller['tasks'].set(taskId, failedTask);
+      await queueService.addTask(failedTask);
 
       const result = await controller.retryTask(taskId, { resetAttempts: true });
 
@@ -281,7 +350,7 @@ describe('TasksController', () => {
         createdAt: new Date(),
       };
       
-      controller['tasks'].set(taskId, cancelledTask);
+      await queueService.addTask(cancelledTask);
 
       const result = await controller.retryTask(taskId, {});
 
@@ -308,7 +377,7 @@ describe('TasksController', () => {
         completedAt: new Date(),
       };
       
-      controller['tasks'].set(taskId, completedTask);
+      await queueService.addTask(completedTask);
 
       await expect(controller.retryTask(taskId, {})).rejects.toThrow(
         BadRequestException,
@@ -342,8 +411,7 @@ describe('TasksController', () => {
         error: 'Connection timeout',
       };
       
-      controller['tasks'].set(taskId, failedTask);
-      controller['taskLogs'].set(taskId, []);
+      await queueService.addTask(failedTask);
 
       await controller.retryTask(taskId, {});
       const logs = await controller.getTaskLogs(taskId);
@@ -366,7 +434,7 @@ describe('TasksController', () => {
       expect(result.completedAt).toBeDefined();
     });
 
-    it('should cancel a processing task', async () => {
+    it('should move a processing task to cancelling', async () => {
       const taskId = '994';
       const processingTask: Job = {
         id: taskId,
@@ -380,11 +448,12 @@ describe('TasksController', () => {
         startedAt: new Date(),
       };
       
-      controller['tasks'].set(taskId, processingTask);
+      await queueService.addTask(processingTask);
 
       const result = await controller.cancelTask(taskId);
 
-      expect(result.status).toBe(JobStatus.Cancelled);
+      expect(result.status).toBe(JobStatus.Cancelling);
+      expect(result.completedAt).toBeUndefined();
     });
 
     it('should throw HttpException for non-existent task', async () => {
@@ -407,7 +476,7 @@ describe('TasksController', () => {
         completedAt: new Date(),
       };
       
-      controller['tasks'].set(taskId, completedTask);
+      await queueService.addTask(completedTask);
 
       await expect(controller.cancelTask(taskId)).rejects.toThrow(
         BadRequestException,
@@ -428,7 +497,7 @@ describe('TasksController', () => {
         error: 'Failed',
       };
       
-      controller['tasks'].set(taskId, failedTask);
+      await queueService.addTask(failedTask);
 
       await expect(controller.cancelTask(taskId)).rejects.toThrow(
         BadRequestException,
@@ -474,12 +543,12 @@ describe('TasksController', () => {
       const createdTask = await controller.createTask(createTaskDto);
       
       // Add more log entries
-      controller['addLog'](createdTask.id, {
+      await queueService.addLog(createdTask.id, {
         timestamp: new Date(),
         level: 'info',
         message: 'Additional log 1',
       });
-      controller['addLog'](createdTask.id, {
+      await queueService.addLog(createdTask.id, {
         timestamp: new Date(),
         level: 'info',
         message: 'Additional log 2',
@@ -501,7 +570,7 @@ describe('TasksController', () => {
       
       // Add more log entries
       for (let i = 0; i < 5; i++) {
-        controller['addLog'](createdTask.id, {
+        await queueService.addLog(createdTask.id, {
           timestamp: new Date(),
           level: 'info',
           message: `Log entry ${i}`,
@@ -533,7 +602,7 @@ describe('TasksController', () => {
         createdAt: new Date(),
       };
       
-      controller['tasks'].set(taskId, task);
+      await store.saveTask(task);
 
       const result = await controller.getTaskLogs(taskId);
 
@@ -0,0 +1,158 @@
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { SmtpEmailTransport } from '../../src/email/smtp-email.transport';
+import { EmailMessage } from '../../src/email/email-transport.interface';
+
+describe('SmtpEmailTransport', () => {
+  let server: net.Server;
+  let port: number;
+  let commands: string[];
+  let data: string;
+  let rcptReplies: Record<string, string>;
+  let dataReply: string;
+
+  const message: EmailMessage = {
+    messageId: 'task-1@example.com',
+    from: 'Reports <reports@example.com>',
+    to: ['alice@example.com', 'bob@example.com'],
+    cc: [],
+    bcc: ['carol@example.com'],
+    subject: 'Weekly report',
+    text: 'Hello',
+    attachments: [{ filename: 'report.json', content: '{"ok":true}', contentType: 'application/json' }],
+  };
+
+  const createTransport = (options: { user?: string; requireTls?: boolean } = {}) =>
+    new SmtpEmailTransport({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      requireTls: options.requireTls ?? false,
+      user: options.user,
+      password: 'secret',
+      clientName: 'worker.test',
+      timeoutMs: 5000,
+    });
+
+  beforeEach(async () => {
+    commands = [];
+    data = '';
+    rcptReplies = {};
+    dataReply = '250 2.0.0 Queued';
+
+    server = net.createServer((socket) => {
+      let buffer = '';
+      let inData = false;
+
+      socket.write('220 test ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8');
+
+        let end: number;
+        while ((end = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write(`${dataReply}\r\n`);
+            } else {
+              data += `${line}\r\n`;
+            }
+            continue;
+          }
+
+          commands.push(line);
+          const verb = line.split(/[ :]/)[0].toUpperCase();
+
+          if (verb === 'EHLO') {
+            socket.write('250-test\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+          } else if (verb === 'AUTH') {
+            socket.write('235 2.7.0 Authenticated\r\n');
+          } else if (verb === 'RCPT') {
+            const address = line.match(/<(.*)>/)![1];
+            socket.write(`${rcptReplies[address] ?? '250 2.1.5 OK'}\r\n`);
+          } else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+          } else if (verb === 'QUIT') {
+            socket.end('221 Bye\r\n');
+          } else {
+            socket.write('250 OK\r\n');
+          }
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should deliver a message to every accepted recipient', async () => {
+    const deliveries = await createTransport({ user: 'worker' }).send(message, [
+      'alice@example.com',
+      'bob@example.com',
+      'carol@example.com',
+    ]);
+
+    expect(deliveries.map((d) => d.status)).toEqual(['delivered', 'delivered', 'delivered']);
+    expect(commands).toEqual([
+      'EHLO worker.test',
+      `AUTH PLAIN ${Buffer.from('\0worker\0secret').toString('base64')}`,
+      'MAIL FROM:<reports@example.com>',
+      'RCPT TO:<alice@example.com>',
+      'RCPT TO:<bob@example.com>',
+      'RCPT TO:<carol@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(data).toContain('Subject: Weekly report');
+    expect(data).toContain('Message-ID: <task-1@example.com>');
+    expect(data).toContain('Content-Disposition: attachment; filename="report.json"');
+    expect(data).not.toContain('carol@example.com');
+  });
+
+  it('should report bounced and deferred recipients from their RCPT replies', async () => {
+    rcptReplies['bob@example.com'] = '550 5.1.1 Mailbox unavailable';
+    rcptReplies['carol@example.com'] = '451 4.3.0 Try again later';
+
+    const deliveries = await createTransport().send(message, [
+      'alice@example.com',
+      'bob@example.com',
+      'carol@example.com',
+    ]);
+
+    expect(deliveries).toEqual([
+      { recipient: 'alice@example.com', status: 'delivered', response: '250 2.0.0 Queued' },
+      { recipient: 'bob@example.com', status: 'bounced', response: '550 5.1.1 Mailbox unavailable' },
+      { recipient: 'carol@example.com', status: 'deferred', response: '451 4.3.0 Try again later' },
+    ]);
+  });
+
+  it('should bounce accepted recipients when the message is rejected', async () => {
+    dataReply = '554 5.6.0 Message rejected';
+
+    const deliveries = await createTransport().send(message, ['alice@example.com']);
+
+    expect(deliveries).toEqual([
+      { recipient: 'alice@example.com', status: 'bounced', response: '554 5.6.0 Message rejected' },
+    ]);
+  });
+
+  it('should refuse to send without TLS when it is required', async () => {
+    await expect(createTransport({ requireTls: true }).send(message, ['alice@example.com'])).rejects.toThrow(
+      'does not offer STARTTLS',
+    );
+  });
+
+  it('should fail when the server is unreachable', async () => {
+    await new Promise((resolve) => server.close(resolve));
+
+    await expect(createTransport().send(message, ['alice@example.com'])).rejects.toThrow('ECONNREFUSED');
+  });
+});
@@ -0,0 +1,145 @@
+import { CleanupJob, CleanupTargetResult } from '../../src/jobs/cleanup.job';
+import { QueueService } from '../../src/services/queue.service';
+import { InMemoryTaskStore } from '../../src/storage/in-memory-task.store';
+import { LogEntry } from '../../src/storage/task-store.interface';
+import { TaskExecutionContext } from '../../src/processors/task-handler.interface';
+import { Job, JobStatus, JobPriority } from '../../../common/src/types/common';
+
+interface CleanupResult {
+  dryRun: boolean;
+  matched: number;
+  deleted: number;
+  results: CleanupTargetResult[];
+}
+
+describe('CleanupJob', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  let store: InMemoryTaskStore;
+  let queueService: QueueService;
+  let job: CleanupJob;
+  let context: TaskExecutionContext;
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS);
+
+  const buildTask = (id: string, overrides: Partial<Job> = {}): Job => ({
+    id,
+    type: 'email',
+    status: JobStatus.Completed,
+    priority: JobPriority.Normal,
+    payload: {},
+    attempts: 1,
+    maxAttempts: 3,
+    createdAt: daysAgo(30),
+    ...overrides,
+  });
+
+  const addTask = async (task: Job, logs: LogEntry[] = []) => {
+    await store.saveTask(task);
+    for (const log of logs) {
+      await store.appendLog(task.id, log);
+    }
+  };
+
+  const run = (payload: Record<string, unknown>, partialResult?: unknown) =>
+    job.handle(buildTask('cleanup-task', { type: 'cleanup', status: JobStatus.Processing, payload, partialResult }), context) as Promise<CleanupResult>;
+
+  const resultOf = (result: CleanupResult, target: string) => result.results.find((r) => r.target === target);
+
+  beforeEach(async () => {
+    process.env.WORKER_CLEANUP_BATCH_DELAY_MS = '0';
+    store = new InMemoryTaskStore();
+    queueService = new QueueService(store);
+    job = new CleanupJob(queueService);
+    delete process.env.WORKER_CLEANUP_BATCH_DELAY_MS;
+    context = {
+      signal: new AbortController().signal,
+      log: jest.fn().mockResolvedValue(undefined),
+      reportProgress: jest.fn().mockResolvedValue(undefined),
+      checkpoint: jest.fn().mockResolvedValue(undefined),
+    };
+
+    await addTask(buildTask('old-completed', { completedAt: daysAgo(10) }));
+    await addTask(buildTask('old-failed', { status: JobStatus.Failed, failedAt: daysAgo(8) }));
+    await addTask(buildTask('recent-completed', { completedAt: daysAgo(1) }), [
+      { timestamp: daysAgo(20), level: 'info', message: 'old' },
+      { timestamp: daysAgo(9), level: 'info', message: 'old' },
+      { timestamp: daysAgo(1), level: 'info', message: 'recent' },
+    ]);
+    await addTask(buildTask('old-pending', { status: JobStatus.Pending }));
+  });
+
+  it('should delete finished tasks and log entries past their retention', async () => {
+    const result = await run({});
+
+    expect((await store.getAllTasks()).map((t) => t.id).sort()).toEqual(['old-pending', 'recent-completed']);
+    expect(resultOf(result, 'tasks')).toMatchObject({ matched: 2, deleted: 2, batches: 1 });
+    expect(resultOf(result, 'logs')).toMatchObject({ matched: 2, deleted: 2 });
+    expect((await store.getLogs('recent-completed')).map((log) => log.message)).toEqual(['recent']);
+  });
+
+  it('should skip database targets without DATABASE_URL', async () => {
+    const result = await run({});
+
+    for (const target of ['chat_messages', 'dashboard_insights', 'audit_logs']) {
+      expect(resultOf(result, target)).toMatchObject({ deleted: 0, skipped: 'DATABASE_URL is not configured' });
+    }
+    expect(context.log).toHaveBeenCalledWith('warn', 'Skipped audit_logs: DATABASE_URL is not configured', expect.anything());
+  });
+
+  it('should report what would be deleted in a dry run', async () => {
+    await addTask(buildTask('old-with-logs', { completedAt: daysAgo(10) }), [
+      { timestamp: daysAgo(10), level: 'info', message: 'old' },
+    ]);
+
+    const result = await run({ dryRun: true, targets: ['tasks', 'logs'] });
+
+    expect(result).toMatchObject({ dryRun: true, matched: 5, deleted: 0 });
+    expect(resultOf(result, 'tasks')!.matched).toBe(3);
+    // Logs of tasks that would be deleted are not counted again
+    expect(resultOf(result, 'logs')!.matched).toBe(2);
+    expect(await store.getAllTasks()).toHaveLength(5);
+    expect(await store.getLogs('recent-completed')).toHaveLength(3);
+  });
+
+  it('should delete in batches', async () => {
+    for (let i = 0; i < 3; i++) {
+      await addTask(buildTask(`expired-${i}`, { completedAt: daysAgo(10) }));
+    }
+
+    const result = await run({ target: 'tasks', batchSize: 2 });
+
+    expect(resultOf(result, 'tasks')).toMatchObject({ matched: 5, deleted: 5, batches: 3 });
+    expect(result.results).toHaveLength(1);
+  });
+
+  it('should apply configured and requested retention', async () => {
+    process.env.WORKER_RETENTION_DAYS = JSON.stringify({ tasks: 9, logs: 0 });
+    job = new CleanupJob(queueService);
+    delete process.env.WORKER_RETENTION_DAYS;
+
+    const configured = await run({ targets: ['tasks', 'logs'] });
+    expect(resultOf(configured, 'tasks')).toMatchObject({ olderThanDays: 9, deleted: 1 });
+    expect(resultOf(configured, 'logs')).toMatchObject({ skipped: 'Retention is disabled' });
+
+    const requested = await run({ target: 'tasks', olderThanDays: 5 });
+    expect(resultOf(requested, 'tasks')).toMatchObject({ olderThanDays: 5, deleted: 1 });
+  });
+
+  it('should reject unknown targets and invalid configuration', async () => {
+    await expect(run({ target: 'temp-files' })).rejects.toThrow('Unsupported cleanup target: temp-files');
+
+    process.env.WORKER_RETENTION_DAYS = JSON.stringify({ sessions: 1 });
+    expect(() => new CleanupJob(queueService)).toThrow('Unknown retention target "sessions"');
+    delete process.env.WORKER_RETENTION_DAYS;
+  });
+
+  it('should skip targets finished before a retry', async () => {
+    const checkpoint: CleanupTargetResult[] = [{ target: 'tasks', olderThanDays: 7, matched: 2, deleted: 2, batches: 1 }];
+
+    const result = await run({ targets: ['tasks', 'logs'] }, checkpoint);
+
+    expect(await store.getAllTasks()).toHaveLength(4);
+    expect(result.results.map((r) => r.target)).toEqual(['tasks', 'logs']);
+    expect(result.deleted).toBe(4);
+  });
+});
@@ -0,0 +1,120 @@
+import { EmailJob } from '../../src/jobs/email.job';
+import { ReportJob } from '../../src/jobs/report.job';
+import { EmailService, EmailDeliveryReport } from '../../src/services/email.service';
+import { QueueService } from '../../src/services/queue.service';
+import { InMemoryEmailTransport } from '../../src/email/in-memory-email.transport';
+import { InMemoryTaskStore } from '../../src/storage/in-memory-task.store';
+import { TaskExecutionContext } from '../../src/processors/task-handler.interface';
+import { Job, JobStatus, JobPriority } from '../../../common/src/types/common';
+
+describe('EmailJob', () => {
+  let transport: InMemoryEmailTransport;
+  let job: EmailJob;
+  let context: TaskExecutionContext;
+
+  const buildTask = (payload: Record<string, unknown>, partialResult?: unknown): Job => ({
+    id: 'email-task',
+    type: 'email',
+    status: JobStatus.Processing,
+    priority: JobPriority.Normal,
+    payload,
+    partialResult,
+    attempts: 1,
+    maxAttempts: 3,
+    createdAt: new Date(),
+  });
+
+  beforeEach(() => {
+    transport = new InMemoryEmailTransport();
+    job = new EmailJob(new EmailService(transport));
+    context = {
+      signal: new AbortController().signal,
+      log: jest.fn().mockResolvedValue(undefined),
+      reportProgress: jest.fn().mockResolvedValue(undefined),
+      checkpoint: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  it('should render a template with variables and attachments', async () => {
+    const report = (await job.handle(
+      buildTask({
+        to: 'alice@example.com',
+        template: 'task-report',
+        variables: { periodDays: 7, totalTasks: 3, summary: 'email: 3 total <ok>' },
+        attachments: [{ filename: 'report.json', content: '{"totalTasks":3}', contentType: 'application/json' }],
+      }),
+      context,
+    )) as EmailDeliveryReport;
+
+    const [sent] = transport.sent;
+    expect(report.delivered).toBe(1);
+    expect(report.messageId).toBe('email-task@task-manager.local');
+    expect(sent.message.subject).toBe('Task report: 3 task(s) in the last 7 day(s)');
+    expect(sent.message.text).toContain('email: 3 total <ok>');
+    expect(sent.message.html).toContain('email: 3 total &lt;ok&gt;');
+    expect(sent.source).toContain('filename="report.json"');
+    expect(sent.source).toContain(Buffer.from('{"totalTasks":3}').toString('base64'));
+  });
+
+  it('should record bounced recipients in the result without failing', async () => {
+    transport.setOutcome('bob@example.com', 'bounced', '550 5.1.1 Mailbox unavailable');
+
+    const report = (await job.handle(
+      buildTask({ to: ['alice@example.com', 'bob@example.com', 'not-an-address'], subject: 'Hi', text: 'Hello' }),
+      context,
+    )) as EmailDeliveryReport;
+
+    expect(report.recipients).toEqual([
+      { recipient: 'alice@example.com', status: 'delivered', response: '250 OK' },
+      { recipient: 'bob@example.com', status: 'bounced', response: '550 5.1.1 Mailbox unavailable' },
+      { recipient: 'not-an-address', status: 'bounced', response: 'Invalid email address' },
+    ]);
+    expect(report.bounced).toBe(2);
+    expect(transport.sent[0].message.to).toEqual(['alice@example.com', 'bob@example.com']);
+    expect(context.log).toHaveBeenCalledWith('warn', expect.stringContaining('bob@example.com bounced'), expect.anything());
+  });
+
+  it('should retry only deferred recipients', async () => {
+    transport.setOutcome('bob@example.com', 'deferred', '451 Try again later');
+    const payload = { to: ['alice@example.com', 'bob@example.com'], subject: 'Hi', text: 'Hello' };
+
+    await expect(job.handle(buildTask(payload), context)).rejects.toThrow('deferred for 1 recipient(s)');
+    const checkpoint = (context.checkpoint as jest.Mock).mock.calls[0][0] as EmailDeliveryReport;
+
+    transport.setOutcome('bob@example.com', 'delivered');
+    const report = (await job.handle(buildTask(payload, checkpoint), context)) as EmailDeliveryReport;
+
+    expect(report.delivered).toBe(2);
+    expect(transport.sent.map((sent) => sent.recipients)).toEqual([['alice@example.com'], ['bob@example.com']]);
+  });
+
+  it('should reject payloads without recipients or with an unknown template', async () => {
+    await expect(job.handle(buildTask({ subject: 'Hi' }), context)).rejects.toThrow('requires a "to" recipient');
+    await expect(job.handle(buildTask({ to: 'alice@example.com', template: 'missing' }), context)).rejects.toThrow(
+      'Unknown email template',
+    );
+  });
+});
+
+describe('ReportJob', () => {
+  it('should email the report to its recipients', async () => {
+    const queueService = new QueueService(new InMemoryTaskStore());
+    const context: TaskExecutionContext = {
+      signal: new AbortController().signal,
+      log: jest.fn().mockResolvedValue(undefined),
+      reportProgress: jest.fn().mockResolvedValue(undefined),
+      checkpoint: jest.fn().mockResolvedValue(undefined),
+    };
+    const task = await queueService.createTask({
+      type: 'report',
+      payload: { periodDays: 7, recipients: ['admin@example.com'] },
+    });
+
+    const result = (await new ReportJob(queueService).handle(task, context)) as { emailTaskId: string };
+    const emailTask = await queueService.getTask(result.emailTaskId);
+
+    expect(emailTask?.type).toBe('email');
+    expect(emailTask?.payload).toMatchObject({ to: ['admin@example.com'], template: 'task-report' });
+    expect((emailTask?.payload.attachments as { filename: string }[])[0].filename).toMatch(/^task-report-.*\.json$/);
+  });
+});
@@ -0,0 +1,84 @@
+import { ImportJob } from '../../src/jobs/import.job';
+import { ExportJob } from '../../src/jobs/export.job';
+import { QueueService } from '../../src/services/queue.service';
+import { InMemoryTaskStore } from '../../src/storage/in-memory-task.store';
+import { TaskExecutionContext } from '../../src/processors/task-handler.interface';
+import { Job, JobStatus, JobPriority } from '../../../common/src/types/common';
+
+describe('ImportJob and ExportJob', () => {
+  const context: TaskExecutionContext = {
+    log: jest.fn().mockResolvedValue(undefined),
+    reportProgress: jest.fn().mockResolvedValue(undefined),
+    checkpoint: jest.fn().mockResolvedValue(undefined),
+    signal: new AbortController().signal,
+  };
+
+  const buildTask = (type: string, payload: Record<string, unknown>): Job => ({
+    id: `${type}-task`,
+    type,
+    status: JobStatus.Processing,
+    priority: JobPriority.Normal,
+    payload,
+    attempts: 1,
+    maxAttempts: 3,
+    createdAt: new Date(),
+  });
+
+  describe('ImportJob', () => {
+    const job = new ImportJob();
+
+    it('should parse CSV data with quoted values', async () => {
+      const result = (await job.handle(
+        buildTask('import', { format: 'csv', data: 'name,note\nalice,"hello, world"\nbob,"say ""hi"""' }),
+        context,
+      )) as { count: number; records: Record<string, unknown>[] };
+
+      expect(result.count).toBe(2);
+      expect(result.records).toEqual([
+        { name: 'alice', note: 'hello, world' },
+        { name: 'bob', note: 'say "hi"' },
+      ]);
+    });
+
+    it('should parse JSON data', async () => {
+      const result = (await job.handle(
+        buildTask('import', { format: 'json', data: '[{"id":1},{"id":2}]' }),
+        context,
+      )) as { count: number };
+
+      expect(result.count).toBe(2);
+    });
+
+    it('should reject a payload without data', async () => {
+      await expect(job.handle(buildTask('import', {}), context)).rejects.toThrow('requires');
+    });
+  });
+
+  describe('ExportJob', () => {
+    const job = new ExportJob(new QueueService(new InMemoryTaskStore()));
+
+    it('should serialise records to CSV', async () => {
+      const result = (await job.handle(
+        buildTask('export', { format: 'csv', records: [{ name: 'alice', note: 'hello, world' }, { name: 'bob' }] }),
+        context,
+      )) as { content: string; count: number };
+
+      expect(result.count).toBe(2);
+      expect(result.content).toBe('name,note\nalice,"hello, world"\nbob,');
+    });
+
+    it('should round-trip through the import job', async () => {
+      const records = [{ id: '1', name: 'alice' }, { id: '2', name: 'bob' }];
+      const exported = (await job.handle(buildTask('export', { format: 'csv', records }), context)) as {
+        content: string;
+      };
+
+      const imported = (await new ImportJob().handle(
+        buildTask('import', { format: 'csv', data: exported.content }),
+        context,
+      )) as { records: Record<string, unknown>[] };
+
+      expect(imported.records).toEqual(records);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { JsonSchema, validateJsonSchema } from '../../src/processors/json-schema';
+
+describe('validateJsonSchema', () => {
+  const recipients: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string', format: 'email' } }] };
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['to', 'format'],
+    properties: {
+      to: recipients,
+      format: { type: 'string', enum: ['json', 'csv'] },
+      periodDays: { type: 'integer', minimum: 1, maximum: 365 },
+      attachments: {
+        type: 'array',
+        maxItems: 2,
+        items: { type: 'object', required: ['filename'], properties: { filename: { type: 'string', minLength: 1 } } },
+      },
+    },
+  };
+
+  it('should accept a valid value', () => {
+    expect(validateJsonSchema(schema, { to: ['a@example.com'], format: 'csv', periodDays: 7, extra: true })).toEqual([]);
+  });
+
+  it('should report each invalid field with its path and keyword', () => {
+    const errors = validateJsonSchema(schema, {
+      format: 'xml',
+      periodDays: 1.5,
+      attachments: [{ filename: 'a.txt' }, { filename: '' }, {}],
+    });
+
+    expect(errors.map(({ field, constraint }) => ({ field, constraint }))).toEqual([
+      { field: 'to', constraint: 'required' },
+      { field: 'format', constraint: 'enum' },
+      { field: 'periodDays', constraint: 'type' },
+      { field: 'attachments', constraint: 'maxItems' },
+      { field: 'attachments[1].filename', constraint: 'minLength' },
+      { field: 'attachments[2].filename', constraint: 'required' },
+    ]);
+    expect(errors[1].message).toBe('format must be one of: "json", "csv"');
+  });
+
+  it('should report the closest anyOf branch', () => {
+    const errors = validateJsonSchema(schema, { to: ['a@example.com', 'not-an-address'], format: 'json' });
+
+    expect(errors).toEqual([
+      {
+        field: 'to[1]',
+        message: 'to[1] must be an email address',
+        constraint: 'format',
+        value: 'not-an-address',
+      },
+    ]);
+  });
+
+  it('should reject additional properties when they are disallowed', () => {
+    const strict: JsonSchema = { type: 'object', properties: { a: { type: 'number' } }, additionalProperties: false };
+
+    expect(validateJsonSchema(strict, { a: 1, b: 2 })).toEqual([
+      { field: 'b', message: 'b is not allowed', constraint: 'additionalProperties', value: 2 },
+    ]);
+    expect(validateJsonSchema(strict, [])[0].constraint).toBe('type');
+  });
+});
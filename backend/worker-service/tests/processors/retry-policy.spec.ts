@@ -0,0 +1,55 @@
+import { calculateRetryDelay, parseRetryPolicies } from '../../src/processors/retry-policy';
+
+describe('retry policy', () => {
+  const noJitter = () => 0;
+
+  describe('calculateRetryDelay', () => {
+    it('should keep a fixed delay', () => {
+      const policy = { strategy: 'fixed' as const, initialDelayMs: 2000 };
+
+      expect([1, 2, 5].map((attempt) => calculateRetryDelay(policy, attempt, noJitter))).toEqual([2000, 2000, 2000]);
+    });
+
+    it('should grow linearly', () => {
+      const policy = { strategy: 'linear' as const, initialDelayMs: 1000 };
+
+      expect([1, 2, 3].map((attempt) => calculateRetryDelay(policy, attempt, noJitter))).toEqual([1000, 2000, 3000]);
+    });
+
+    it('should grow exponentially and respect the multiplier', () => {
+      const policy = { strategy: 'exponential' as const, initialDelayMs: 1000 };
+
+      expect([1, 2, 3, 4].map((attempt) => calculateRetryDelay(policy, attempt, noJitter))).toEqual([
+        1000, 2000, 4000, 8000,
+      ]);
+      expect(calculateRetryDelay({ ...policy, multiplier: 3 }, 3, noJitter)).toBe(9000);
+    });
+
+    it('should cap delays at maxDelayMs', () => {
+      const policy = { strategy: 'exponential' as const, initialDelayMs: 1000, maxDelayMs: 5000 };
+
+      expect(calculateRetryDelay(policy, 10, noJitter)).toBe(5000);
+    });
+
+    it('should shorten delays by at most the jitter fraction', () => {
+      const policy = { strategy: 'fixed' as const, initialDelayMs: 10000, jitter: 0.5 };
+
+      expect(calculateRetryDelay(policy, 1, () => 0.999)).toBeGreaterThanOrEqual(5000);
+      expect(calculateRetryDelay(policy, 1, () => 0.5)).toBe(7500);
+      expect(calculateRetryDelay(policy, 1, noJitter)).toBe(10000);
+    });
+  });
+
+  describe('parseRetryPolicies', () => {
+    it('should parse per-type policies', () => {
+      const policies = parseRetryPolicies('{"email":{"strategy":"linear","initialDelayMs":30000}}');
+
+      expect(policies.get('email')).toEqual({ strategy: 'linear', initialDelayMs: 30000 });
+      expect(parseRetryPolicies(undefined).size).toBe(0);
+    });
+
+    it('should reject invalid policies', () => {
+      expect(() => parseRetryPolicies('{"email":{"strategy":"random","initialDelayMs":1}}')).toThrow('email');
+    });
+  });
+});
@@ -0,0 +1,470 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TaskProcessorService } from '../../src/processors/task-processor.service';
+import { TaskThrottleService } from '../../src/processors/task-throttle.service';
+import { TaskHandlerRegistry } from '../../src/processors/task-handler.registry';
+import { TASK_HANDLERS, TaskHandler } from '../../src/processors/task-handler.interface';
+import { QueueService } from '../../src/services/queue.service';
+import { DeadLetterService } from '../../src/services/dead-letter.service';
+import { TASK_STORE, TaskStore } from '../../src/storage/task-store.interface';
+import { InMemoryTaskStore } from '../../src/storage/in-memory-task.store';
+import { LOCK_STORE, LockStore } from '../../src/storage/lock-store.interface';
+import { InMemoryLockStore } from '../../src/storage/in-memory-lock.store';
+import { LeaseService } from '../../src/services/lease.service';
+import { Job, JobStatus, JobPriority } from '../../../common/src/types/common';
+
+describe('TaskProcessorService', () => {
+  let processor: TaskProcessorService;
+  let queueService: QueueService;
+  let registry: TaskHandlerRegistry;
+  let deadLetterService: DeadLetterService;
+  let throttle: TaskThrottleService;
+
+  const successHandler: TaskHandler = {
+    types: ['success'],
+    handle: jest.fn(async (task: Job) => ({ echoed: task.payload })),
+  };
+
+  const failingHandler: TaskHandler = {
+    types: ['failure'],
+    handle: jest.fn(async () => {
+      throw new Error('Downstream unavailable');
+    }),
+  };
+
+  const buildTask = (id: string, type: string): Job => ({
+    id,
+    type,
+    status: JobStatus.Pending,
+    priority: JobPriority.Normal,
+    payload: { value: id },
+    attempts: 0,
+    maxAttempts: 3,
+    createdAt: new Date(),
+  });
+
+  beforeAll(() => {
+    process.env.WORKER_CANCEL_GRACE_MS = '20';
+    process.env.WORKER_POLL_INTERVAL_MS = '10';
+  });
+
+  afterAll(() => {
+    delete process.env.WORKER_CANCEL_GRACE_MS;
+    delete process.env.WORKER_POLL_INTERVAL_MS;
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QueueService,
+        DeadLetterService,
+        TaskHandlerRegistry,
+        TaskThrottleService,
+        TaskProcessorService,
+        LeaseService,
+        { provide: TASK_STORE, useClass: InMemoryTaskStore },
+        { provide: LOCK_STORE, useClass: InMemoryLockStore },
+        { provide: TASK_HANDLERS, useValue: [successHandler, failingHandler] },
+      ],
+    }).compile();
+
+    processor = module.get<TaskProcessorService>(TaskProcessorService);
+    queueService = module.get<QueueService>(QueueService);
+    registry = module.get<TaskHandlerRegistry>(TaskHandlerRegistry);
+    deadLetterService = module.get<DeadLetterService>(DeadLetterService);
+    throttle = module.get<TaskThrottleService>(TaskThrottleService);
+  });
+
+  afterEach(async () => {
+    await processor.stop();
+    jest.clearAllMocks();
+  });
+
+  describe('tick', () => {
+    it('should complete a task and store the handler result', async () => {
+      await queueService.addTask(buildTask('ok-1', 'success'));
+
+      const started = await processor.tick();
+      await processor.onIdle();
+
+      const task = await queueService.getTask('ok-1');
+      expect(started.map((t) => t.id)).toEqual(['ok-1']);
+      expect(task?.status).toBe(JobStatus.Completed);
+      expect(task?.attempts).toBe(1);
+      expect(task?.result).toEqual({ echoed: { value: 'ok-1' } });
+    });
+
+    it('should fail a task when its handler throws on the last attempt', async () => {
+      await queueService.addTask({ ...buildTask('fail-1', 'failure'), maxAttempts: 1 });
+
+      await processor.tick();
+      await processor.onIdle();
+
+      const task = await queueService.getTask('fail-1');
+      expect(task?.status).toBe(JobStatus.Failed);
+      expect(task?.error).toBe('Downstream unavailable');
+    });
+
+    it('should fail a task without a registered handler', async () => {
+      await queueService.addTask(buildTask('unknown-1', 'unknown'));
+
+      await processor.tick();
+      await processor.onIdle();
+
+      const task = await queueService.getTask('unknown-1');
+      expect(task?.status).toBe(JobStatus.Failed);
+      expect(task?.error).toContain('No handler registered');
+    });
+
+    it('should not start more tasks than the configured concurrency', async () => {
+      let release: () => void = () => undefined;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      registry.register({ types: ['blocking'], handle: () => gate });
+
+      for (let i = 0; i < 7; i++) {
+        await queueService.addTask(buildTask(`bulk-${i}`, 'blocking'));
+      }
+
+      const started = await processor.tick();
+
+      expect(started).toHaveLength(5);
+      expect(processor.getActiveCount()).toBe(5);
+      expect(await processor.tick()).toHaveLength(0);
+
+      release();
+      await processor.onIdle();
+      await processor.tick();
+      await processor.onIdle();
+
+      const completed = (await queueService.getAllTasks()).filter((t) => t.status === JobStatus.Completed);
+      expect(completed).toHaveLength(7);
+    });
+  });
+
+  describe('retries', () => {
+    it('should move a failed attempt to retrying and re-run it after the delay', async () => {
+      const nowSpy = jest.spyOn(Date, 'now');
+      const start = Date.now();
+      nowSpy.mockReturnValue(start);
+
+      await queueService.addTask({
+        ...buildTask('retry-1', 'failure'),
+        retryPolicy: { strategy: 'fixed', initialDelayMs: 5000 },
+      });
+
+      await processor.tick();
+      await processor.onIdle();
+
+      let task = await queueService.getTask('retry-1');
+      expect(task?.status).toBe(JobStatus.Retrying);
+      expect(task?.attempts).toBe(1);
+      expect(task?.nextRetryAt).toBeInstanceOf(Date);
+
+      // Not available before the delay has elapsed
+      expect(await processor.tick()).toHaveLength(0);
+
+      nowSpy.mockReturnValue(start + 5000);
+      await processor.tick();
+      await processor.onIdle();
+
+      task = await queueService.getTask('retry-1');
+      expect(task?.status).toBe(JobStatus.Retrying);
+      expect(task?.attempts).toBe(2);
+
+      nowSpy.mockReturnValue(start + 10000);
+      await processor.tick();
+      await processor.onIdle();
+
+      task = await queueService.getTask('retry-1');
+      expect(task?.status).toBe(JobStatus.Failed);
+      expect(task?.attempts).toBe(3);
+      expect(failingHandler.handle).toHaveBeenCalledTimes(3);
+
+      const entry = await deadLetterService.getEntry('retry-1');
+      expect(entry.error).toBe('Downstream unavailable');
+      expect(entry.history.map((attempt) => attempt.attempt)).toEqual([1, 2, 3]);
+
+      nowSpy.mockRestore();
+    });
+
+    it('should resolve the retry policy from the task, then the handler, then the default', () => {
+      const handlerPolicy = { strategy: 'linear' as const, initialDelayMs: 100 };
+      const taskPolicy = { strategy: 'fixed' as const, initialDelayMs: 50 };
+      const handler: TaskHandler = { ...failingHandler, retryPolicy: handlerPolicy };
+
+      expect(processor.getRetryPolicy({ ...buildTask('p-1', 'failure'), retryPolicy: taskPolicy }, handler)).toBe(
+        taskPolicy,
+      );
+      expect(processor.getRetryPolicy(buildTask('p-2', 'failure'), handler)).toBe(handlerPolicy);
+      expect(processor.getRetryPolicy(buildTask('p-3', 'failure')).strategy).toBe('exponential');
+    });
+  });
+
+  describe('cancellation', () => {
+    /**
+     * Start a task whose handler is built by `handle`, and wait until the handler is running
+     */
+    const startTask = async (id: string, handle: TaskHandler['handle']) => {
+      let markStarted: () => void = () => undefined;
+      const started = new Promise<void>((resolve) => (markStarted = resolve));
+
+      registry.register({
+        types: [id],
+        handle: (task, context) => {
+          markStarted();
+          return handle(task, context);
+        },
+      });
+      await queueService.addTask(buildTask(id, id));
+      await processor.tick();
+      await started;
+    };
+
+    it('should abort the signal of a running task and cancel it once the handler stops', async () => {
+      let signal: AbortSignal | undefined;
+      await startTask('cooperative', (_task, context) => {
+        signal = context.signal;
+        return new Promise((_, reject) => context.signal.addEventListener('abort', () => reject(context.signal.reason)));
+      });
+
+      const requested = await queueService.cancelTask('cooperative', 'No longer needed');
+      expect(requested.status).toBe(JobStatus.Cancelling);
+
+      await processor.tick();
+      await processor.onIdle();
+
+      const task = await queueService.getTask('cooperative');
+      expect(signal?.aborted).toBe(true);
+      expect(task?.status).toBe(JobStatus.Cancelled);
+      expect(task?.error).toBe('No longer needed');
+      expect(task?.attempts).toBe(1);
+    });
+
+    it('should terminate a handler that ignores the signal after the grace period', async () => {
+      await startTask('stubborn', () => new Promise(() => undefined));
+
+      await queueService.cancelTask('stubborn');
+      await processor.tick();
+      await processor.onIdle();
+
+      const task = await queueService.getTask('stubborn');
+      const { logs } = await queueService.getLogs('stubborn');
+      expect(task?.status).toBe(JobStatus.Cancelled);
+      expect(processor.getActiveCount()).toBe(0);
+      expect(logs.some((log) => log.level === 'warn' && log.message.includes('terminated'))).toBe(true);
+    });
+
+    it('should discard the result of a handler that finishes after cancellation was requested', async () => {
+      let release: () => void = () => undefined;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      await startTask('late', async () => {
+        await gate;
+        return 'done';
+      });
+
+      await queueService.cancelTask('late');
+      release();
+      await processor.onIdle();
+
+      const task = await queueService.getTask('late');
+      expect(task?.status).toBe(JobStatus.Cancelled);
+      expect(task?.result).toBeUndefined();
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should abort an attempt that exceeds its timeout and retry it', async () => {
+      registry.register({ types: ['hanging'], handle: () => new Promise(() => undefined) });
+      await queueService.addTask({ ...buildTask('hang-1', 'hanging'), timeoutMs: 10 });
+
+      await processor.tick();
+      await processor.onIdle();
+
+      const task = await queueService.getTask('hang-1');
+      const { logs } = await queueService.getLogs('hang-1');
+      expect(task?.status).toBe(JobStatus.Retrying);
+      expect(task?.error).toBe('Task timed out after 10ms');
+      expect(logs.some((log) => log.message === 'Attempt timed out, handler terminated')).toBe(true);
+    });
+
+    it('should discard the outcome of an attempt that was reclaimed while running', async () => {
+      let release: () => void = () => undefined;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      registry.register({
+        types: ['reclaimed'],
+        handle: async () => {
+          await gate;
+          return 'stale';
+        },
+      });
+      await queueService.addTask(buildTask('reclaimed-1', 'reclaimed'));
+      await processor.tick();
+
+      const running = await queueService.getTask('reclaimed-1');
+      await processor.failAttempt(running as Job, 'Worker heartbeat lost');
+      release();
+      await processor.onIdle();
+
+      const task = await queueService.getTask('reclaimed-1');
+      expect(task?.status).toBe(JobStatus.Retrying);
+      expect(task?.result).toBeUndefined();
+    });
+
+    it('should resolve the timeout from the task, then the handler, then the default', () => {
+      const handler: TaskHandler = { ...successHandler, timeoutMs: 5000 };
+
+      expect(processor.getTimeout({ ...buildTask('t-1', 'success'), timeoutMs: 1000 }, handler)).toBe(1000);
+      expect(processor.getTimeout(buildTask('t-2', 'success'), handler)).toBe(5000);
+      expect(processor.getTimeout(buildTask('t-3', 'success'))).toBe(30 * 60 * 1000);
+    });
+  });
+
+  describe('throttling', () => {
+    it('should keep throttled tasks pending without blocking other types', async () => {
+      let release: () => void = () => undefined;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      registry.register({ types: ['capped'], handle: () => gate });
+      await throttle.setLimits('capped', { maxConcurrency: 1 });
+
+      await queueService.addTask({ ...buildTask('capped-1', 'capped'), priority: JobPriority.High });
+      await queueService.addTask({ ...buildTask('capped-2', 'capped'), priority: JobPriority.High });
+      await queueService.addTask(buildTask('other-1', 'success'));
+
+      const started = await processor.tick();
+
+      expect(started.map((task) => task.id)).toEqual(['capped-1', 'other-1']);
+      expect((await queueService.getTask('capped-2'))?.status).toBe(JobStatus.Pending);
+
+      release();
+      await processor.onIdle();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await processor.tick();
+      await processor.onIdle();
+
+      expect((await queueService.getTask('capped-2'))?.status).toBe(JobStatus.Completed);
+    });
+  });
+
+  describe('replicas', () => {
+    /**
+     * Create a processor that shares its task and lock storage with other replicas
+     */
+    const createReplica = async (taskStore: TaskStore, lockStore: LockStore) => {
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          QueueService,
+          DeadLetterService,
+          TaskHandlerRegistry,
+          TaskThrottleService,
+          TaskProcessorService,
+          LeaseService,
+          { provide: TASK_STORE, useValue: taskStore },
+          { provide: LOCK_STORE, useValue: lockStore },
+          { provide: TASK_HANDLERS, useValue: [successHandler] },
+        ],
+      }).compile();
+
+      return {
+        processor: module.get<TaskProcessorService>(TaskProcessorService),
+        queueService: module.get<QueueService>(QueueService),
+        leaseService: module.get<LeaseService>(LeaseService),
+      };
+    };
+
+    it('should run each task once when several replicas share the queue', async () => {
+      const taskStore = new InMemoryTaskStore();
+      const lockStore = new InMemoryLockStore();
+      const replicas = await Promise.all([1, 2, 3].map(() => createReplica(taskStore, lockStore)));
+
+      for (let i = 0; i < 12; i++) {
+        await replicas[0].queueService.addTask(buildTask(`shared-${i}`, 'success'));
+      }
+      // A duplicate queue entry must not lead to a second execution
+      await taskStore.enqueue(buildTask('shared-0', 'success'));
+
+      await Promise.all(replicas.map(({ processor: replica }) => replica.tick()));
+      await Promise.all(replicas.map(({ processor: replica }) => replica.onIdle()));
+      await Promise.all(replicas.map(({ processor: replica }) => replica.tick()));
+      await Promise.all(replicas.map(({ processor: replica }) => replica.onIdle()));
+
+      const tasks = await taskStore.getAllTasks();
+      expect(successHandler.handle).toHaveBeenCalledTimes(12);
+      expect(tasks.every((task) => task.status === JobStatus.Completed && task.attempts === 1)).toBe(true);
+    });
+
+    it('should requeue a task whose lease is held by another worker', async () => {
+      const taskStore = new InMemoryTaskStore();
+      const lockStore = new InMemoryLockStore();
+      const [replica, other] = await Promise.all([
+        createReplica(taskStore, lockStore),
+        createReplica(taskStore, lockStore),
+      ]);
+      await replica.queueService.addTask(buildTask('held', 'success'));
+      await other.leaseService.acquireTaskLease('held');
+
+      expect(await replica.processor.tick()).toHaveLength(0);
+      expect(await taskStore.getQueueLength()).toBe(1);
+
+      await other.leaseService.releaseTaskLease('held');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await replica.processor.tick();
+      await replica.processor.onIdle();
+
+      expect((await taskStore.getTask('held'))?.status).toBe(JobStatus.Completed);
+    });
+  });
+
+  describe('context', () => {
+    it('should let handlers write to the task log', async () => {
+      const loggingHandler: TaskHandler = {
+        types: ['logging'],
+        handle: async (_task, context) => {
+          await context.log('info', 'Halfway there');
+          return null;
+        },
+      };
+      registry.register(loggingHandler);
+      await queueService.addTask(buildTask('log-1', 'logging'));
+
+      await processor.tick();
+      await processor.onIdle();
+
+      const { logs } = await queueService.getLogs('log-1');
+      expect(logs.some((log) => log.message === 'Halfway there')).toBe(true);
+    });
+
+    it('should record progress and pass the last checkpoint to the next attempt', async () => {
+      const seen: unknown[] = [];
+      registry.register({
+        types: ['resumable'],
+        handle: async (task, context) => {
+          seen.push(task.partialResult);
+          await context.reportProgress({ percent: 50, step: 'first half' });
+          await context.checkpoint({ rows: 10 });
+
+          const progress = (await queueService.getTask(task.id))?.progress;
+          expect(progress).toMatchObject({ percent: 50, step: 'first half' });
+
+          if (task.attempts === 1) {
+            throw new Error('Interrupted');
+          }
+          return { rows: 20 };
+        },
+      });
+      await queueService.addTask({
+        ...buildTask('resume-1', 'resumable'),
+        retryPolicy: { strategy: 'fixed', initialDelayMs: 0 },
+      });
+
+      await processor.tick();
+      await processor.onIdle();
+      await processor.tick();
+      await processor.onIdle();
+
+      const task = await queueService.getTask('resume-1');
+      expect(seen).toEqual([undefined, { rows: 10 }]);
+      expect(task?.status).toBe(JobStatus.Completed);
+      expect(task?.progress?.percent).toBe(100);
+      expect(task?.partialResult).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TaskReaperService } from '../../src/processors/task-reaper.service';
+import { TaskProcessorService } from '../../src/processors/task-processor.service';
+import { TaskThrottleService } from '../../src/processors/task-throttle.service';
+import { TaskHandlerRegistry } from '../../src/processors/task-handler.registry';
+import { TASK_HANDLERS } from '../../src/processors/task-handler.interface';
+import { QueueService } from '../../src/services/queue.service';
+import { DeadLetterService } from '../../src/services/dead-letter.service';
+import { TASK_STORE } from '../../src/storage/task-store.interface';
+import { InMemoryTaskStore } from '../../src/storage/in-memory-task.store';
+import { LOCK_STORE, LockStore } from '../../src/storage/lock-store.interface';
+import { InMemoryLockStore } from '../../src/storage/in-memory-lock.store';
+import { LeaseService } from '../../src/services/lease.service';
+import { Job, JobStatus, JobPriority } from '../../../common/src/types/common';
+
+describe('TaskReaperService', () => {
+  let reaper: TaskReaperService;
+  let processor: TaskProcessorService;
+  let queueService: QueueService;
+  let deadLetterService: DeadLetterService;
+  let lockStore: LockStore;
+
+  const MINUTE = 60 * 1000;
+
+  /**
+   * Put a task in `processing` as if a worker had claimed it and then gone away
+   */
+  const claimTask = async (id: string, overrides: Partial<Job> = {}): Promise<Job> => {
+    await queueService.addTask({
+      id,
+      type: 'report',
+      status: JobStatus.Pending,
+      priority: JobPriority.Normal,
+      payload: {},
+      attempts: 0,
+      maxAttempts: 3,
+      createdAt: new Date(),
+      ...overrides,
+    });
+    await queueService.getNextTask();
+    return queueService.updateTaskStatus(id, JobStatus.Processing);
+  };
+
+  const later = (ms: number) => new Date(Date.now() + ms);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QueueService,
+        DeadLetterService,
+        TaskHandlerRegistry,
+        TaskThrottleService,
+        TaskProcessorService,
+        TaskReaperService,
+        LeaseService,
+        { provide: TASK_STORE, useClass: InMemoryTaskStore },
+        { provide: LOCK_STORE, useClass: InMemoryLockStore },
+        { provide: TASK_HANDLERS, useValue: [] },
+      ],
+    }).compile();
+
+    reaper = module.get<TaskReaperService>(TaskReaperService);
+    processor = module.get<TaskProcessorService>(TaskProcessorService);
+    queueService = module.get<QueueService>(QueueService);
+    deadLetterService = module.get<DeadLetterService>(DeadLetterService);
+    lockStore = module.get<LockStore>(LOCK_STORE);
+  });
+
+  it('should leave tasks with a recent heartbeat alone', async () => {
+    await claimTask('alive');
+
+    const reaped = await reaper.reap(later(30 * 1000));
+
+    expect(reaped).toEqual([]);
+    expect((await queueService.getTask('alive'))?.status).toBe(JobStatus.Processing);
+  });
+
+  it('should retry a task whose worker heartbeat vanished and log why', async () => {
+    await claimTask('orphan');
+
+    const reaped = await reaper.reap(later(2 * MINUTE));
+
+    const task = await queueService.getTask('orphan');
+    const { logs } = await queueService.getLogs('orphan');
+    expect(reaped).toEqual([{ taskId: 'orphan', reason: 'heartbeat_lost', status: JobStatus.Processing }]);
+    expect(task?.status).toBe(JobStatus.Retrying);
+    expect(task?.error).toBe('Task reclaimed: worker heartbeat lost');
+    expect(logs.find((log) => log.message === 'Task reclaimed: worker heartbeat lost')).toMatchObject({
+      level: 'warn',
+      metadata: { reason: 'heartbeat_lost', attempts: 1 },
+    });
+  });
+
+  it('should dead-letter a stuck task that is out of attempts', async () => {
+    await claimTask('last-try', { maxAttempts: 1 });
+
+    await reaper.reap(later(2 * MINUTE));
+
+    expect((await queueService.getTask('last-try'))?.status).toBe(JobStatus.Failed);
+    expect(await deadLetterService.getEntry('last-try')).toMatchObject({ attempts: 1 });
+  });
+
+  it('should reclaim a task running past its timeout even if its heartbeat continues', async () => {
+    const task = await claimTask('slow', { timeoutMs: MINUTE });
+    await queueService.addTask({ ...task, startedAt: new Date(Date.now() - 3 * MINUTE) });
+
+    const reaped = await reaper.reap(later(0));
+
+    expect(reaped.map((entry) => entry.reason)).toEqual(['timed_out']);
+    expect((await queueService.getTask('slow'))?.error).toBe(`Task reclaimed: timed out after ${MINUTE}ms`);
+  });
+
+  it('should finish the cancellation of a stuck cancelling task', async () => {
+    await claimTask('cancelling');
+    await queueService.cancelTask('cancelling');
+
+    await reaper.reap(later(2 * MINUTE));
+
+    expect((await queueService.getTask('cancelling'))?.status).toBe(JobStatus.Cancelled);
+  });
+
+  it('should leave a task alone while its worker still holds the lease', async () => {
+    await claimTask('leased');
+    process.env.WORKER_ID = 'other-worker';
+    await new LeaseService(lockStore).acquireTaskLease('leased');
+    delete process.env.WORKER_ID;
+
+    const reaped = await reaper.reap(later(2 * MINUTE));
+
+    expect(reaped).toEqual([]);
+    expect((await queueService.getTask('leased'))?.status).toBe(JobStatus.Processing);
+  });
+
+  it('should requeue a task taken from the queue by a worker that died before leasing it', async () => {
+    await queueService.addTask({
+      id: 'dequeued',
+      type: 'report',
+      status: JobStatus.Pending,
+      priority: JobPriority.Normal,
+      payload: {},
+      attempts: 0,
+      maxAttempts: 3,
+      createdAt: new Date(),
+    });
+    await queueService.getNextTask();
+
+    // A worker may still be about to lease it on the first pass
+    expect(await reaper.reap(later(0))).toEqual([]);
+    const reaped = await reaper.reap(later(2 * MINUTE));
+
+    expect(reaped).toEqual([{ taskId: 'dequeued', reason: 'lost_from_queue', status: JobStatus.Pending }]);
+    expect((await queueService.getNextTask())?.id).toBe('dequeued');
+  });
+
+  it('should leave workflow nodes waiting for their dependencies out of the queue', async () => {
+    await queueService.addTask({
+      id: 'blocked',
+      type: 'report',
+      status: JobStatus.Pending,
+      priority: JobPriority.Normal,
+      payload: {},
+      attempts: 0,
+      maxAttempts: 3,
+      createdAt: new Date(),
+      dependsOn: ['parent'],
+    });
+
+    await reaper.reap(later(0));
+    const reaped = await reaper.reap(later(2 * MINUTE));
+
+    expect(reaped).toEqual([]);
+    expect(await queueService.isQueued('blocked')).toBe(false);
+  });
+
+  it('should skip tasks running on this worker', async () => {
+    await claimTask('local');
+    jest.spyOn(processor, 'isRunning').mockReturnValue(true);
+
+    const reaped = await reaper.reap(later(2 * MINUTE));
+
+    expect(reaped).toEqual([]);
+    expect((await queueService.getTask('local'))?.status).toBe(JobStatus.Processing);
+  });
+});
@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TaskThrottleService } from '../../src/processors/task-throttle.service';
+import { QueueService } from '../../src/services/queue.service';
+import { LeaseService } from '../../src/services/lease.service';
+import { TASK_STORE } from '../../src/storage/task-store.interface';
+import { InMemoryTaskStore } from '../../src/storage/in-memory-task.store';
+import { LOCK_STORE } from '../../src/storage/lock-store.interface';
+import { InMemoryLockStore } from '../../src/storage/in-memory-lock.store';
+import { Job, JobStatus, JobPriority } from '../../../common/src/types/common';
+
+describe('TaskThrottleService', () => {
+  let throttle: TaskThrottleService;
+  let queueService: QueueService;
+  let now: number;
+
+  const buildTask = (id: string, type: string): Job => ({
+    id,
+    type,
+    status: JobStatus.Pending,
+    priority: JobPriority.Normal,
+    payload: {},
+    attempts: 0,
+    maxAttempts: 3,
+    createdAt: new Date(),
+  });
+
+  beforeAll(() => {
+    process.env.WORKER_TYPE_LIMITS = JSON.stringify({ email: { maxConcurrency: 1 } });
+  });
+
+  afterAll(() => {
+    delete process.env.WORKER_TYPE_LIMITS;
+  });
+
+  beforeEach(async () => {
+    now = 1_000_000;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskThrottleService,
+        QueueService,
+        LeaseService,
+        { provide: TASK_STORE, useClass: InMemoryTaskStore },
+        { provide: LOCK_STORE, useValue: new InMemoryLockStore(() => now) },
+      ],
+    }).compile();
+
+    throttle = module.get<TaskThrottleService>(TaskThrottleService);
+    queueService = module.get<QueueService>(QueueService);
+  });
+
+  it('should not throttle types without limits', async () => {
+    for (let i = 0; i < 10; i++) {
+      expect(await throttle.acquire(buildTask(`free-${i}`, 'report'))).toEqual({ allowed: true });
+    }
+  });
+
+  it('should cap the number of running tasks of a type until a slot is released', async () => {
+    await throttle.setLimits('ai_insights', { maxConcurrency: 2 });
+
+    expect((await throttle.acquire(buildTask('ai-1', 'ai_insights'))).allowed).toBe(true);
+    expect((await throttle.acquire(buildTask('ai-2', 'ai_insights'))).allowed).toBe(true);
+    expect(await throttle.acquire(buildTask('ai-3', 'ai_insights'))).toEqual({
+      allowed: false,
+      reason: 'concurrency',
+      retryAfterMs: 0,
+    });
+
+    await throttle.release('ai-1');
+
+    expect((await throttle.acquire(buildTask('ai-3', 'ai_insights'))).allowed).toBe(true);
+  });
+
+  it('should rate limit a type with a token bucket', async () => {
+    await throttle.setLimits('email', { rateLimit: { limit: 2, intervalMs: 1000 } });
+
+    expect((await throttle.acquire(buildTask('mail-1', 'email'))).allowed).toBe(true);
+    expect((await throttle.acquire(buildTask('mail-2', 'email'))).allowed).toBe(true);
+    expect(await throttle.acquire(buildTask('mail-3', 'email'))).toEqual({
+      allowed: false,
+      reason: 'rate',
+      retryAfterMs: 500,
+    });
+
+    now += 500;
+
+    expect((await throttle.acquire(buildTask('mail-3', 'email'))).allowed).toBe(true);
+  });
+
+  it('should free the slot of a task stopped by the rate limit', async () => {
+    await throttle.setLimits('email', { maxConcurrency: 1, rateLimit: { limit: 1, intervalMs: 60000 } });
+
+    await throttle.acquire(buildTask('mail-1', 'email'));
+    await throttle.release('mail-1');
+    expect((await throttle.acquire(buildTask('mail-2', 'email'))).reason).toBe('rate');
+
+    now += 60000;
+
+    expect((await throttle.acquire(buildTask('mail-2', 'email'))).allowed).toBe(true);
+  });
+
+  it('should prefer runtime limits over configured ones and report the load', async () => {
+    await queueService.addTask(buildTask('queued-1', 'email'));
+
+    expect(await throttle.getStatus('email')).toEqual({
+      type: 'email',
+      limits: { maxConcurrency: 1 },
+      source: 'config',
+      running: 0,
+      queued: 1,
+    });
+
+    const updated = await throttle.setLimits('email', { maxConcurrency: 3 });
+    expect(updated).toMatchObject({ limits: { maxConcurrency: 3 }, source: 'runtime' });
+
+    const reset = await throttle.resetLimits('email');
+    expect(reset).toMatchObject({ limits: { maxConcurrency: 1 }, source: 'config' });
+  });
+});
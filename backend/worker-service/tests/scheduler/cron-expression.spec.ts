@@ -0,0 +1,73 @@
+import { CronExpression } from '../../src/scheduler/cron-expression';
+
+describe('CronExpression', () => {
+  const next = (expression: string, after: string, timezone?: string) =>
+    CronExpression.parse(expression, timezone).next(new Date(after))?.toISOString();
+
+  describe('parse', () => {
+    it('should reject expressions without 5 fields', () => {
+      expect(() => CronExpression.parse('0 0 * *')).toThrow('5 fields');
+    });
+
+    it('should reject out-of-range values', () => {
+      expect(() => CronExpression.parse('60 * * * *')).toThrow('minute');
+      expect(() => CronExpression.parse('0 0 * 13 *')).toThrow('month');
+    });
+
+    it('should reject invalid steps and ranges', () => {
+      expect(() => CronExpression.parse('*/0 * * * *')).toThrow('step');
+      expect(() => CronExpression.parse('0 10-5 * * *')).toThrow('range');
+    });
+
+    it('should reject unknown timezones', () => {
+      expect(() => CronExpression.parse('0 0 * * *', 'Mars/Olympus_Mons')).toThrow('timezone');
+    });
+  });
+
+  describe('next', () => {
+    it('should compute the next run for every-minute and stepped schedules', () => {
+      expect(next('* * * * *', '2025-01-01T10:15:30Z')).toBe('2025-01-01T10:16:00.000Z');
+      expect(next('*/15 * * * *', '2025-01-01T10:15:00Z')).toBe('2025-01-01T10:30:00.000Z');
+      expect(next('5/20 * * * *', '2025-01-01T10:50:00Z')).toBe('2025-01-01T11:05:00.000Z');
+    });
+
+    it('should expand the @hourly and @daily aliases', () => {
+      expect(next('@hourly', '2025-01-01T10:15:00Z')).toBe('2025-01-01T11:00:00.000Z');
+      expect(next('@daily', '2025-01-01T10:15:00Z')).toBe('2025-01-02T00:00:00.000Z');
+    });
+
+    it('should handle lists, ranges and names', () => {
+      // 2025-01-03 is a Friday
+      expect(next('30 9 * * mon-fri', '2025-01-03T10:00:00Z')).toBe('2025-01-06T09:30:00.000Z');
+      expect(next('0 8,20 * jan *', '2025-01-31T21:00:00Z')).toBe('2026-01-01T08:00:00.000Z');
+    });
+
+    it('should treat 7 as Sunday', () => {
+      expect(next('0 0 * * 7', '2025-01-01T00:00:00Z')).toBe('2025-01-05T00:00:00.000Z');
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // 1st of the month or any Monday
+      expect(next('0 0 1 * 1', '2025-01-01T12:00:00Z')).toBe('2025-01-06T00:00:00.000Z');
+    });
+
+    it('should skip months without the requested day', () => {
+      expect(next('0 0 31 * *', '2025-02-01T00:00:00Z')).toBe('2025-03-31T00:00:00.000Z');
+    });
+
+    it('should return undefined for schedules that never fire', () => {
+      expect(next('0 0 30 2 *', '2025-01-01T00:00:00Z')).toBeUndefined();
+    });
+
+    it('should evaluate schedules in the given timezone', () => {
+      // Midnight in New York is 05:00 UTC in winter and 04:00 UTC in summer
+      expect(next('0 0 * * *', '2025-01-10T12:00:00Z', 'America/New_York')).toBe('2025-01-11T05:00:00.000Z');
+      expect(next('0 0 * * *', '2025-07-10T12:00:00Z', 'America/New_York')).toBe('2025-07-11T04:00:00.000Z');
+    });
+
+    it('should not fire twice across a DST fall-back', () => {
+      // 01:30 happens twice in New York on 2025-11-02; after the first one the next run is the following day
+      expect(next('30 1 * * *', '2025-11-02T05:30:00Z', 'America/New_York')).toBe('2025-11-03T06:30:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,430 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { SchedulerService } from '../../src/scheduler/scheduler.service';
+import {
+  JobScheduleStatus,
+  JobRunStatus,
+  MisfirePolicy,
+  OverlapPolicy,
+} from '../../src/scheduler/scheduled-job.interface';
+import { JobStatus } from '../../../common/src/types/common';
+import { QueueService } from '../../src/services/queue.service';
+import { TASK_STORE, TaskStore } from '../../src/storage/task-store.interface';
+import { InMemoryTaskStore } from '../../src/storage/in-memory-task.store';
+import { LOCK_STORE, LockStore } from '../../src/storage/lock-store.interface';
+import { InMemoryLockStore } from '../../src/storage/in-memory-lock.store';
+import { LeaseService } from '../../src/services/lease.service';
+import { TaskHandlerRegistry } from '../../src/processors/task-handler.registry';
+import { TASK_HANDLERS, TaskHandler } from '../../src/processors/task-handler.interface';
+
+describe('SchedulerService', () => {
+  let scheduler: SchedulerService;
+  let queueService: QueueService;
+
+  /**
+   * Start the scheduler of another replica sharing the task store, without its tick timer
+   */
+  const createReplica = async (taskStore: TaskStore, lockStore: LockStore = new InMemoryLockStore()) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchedulerService,
+        QueueService,
+        LeaseService,
+        { provide: TASK_STORE, useValue: taskStore },
+        { provide: LOCK_STORE, useValue: lockStore },
+      ],
+    }).compile();
+    process.env.WORKER_SCHEDULER_ENABLED = 'false';
+    await module.init();
+    delete process.env.WORKER_SCHEDULER_ENABLED;
+    return module.get<SchedulerService>(SchedulerService);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchedulerService,
+        QueueService,
+        LeaseService,
+        { provide: TASK_STORE, useClass: InMemoryTaskStore },
+        { provide: LOCK_STORE, useClass: InMemoryLockStore },
+      ],
+    }).compile();
+
+    scheduler = module.get<SchedulerService>(SchedulerService);
+    queueService = module.get<QueueService>(QueueService);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  describe('createJob', () => {
+    it('should compute the first run from the schedule', async () => {
+      const job = await scheduler.createJob({ name: 'Every 5', type: 'report', schedule: '*/5 * * * *' });
+
+      expect(job.status).toBe(JobScheduleStatus.Active);
+      expect(job.timezone).toBe('UTC');
+      expect(job.nextRun!.getUTCMinutes() % 5).toBe(0);
+      expect(job.nextRun!.getTime()).toBeGreaterThan(Date.now());
+      expect(job.nextRun!.getTime() - Date.now()).toBeLessThanOrEqual(5 * 60 * 1000);
+    });
+
+    it('should reject invalid schedules and timezones', async () => {
+      await expect(scheduler.createJob({ name: 'Bad', type: 'report', schedule: 'every day' })).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(
+        scheduler.createJob({ name: 'Bad', type: 'report', schedule: '@daily', timezone: 'Nowhere/City' }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(scheduler.createJob({ name: 'Bad', type: 'report', schedule: '0 0 30 2 *' })).rejects.toThrow(
+        'never fires',
+      );
+      expect(await scheduler.getJobs()).toHaveLength(0);
+    });
+  });
+
+  describe('tick', () => {
+    it('should enqueue a task for due jobs and advance the schedule', async () => {
+      const job = await scheduler.createJob({
+        name: 'Hourly',
+        type: 'report',
+        schedule: '@hourly',
+        payload: { periodDays: 1 },
+      });
+      const dueAt = job.nextRun!;
+
+      expect(await scheduler.tick(new Date(dueAt.getTime() - 1000))).toHaveLength(0);
+
+      const fired = await scheduler.tick(dueAt);
+      const updated = await scheduler.getJob(job.id);
+      const tasks = (await queueService.getAllTasks()).filter((t) => t.type === 'report');
+
+      expect(fired.map((j) => j.id)).toContain(job.id);
+      expect(updated.lastRun).toEqual(dueAt);
+      expect(updated.nextRun!.getTime()).toBe(dueAt.getTime() + 60 * 60 * 1000);
+      expect(tasks.some((t) => (t.payload as { periodDays?: number }).periodDays === 1)).toBe(true);
+    });
+
+    it('should not fire paused jobs and should resume from the next slot', async () => {
+      const job = await scheduler.createJob({ name: 'Minutely', type: 'report', schedule: '* * * * *' });
+      const dueAt = job.nextRun!;
+
+      const paused = await scheduler.pauseJob(job.id);
+      expect(paused.nextRun).toBeUndefined();
+
+      const fired = await scheduler.tick(new Date(dueAt.getTime() + 60 * 60 * 1000));
+      expect(fired.map((j) => j.id)).not.toContain(job.id);
+
+      const resumed = await scheduler.resumeJob(job.id);
+      expect(resumed.status).toBe(JobScheduleStatus.Active);
+      expect(resumed.nextRun!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should fire each run once when several replicas hold the same jobs', async () => {
+      const taskStore = new InMemoryTaskStore();
+      const lockStore = new InMemoryLockStore();
+      const replicas = await Promise.all([1, 2, 3].map(() => createReplica(taskStore, lockStore)));
+      const dueAt = (await replicas[0].getJob('2')).nextRun!;
+
+      const fired = await Promise.all(replicas.map((replica) => replica.tick(dueAt)));
+
+      const cleanups = (await taskStore.getAllTasks()).filter((t) => t.type === 'cleanup');
+      expect(fired.filter((jobs) => jobs.length > 0)).toHaveLength(1);
+      expect(cleanups).toHaveLength(1);
+      expect(await replicas[1].getJobs()).toHaveLength(3);
+    });
+
+    it('should fire jobs as changed through any replica, also after the leader changes', async () => {
+      const HOUR = 60 * 60 * 1000;
+      const taskStore = new InMemoryTaskStore();
+      const [leader, other] = await Promise.all([createReplica(taskStore), createReplica(taskStore)]);
+      const job = await other.createJob({ name: 'Hourly', type: 'report', schedule: '@hourly' });
+      const dueAt = job.nextRun!;
+
+      expect((await leader.tick(dueAt)).map((j) => j.id)).toContain(job.id);
+      expect((await other.getJob(job.id)).lastRun).toEqual(dueAt);
+
+      await other.pauseJob(job.id);
+      expect((await leader.tick(new Date(dueAt.getTime() + HOUR))).map((j) => j.id)).not.toContain(job.id);
+
+      // The leader is gone; a replica started afterwards takes over with the stored jobs
+      const successor = await createReplica(taskStore);
+      await other.resumeJob(job.id);
+      expect((await successor.tick(new Date(dueAt.getTime() + 2 * HOUR))).map((j) => j.id)).toContain(job.id);
+      expect(await successor.getJobRuns(job.id)).toHaveLength(2);
+
+      await other.deleteJob(job.id);
+      expect((await successor.tick(new Date(dueAt.getTime() + 3 * HOUR))).map((j) => j.id)).not.toContain(job.id);
+    });
+  });
+
+  describe('run history', () => {
+    const fire = async (jobId: string) => {
+      const job = await scheduler.getJob(jobId);
+      await scheduler.tick(job.nextRun!);
+      const [run] = await scheduler.getJobRuns(jobId);
+      return run;
+    };
+
+    it('should record each run linked to its task and complete it with the task outcome', async () => {
+      const job = await scheduler.createJob({ name: 'Hourly', type: 'report', schedule: '@hourly' });
+
+      const run = await fire(job.id);
+      expect(run.status).toBe(JobRunStatus.Pending);
+      expect(run.jobId).toBe(job.id);
+
+      const task = (await queueService.getTask(run.taskId!))!;
+      expect(task.scheduledJobId).toBe(job.id);
+      expect(task.jobRunId).toBe(run.id);
+
+      await queueService.updateTaskStatus(task.id, JobStatus.Processing);
+      expect((await scheduler.getJobRuns(job.id))[0].status).toBe(JobRunStatus.Running);
+
+      await queueService.updateTaskStatus(task.id, JobStatus.Completed);
+      const [completed] = await scheduler.getJobRuns(job.id);
+      expect(completed.status).toBe(JobRunStatus.Completed);
+      expect(completed.startedAt).toBeDefined();
+      expect(completed.finishedAt).toBeDefined();
+      expect(completed.durationMs).toBeGreaterThanOrEqual(0);
+
+      await queueService.updateTaskStatus((await fire(job.id)).taskId!, JobStatus.Failed, 'Report failed');
+      const runs = await scheduler.getJobRuns(job.id);
+      expect(runs.map((r) => r.status)).toEqual([JobRunStatus.Failed, JobRunStatus.Completed]);
+      expect(runs[0].error).toBe('Report failed');
+      expect((await scheduler.getJob(job.id)).consecutiveFailures).toBe(1);
+    });
+
+    it('should mark a job failed after repeated failures until it is resumed', async () => {
+      const job = await scheduler.createJob({ name: 'Hourly', type: 'report', schedule: '@hourly' });
+
+      for (let i = 0; i < 3; i++) {
+        await queueService.updateTaskStatus((await fire(job.id)).taskId!, JobStatus.Failed, 'boom');
+      }
+
+      const failed = await scheduler.getJob(job.id);
+      expect(failed.status).toBe(JobScheduleStatus.Failed);
+      expect(failed.consecutiveFailures).toBe(3);
+      expect(failed.nextRun).toBeUndefined();
+
+      // Resume after the last (simulated) run rather than at the real current time
+      jest.useFakeTimers({ now: failed.lastRun!.getTime() + 1000 });
+      const resumed = await scheduler.resumeJob(job.id);
+      jest.useRealTimers();
+      expect(resumed.status).toBe(JobScheduleStatus.Active);
+      expect(resumed.consecutiveFailures).toBe(0);
+
+      await queueService.updateTaskStatus((await fire(job.id)).taskId!, JobStatus.Failed, 'boom');
+      expect((await scheduler.getJob(job.id)).status).toBe(JobScheduleStatus.Active);
+      expect((await scheduler.getJob(job.id)).consecutiveFailures).toBe(1);
+    });
+
+    it('should keep only the configured number of runs', async () => {
+      process.env.WORKER_JOB_RUN_HISTORY = '2';
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          SchedulerService,
+          QueueService,
+          LeaseService,
+          { provide: TASK_STORE, useClass: InMemoryTaskStore },
+          { provide: LOCK_STORE, useClass: InMemoryLockStore },
+        ],
+      }).compile();
+      delete process.env.WORKER_JOB_RUN_HISTORY;
+      const limited = module.get<SchedulerService>(SchedulerService);
+      const job = await limited.createJob({ name: 'Hourly', type: 'report', schedule: '@hourly' });
+
+      for (let i = 0; i < 3; i++) {
+        await limited.tick((await limited.getJob(job.id)).nextRun!);
+      }
+
+      const runs = await limited.getJobRuns(job.id);
+      expect(runs).toHaveLength(2);
+      expect(runs[0].scheduledAt.getTime()).toBeGreaterThan(runs[1].scheduledAt.getTime());
+      await expect(limited.getJobRuns('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('misfire and overlap policies', () => {
+    const HOUR = 60 * 60 * 1000;
+    const createHourly = (misfirePolicy?: MisfirePolicy, overlapPolicy?: OverlapPolicy) =>
+      scheduler.createJob({ name: 'Hourly', type: 'report', schedule: '@hourly', misfirePolicy, overlapPolicy });
+    const reportTasks = async () => (await queueService.getAllTasks()).filter((t) => t.type === 'report');
+
+    it('should fire one run for missed slots by default', async () => {
+      const job = await createHourly();
+      const first = job.nextRun!;
+
+      await scheduler.tick(new Date(first.getTime() + 3 * HOUR + 5 * 60 * 1000));
+
+      const runs = await scheduler.getJobRuns(job.id);
+      expect(job.misfirePolicy).toBe(MisfirePolicy.RunOnce);
+      expect(runs).toHaveLength(1);
+      expect(runs[0].scheduledAt).toEqual(new Date(first.getTime() + 3 * HOUR));
+      expect(await reportTasks()).toHaveLength(1);
+    });
+
+    it('should fire every missed run under run-all-missed', async () => {
+      const job = await createHourly(MisfirePolicy.RunAllMissed);
+      const first = job.nextRun!;
+
+      await scheduler.tick(new Date(first.getTime() + 3 * HOUR));
+
+      const runs = await scheduler.getJobRuns(job.id);
+      expect(runs.map((run) => run.scheduledAt.getTime())).toEqual(
+        [3, 2, 1, 0].map((hours) => first.getTime() + hours * HOUR),
+      );
+      expect(await reportTasks()).toHaveLength(4);
+      expect((await scheduler.getJob(job.id)).nextRun).toEqual(new Date(first.getTime() + 4 * HOUR));
+    });
+
+    it('should record missed runs as skipped under skip', async () => {
+      const job = await createHourly(MisfirePolicy.Skip);
+      const first = job.nextRun!;
+
+      await scheduler.tick(new Date(first.getTime() + 2 * HOUR + 5 * 60 * 1000));
+
+      const [run] = await scheduler.getJobRuns(job.id);
+      expect(run.status).toBe(JobRunStatus.Skipped);
+      expect(run.reason).toBe('Missed its scheduled time');
+      expect(await reportTasks()).toHaveLength(0);
+
+      await scheduler.tick(new Date(first.getTime() + 3 * HOUR + 1000));
+      expect(await reportTasks()).toHaveLength(1);
+    });
+
+    it('should skip a run while the previous one is unfinished under skip-if-running', async () => {
+      const job = await createHourly(undefined, OverlapPolicy.SkipIfRunning);
+      const first = job.nextRun!;
+
+      await scheduler.tick(first);
+      await scheduler.tick(new Date(first.getTime() + HOUR));
+
+      const runs = await scheduler.getJobRuns(job.id);
+      expect(runs.map((run) => run.status)).toEqual([JobRunStatus.Skipped, JobRunStatus.Pending]);
+      expect(runs[0].reason).toBe('Previous run still unfinished');
+      expect(await reportTasks()).toHaveLength(1);
+    });
+
+    it('should start a queued run once the previous one has finished under queue', async () => {
+      const job = await createHourly(undefined, OverlapPolicy.Queue);
+      const first = job.nextRun!;
+
+      await scheduler.tick(first);
+      await scheduler.tick(new Date(first.getTime() + HOUR));
+
+      let runs = await scheduler.getJobRuns(job.id);
+      expect(runs.map((run) => run.status)).toEqual([JobRunStatus.Queued, JobRunStatus.Pending]);
+      expect(runs[0].taskId).toBeUndefined();
+
+      await scheduler.tick(new Date(first.getTime() + HOUR + 1000));
+      expect(await reportTasks()).toHaveLength(1);
+
+      await queueService.updateTaskStatus(runs[1].taskId!, JobStatus.Completed);
+      await scheduler.tick(new Date(first.getTime() + HOUR + 2000));
+
+      runs = await scheduler.getJobRuns(job.id);
+      expect(runs[0].status).toBe(JobRunStatus.Pending);
+      expect(runs[0].taskId).toBeDefined();
+      expect(await reportTasks()).toHaveLength(2);
+    });
+
+    it('should catch up runs missed while no scheduler was running', async () => {
+      const taskStore = new InMemoryTaskStore();
+
+      const before = await createReplica(taskStore);
+      const lastRun = (await before.getJob('1')).nextRun!;
+      await before.tick(lastRun);
+
+      // Restart two days later; the job continues from its stored schedule
+      const now = new Date(lastRun.getTime() + 2 * 24 * HOUR + HOUR);
+      jest.useFakeTimers({
+        now,
+        doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval', 'clearTimeout', 'clearInterval'],
+      });
+      const restarted = await createReplica(taskStore);
+      jest.useRealTimers();
+      expect((await restarted.getJob('1')).nextRun).toEqual(new Date(lastRun.getTime() + 24 * HOUR));
+
+      await restarted.tick(now);
+
+      const runs = await restarted.getJobRuns('1');
+      expect(runs).toHaveLength(2);
+      expect(runs[0].scheduledAt).toEqual(new Date(lastRun.getTime() + 2 * 24 * HOUR));
+    });
+  });
+
+  describe('payload validation', () => {
+    const notifyHandler: TaskHandler = {
+      types: ['notify'],
+      schemas: {
+        notify: {
+          description: 'Notify a user',
+          payload: { type: 'object', required: ['to'], properties: { to: { type: 'string' } } },
+        },
+      },
+      handle: jest.fn(),
+    };
+    let registry: TaskHandlerRegistry;
+
+    beforeEach(async () => {
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          SchedulerService,
+          QueueService,
+          LeaseService,
+          TaskHandlerRegistry,
+          { provide: TASK_HANDLERS, useValue: [] },
+          { provide: TASK_STORE, useClass: InMemoryTaskStore },
+          { provide: LOCK_STORE, useClass: InMemoryLockStore },
+        ],
+      }).compile();
+
+      scheduler = module.get<SchedulerService>(SchedulerService);
+      queueService = module.get<QueueService>(QueueService);
+      registry = module.get<TaskHandlerRegistry>(TaskHandlerRegistry);
+    });
+
+    it('should reject jobs whose payload does not match the schema of their type', async () => {
+      registry.register(notifyHandler);
+
+      await expect(
+        scheduler.createJob({ name: 'Notify', type: 'notify', schedule: '@hourly', payload: { to: 1 } }),
+      ).rejects.toThrow('Invalid payload for task type notify: to must be of type string');
+      expect(await scheduler.getJobs()).toHaveLength(0);
+    });
+
+    it('should fail a run whose payload no longer matches the schema of its type', async () => {
+      const job = await scheduler.createJob({ name: 'Notify', type: 'notify', schedule: '@hourly' });
+      registry.register(notifyHandler);
+
+      await scheduler.tick(job.nextRun!);
+
+      const [run] = await scheduler.getJobRuns(job.id);
+      expect(run.status).toBe(JobRunStatus.Failed);
+      expect(run.error).toBe('Invalid payload for task type notify: to is required');
+      expect(await queueService.getAllTasks()).toHaveLength(0);
+    });
+  });
+
+  describe('pause/resume/delete', () => {
+    it('should reject pausing a paused job and resuming an active one', async () => {
+      const job = await scheduler.createJob({ name: 'Daily', type: 'report', schedule: '@daily' });
+
+      await expect(scheduler.resumeJob(job.id)).rejects.toThrow(BadRequestException);
+      await scheduler.pauseJob(job.id);
+      await expect(scheduler.pauseJob(job.id)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should delete jobs with their runs', async () => {
+      const job = await scheduler.createJob({ name: 'Daily', type: 'report', schedule: '@daily' });
+      await scheduler.tick(job.nextRun!);
+
+      await scheduler.deleteJob(job.id);
+
+      await expect(scheduler.getJob(job.id)).rejects.toThrow(NotFoundException);
+      await expect(scheduler.getJobRuns(job.id)).rejects.toThrow(NotFoundException);
+      await expect(scheduler.deleteJob(job.id)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
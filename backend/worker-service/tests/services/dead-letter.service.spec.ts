@@ -0,0 +1,129 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { DeadLetterService } from '../../src/services/dead-letter.service';
+import { QueueService } from '../../src/services/queue.service';
+import { TASK_STORE, TaskStore } from '../../src/storage/task-store.interface';
+import { InMemoryTaskStore } from '../../src/storage/in-memory-task.store';
+import { Job, JobStatus, JobPriority } from '../../../common/src/types/common';
+
+describe('DeadLetterService', () => {
+  let service: DeadLetterService;
+  let queueService: QueueService;
+  let store: TaskStore;
+
+  const buildTask = (id: string, type: string): Job => ({
+    id,
+    type,
+    status: JobStatus.Pending,
+    priority: JobPriority.Normal,
+    payload: { value: id },
+    attempts: 0,
+    maxAttempts: 2,
+    createdAt: new Date(),
+  });
+
+  /**
+   * Run a task through all of its attempts and dead-letter it
+   */
+  const exhaust = async (id: string, type: string, error: string) => {
+    await queueService.addTask(buildTask(id, type));
+    await queueService.getNextTask();
+    await queueService.updateTaskStatus(id, JobStatus.Processing);
+    await queueService.scheduleRetry(id, `${error} (first)`, 0);
+    await queueService.getNextTask();
+    await queueService.updateTaskStatus(id, JobStatus.Processing);
+    return service.deadLetter(id, error);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeadLetterService,
+        QueueService,
+        { provide: TASK_STORE, useClass: InMemoryTaskStore },
+      ],
+    }).compile();
+
+    service = module.get<DeadLetterService>(DeadLetterService);
+    queueService = module.get<QueueService>(QueueService);
+    store = module.get<TaskStore>(TASK_STORE);
+  });
+
+  describe('deadLetter', () => {
+    it('should fail the task and record the payload, final error and attempt history', async () => {
+      const entry = await exhaust('dead-1', 'email', 'SMTP refused');
+
+      expect((await queueService.getTask('dead-1'))?.status).toBe(JobStatus.Failed);
+      expect(entry.payload).toEqual({ value: 'dead-1' });
+      expect(entry.error).toBe('SMTP refused');
+      expect(entry.attempts).toBe(2);
+      expect(entry.history).toHaveLength(2);
+      expect(entry.history[0]).toMatchObject({ attempt: 1, error: 'SMTP refused (first)' });
+      expect(entry.history[0].startedAt).toBeInstanceOf(Date);
+      expect(entry.history[1]).toMatchObject({ attempt: 2, error: 'SMTP refused' });
+    });
+  });
+
+  describe('list', () => {
+    it('should filter by type and error text and count by type', async () => {
+      await exhaust('a', 'email', 'SMTP refused');
+      await exhaust('b', 'email', 'Mailbox full');
+      await exhaust('c', 'report', 'Timeout');
+
+      const all = await service.list();
+      expect(all.total).toBe(3);
+      expect(all.byType).toEqual({ email: 2, report: 1 });
+
+      const smtp = await service.list({ type: 'email', errorContains: 'smtp' });
+      expect(smtp.entries.map((e) => e.taskId)).toEqual(['a']);
+    });
+
+    it('should throw NotFoundException when inspecting a task that is not dead-lettered', async () => {
+      await expect(service.getEntry('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('replay', () => {
+    it('should re-queue selected tasks with attempts reset', async () => {
+      await exhaust('a', 'email', 'SMTP refused');
+      await exhaust('b', 'report', 'Timeout');
+
+      const result = await service.replay({ type: 'email' });
+
+      expect(result).toEqual({ count: 1, taskIds: ['a'] });
+      const task = await queueService.getTask('a');
+      expect(task?.status).toBe(JobStatus.Pending);
+      expect(task?.attempts).toBe(0);
+      expect((await queueService.getNextTask())?.id).toBe('a');
+      expect((await service.list()).entries.map((e) => e.taskId)).toEqual(['b']);
+    });
+
+    it('should rebuild tasks whose record was deleted', async () => {
+      await exhaust('gone', 'email', 'SMTP refused');
+      await queueService.deleteTask('gone');
+
+      await service.replay({ taskIds: ['gone'] });
+
+      const task = await queueService.getTask('gone');
+      expect(task?.status).toBe(JobStatus.Pending);
+      expect(task?.payload).toEqual({ value: 'gone' });
+    });
+
+    it('should require a selection', async () => {
+      await expect(service.replay({})).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('purge', () => {
+    it('should remove selected entries and keep the failed task record', async () => {
+      await exhaust('a', 'email', 'SMTP refused');
+      await exhaust('b', 'report', 'Timeout');
+
+      const result = await service.purge({ all: true });
+
+      expect(result.count).toBe(2);
+      expect(await store.getDeadLetters()).toEqual([]);
+      expect((await queueService.getTask('a'))?.status).toBe(JobStatus.Failed);
+    });
+  });
+});
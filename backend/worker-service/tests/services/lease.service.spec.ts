@@ -0,0 +1,91 @@
+import { LeaseService } from '../../src/services/lease.service';
+import { InMemoryLockStore } from '../../src/storage/in-memory-lock.store';
+
+describe('LeaseService', () => {
+  let now: number;
+  let locks: InMemoryLockStore;
+  let workerA: LeaseService;
+  let workerB: LeaseService;
+
+  const createWorker = (workerId: string): LeaseService => {
+    process.env.WORKER_ID = workerId;
+    return new LeaseService(locks);
+  };
+
+  beforeAll(() => {
+    process.env.WORKER_LEASE_TTL_MS = '1000';
+    process.env.WORKER_LEADER_TTL_MS = '500';
+  });
+
+  afterAll(() => {
+    delete process.env.WORKER_ID;
+    delete process.env.WORKER_LEASE_TTL_MS;
+    delete process.env.WORKER_LEADER_TTL_MS;
+  });
+
+  beforeEach(() => {
+    now = 1_000_000;
+    locks = new InMemoryLockStore(() => now);
+    workerA = createWorker('worker-a');
+    workerB = createWorker('worker-b');
+  });
+
+  describe('task leases', () => {
+    it('should let only one worker claim a task', async () => {
+      expect(await workerA.acquireTaskLease('task-1')).toBe(true);
+      expect(await workerB.acquireTaskLease('task-1')).toBe(false);
+      expect(await workerA.getTaskLeaseOwner('task-1')).toBe('worker-a');
+    });
+
+    it('should keep a renewed lease and hand over an expired one', async () => {
+      await workerA.acquireTaskLease('task-1');
+
+      now += 800;
+      expect(await workerA.renewTaskLease('task-1')).toBe(true);
+      now += 800;
+      expect(await workerB.acquireTaskLease('task-1')).toBe(false);
+
+      now += 1000;
+      expect(await workerB.acquireTaskLease('task-1')).toBe(true);
+      expect(await workerA.renewTaskLease('task-1')).toBe(false);
+    });
+
+    it('should free a released lease for other workers', async () => {
+      await workerA.acquireTaskLease('task-1');
+      await workerB.releaseTaskLease('task-1');
+      expect(await workerB.acquireTaskLease('task-1')).toBe(false);
+
+      await workerA.releaseTaskLease('task-1');
+      expect(await workerB.acquireTaskLease('task-1')).toBe(true);
+    });
+  });
+
+  describe('leadership', () => {
+    it('should elect a single leader that keeps leadership while it renews', async () => {
+      expect(await workerA.holdLeadership('scheduler')).toBe(true);
+      expect(await workerB.holdLeadership('scheduler')).toBe(false);
+
+      now += 400;
+      expect(await workerA.holdLeadership('scheduler')).toBe(true);
+      now += 400;
+      expect(await workerB.holdLeadership('scheduler')).toBe(false);
+    });
+
+    it('should fail over when the leader stops renewing', async () => {
+      await workerA.holdLeadership('scheduler');
+
+      now += 500;
+
+      expect(await workerB.holdLeadership('scheduler')).toBe(true);
+      expect(await workerA.holdLeadership('scheduler')).toBe(false);
+    });
+
+    it('should hand over leadership on shutdown', async () => {
+      await workerA.holdLeadership('scheduler');
+
+      await workerA.onModuleDestroy();
+
+      expect(await workerB.holdLeadership('scheduler')).toBe(true);
+    });
+  });
+});
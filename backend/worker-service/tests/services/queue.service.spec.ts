@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { NotFoundException, BadRequestException } from '@nestjs/common';
 import { QueueService, RetryTaskOptions } from '../../src/services/queue.service';
+import { TASK_STORE } from '../../src/storage/task-store.interface';
+import { InMemoryTaskStore } from '../../src/storage/in-memory-task.store';
 import { Job, JobStatus, JobPriority } from '../../../common/src/types/common';
 
 describe('QueueService', () => {
@@ -8,7 +10,10 @@ describe('QueueService', () => {
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [QueueService],
+      providers: [
+        QueueService,
+        { provide: TASK_STORE, useClass: InMemoryTaskStore },
+      ],
     }).compile();
 
     service = module.get<QueueService>(QueueService);
@@ -40,7 +45,7 @@ describe('QueueService', () => {
 
       const result = await service.addTask(task);
 
-      expect(result).toEqual(task);
+      expect(result).toEqual({ ...task, queuedAt: expect.any(Date) });
       expect(result.id).toBe('test-1');
     });
 
@@ -432,6 +437,138 @@ describe('QueueService', () => {
     });
   });
 
+  describe('updateProgress / saveCheckpoint', () => {
+    const processingTask = (id: string): Job => ({
+      id,
+      type: 'import',
+      status: JobStatus.Processing,
+      priority: JobPriority.Normal,
+      payload: {},
+      attempts: 1,
+      maxAttempts: 3,
+      createdAt: new Date(),
+      startedAt: new Date(),
+    });
+
+    it('should clamp the percentage and keep fields that are not reported', async () => {
+      await service.addTask(processingTask('progress-1'));
+
+      await service.updateProgress('progress-1', { percent: 30, step: 'parsing', message: 'Reading rows' });
+      const result = await service.updateProgress('progress-1', { percent: 140 });
+
+      expect(result.progress).toMatchObject({ percent: 100, step: 'parsing', message: 'Reading rows' });
+      expect(result.progress?.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should log each new step once', async () => {
+      await service.addTask(processingTask('progress-2'));
+
+      await service.updateProgress('progress-2', { percent: 10, step: 'parsing' });
+      await service.updateProgress('progress-2', { percent: 20, step: 'parsing' });
+      await service.updateProgress('progress-2', { percent: 60, step: 'saving' });
+
+      const { logs } = await service.getLogs('progress-2');
+      expect(logs.filter((log) => log.message.startsWith('Step:')).map((log) => log.message).sort()).toEqual([
+        'Step: parsing',
+        'Step: saving',
+      ]);
+    });
+
+    it('should store a checkpoint and clear it when the task completes', async () => {
+      await service.addTask(processingTask('checkpoint-1'));
+
+      const saved = await service.saveCheckpoint('checkpoint-1', { processed: 500 });
+      expect(saved.partialResult).toEqual({ processed: 500 });
+
+      const completed = await service.updateTaskStatus('checkpoint-1', JobStatus.Completed, undefined, 'done');
+      expect(completed.partialResult).toBeUndefined();
+      expect(completed.progress?.percent).toBe(100);
+    });
+
+    it('should reject progress for tasks that are not processing', async () => {
+      await service.addTask({ ...processingTask('progress-3'), status: JobStatus.Pending });
+
+      await expect(service.updateProgress('progress-3', { percent: 10 })).rejects.toThrow(BadRequestException);
+      await expect(service.saveCheckpoint('progress-3', {})).rejects.toThrow(BadRequestException);
+      await expect(service.updateProgress('missing', { percent: 10 })).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('heartbeat', () => {
+    it('should only refresh the heartbeat of running tasks and keep their status', async () => {
+      const base: Job = {
+        id: 'running',
+        type: 'import',
+        status: JobStatus.Processing,
+        priority: JobPriority.Normal,
+        payload: {},
+        attempts: 1,
+        maxAttempts: 3,
+        createdAt: new Date(),
+      };
+      await service.addTask(base);
+      await service.addTask({ ...base, id: 'done', status: JobStatus.Completed });
+      await service.cancelTask('running');
+
+      await service.heartbeat(['running', 'done', 'missing']);
+
+      expect(await service.getTask('running')).toMatchObject({
+        status: JobStatus.Cancelling,
+        heartbeatAt: expect.any(Date),
+      });
+      expect((await service.getTask('done'))?.heartbeatAt).toBeUndefined();
+    });
+  });
+
+  describe('cancelTask / confirmCancellation', () => {
+    const runningTask = (id: string): Job => ({
+      id,
+      type: 'import',
+      status: JobStatus.Processing,
+      priority: JobPriority.Normal,
+      payload: {},
+      attempts: 1,
+      maxAttempts: 3,
+      createdAt: new Date(),
+      startedAt: new Date(),
+    });
+
+    it('should cancel a pending task immediately and take it off the queue', async () => {
+      await service.addTask({ ...runningTask('cancel-pending'), status: JobStatus.Pending, attempts: 0 });
+
+      const result = await service.cancelTask('cancel-pending');
+
+      expect(result.status).toBe(JobStatus.Cancelled);
+      expect(await service.getNextTask()).toBeUndefined();
+    });
+
+    it('should move a processing task to cancelling until the cancellation is confirmed', async () => {
+      const finished = jest.fn().mockResolvedValue(undefined);
+      service.onTaskFinished(finished);
+      await service.addTask(runningTask('cancel-running'));
+
+      const requested = await service.cancelTask('cancel-running', 'Operator request');
+      expect(requested.status).toBe(JobStatus.Cancelling);
+      expect(finished).not.toHaveBeenCalled();
+
+      // Repeated requests are no-ops while the handler winds down
+      expect((await service.cancelTask('cancel-running')).status).toBe(JobStatus.Cancelling);
+
+      const cancelled = await service.confirmCancellation('cancel-running');
+      expect(cancelled.status).toBe(JobStatus.Cancelled);
+      expect(cancelled.error).toBe('Operator request');
+      expect(cancelled.completedAt).toBeInstanceOf(Date);
+      expect(finished).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only confirm the cancellation of cancelling tasks', async () => {
+      await service.addTask(runningTask('not-cancelling'));
+
+      await expect(service.confirmCancellation('not-cancelling')).rejects.toThrow(BadRequestException);
+      await expect(service.confirmCancellation('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
   describe('getTask', () => {
     it('should return task by ID', async () => {
       const task: Job = {
@@ -446,14 +583,14 @@ describe('QueueService', () => {
       };
 
       await service.addTask(task);
-      const result = service.getTask('get-test');
+      const result = await service.getTask('get-test');
 
       expect(result).toBeDefined();
       expect(result?.id).toBe('get-test');
     });
 
-    it('should return undefined for non-existent task', () => {
-      const result = service.getTask('non-existent');
+    it('should return undefined for non-existent task', async () => {
+      const result = await service.getTask('non-existent');
       expect(result).toBeUndefined();
     });
   });
@@ -485,7 +622,7 @@ describe('QueueService', () => {
       await service.addTask(task1);
       await service.addTask(task2);
 
-      const result = service.getAllTasks();
+      const result = await service.getAllTasks();
 
       expect(result.length).toBeGreaterThanOrEqual(2);
       expect(result.some(t => t.id === 'all-1')).toBe(true);
@@ -507,10 +644,10 @@ describe('QueueService', () => {
       };
 
       await service.addTask(task);
-      expect(service.getTask('delete-test')).toBeDefined();
+      expect(await service.getTask('delete-test')).toBeDefined();
 
       await service.deleteTask('delete-test');
-      expect(service.getTask('delete-test')).toBeUndefined();
+      expect(await service.getTask('delete-test')).toBeUndefined();
     });
   });
 
@@ -600,6 +737,147 @@ describe('QueueService', () => {
     });
   });
 
+  describe('deduplication', () => {
+    const createService = async (env: Record<string, string>): Promise<QueueService> => {
+      Object.assign(process.env, env);
+      const module = await Test.createTestingModule({
+        providers: [QueueService, { provide: TASK_STORE, useClass: InMemoryTaskStore }],
+      }).compile();
+      Object.keys(env).forEach((name) => delete process.env[name]);
+      return module.get<QueueService>(QueueService);
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should return the original task for a repeated idempotency key', async () => {
+      const first = await service.createTask({ type: 'email', payload: { to: 'a' }, idempotencyKey: 'submit-1' });
+      const repeated = await service.createTask({ type: 'email', payload: { to: 'a' }, idempotencyKey: 'submit-1' });
+      const other = await service.createTask({ type: 'email', payload: { to: 'a' }, idempotencyKey: 'submit-2' });
+
+      const { logs } = await service.getLogs(first.id);
+      expect(repeated.id).toBe(first.id);
+      expect(other.id).not.toBe(first.id);
+      expect(await service.getAllTasks()).toHaveLength(2);
+      expect(logs.map((log) => log.message)).toContain('Repeated create request returned this task');
+    });
+
+    it('should create a new task once the idempotency window has passed or the task was deleted', async () => {
+      service = await createService({ WORKER_IDEMPOTENCY_WINDOW_MS: '60000' });
+      const now = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      const first = await service.createTask({ type: 'email', payload: {}, idempotencyKey: 'key' });
+      nowSpy.mockReturnValue(now + 60000);
+      const second = await service.createTask({ type: 'email', payload: {}, idempotencyKey: 'key' });
+      await service.deleteTask(second.id);
+      const third = await service.createTask({ type: 'email', payload: {}, idempotencyKey: 'key' });
+
+      expect(new Set([first.id, second.id, third.id]).size).toBe(3);
+    });
+
+    it('should coalesce identical payloads of deduplicated types while the task is pending', async () => {
+      service = await createService({ WORKER_DEDUPLICATE_TYPES: 'report, export' });
+
+      const first = await service.createTask({ type: 'report', payload: { id: 1, range: { from: 'a', to: 'b' } } });
+      const identical = await service.createTask({ type: 'report', payload: { range: { to: 'b', from: 'a' }, id: 1 } });
+      const different = await service.createTask({ type: 'report', payload: { id: 2 } });
+      const otherType = await service.createTask({ type: 'email', payload: { id: 1, range: { from: 'a', to: 'b' } } });
+
+      expect(identical.id).toBe(first.id);
+      expect(different.id).not.toBe(first.id);
+      expect(otherType.id).not.toBe(first.id);
+
+      await service.updateTaskStatus(first.id, JobStatus.Processing);
+      const afterStart = await service.createTask({ type: 'report', payload: { id: 1, range: { from: 'a', to: 'b' } } });
+
+      expect(afterStart.id).not.toBe(first.id);
+    });
+
+    it('should let a repeated key reach a task coalesced by content', async () => {
+      service = await createService({ WORKER_DEDUPLICATE_TYPES: 'report' });
+
+      const first = await service.createTask({ type: 'report', payload: {} });
+      const coalesced = await service.createTask({ type: 'report', payload: {}, idempotencyKey: 'retry' });
+      const repeated = await service.createTask({ type: 'report', payload: {}, idempotencyKey: 'retry' });
+
+      expect([coalesced.id, repeated.id]).toEqual([first.id, first.id]);
+    });
+  });
+
+  describe('priority aging', () => {
+    const MINUTE = 60 * 1000;
+
+    // Queue the task as if it had been queued waitedMs ago
+    const queueTask = async (id: string, priority: JobPriority, waitedMs: number) => {
+      const queuedAt = Date.now() - waitedMs;
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(queuedAt);
+
+      try {
+        return await service.addTask({
+          id,
+          type: 'report',
+          status: JobStatus.Pending,
+          priority,
+          payload: {},
+          attempts: 0,
+          maxAttempts: 3,
+          createdAt: new Date(queuedAt),
+        });
+      } finally {
+        nowSpy.mockRestore();
+      }
+    };
+
+    it('should run a low priority task that waited long enough before new high priority ones', async () => {
+      await queueTask('starved', JobPriority.Low, 10 * MINUTE);
+      await queueTask('high-1', JobPriority.High, 0);
+      await queueTask('high-2', JobPriority.High, 0);
+
+      expect((await service.getNextTask(new Date(Date.now() + 1)))?.id).toBe('starved');
+    });
+
+    it('should run a low priority task that reached the cap before high priority ones that wait too', async () => {
+      await queueTask('starved', JobPriority.Low, 18 * MINUTE);
+      await queueTask('high', JobPriority.High, 17 * MINUTE);
+
+      expect((await service.getNextTask(new Date(Date.now() + 60 * MINUTE)))?.id).toBe('starved');
+    });
+
+    it('should keep aged tasks behind new critical ones', async () => {
+      await queueTask('high-old', JobPriority.High, 60 * MINUTE);
+      await queueTask('critical', JobPriority.Critical, 0);
+
+      expect((await service.getNextTask(new Date(Date.now() + 1)))?.id).toBe('critical');
+    });
+
+    it('should age a retried task from its retry rather than its creation', async () => {
+      await queueTask('old', JobPriority.Normal, 60 * MINUTE);
+      await service.updateTaskStatus('old', JobStatus.Processing);
+      await service.updateTaskStatus('old', JobStatus.Failed, 'boom');
+      await queueTask('fresh', JobPriority.Normal, MINUTE);
+
+      await service.retryTask('old');
+
+      expect((await service.getNextTask(new Date(Date.now() + 1)))?.id).toBe('fresh');
+    });
+
+    it('should order strictly by priority when aging is disabled', async () => {
+      process.env.WORKER_PRIORITY_AGING_RATE = '0';
+      const module = await Test.createTestingModule({
+        providers: [QueueService, { provide: TASK_STORE, useClass: InMemoryTaskStore }],
+      }).compile();
+      delete process.env.WORKER_PRIORITY_AGING_RATE;
+      service = module.get<QueueService>(QueueService);
+
+      await queueTask('starved', JobPriority.Low, 60 * MINUTE);
+      await queueTask('high', JobPriority.High, 0);
+
+      expect((await service.getNextTask())?.id).toBe('high');
+    });
+  });
+
   describe('getQueueStats', () => {
     it('should return queue statistics', async () => {
       const pendingTask: Job = {
@@ -641,7 +919,7 @@ describe('QueueService', () => {
       await service.addTask(completedTask);
       await service.addTask(failedTask);
 
-      const stats = service.getQueueStats();
+      const stats = await service.getQueueStats();
 
       expect(stats).toHaveProperty('total');
       expect(stats).toHaveProperty('queued');
@@ -655,7 +933,7 @@ describe('QueueService', () => {
     });
 
     it('should correctly count tasks by status', async () => {
-      const stats = service.getQueueStats();
+      const stats = await service.getQueueStats();
 
       expect(stats.byStatus).toHaveProperty('pending');
       expect(stats.byStatus).toHaveProperty('processing');
@@ -666,12 +944,92 @@ describe('QueueService', () => {
     });
 
     it('should correctly count tasks by priority', async () => {
-      const stats = service.getQueueStats();
+      const stats = await service.getQueueStats();
 
       expect(stats.byPriority).toHaveProperty('low');
       expect(stats.byPriority).toHaveProperty('normal');
       expect(stats.byPriority).toHaveProperty('high');
       expect(stats.byPriority).toHaveProperty('critical');
     });
+
+    it('should break statistics down by queue', async () => {
+      await service.createTask({ type: 'ai_insights', payload: {} });
+      await service.createTask({ type: 'email', payload: {} });
+      await service.createTask({ type: 'email', payload: {} });
+
+      const stats = await service.getQueueStats();
+
+      expect(stats.byQueue.ai).toMatchObject({ status: 'active', queued: 1, byStatus: { pending: 1 } });
+      expect(stats.byQueue.email).toMatchObject({ queued: 2, byStatus: { pending: 2 } });
+      expect(stats.byQueue.reports).toMatchObject({ queued: 0 });
+    });
+  });
+
+  describe('named queues', () => {
+    it('should route tasks to a queue by type, explicit queue or default', async () => {
+      const ai = await service.createTask({ type: 'ai_chat', payload: {} });
+      const report = await service.createTask({ type: 'report-generation', payload: {} });
+      const explicit = await service.createTask({ type: 'ai_chat', payload: {}, queue: 'bulk' });
+      const other = await service.createTask({ type: 'cleanup', payload: {} });
+
+      expect([ai.queue, report.queue, explicit.queue, other.queue]).toEqual(['ai', 'reports', 'bulk', 'default']);
+      expect((await service.listTasks({ queue: 'ai' })).tasks.map((task) => task.id)).toEqual([ai.id]);
+    });
+
+    it('should take routes from WORKER_QUEUE_ROUTES', async () => {
+      process.env.WORKER_QUEUE_ROUTES = JSON.stringify({ cleanup: 'maintenance' });
+      const module = await Test.createTestingModule({
+        providers: [QueueService, { provide: TASK_STORE, useClass: InMemoryTaskStore }],
+      }).compile();
+      delete process.env.WORKER_QUEUE_ROUTES;
+      const routed = module.get<QueueService>(QueueService);
+
+      const task = await routed.createTask({ type: 'cleanup', payload: {} });
+
+      expect(task.queue).toBe('maintenance');
+      expect((await routed.getQueues()).map((queue) => queue.name)).toContain('maintenance');
+    });
+
+    it('should not start tasks from a paused queue while other queues keep running', async () => {
+      const ai = await service.createTask({ type: 'ai_insights', payload: {}, priority: 'critical' });
+      const email = await service.createTask({ type: 'email', payload: {} });
+
+      const paused = await service.pauseQueue('ai');
+
+      expect(paused.status).toBe('paused');
+      expect((await service.getNextTask())?.id).toBe(email.id);
+      expect(await service.getNextTask()).toBeUndefined();
+
+      await service.createTask({ type: 'ai_chat', payload: {} });
+      await service.resumeQueue('ai');
+
+      expect((await service.getNextTask())?.id).toBe(ai.id);
+    });
+
+    it('should finish the tasks of a draining queue but reject new ones', async () => {
+      const queued = await service.createTask({ type: 'email', payload: {} });
+
+      await service.drainQueue('email');
+
+      await expect(service.createTask({ type: 'email', payload: {} })).rejects.toThrow(BadRequestException);
+      expect((await service.getQueue('email')).drained).toBe(false);
+
+      expect((await service.getNextTask())?.id).toBe(queued.id);
+      await service.updateTaskStatus(queued.id, JobStatus.Processing);
+      expect((await service.getQueue('email')).drained).toBe(false);
+
+      await service.updateTaskStatus(queued.id, JobStatus.Completed);
+      expect((await service.getQueue('email')).drained).toBe(true);
+    });
+
+    it('should reject unknown queues and repeated transitions', async () => {
+      await expect(service.pauseQueue('nope')).rejects.toThrow(NotFoundException);
+
+      await service.pauseQueue('reports');
+
+      await expect(service.pauseQueue('reports')).rejects.toThrow('Queue reports is already paused');
+      await service.resumeQueue('reports');
+      await expect(service.resumeQueue('reports')).rejects.toThrow(BadRequestException);
+    });
   });
 });
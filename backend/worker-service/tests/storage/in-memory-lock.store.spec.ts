@@ -0,0 +1,60 @@
+import { InMemoryLockStore } from '../../src/storage/in-memory-lock.store';
+
+describe('InMemoryLockStore', () => {
+  let store: InMemoryLockStore;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    store = new InMemoryLockStore(() => now);
+  });
+
+  it('should give a free lock to one owner at a time', async () => {
+    expect(await store.acquire('task:1', 'worker-a', 1000)).toBe(true);
+    expect(await store.acquire('task:1', 'worker-b', 1000)).toBe(false);
+    expect(await store.acquire('task:1', 'worker-a', 1000)).toBe(true);
+    expect(await store.getOwner('task:1')).toBe('worker-a');
+  });
+
+  it('should free a lock once it expires', async () => {
+    await store.acquire('task:1', 'worker-a', 1000);
+
+    now += 1000;
+
+    expect(await store.getOwner('task:1')).toBeUndefined();
+    expect(await store.renew('task:1', 'worker-a', 1000)).toBe(false);
+    expect(await store.acquire('task:1', 'worker-b', 1000)).toBe(true);
+  });
+
+  it('should only let the owner renew or release a lock', async () => {
+    await store.acquire('task:1', 'worker-a', 1000);
+
+    expect(await store.renew('task:1', 'worker-b', 1000)).toBe(false);
+    expect(await store.release('task:1', 'worker-b')).toBe(false);
+
+    now += 900;
+    expect(await store.renew('task:1', 'worker-a', 1000)).toBe(true);
+    now += 900;
+    expect(await store.getOwner('task:1')).toBe('worker-a');
+
+    expect(await store.release('task:1', 'worker-a')).toBe(true);
+    expect(await store.getOwner('task:1')).toBeUndefined();
+  });
+
+  it('should hand out tokens up to the capacity and refill them over time', async () => {
+    expect(await store.consumeToken('email', 2, 1000)).toBe(0);
+    expect(await store.consumeToken('email', 2, 1000)).toBe(0);
+    expect(await store.consumeToken('email', 2, 1000)).toBe(500);
+
+    now += 250;
+    expect(await store.consumeToken('email', 2, 1000)).toBe(250);
+
+    now += 250;
+    expect(await store.consumeToken('email', 2, 1000)).toBe(0);
+
+    now += 10000;
+    expect(await store.consumeToken('email', 2, 1000)).toBe(0);
+    expect(await store.consumeToken('email', 2, 1000)).toBe(0);
+    expect(await store.consumeToken('email', 2, 1000)).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,178 @@
+import { InMemoryTaskStore } from '../../src/storage/in-memory-task.store';
+import { Job, JobStatus, JobPriority } from '../../../common/src/types/common';
+
+describe('InMemoryTaskStore', () => {
+  let store: InMemoryTaskStore;
+
+  const buildTask = (overrides: Partial<Job> = {}): Job => ({
+    id: 'task-1',
+    type: 'email',
+    status: JobStatus.Pending,
+    priority: JobPriority.Normal,
+    payload: {},
+    attempts: 0,
+    maxAttempts: 3,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    store = new InMemoryTaskStore();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('tasks', () => {
+    it('should save and return a task', async () => {
+      const task = buildTask();
+
+      await store.saveTask(task);
+
+      expect(await store.getTask('task-1')).toEqual(task);
+      expect(await store.getAllTasks()).toHaveLength(1);
+    });
+
+    it('should delete a task with its logs and queue entry', async () => {
+      const task = buildTask();
+      await store.saveTask(task);
+      await store.enqueue(task);
+      await store.appendLog(task.id, { timestamp: new Date(), level: 'info', message: 'created' });
+
+      await store.deleteTask(task.id);
+
+      expect(await store.getTask(task.id)).toBeUndefined();
+      expect(await store.getLogs(task.id)).toEqual([]);
+      expect(await store.getQueueLength()).toBe(0);
+    });
+  });
+
+  describe('logs', () => {
+    it('should return logs in insertion order', async () => {
+      await store.appendLog('task-1', { timestamp: new Date(), level: 'info', message: 'first' });
+      await store.appendLog('task-1', { timestamp: new Date(), level: 'warn', message: 'second' });
+
+      const logs = await store.getLogs('task-1');
+
+      expect(logs.map((log) => log.message)).toEqual(['first', 'second']);
+    });
+
+    it('should delete the entries logged before a cutoff', async () => {
+      await store.appendLog('task-1', { timestamp: new Date('2025-01-01'), level: 'info', message: 'first' });
+      await store.appendLog('task-1', { timestamp: new Date('2025-01-02'), level: 'info', message: 'second' });
+      await store.appendLog('task-1', { timestamp: new Date('2025-01-03'), level: 'info', message: 'third' });
+
+      expect(await store.deleteLogsBefore('task-1', new Date('2025-01-02'))).toBe(1);
+      expect((await store.getLogs('task-1')).map((log) => log.message)).toEqual(['second', 'third']);
+      expect(await store.deleteLogsBefore('missing', new Date())).toBe(0);
+    });
+  });
+
+  describe('queue', () => {
+    it('should dequeue by priority and then by age', async () => {
+      await store.enqueue(buildTask({ id: 'low', priority: JobPriority.Low, createdAt: new Date(1000) }));
+      await store.enqueue(buildTask({ id: 'normal-new', createdAt: new Date(3000) }));
+      await store.enqueue(buildTask({ id: 'normal-old', createdAt: new Date(2000) }));
+      await store.enqueue(buildTask({ id: 'critical', priority: JobPriority.Critical, createdAt: new Date(4000) }));
+
+      const order = [await store.dequeue(), await store.dequeue(), await store.dequeue(), await store.dequeue()];
+
+      expect(order).toEqual(['critical', 'normal-old', 'normal-new', 'low']);
+      expect(await store.dequeue()).toBeUndefined();
+    });
+
+    it('should order tasks by when they were queued rather than created', async () => {
+      await store.enqueue(buildTask({ id: 'retried', createdAt: new Date(1000), queuedAt: new Date(5000) }));
+      await store.enqueue(buildTask({ id: 'fresh', createdAt: new Date(3000) }));
+
+      expect([await store.dequeue(), await store.dequeue()]).toEqual(['fresh', 'retried']);
+    });
+
+    it('should not enqueue the same task twice', async () => {
+      const task = buildTask();
+
+      await store.enqueue(task);
+      await store.enqueue(task);
+
+      expect(await store.getQueueLength()).toBe(1);
+    });
+
+    it('should hold delayed tasks until their delay has elapsed', async () => {
+      const now = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await store.enqueue(buildTask({ id: 'delayed' }), 5000);
+
+      expect(await store.getQueueLength()).toBe(1);
+      expect(await store.dequeue()).toBeUndefined();
+
+      nowSpy.mockReturnValue(now + 5000);
+
+      expect(await store.dequeue()).toBe('delayed');
+      expect(await store.getQueueLength()).toBe(0);
+    });
+
+    it('should dequeue the best task across the given queues only', async () => {
+      await store.enqueue(buildTask({ id: 'ai', queue: 'ai', priority: JobPriority.Critical }));
+      await store.enqueue(buildTask({ id: 'email-old', queue: 'email', createdAt: new Date(1000) }));
+      await store.enqueue(buildTask({ id: 'email-new', queue: 'email', createdAt: new Date(2000) }));
+      await store.enqueue(buildTask({ id: 'default' }));
+
+      expect(await store.dequeue(['email', 'default'])).toBe('email-old');
+      expect(await store.dequeue()).toBe('ai');
+      expect(await store.getQueueLength('email')).toBe(1);
+      expect(await store.getQueueNames()).toEqual(['ai', 'email', 'default']);
+    });
+
+    it('should let waiting tasks gain priority with age up to the cap and take capped ones oldest first', async () => {
+      const now = Date.now();
+      const aging = { ratePerMinute: 1, cap: 19 };
+
+      await store.enqueue(buildTask({ id: 'low-old', priority: JobPriority.Low, createdAt: new Date(now - 20 * 60000) }));
+      await store.enqueue(buildTask({ id: 'low-new', priority: JobPriority.Low, createdAt: new Date(now) }));
+      await store.enqueue(buildTask({ id: 'high-old', priority: JobPriority.High, createdAt: new Date(now - 30 * 60000) }));
+      await store.enqueue(buildTask({ id: 'high', priority: JobPriority.High, createdAt: new Date(now - 60000) }));
+      await store.enqueue(buildTask({ id: 'critical', priority: JobPriority.Critical, createdAt: new Date(now) }));
+      await store.enqueue(buildTask({ id: 'normal', createdAt: new Date(now - 3 * 60000) }));
+
+      const order = [];
+      for (let id = await store.dequeue(undefined, aging, now); id; id = await store.dequeue(undefined, aging, now)) {
+        order.push(id);
+      }
+
+      expect(order).toEqual(['critical', 'high-old', 'low-old', 'high', 'normal', 'low-new']);
+    });
+
+    it('should remove a task from the queue', async () => {
+      await store.enqueue(buildTask({ id: 'ready' }));
+      await store.enqueue(buildTask({ id: 'delayed' }), 5000);
+      expect([await store.isQueued('ready'), await store.isQueued('delayed')]).toEqual([true, true]);
+
+      await store.removeFromQueue('ready');
+      await store.removeFromQueue('delayed');
+
+      expect(await store.getQueueLength()).toBe(0);
+      expect(await store.isQueued('ready')).toBe(false);
+    });
+  });
+
+  describe('task keys', () => {
+    it('should hold a key for its task until it expires or is released', async () => {
+      const now = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      expect(await store.reserveTaskKey('key', 'task-1', 1000)).toBe('task-1');
+      expect(await store.reserveTaskKey('key', 'task-2', 1000)).toBe('task-1');
+
+      await store.releaseTaskKey('key', 'task-2');
+      expect(await store.reserveTaskKey('key', 'task-2', 1000)).toBe('task-1');
+
+      nowSpy.mockReturnValue(now + 1000);
+      expect(await store.reserveTaskKey('key', 'task-2', 1000)).toBe('task-2');
+
+      await store.releaseTaskKey('key', 'task-2');
+      expect(await store.reserveTaskKey('key', 'task-3', 1000)).toBe('task-3');
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { PriorityHeap } from '../../src/storage/priority-heap';
+
+describe('PriorityHeap', () => {
+  interface Item {
+    id: string;
+    value: number;
+  }
+
+  let heap: PriorityHeap<Item>;
+
+  const drain = (): string[] => {
+    const order: string[] = [];
+    for (let item = heap.pop(); item; item = heap.pop()) {
+      order.push(item.id);
+    }
+    return order;
+  };
+
+  beforeEach(() => {
+    heap = new PriorityHeap<Item>(
+      (a, b) => a.value - b.value,
+      (item) => item.id,
+    );
+  });
+
+  it('should pop items in order', () => {
+    const values = Array.from({ length: 200 }, (_, i) => (i * 7919) % 200);
+    values.forEach((value) => heap.push({ id: `item-${value}`, value }));
+
+    expect(heap.size).toBe(200);
+    expect(heap.peek()?.value).toBe(0);
+    expect(drain()).toEqual([...values].sort((a, b) => a - b).map((value) => `item-${value}`));
+    expect(heap.size).toBe(0);
+  });
+
+  it('should replace an item pushed again with the same key', () => {
+    heap.push({ id: 'a', value: 1 });
+    heap.push({ id: 'b', value: 2 });
+    heap.push({ id: 'a', value: 3 });
+
+    expect(heap.size).toBe(2);
+    expect(drain()).toEqual(['b', 'a']);
+  });
+
+  it('should delete items by key and keep the rest in order', () => {
+    for (let value = 0; value < 50; value++) {
+      heap.push({ id: `item-${value}`, value });
+    }
+
+    for (let value = 0; value < 50; value += 3) {
+      expect(heap.delete(`item-${value}`)).toBe(true);
+    }
+
+    expect(heap.delete('missing')).toBe(false);
+    expect(heap.has('item-0')).toBe(false);
+    expect(heap.has('item-1')).toBe(true);
+    expect(drain()).toEqual(
+      Array.from({ length: 50 }, (_, value) => value)
+        .filter((value) => value % 3 !== 0)
+        .map((value) => `item-${value}`),
+    );
+  });
+});
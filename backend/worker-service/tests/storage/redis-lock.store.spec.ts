@@ -0,0 +1,115 @@
+import Redis from 'ioredis-mock';
+import { RedisLockStore } from '../../src/storage/redis-lock.store';
+
+describe('RedisLockStore', () => {
+  // Clients of ioredis-mock share their data, like two replicas sharing a Redis server
+  const client = new Redis();
+  const replicaClient = new Redis();
+  let replicaA: RedisLockStore;
+  let replicaB: RedisLockStore;
+  let now: number;
+
+  beforeEach(async () => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    await client.flushall();
+    replicaA = new RedisLockStore(client as never);
+    replicaB = new RedisLockStore(replicaClient as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should refuse to start on a Redis that may evict locks', async () => {
+    await expect(replicaA.onModuleInit()).resolves.toBeUndefined();
+
+    jest.spyOn(client, 'info').mockResolvedValue('# Memory\r\nmaxmemory_policy:volatile-lru\r\n');
+
+    await expect(replicaA.onModuleInit()).rejects.toThrow('maxmemory-policy volatile-lru');
+  });
+
+  it('should store locks under the prefix with the owner as value', async () => {
+    await replicaA.acquire('scheduler', 'worker-a', 1000);
+
+    expect(await client.get('worker:lock:scheduler')).toBe('worker-a');
+    expect(await client.pttl('worker:lock:scheduler')).toBe(1000);
+  });
+
+  it('should give a lock to exactly one of two replicas acquiring it at once', async () => {
+    const results = await Promise.all([
+      replicaA.acquire('task:1', 'worker-a', 1000),
+      replicaB.acquire('task:1', 'worker-b', 1000),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await replicaA.getOwner('task:1')).toBe(results[0] ? 'worker-a' : 'worker-b');
+  });
+
+  it('should let the owner acquire its lock again to extend it', async () => {
+    await replicaA.acquire('task:1', 'worker-a', 1000);
+
+    now += 900;
+
+    expect(await replicaA.acquire('task:1', 'worker-a', 1000)).toBe(true);
+    expect(await replicaB.acquire('task:1', 'worker-b', 1000)).toBe(false);
+  });
+
+  it('should free a lock once it expires', async () => {
+    await replicaA.acquire('task:1', 'worker-a', 1000);
+
+    now += 1001;
+
+    expect(await replicaA.getOwner('task:1')).toBeUndefined();
+    expect(await replicaA.renew('task:1', 'worker-a', 1000)).toBe(false);
+    expect(await replicaB.acquire('task:1', 'worker-b', 1000)).toBe(true);
+  });
+
+  it('should only let the owner renew or release a lock', async () => {
+    await replicaA.acquire('task:1', 'worker-a', 1000);
+
+    expect(await replicaB.renew('task:1', 'worker-b', 1000)).toBe(false);
+    expect(await replicaB.release('task:1', 'worker-b')).toBe(false);
+
+    now += 900;
+    expect(await replicaA.renew('task:1', 'worker-a', 1000)).toBe(true);
+    now += 900;
+    expect(await replicaB.getOwner('task:1')).toBe('worker-a');
+
+    expect(await replicaA.release('task:1', 'worker-a')).toBe(true);
+    expect(await replicaB.getOwner('task:1')).toBeUndefined();
+  });
+
+  it('should not release a lock another replica took over after it expired', async () => {
+    await replicaA.acquire('task:1', 'worker-a', 1000);
+    now += 1001;
+    await replicaB.acquire('task:1', 'worker-b', 1000);
+
+    // A replica that stalled past its lease must not free the new owner's lock
+    expect(await replicaA.renew('task:1', 'worker-a', 1000)).toBe(false);
+    expect(await replicaA.release('task:1', 'worker-a')).toBe(false);
+    expect(await replicaA.getOwner('task:1')).toBe('worker-b');
+  });
+
+  it('should share token buckets between replicas up to the capacity', async () => {
+    expect(await replicaA.consumeToken('email', 2, 1000)).toBe(0);
+    expect(await replicaB.consumeToken('email', 2, 1000)).toBe(0);
+    expect(await replicaA.consumeToken('email', 2, 1000)).toBeGreaterThan(0);
+    expect(await client.pttl('worker:bucket:email')).toBe(2000);
+  });
+
+  it('should refill a bucket by the Redis clock', async () => {
+    await replicaA.consumeToken('email', 2, 1000);
+    await replicaA.consumeToken('email', 2, 1000);
+
+    // Buckets are refilled by the time Redis reports, not the time of the replica, so move the
+    // last refill back instead of the replica's clock
+    const updatedAt = Number(await client.hget('worker:bucket:email', 'updatedAt'));
+    await client.hset('worker:bucket:email', 'updatedAt', updatedAt - 5000);
+
+    expect(await replicaB.consumeToken('email', 2, 1000)).toBe(0);
+    expect(await replicaB.consumeToken('email', 2, 1000)).toBe(0);
+    expect(await replicaB.consumeToken('email', 2, 1000)).toBeGreaterThan(0);
+  });
+});
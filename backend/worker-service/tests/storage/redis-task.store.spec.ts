@@ -0,0 +1,301 @@
+import Redis from 'ioredis-mock';
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { RedisTaskStore } from '../../src/storage/redis-task.store';
+import { Job, JobStatus, JobPriority } from '../../../common/src/types/common';
+import {
+  ScheduledJob,
+  JobScheduleStatus,
+  JobRunStatus,
+  MisfirePolicy,
+  OverlapPolicy,
+} from '../../src/scheduler/scheduled-job.interface';
+
+describe('RedisTaskStore', () => {
+  // Clients of ioredis-mock share their data, like two replicas sharing a Redis server
+  const client = new Redis();
+  const replicaClient = new Redis();
+  let store: RedisTaskStore;
+  let replica: RedisTaskStore;
+
+  const buildTask = (overrides: Partial<Job> = {}): Job => ({
+    id: 'task-1',
+    type: 'email',
+    status: JobStatus.Pending,
+    priority: JobPriority.Normal,
+    payload: {},
+    attempts: 0,
+    maxAttempts: 3,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const drain = async (dequeue: () => Promise<string | undefined>) => {
+    const order: string[] = [];
+    for (let id = await dequeue(); id; id = await dequeue()) {
+      order.push(id);
+    }
+    return order;
+  };
+
+  beforeEach(async () => {
+    await client.flushall();
+    store = new RedisTaskStore(client as never);
+    replica = new RedisTaskStore(replicaClient as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('onModuleInit', () => {
+    it('should start on a Redis that never evicts keys', async () => {
+      await expect(store.onModuleInit()).resolves.toBeUndefined();
+    });
+
+    it('should refuse to start on a Redis that may evict keys', async () => {
+      jest.spyOn(client, 'info').mockResolvedValue('# Memory\r\nmaxmemory_policy:allkeys-lru\r\n');
+
+      await expect(store.onModuleInit()).rejects.toThrow('maxmemory-policy allkeys-lru');
+    });
+  });
+
+  describe('onApplicationShutdown', () => {
+    it('should close the connection only after services finished with it on shutdown', async () => {
+      const events: string[] = [];
+      jest.spyOn(client, 'quit').mockImplementation(async () => {
+        events.push('quit');
+        return 'OK';
+      });
+
+      @Injectable()
+      class DrainingService implements OnModuleDestroy {
+        async onModuleDestroy(): Promise<void> {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          events.push('drained');
+        }
+      }
+
+      const module = await Test.createTestingModule({
+        providers: [DrainingService, { provide: 'TASK_STORE', useValue: store }],
+      }).compile();
+      await module.close();
+
+      expect(events).toEqual(['drained', 'quit']);
+    });
+  });
+
+  describe('tasks', () => {
+    it('should save a task and revive its dates', async () => {
+      const task = buildTask({
+        startedAt: new Date('2025-01-01T10:00:00Z'),
+        progress: { percent: 50, updatedAt: new Date('2025-01-01T10:01:00Z') },
+      });
+
+      await store.saveTask(task);
+
+      expect(await replica.getTask('task-1')).toEqual(task);
+      expect(await replica.getAllTasks()).toHaveLength(1);
+    });
+
+    it('should apply a change again to a task written by another replica meanwhile', async () => {
+      const task = buildTask({ status: JobStatus.Processing });
+      await store.saveTask(task);
+
+      // Another replica cancels the task after this one read it
+      const get = client.get.bind(client);
+      jest.spyOn(client, 'get').mockImplementationOnce(async (key) => {
+        const raw = await get(key);
+        await replica.saveTask({ ...task, status: JobStatus.Cancelling });
+        return raw;
+      });
+
+      const updated = await store.updateTask(task.id, (current) => ({ ...current, partialResult: 'half' }));
+
+      expect(updated).toMatchObject({ status: JobStatus.Cancelling, partialResult: 'half' });
+      expect(await replica.getTask(task.id)).toEqual(updated);
+      expect(await store.updateTask('missing', (current) => current)).toBeUndefined();
+    });
+
+    it('should delete a task with its logs and queue entry', async () => {
+      const task = buildTask();
+      await store.saveTask(task);
+      await store.enqueue(task);
+      await store.appendLog(task.id, { timestamp: new Date(), level: 'info', message: 'created' });
+
+      await store.deleteTask(task.id);
+
+      expect(await store.getTask(task.id)).toBeUndefined();
+      expect(await store.getLogs(task.id)).toEqual([]);
+      expect(await store.getQueueLength()).toBe(0);
+    });
+  });
+
+  describe('queue', () => {
+    it('should score tasks into one band per priority, ordered by age within the band', async () => {
+      await store.enqueue(buildTask({ id: 'normal', createdAt: new Date(2000) }));
+      await store.enqueue(buildTask({ id: 'high', priority: JobPriority.High, createdAt: new Date(1000) }));
+
+      expect(await client.zrange('worker:queue', 0, -1, 'WITHSCORES')).toEqual([
+        'high',
+        String(-10e13 + 1000),
+        'normal',
+        String(-5e13 + 2000),
+      ]);
+    });
+
+    it('should dequeue by priority and then by age', async () => {
+      await store.enqueue(buildTask({ id: 'low', priority: JobPriority.Low, createdAt: new Date(1000) }));
+      await store.enqueue(buildTask({ id: 'normal-new', createdAt: new Date(3000) }));
+      await store.enqueue(buildTask({ id: 'normal-old', createdAt: new Date(2000) }));
+      await store.enqueue(buildTask({ id: 'critical', priority: JobPriority.Critical, createdAt: new Date(4000) }));
+
+      expect(await drain(() => store.dequeue())).toEqual(['critical', 'normal-old', 'normal-new', 'low']);
+    });
+
+    it('should order tasks by age within a band even when they were created years apart', async () => {
+      await store.enqueue(buildTask({ id: 'high-new', priority: JobPriority.High, createdAt: new Date('2030-01-01') }));
+      await store.enqueue(buildTask({ id: 'normal', createdAt: new Date('2020-01-01') }));
+      await store.enqueue(buildTask({ id: 'high-old', priority: JobPriority.High, createdAt: new Date('2020-01-01') }));
+
+      expect(await drain(() => store.dequeue())).toEqual(['high-old', 'high-new', 'normal']);
+    });
+
+    it('should let waiting tasks age up to the cap and take capped ones oldest first', async () => {
+      const aging = { ratePerMinute: 1, cap: 19 };
+      const now = 100 * 60000;
+
+      await store.enqueue(buildTask({ id: 'low', priority: JobPriority.Low, createdAt: new Date(now - 20 * 60000) }));
+      await store.enqueue(buildTask({ id: 'high-old', priority: JobPriority.High, createdAt: new Date(now - 30 * 60000) }));
+      await store.enqueue(buildTask({ id: 'high-new', priority: JobPriority.High, createdAt: new Date(now) }));
+      await store.enqueue(buildTask({ id: 'critical', priority: JobPriority.Critical, createdAt: new Date(now) }));
+
+      expect(await drain(() => store.dequeue(undefined, aging, now))).toEqual(['critical', 'high-old', 'low', 'high-new']);
+    });
+
+    it('should give each task to only one of two replicas dequeuing at once', async () => {
+      await store.enqueue(buildTask({ id: 'first', createdAt: new Date(1000) }));
+      await store.enqueue(buildTask({ id: 'second', createdAt: new Date(2000) }));
+      await store.enqueue(buildTask({ id: 'third', createdAt: new Date(3000) }));
+
+      const claimed = await Promise.all([store.dequeue(), replica.dequeue(), store.dequeue(), replica.dequeue()]);
+
+      expect(claimed.filter(Boolean).sort()).toEqual(['first', 'second', 'third']);
+      expect(claimed.filter((id) => id === undefined)).toHaveLength(1);
+    });
+
+    it('should order tasks by when they were queued rather than created', async () => {
+      await store.enqueue(buildTask({ id: 'retried', createdAt: new Date(1000), queuedAt: new Date(5000) }));
+      await store.enqueue(buildTask({ id: 'fresh', createdAt: new Date(3000) }));
+
+      expect(await drain(() => store.dequeue())).toEqual(['fresh', 'retried']);
+    });
+
+    it('should not enqueue the same task twice, even in another queue', async () => {
+      const task = buildTask();
+
+      await store.enqueue(task);
+      await store.enqueue({ ...task, queue: 'email' });
+
+      expect(await store.getQueueLength()).toBe(1);
+      expect(await store.getQueueLength('email')).toBe(1);
+    });
+
+    it('should hold delayed tasks until their delay has elapsed and keep their priority', async () => {
+      const now = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      const delayed = buildTask({ id: 'delayed', priority: JobPriority.High });
+      await store.saveTask(delayed);
+      await store.enqueue(buildTask({ id: 'normal', createdAt: new Date(now - 1000) }));
+      await store.enqueue(delayed, 5000);
+
+      expect(await store.getQueueLength()).toBe(2);
+      expect(await drain(() => store.dequeue())).toEqual(['normal']);
+
+      await store.enqueue(buildTask({ id: 'normal', createdAt: new Date(now - 1000) }));
+      nowSpy.mockReturnValue(now + 5000);
+
+      expect(await drain(() => store.dequeue())).toEqual(['delayed', 'normal']);
+    });
+
+    it('should dequeue the best task across the given queues only', async () => {
+      await store.enqueue(buildTask({ id: 'ai', queue: 'ai', priority: JobPriority.Critical }));
+      await store.enqueue(buildTask({ id: 'email-old', queue: 'email', createdAt: new Date(1000) }));
+      await store.enqueue(buildTask({ id: 'email-new', queue: 'email', createdAt: new Date(2000) }));
+      await store.enqueue(buildTask({ id: 'default' }));
+
+      expect(await store.dequeue(['email', 'default'])).toBe('email-old');
+      expect(await store.dequeue()).toBe('ai');
+      expect(await store.getQueueLength('email')).toBe(1);
+      expect((await store.getQueueNames()).sort()).toEqual(['ai', 'default', 'email']);
+    });
+
+    it('should remove a task from the queue', async () => {
+      await store.enqueue(buildTask({ id: 'ready' }));
+      await store.enqueue(buildTask({ id: 'delayed' }), 5000);
+      expect([await store.isQueued('ready'), await store.isQueued('delayed')]).toEqual([true, true]);
+
+      await store.removeFromQueue('ready');
+      await store.removeFromQueue('delayed');
+
+      expect(await store.getQueueLength()).toBe(0);
+      expect(await store.isQueued('ready')).toBe(false);
+    });
+  });
+
+  describe('scheduled jobs', () => {
+    it('should share scheduled jobs between replicas and delete them with their runs', async () => {
+      const job: ScheduledJob = {
+        id: 'job-1',
+        name: 'Hourly',
+        type: 'report',
+        schedule: '@hourly',
+        timezone: 'UTC',
+        payload: {},
+        status: JobScheduleStatus.Active,
+        misfirePolicy: MisfirePolicy.RunOnce,
+        overlapPolicy: OverlapPolicy.Allow,
+        consecutiveFailures: 0,
+        lastRun: new Date('2025-01-01T10:00:00Z'),
+        nextRun: new Date('2025-01-01T11:00:00Z'),
+        createdAt: new Date('2025-01-01T09:00:00Z'),
+        updatedAt: new Date('2025-01-01T10:00:00Z'),
+      };
+      await store.saveScheduledJob(job);
+      await store.saveJobRun({
+        id: 'run-1',
+        jobId: job.id,
+        status: JobRunStatus.Pending,
+        scheduledAt: new Date('2025-01-01T10:00:00Z'),
+      });
+
+      expect(await replica.getScheduledJob(job.id)).toEqual(job);
+      expect(await replica.getScheduledJobs()).toEqual([job]);
+
+      await replica.deleteScheduledJob(job.id);
+
+      expect(await store.getScheduledJob(job.id)).toBeUndefined();
+      expect(await store.getJobRuns(job.id)).toEqual([]);
+    });
+  });
+
+  describe('task keys', () => {
+    it('should hold a key for its task until it expires or is released', async () => {
+      const now = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      expect(await store.reserveTaskKey('key', 'task-1', 1000)).toBe('task-1');
+      expect(await replica.reserveTaskKey('key', 'task-2', 1000)).toBe('task-1');
+
+      await replica.releaseTaskKey('key', 'task-2');
+      expect(await replica.reserveTaskKey('key', 'task-2', 1000)).toBe('task-1');
+
+      nowSpy.mockReturnValue(now + 1001);
+      expect(await replica.reserveTaskKey('key', 'task-2', 1000)).toBe('task-2');
+
+      await replica.releaseTaskKey('key', 'task-2');
+      expect(await store.reserveTaskKey('key', 'task-3', 1000)).toBe('task-3');
+    });
+  });
+});
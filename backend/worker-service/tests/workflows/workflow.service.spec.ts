@@ -0,0 +1,294 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { WorkflowService } from '../../src/workflows/workflow.service';
+import { WorkflowStatus } from '../../src/workflows/workflow.interface';
+import { QueueService } from '../../src/services/queue.service';
+import { CreateWorkflowDto } from '../../src/dto/workflow.dto';
+import { TASK_STORE } from '../../src/storage/task-store.interface';
+import { InMemoryTaskStore } from '../../src/storage/in-memory-task.store';
+import { TaskHandlerRegistry } from '../../src/processors/task-handler.registry';
+import { TASK_HANDLERS, TaskHandler } from '../../src/processors/task-handler.interface';
+import { JobStatus } from '../../../common/src/types/common';
+
+describe('WorkflowService', () => {
+  let service: WorkflowService;
+  let queueService: QueueService;
+
+  const pipeline = (overrides: Partial<CreateWorkflowDto> = {}): CreateWorkflowDto => ({
+    name: 'Import and report',
+    nodes: [
+      { key: 'import', type: 'import', payload: { source: 'crm' } },
+      { key: 'report', type: 'report', dependsOn: ['import'], inputs: { rows: 'import.records' } },
+      { key: 'email', type: 'email', dependsOn: ['report'] },
+    ],
+    ...overrides,
+  });
+
+  const taskIdOf = async (workflowId: string, key: string) =>
+    (await service.getWorkflow(workflowId)).nodes.find((node) => node.key === key)?.taskId as string;
+
+  /**
+   * Take the next queued task and finish it the way the processor would
+   */
+  const runNext = async (status: JobStatus.Completed | JobStatus.Failed, result?: unknown) => {
+    const task = await queueService.getNextTask();
+    expect(task).toBeDefined();
+    await queueService.updateTaskStatus(task!.id, JobStatus.Processing);
+    await queueService.updateTaskStatus(task!.id, status, status === JobStatus.Failed ? 'boom' : undefined, result);
+    return task!;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowService,
+        QueueService,
+        { provide: TASK_STORE, useClass: InMemoryTaskStore },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowService>(WorkflowService);
+    queueService = module.get<QueueService>(QueueService);
+  });
+
+  describe('createWorkflow', () => {
+    it('should create a task per node and only queue the roots', async () => {
+      const workflow = await service.createWorkflow(pipeline());
+
+      expect(workflow.status).toBe(WorkflowStatus.Pending);
+      expect(workflow.nodes.map((node) => node.key)).toEqual(['import', 'report', 'email']);
+      expect(workflow.nodes.map((node) => node.blocked)).toEqual([false, true, true]);
+
+      const report = await queueService.getTask(await taskIdOf(workflow.id, 'report'));
+      expect(report?.workflowId).toBe(workflow.id);
+      expect(report?.dependsOn).toEqual([await taskIdOf(workflow.id, 'import')]);
+
+      expect((await queueService.getNextTask())?.type).toBe('import');
+      expect(await queueService.getNextTask()).toBeUndefined();
+    });
+
+    it('should reject duplicate keys, unknown dependencies and cycles', async () => {
+      await expect(
+        service.createWorkflow({ name: 'dup', nodes: [{ key: 'a', type: 'x' }, { key: 'a', type: 'x' }] }),
+      ).rejects.toThrow(BadRequestException);
+
+      await expect(
+        service.createWorkflow({ name: 'unknown', nodes: [{ key: 'a', type: 'x', dependsOn: ['b'] }] }),
+      ).rejects.toThrow('unknown node b');
+
+      await expect(
+        service.createWorkflow({
+          name: 'cycle',
+          nodes: [
+            { key: 'root', type: 'x' },
+            { key: 'a', type: 'x', dependsOn: ['root', 'b'] },
+            { key: 'b', type: 'x', dependsOn: ['a'] },
+          ],
+        }),
+      ).rejects.toThrow('dependency cycle between: a, b');
+
+      expect(await queueService.getAllTasks()).toHaveLength(0);
+    });
+
+    it('should create nothing when the queue of a node is draining', async () => {
+      await queueService.drainQueue('email');
+
+      await expect(service.createWorkflow(pipeline())).rejects.toThrow('Queue email is draining');
+
+      expect(await service.listWorkflows()).toEqual([]);
+      expect(await queueService.getAllTasks()).toHaveLength(0);
+    });
+
+    it('should remove the created nodes and the workflow when a node fails to be created', async () => {
+      const createTask = queueService.createTask.bind(queueService);
+      jest
+        .spyOn(queueService, 'createTask')
+        .mockImplementationOnce(createTask)
+        .mockRejectedValueOnce(new BadRequestException('Queue reports is draining and does not accept new tasks'));
+
+      await expect(service.createWorkflow(pipeline())).rejects.toThrow('Queue reports is draining');
+
+      expect(await service.listWorkflows()).toEqual([]);
+      expect(await queueService.getAllTasks()).toHaveLength(0);
+      expect(await queueService.getNextTask()).toBeUndefined();
+    });
+  });
+
+  describe('execution', () => {
+    it('should release children with their parents\' results once the parents complete', async () => {
+      const workflow = await service.createWorkflow(pipeline());
+
+      await runNext(JobStatus.Completed, { records: [1, 2, 3] });
+
+      const report = await queueService.getNextTask();
+      expect(report?.type).toBe('report');
+      expect(report?.payload).toEqual({
+        parentResults: { import: { records: [1, 2, 3] } },
+        rows: [1, 2, 3],
+      });
+
+      const running = await service.getWorkflow(workflow.id);
+      expect(running.status).toBe(WorkflowStatus.Running);
+      expect(running.progress).toMatchObject({ total: 3, completed: 1, pending: 2, percent: 33 });
+    });
+
+    it('should wait for every parent of a fan-in node', async () => {
+      await service.createWorkflow({
+        name: 'fan-in',
+        nodes: [
+          { key: 'a', type: 'export' },
+          { key: 'b', type: 'export' },
+          { key: 'merge', type: 'report', dependsOn: ['a', 'b'] },
+        ],
+      });
+
+      await runNext(JobStatus.Completed, 'A');
+      expect((await queueService.getNextTask())?.type).toBe('export');
+      expect(await queueService.getNextTask()).toBeUndefined();
+    });
+
+    it('should complete the workflow when every node completes', async () => {
+      const workflow = await service.createWorkflow(pipeline());
+
+      await runNext(JobStatus.Completed, { records: [] });
+      await runNext(JobStatus.Completed, 'report');
+      await runNext(JobStatus.Completed, 'sent');
+
+      const finished = await service.getWorkflow(workflow.id);
+      expect(finished.status).toBe(WorkflowStatus.Completed);
+      expect(finished.progress.percent).toBe(100);
+      expect(finished.completedAt).toBeInstanceOf(Date);
+    });
+
+    it('should cancel all descendants of a failed node in propagate mode', async () => {
+      const workflow = await service.createWorkflow(pipeline());
+
+      await runNext(JobStatus.Failed);
+
+      const failed = await service.getWorkflow(workflow.id);
+      expect(failed.status).toBe(WorkflowStatus.Failed);
+      expect(failed.nodes.map((node) => node.status)).toEqual([
+        JobStatus.Failed,
+        JobStatus.Cancelled,
+        JobStatus.Cancelled,
+      ]);
+      expect(failed.nodes[1].error).toBe('Dependency import did not complete');
+      expect(await queueService.getNextTask()).toBeUndefined();
+    });
+
+    it('should run a tolerate node with the parent errors', async () => {
+      await service.createWorkflow(
+        pipeline({
+          nodes: [
+            { key: 'import', type: 'import' },
+            { key: 'report', type: 'report', dependsOn: ['import'], failureMode: 'tolerate' },
+          ],
+        }),
+      );
+
+      await runNext(JobStatus.Failed);
+
+      const report = await queueService.getNextTask();
+      expect(report?.type).toBe('report');
+      expect(report?.payload).toEqual({ parentResults: {}, parentErrors: { import: 'boom' } });
+    });
+  });
+
+  describe('payload validation', () => {
+    const exportHandler: TaskHandler = {
+      types: ['export'],
+      schemas: {
+        export: {
+          description: 'Export records',
+          payload: { type: 'object', required: ['records'], properties: { records: { type: 'array' } } },
+        },
+      },
+      handle: jest.fn(),
+    };
+    const importAndExport = (): CreateWorkflowDto => ({
+      name: 'Import and export',
+      nodes: [
+        { key: 'import', type: 'import' },
+        { key: 'export', type: 'export', dependsOn: ['import'], inputs: { records: 'import.records' } },
+        { key: 'email', type: 'email', dependsOn: ['export'] },
+      ],
+    });
+
+    beforeEach(async () => {
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          WorkflowService,
+          QueueService,
+          TaskHandlerRegistry,
+          { provide: TASK_HANDLERS, useValue: [exportHandler] },
+          { provide: TASK_STORE, useClass: InMemoryTaskStore },
+        ],
+      }).compile();
+
+      service = module.get<WorkflowService>(WorkflowService);
+      queueService = module.get<QueueService>(QueueService);
+    });
+
+    it('should create nothing when the payload of a root node is invalid', async () => {
+      await expect(
+        service.createWorkflow({ name: 'Export', nodes: [{ key: 'export', type: 'export', payload: {} }] }),
+      ).rejects.toThrow('Invalid payload for task type export: records is required');
+
+      expect(await service.listWorkflows()).toEqual([]);
+      expect(await queueService.getAllTasks()).toHaveLength(0);
+    });
+
+    it('should queue a node whose payload is valid once its parents\' results are merged in', async () => {
+      await service.createWorkflow(importAndExport());
+
+      await runNext(JobStatus.Completed, { records: [1, 2] });
+
+      expect((await queueService.getNextTask())?.type).toBe('export');
+    });
+
+    it('should fail a node whose payload is invalid with its parents\' results', async () => {
+      const workflow = await service.createWorkflow(importAndExport());
+
+      await runNext(JobStatus.Completed, { records: 'none' });
+
+      const failed = await service.getWorkflow(workflow.id);
+      expect(failed.status).toBe(WorkflowStatus.Failed);
+      expect(failed.nodes.map((node) => node.status)).toEqual([
+        JobStatus.Completed,
+        JobStatus.Failed,
+        JobStatus.Cancelled,
+      ]);
+      expect(failed.nodes[1].error).toBe('Invalid payload for task type export: records must be of type array');
+      expect(await queueService.getNextTask()).toBeUndefined();
+    });
+  });
+
+  describe('cancelWorkflow', () => {
+    it('should cancel every unfinished node', async () => {
+      const workflow = await service.createWorkflow({ ...pipeline(), failureMode: 'tolerate' });
+
+      const cancelled = await service.cancelWorkflow(workflow.id);
+
+      expect(cancelled.status).toBe(WorkflowStatus.Cancelled);
+      expect(cancelled.nodes.every((node) => node.status === JobStatus.Cancelled)).toBe(true);
+      expect(await queueService.getNextTask()).toBeUndefined();
+      await expect(service.cancelWorkflow(workflow.id)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('getWorkflow / listWorkflows', () => {
+    it('should throw NotFoundException for an unknown workflow', async () => {
+      await expect(service.getWorkflow('missing')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should filter workflows by status', async () => {
+      const first = await service.createWorkflow(pipeline());
+      await service.createWorkflow(pipeline({ name: 'second' }));
+      await service.cancelWorkflow(first.id);
+
+      const pending = await service.listWorkflows({ status: WorkflowStatus.Pending });
+      expect(pending.map((workflow) => workflow.name)).toEqual(['second']);
+      expect(await service.listWorkflows()).toHaveLength(2);
+    });
+  });
+});
@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import ChatWindow from '@/components/ai-chat/ChatWindow';
 import ChatInput from '@/components/ai-chat/ChatInput';
-import { useChatMessage } from '@/hooks/useAI';
+import { PendingAction, useChatStream } from '@/hooks/useAI';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
 
 export interface Message {
@@ -16,10 +16,14 @@ export interface Message {
 export default function AIChat() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [conversationId, setConversationId] = useState<string | null>(null);
+  // Only the next message can confirm it
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
   
-  const { chat, loading } = useChatMessage();
+  const { stream, loading, streaming } = useChatStream();
+
+  const handleSendMessage = async (message: string, confirmActionId?: string) => {
+    setPendingAction(null);
 
-  const handleSendMessage = async (message: string) => {
     const userMessage: Message = {
       id: `${Date.now()}-user`,
       role: 'USER',
@@ -29,8 +33,18 @@ export default function AIChat() {
     
     setMessages(prev => [...prev, userMessage]);
 
+    // Filled in token by token as the response streams in
+    const assistantId = `${Date.now()}-assistant`;
+    const appendToken = (token: string) => {
+      setMessages(prev =>
+        prev.some(m => m.id === assistantId)
+          ? prev.map(m => (m.id === assistantId ? { ...m, content: m.content + token } : m))
+          : [...prev, { id: assistantId, role: 'ASSISTANT', content: token, timestamp: new Date() }]
+      );
+    };
+
     try {
-      const response = await chat({
+      const response = await stream({
         messages: [
           {
             role: 'USER',
@@ -47,22 +61,22 @@ export default function AIChat() {
           temperature: 0.7,
           maxTokens: 1000,
         },
-      });
+        confirmActionId,
+      }, appendToken);
 
-      if (response) {
-        if (response.conversationId) {
-          setConversationId(response.conversationId);
-        }
+      if (response.conversationId) {
+        setConversationId(response.conversationId);
+      }
+      setPendingAction(response.pendingAction ?? null);
 
-        const assistantMessage: Message = {
-          id: `${Date.now()}-assistant`,
-          role: response.role,
-          content: response.message,
-          timestamp: new Date(response.timestamp),
-        };
+      const assistantMessage: Message = {
+        id: assistantId,
+        role: response.role,
+        content: response.message,
+        timestamp: new Date(response.timestamp),
+      };
 
-        setMessages(prev => [...prev, assistantMessage]);
-      }
+      setMessages(prev => [...prev.filter(m => m.id !== assistantId), assistantMessage]);
     } catch {
       // Handle error silently or use proper error handling
       const errorMessage: Message = {
@@ -72,18 +86,20 @@ export default function AIChat() {
         timestamp: new Date(),
       };
       
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => [...prev.filter(m => m.id !== assistantId), errorMessage]);
     }
   };
 
   const handleClearChat = () => {
     setMessages([]);
     setConversationId(null);
+    setPendingAction(null);
   };
 
   const handleNewChat = () => {
     setMessages([]);
     setConversationId(null);
+    setPendingAction(null);
   };
 
   return (
@@ -117,10 +133,34 @@ export default function AIChat() {
           <ChatWindow messages={messages} loading={loading} />
         </div>
         
+        {pendingAction && (
+          <div className="border-t border-gray-200 dark:border-gray-700 p-4 bg-yellow-50 dark:bg-yellow-900/20 flex items-center justify-between gap-4">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              The assistant wants to run an action: {pendingAction.description}
+            </p>
+            <div className="flex space-x-3 shrink-0">
+              <button
+                onClick={() => handleSendMessage('Yes, go ahead.', pendingAction.id)}
+                disabled={loading || streaming}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Confirm
+              </button>
+              <button
+                onClick={() => setPendingAction(null)}
+                disabled={loading || streaming}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="border-t border-gray-200 dark:border-gray-700 p-4">
           <ChatInput 
             onSendMessage={handleSendMessage} 
-            disabled={loading}
+            disabled={loading || streaming}
           />
         </div>
       </div>
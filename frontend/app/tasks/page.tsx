@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import TaskTable from '@/components/tasks/TaskTable';
 import TaskDetailPanel from '@/components/tasks/TaskDetailPanel';
 import { useTasks, useCreateTask, useCancelTask, type Task, type TaskFilters } from '@/hooks/useTasks';
@@ -18,6 +18,10 @@ export default function TasksPage() {
   const { tasks, total, loading, error, refetch } = useTasks(filters);
   const { createTask, loading: creating } = useCreateTask();
   const { cancelTask } = useCancelTask();
+  const [cancellingTaskIds, setCancellingTaskIds] = useState<Set<string>>(new Set());
+  // Shared by repeated clicks with the same input until a task is created, so a double-click
+  // creates one task; a different input gets a new key
+  const createKeyRef = useRef<{ key: string; input: string } | null>(null);
 
   const handleStatusFilter = (status: string) => {
     setFilters({ ...filters, status, offset: 0 });
@@ -29,7 +33,10 @@ export default function TasksPage() {
 
   const handleCancelTask = async (taskId: string) => {
     try {
-      await cancelTask(taskId);
+      const result = await cancelTask(taskId);
+      if (result?.state === 'CANCELLING') {
+        setCancellingTaskIds((ids) => new Set(ids).add(taskId));
+      }
       refetch();
       if (selectedTask?.id === taskId) {
         setSelectedTask(null);
@@ -40,8 +47,14 @@ export default function TasksPage() {
   };
 
   const handleCreateTask = async (type: string, payload: Record<string, unknown>) => {
+    const input = JSON.stringify({ type, payload });
+    if (createKeyRef.current?.input !== input) {
+      createKeyRef.current = { key: crypto.randomUUID(), input };
+    }
+
     try {
-      await createTask({ type, payload });
+      await createTask({ type, payload, idempotencyKey: createKeyRef.current.key });
+      createKeyRef.current = null;
       refetch();
     } catch {
       // Handle error silently or use proper error reporting
@@ -132,6 +145,7 @@ export default function TasksPage() {
             loading={loading}
             onTaskSelect={handleTaskSelect}
             onCancelTask={handleCancelTask}
+            cancellingTaskIds={cancellingTaskIds}
             onPageChange={handlePagination}
             currentOffset={filters.offset || 0}
             limit={filters.limit || 50}
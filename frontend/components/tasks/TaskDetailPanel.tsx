@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import type { Task } from '@/hooks/useTasks';
+import TaskProgressBar from './TaskProgressBar';
 
 interface TaskLog {
   timestamp: string;
@@ -59,18 +60,14 @@ export default function TaskDetailPanel({ task, onClose }: Pick<TaskDetailPanelP
 
   const getStatusColor = (status: Task['status']) => {
     switch (status) {
-      case 'completed':
+      case 'COMPLETED':
         return 'text-green-600 dark:text-green-400';
-      case 'processing':
+      case 'IN_PROGRESS':
         return 'text-blue-600 dark:text-blue-400';
-      case 'pending':
+      case 'PENDING':
         return 'text-yellow-600 dark:text-yellow-400';
-      case 'failed':
+      case 'FAILED':
         return 'text-red-600 dark:text-red-400';
-      case 'cancelled':
-        return 'text-gray-600 dark:text-gray-400';
-      case 'retrying':
-        return 'text-orange-600 dark:text-orange-400';
       default:
         return 'text-gray-600 dark:text-gray-400';
     }
@@ -190,10 +187,23 @@ export default function TaskDetailPanel({ task, onClose }: Pick<TaskDetailPanelP
                 {'Status'}
               </label>
               <p className={`text-sm font-semibold uppercase ${getStatusColor(task.status)}`}>
-                {task.status}
+                {task.status.replace('_', ' ')}
               </p>
             </div>
 
+            {/* Progress */}
+            {task.progress != null && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {'Progress'}
+                </label>
+                <TaskProgressBar progress={task.progress} showDetails />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {'Last update'} {formatDate(task.progress.updatedAt)}
+                </p>
+              </div>
+            )}
+
              {/* Timestamps */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -236,6 +246,18 @@ export default function TaskDetailPanel({ task, onClose }: Pick<TaskDetailPanelP
                 </pre>
               </div>
             )}
+
+            {/* Partial result */}
+            {task.result == null && task.partialResult != null && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {'Partial Result'}
+                </label>
+                <pre className="text-sm text-gray-900 dark:text-gray-100 bg-gray-50 dark:bg-gray-700 p-3 rounded overflow-x-auto">
+                  {String(JSON.stringify(task.partialResult, null, 2))}
+                </pre>
+              </div>
+            )}
           </div>
         )}
 
@@ -0,0 +1,37 @@
+import type { TaskProgress } from '@/hooks/useTasks';
+
+interface TaskProgressBarProps {
+  progress: TaskProgress;
+  showDetails?: boolean;
+}
+
+export default function TaskProgressBar({ progress, showDetails = false }: TaskProgressBarProps) {
+  const percent = Math.round(Math.min(Math.max(progress.percent, 0), 100));
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center gap-2">
+        <div
+          className="flex-1 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+        >
+          <div
+            className="h-full bg-blue-600 dark:bg-blue-500 rounded-full transition-all"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+        <span className="text-xs font-medium text-gray-600 dark:text-gray-400 w-9 text-right">{percent}%</span>
+      </div>
+      {showDetails && (progress.step || progress.message) && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          {progress.step}
+          {progress.step && progress.message && ' • '}
+          {progress.message}
+        </p>
+      )}
+    </div>
+  );
+}
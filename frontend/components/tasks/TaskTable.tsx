@@ -1,4 +1,5 @@
 import type { Task } from '@/hooks/useTasks';
+import TaskProgressBar from './TaskProgressBar';
 
 interface TaskTableProps {
   tasks: Task[];
@@ -6,6 +7,8 @@ interface TaskTableProps {
   error?: { message: string };
   onTaskSelect: (task: Task) => void;
   onCancelTask: (taskId: string) => void;
+  /** Running tasks asked to cancel that are still stopping */
+  cancellingTaskIds?: Set<string>;
   selectedTaskId?: string;
   currentOffset: number;
   limit: number;
@@ -19,6 +22,7 @@ export default function TaskTable({
   error,
   onTaskSelect,
   onCancelTask,
+  cancellingTaskIds,
   selectedTaskId,
   currentOffset,
   limit,
@@ -27,18 +31,14 @@ export default function TaskTable({
 }: TaskTableProps) {
   const getStatusColor = (status: Task['status']) => {
     switch (status) {
-      case 'completed':
+      case 'COMPLETED':
         return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
-      case 'processing':
+      case 'IN_PROGRESS':
         return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
-      case 'pending':
+      case 'PENDING':
         return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
-      case 'failed':
+      case 'FAILED':
         return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
-      case 'cancelled':
-        return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
-      case 'retrying':
-        return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
       default:
         return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
     }
@@ -144,8 +144,13 @@ export default function TaskTable({
                         task.status
                       )}`}
                     >
-                      {task.status}
+                      {task.status.replace('_', ' ').toLowerCase()}
                     </span>
+                    {task.progress && task.status === 'IN_PROGRESS' && (
+                      <div className="mt-2 w-32">
+                        <TaskProgressBar progress={task.progress} />
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
                     {formatDate(task.createdAt)}
@@ -154,7 +159,9 @@ export default function TaskTable({
                     {formatDate(task.updatedAt)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    {(task.status === 'pending' || task.status === 'processing') && (
+                    {task.status === 'IN_PROGRESS' && cancellingTaskIds?.has(task.id) ? (
+                      <span className="text-gray-500 dark:text-gray-400">{'Cancelling...'}</span>
+                    ) : (task.status === 'PENDING' || task.status === 'IN_PROGRESS') && (
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -4,6 +4,7 @@
 declare namespace NodeJS {
   interface ProcessEnv {
     NEXT_PUBLIC_API_URL: string;
+    NEXT_PUBLIC_GRAPHQL_WS_URL?: string;
     DATABASE_URL: string;
   }
 }
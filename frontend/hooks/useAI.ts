@@ -1,9 +1,20 @@
 'use client';
 
+import { useEffect, useRef, useState } from 'react';
 import { gql } from '@apollo/client';
-import { useMutation, useQuery } from "@apollo/client/react";
+import { useApolloClient, useMutation, useQuery } from "@apollo/client/react";
 
 // Define interfaces
+/**
+ * An action that changes data, proposed by the assistant. It runs only if the next message confirms it.
+ */
+export interface PendingAction {
+  id: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  description: string;
+}
+
 export interface ChatMessage {
   message: string;
   role: 'USER' | 'ASSISTANT' | 'SYSTEM';
@@ -11,6 +22,7 @@ export interface ChatMessage {
   tokensUsed?: number;
   model?: string;
   timestamp: string;
+  pendingAction?: PendingAction;
 }
 
 export interface ChatRequestInput {
@@ -18,6 +30,7 @@ export interface ChatRequestInput {
   userId?: string;
   context?: Record<string, unknown>;
   options?: ChatOptionsInput;
+  confirmActionId?: string;
 }
 
 export interface ChatMessageInput {
@@ -32,6 +45,18 @@ export interface ChatOptionsInput {
   model?: string;
 }
 
+export interface ChatStreamEvent {
+  conversationId: string;
+  token?: string;
+  done: boolean;
+  message?: string;
+  messageId?: string;
+  tokensUsed?: number;
+  model?: string;
+  timestamp?: string;
+  pendingAction?: PendingAction;
+}
+
 export interface Insight {
   id: string;
   title: string;
@@ -73,6 +98,27 @@ const SEND_CHAT_MESSAGE = gql`
   }
 `;
 
+const CHAT_STREAM = gql`
+  subscription ChatStream($input: ChatRequestInput!) {
+    chatStream(input: $input) {
+      conversationId
+      token
+      done
+      message
+      messageId
+      tokensUsed
+      model
+      timestamp
+      pendingAction {
+        id
+        tool
+        arguments
+        description
+      }
+    }
+  }
+`;
+
 const GET_INSIGHTS = gql`
   query GetInsights($input: InsightRequestInput!) {
     insights(input: $input) {
@@ -140,6 +186,22 @@ const GET_CHAT_HISTORY = gql`
   }
 `;
 
+const validateChatInput = (input: ChatRequestInput) => {
+  if (!input.messages || !Array.isArray(input.messages)) {
+    throw new Error('Chat request must include a "messages" array');
+  }
+
+  if (input.messages.length === 0) {
+    throw new Error('Chat request must include at least one message');
+  }
+
+  for (const message of input.messages) {
+    if (!message.role || !message.content) {
+      throw new Error('Each message must have a role and content');
+    }
+  }
+};
+
 // Custom hooks
 export function useChatMessage() {
   const [sendMessage, { loading, error }] = useMutation<{ chat: ChatMessage }>(
@@ -148,21 +210,8 @@ export function useChatMessage() {
 
   const chat = async (input: ChatRequestInput) => {
     // Validate input before sending
-    if (!input.messages || !Array.isArray(input.messages)) {
-      throw new Error('Chat request must include a "messages" array');
-    }
-    
-    if (input.messages.length === 0) {
-      throw new Error('Chat request must include at least one message');
-    }
-    
-    // Validate each message
-    for (const message of input.messages) {
-      if (!message.role || !message.content) {
-        throw new Error('Each message must have a role and content');
-      }
-    }
-    
+    validateChatInput(input);
+
     // eslint-disable-next-line no-console
     console.log('📤 Sending chat request:', JSON.stringify(input, null, 2));
     
@@ -179,6 +228,89 @@ export function useChatMessage() {
   };
 }
 
+/**
+ * Send a chat message and receive the response token by token over the chatStream subscription.
+ * `loading` is true until the first token arrives, `streaming` until the response is complete.
+ */
+export function useChatStream() {
+  const client = useApolloClient();
+  const [loading, setLoading] = useState(false);
+  const [streaming, setStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const subscriptionRef = useRef<{ unsubscribe: () => void } | null>(null);
+
+  // Close the subscription if the component unmounts mid-response
+  useEffect(() => () => subscriptionRef.current?.unsubscribe(), []);
+
+  const stream = (input: ChatRequestInput, onToken: (token: string) => void) => {
+    validateChatInput(input);
+    subscriptionRef.current?.unsubscribe();
+    setError(null);
+    setLoading(true);
+    setStreaming(true);
+
+    return new Promise<ChatMessage>((resolve, reject) => {
+      let settled = false;
+      const finish = (err?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        subscriptionRef.current?.unsubscribe();
+        subscriptionRef.current = null;
+        setLoading(false);
+        setStreaming(false);
+        if (err) {
+          setError(err.message);
+          reject(err);
+        }
+      };
+
+      subscriptionRef.current = client
+        .subscribe<{ chatStream: ChatStreamEvent }>({ query: CHAT_STREAM, variables: { input } })
+        .subscribe({
+          next: ({ data, error: resultError }) => {
+            if (resultError) {
+              finish(new Error(resultError.message));
+              return;
+            }
+
+            const event = data?.chatStream;
+            if (!event) {
+              return;
+            }
+
+            if (!event.done) {
+              setLoading(false);
+              onToken(event.token ?? '');
+              return;
+            }
+
+            resolve({
+              message: event.message ?? '',
+              role: 'ASSISTANT',
+              conversationId: event.conversationId,
+              tokensUsed: event.tokensUsed,
+              model: event.model,
+              timestamp: event.timestamp ?? new Date().toISOString(),
+              pendingAction: event.pendingAction,
+            });
+            finish();
+          },
+          error: (err: Error) => finish(err),
+          complete: () => finish(new Error('Chat stream ended before the response was complete')),
+        });
+    });
+  };
+
+  return {
+    stream,
+    loading,
+    streaming,
+    error,
+  };
+}
+
 export function useInsights(input: InsightRequestInput) {
   const { data, loading, error, refetch } = useQuery<{ insights: Insight[] }>(
     GET_INSIGHTS,
@@ -3,14 +3,29 @@
 import { gql } from '@apollo/client';
 import { useQuery, useMutation } from "@apollo/client/react";
 
+export interface TaskProgress {
+  percent: number;
+  step?: string;
+  message?: string;
+  updatedAt: string;
+}
+
+/**
+ * Task status as the gateway's TaskStatus enum returns it. Retrying and cancelling tasks are
+ * IN_PROGRESS; cancelled tasks are FAILED.
+ */
+export type TaskStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
+
 // Define the Task interface
 export interface Task {
   id: string;
   type: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'retrying';
+  status: TaskStatus;
   payload: Record<string, unknown>;
   result?: unknown;
   error?: string;
+  progress?: TaskProgress;
+  partialResult?: unknown;
   createdAt: string;
   updatedAt: string;
 }
@@ -27,9 +42,19 @@ export interface TasksResponse {
   total: number;
 }
 
+export interface TaskCancellationResult {
+  taskId: string;
+  /** False while a running task is still stopping */
+  cancelled: boolean;
+  /** The gateway's CancellationState enum: CANCELLING while a running task is still stopping */
+  state: 'CANCELLED' | 'CANCELLING';
+}
+
 export interface CreateTaskInput {
   type: string;
   payload: Record<string, unknown>;
+  /** Reuse when retrying the same submission so it creates at most one task */
+  idempotencyKey?: string;
 }
 
 // GraphQL Queries and Mutations
@@ -43,6 +68,13 @@ const GET_TASKS = gql`
         payload
         result
         error
+        progress {
+          percent
+          step
+          message
+          updatedAt
+        }
+        partialResult
         createdAt
         updatedAt
       }
@@ -60,6 +92,13 @@ const GET_TASK = gql`
       payload
       result
       error
+      progress {
+        percent
+        step
+        message
+        updatedAt
+      }
+      partialResult
       createdAt
       updatedAt
     }
@@ -80,7 +119,11 @@ const CREATE_TASK = gql`
 
 const CANCEL_TASK = gql`
   mutation CancelTask($taskId: String!) {
-    cancelTask(taskId: $taskId)
+    cancelTask(taskId: $taskId) {
+      taskId
+      cancelled
+      state
+    }
   }
 `;
 
@@ -93,6 +136,13 @@ const RETRY_TASK = gql`
       payload
       result
       error
+      progress {
+        percent
+        step
+        message
+        updatedAt
+      }
+      partialResult
       createdAt
       updatedAt
     }
@@ -154,7 +204,7 @@ export function useCreateTask() {
 }
 
 export function useCancelTask() {
-  const [cancelTaskMutation, { loading, error }] = useMutation<{ cancelTask: boolean }>(
+  const [cancelTaskMutation, { loading, error }] = useMutation<{ cancelTask: TaskCancellationResult }>(
     CANCEL_TASK
   );
 
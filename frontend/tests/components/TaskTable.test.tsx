@@ -0,0 +1,90 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import TaskTable from '@/components/tasks/TaskTable';
+import type { Task, TasksResponse } from '@/hooks/useTasks';
+
+// Tasks as the gateway's `tasks` query returns them: enum names for the status, ISO dates
+const response = {
+  data: {
+    tasks: {
+      tasks: [
+        {
+          id: '3f1c2d4e-7a8b-4c9d-8e0f-1a2b3c4d5e6f',
+          type: 'report',
+          status: 'IN_PROGRESS',
+          payload: {},
+          result: null,
+          error: null,
+          progress: { percent: 40, step: 'aggregate', message: null, updatedAt: '2025-11-17T10:30:00.000Z' },
+          partialResult: null,
+          createdAt: '2025-11-17T10:29:00.000Z',
+          updatedAt: '2025-11-17T10:30:00.000Z',
+        },
+        {
+          id: '9b8a7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d',
+          type: 'export',
+          status: 'COMPLETED',
+          payload: {},
+          result: { rows: 10 },
+          error: null,
+          progress: { percent: 100, step: null, message: null, updatedAt: '2025-11-17T10:31:00.000Z' },
+          partialResult: null,
+          createdAt: '2025-11-17T10:29:00.000Z',
+          updatedAt: '2025-11-17T10:31:00.000Z',
+        },
+      ],
+      total: 2,
+    },
+  },
+};
+
+const render = (tasks: Task[], cancellingTaskIds?: Set<string>) =>
+  renderToStaticMarkup(
+    <TaskTable
+      tasks={tasks}
+      cancellingTaskIds={cancellingTaskIds}
+      loading={false}
+      onTaskSelect={() => undefined}
+      onCancelTask={() => undefined}
+      currentOffset={0}
+      limit={50}
+      total={tasks.length}
+      onPageChange={() => undefined}
+    />
+  );
+
+const rowOf = (markup: string, task: Task) => {
+  const start = markup.indexOf(task.id.substring(0, 8));
+  return markup.slice(start, markup.indexOf('</tr>', start));
+};
+
+describe('TaskTable', () => {
+  const [running, completed] = (response.data.tasks as unknown as TasksResponse).tasks;
+
+  it('should show the progress of an in-progress task', () => {
+    const row = rowOf(render([running]), running);
+
+    expect(row).toContain('in progress');
+    expect(row).toContain('role="progressbar"');
+    expect(row).toContain('aria-valuenow="40"');
+  });
+
+  it('should not show the progress of a finished task', () => {
+    expect(rowOf(render([completed]), completed)).not.toContain('role="progressbar"');
+  });
+
+  it('should offer to cancel unfinished tasks only', () => {
+    const pending: Task = { ...completed, id: '5d4c3b2a-1f0e-4d9c-8b7a-6f5e4d3c2b1a', status: 'PENDING' };
+    const markup = render([running, completed, pending]);
+
+    expect(rowOf(markup, running)).toContain('Cancel');
+    expect(rowOf(markup, completed)).not.toContain('Cancel');
+    expect(rowOf(markup, pending)).toContain('Cancel');
+  });
+
+  it('should show a task still stopping after a CANCELLING cancellation', () => {
+    const row = rowOf(render([running], new Set([running.id])), running);
+
+    expect(row).toContain('Cancelling...');
+    expect(row).not.toContain('<button');
+  });
+});
@@ -1,5 +1,8 @@
 // utils/apollo-client.ts
 import { ApolloClient, InMemoryCache, HttpLink, ApolloLink } from '@apollo/client';
+import { GraphQLWsLink } from '@apollo/client/link/subscriptions';
+import { OperationTypeNode } from 'graphql';
+import { createClient } from 'graphql-ws';
 
 // Auth middleware link - adds JWT token to requests
 const authLink = new ApolloLink((operation, forward) => {
@@ -70,9 +73,39 @@ const httpLink = new HttpLink({
   }
 });
 
+// WebSocket endpoint for subscriptions
+// The Next.js API route proxy only forwards HTTP, so the browser connects to the gateway directly:
+// at NEXT_PUBLIC_GRAPHQL_WS_URL, or else at the gateway's GraphQL URL over ws(s)
+const getGraphQLWsUri = () => {
+  if (process.env.NEXT_PUBLIC_GRAPHQL_WS_URL) {
+    return process.env.NEXT_PUBLIC_GRAPHQL_WS_URL;
+  }
+  if (!process.env.NEXT_PUBLIC_API_URL) {
+    throw new Error('Set NEXT_PUBLIC_GRAPHQL_WS_URL or NEXT_PUBLIC_API_URL to use subscriptions');
+  }
+  return process.env.NEXT_PUBLIC_API_URL.replace(/^http/, 'ws');
+};
+
+// The JWT goes in the connection params, since browsers can't set headers on a WebSocket
+const getConnectionParams = (): Record<string, string> => {
+  const token = localStorage.getItem('authToken');
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// Subscriptions only run in the browser; during SSR every operation goes over HTTP.
+// The socket opens on the first subscription, so the URL and token are read then
+const link =
+  typeof window !== 'undefined'
+    ? ApolloLink.split(
+        (operation) => operation.operationType === OperationTypeNode.SUBSCRIPTION,
+        new GraphQLWsLink(createClient({ url: getGraphQLWsUri, connectionParams: getConnectionParams })),
+        authLink.concat(httpLink),
+      )
+    : authLink.concat(httpLink);
+
 // Create Apollo Client
 const client = new ApolloClient({
-  link: authLink.concat(httpLink), // combine auth and http links
+  link,                            // subscriptions over WebSocket, everything else over HTTP
   cache: new InMemoryCache(),      // caching
   defaultOptions: {
     watchQuery: {